@@ -0,0 +1,65 @@
+/**
+ * Pipedrive discovery for tenant configuration
+ *
+ * POST { tenantId, companyDomain?, apiKey? } - list the account's deal fields, pipelines and stages with a suggested
+ *                                              field mapping and any mapped keys that no longer exist
+ *
+ * The domain and API key default to the tenant's saved configuration, so a new tenant can be discovered before it is
+ * saved. Nothing is stored; the admin confirms the mapping by saving the tenant configuration.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute, getSessionTenantIds, isAdminSession } from '@/lib/api/middleware';
+import { resolvePipedriveConfig } from '@/lib/utils/tenantConfig';
+import { discoverPipedriveAccount } from '@/lib/utils/pipedriveFieldDiscovery';
+import { logger } from '@/lib/logger';
+
+export const POST = createProtectedRoute(async (req, context) => {
+  if (!isAdminSession(context.session)) {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const tenantId = typeof body.tenantId === 'string' ? body.tenantId.trim() : '';
+  if (tenantId && !(await getSessionTenantIds(context.session)).includes(tenantId)) {
+    return NextResponse.json({ success: false, error: `Tenant ${tenantId} is not connected to your Xero account` }, { status: 403 });
+  }
+  const existing = tenantId ? await resolvePipedriveConfig(tenantId) : null;
+
+  const companyDomain = (typeof body.companyDomain === 'string' && body.companyDomain.trim()) || existing?.companyDomain;
+  const apiKey = (typeof body.apiKey === 'string' && body.apiKey.trim()) || existing?.apiKey;
+
+  if (!companyDomain || !/^[a-z0-9-]+$/i.test(companyDomain)) {
+    return NextResponse.json({ success: false, error: 'companyDomain is required' }, { status: 400 });
+  }
+  if (!apiKey) {
+    return NextResponse.json({
+      success: false,
+      error: 'No Pipedrive API key is configured for this tenant; enter one to run discovery'
+    }, { status: 400 });
+  }
+
+  try {
+    const discovery = await discoverPipedriveAccount(apiKey, companyDomain, existing?.customFieldKeys);
+    logger.info({
+      tenantId,
+      companyDomain,
+      fields: discovery.fields.length,
+      pipelines: discovery.pipelines.length,
+      missingFields: discovery.missingFields.length
+    }, 'Pipedrive discovery completed');
+    return NextResponse.json({ success: true, ...discovery });
+  } catch (error) {
+    logger.error({ tenantId, companyDomain, error: (error as Error).message }, 'Pipedrive discovery failed');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Pipedrive discovery failed'
+    }, { status: 502 });
+  }
+});
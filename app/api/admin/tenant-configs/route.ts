@@ -0,0 +1,119 @@
+/**
+ * Admin API for tenant Pipedrive configurations
+ *
+ * GET                    - list the configured tenants the user has connected, without API keys
+ * POST                   - create or replace a tenant's configuration: { tenantId, companyDomain, pipelineIds, pipelineNames?,
+ *                          invoiceStageId?, invoicePipelineId?, customFieldKeys, enabled, tenantName?, validationRules?, apiKey?, clearApiKey? }
+ * DELETE ?tenantId=ID    - remove a tenant's stored configuration (built-in tenants fall back to their defaults)
+ *
+ * Restricted to ADMIN_EMAILS, and to tenants the admin has connected through Xero. Changes apply to the next request; no deploy is needed.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute, getSessionTenantIds, isAdminSession } from '@/lib/api/middleware';
+import { listTenantConfigs } from '@/lib/utils/tenantConfig';
+import {
+  TenantConfigStore,
+  saveTenantConfig,
+  validateTenantConfigInput,
+  type TenantConfigInput
+} from '@/lib/utils/tenantConfigStore';
+import { isSecretEncryptionConfigured, SecretEncryptionError } from '@/lib/utils/secretEncryption';
+import { logger } from '@/lib/logger';
+
+const forbidden = () => NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+const tenantForbidden = (tenantId: string) =>
+  NextResponse.json({ success: false, error: `Tenant ${tenantId} is not connected to your Xero account` }, { status: 403 });
+
+export const GET = createProtectedRoute(async (req, context) => {
+  if (!isAdminSession(context.session)) return forbidden();
+
+  try {
+    const tenantIds = new Set(await getSessionTenantIds(context.session));
+    const tenants = (await listTenantConfigs()).filter(tenant => tenantIds.has(tenant.tenantId));
+    return NextResponse.json({ success: true, tenants, encryptionConfigured: isSecretEncryptionConfigured() });
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to list tenant configurations');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list tenant configurations'
+    }, { status: 500 });
+  }
+});
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { session } = context;
+  if (!isAdminSession(session)) return forbidden();
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const tenantId = typeof body.tenantId === 'string' ? body.tenantId.trim() : '';
+  if (!/^[0-9a-f-]{36}$/i.test(tenantId)) {
+    return NextResponse.json({ success: false, error: 'tenantId must be a Xero tenant ID' }, { status: 400 });
+  }
+  if (!(await getSessionTenantIds(session)).includes(tenantId)) return tenantForbidden(tenantId);
+
+  const input: TenantConfigInput = {
+    tenantName: body.tenantName,
+    companyDomain: typeof body.companyDomain === 'string' ? body.companyDomain.trim() : body.companyDomain,
+    pipelineIds: body.pipelineIds,
+    pipelineNames: body.pipelineNames || undefined,
+    invoiceStageId: body.invoiceStageId ?? undefined,
+    invoicePipelineId: body.invoicePipelineId ?? undefined,
+    customFieldKeys: body.customFieldKeys,
+    enabled: body.enabled,
+    validationRules: body.validationRules || undefined,
+    apiKey: body.apiKey || undefined,
+    clearApiKey: body.clearApiKey === true
+  };
+
+  const validationError = validateTenantConfigInput(input);
+  if (validationError) {
+    return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+  }
+
+  try {
+    const { encryptedApiKey, ...saved } = await saveTenantConfig(tenantId, input, session?.user?.email);
+    logger.info({ tenantId, updatedBy: saved.updatedBy, apiKeyChanged: !!input.apiKey || input.clearApiKey }, 'Tenant configuration saved');
+    return NextResponse.json({ success: true, tenant: { ...saved, hasApiKey: !!encryptedApiKey } });
+  } catch (error) {
+    if (error instanceof SecretEncryptionError) {
+      return NextResponse.json({ success: false, error: `Cannot store the API key: ${error.message}` }, { status: 400 });
+    }
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to save tenant configuration');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save tenant configuration'
+    }, { status: 500 });
+  }
+});
+
+export const DELETE = createProtectedRoute(async (req, context) => {
+  if (!isAdminSession(context.session)) return forbidden();
+
+  const tenantId = req.nextUrl.searchParams.get('tenantId');
+  if (!tenantId) {
+    return NextResponse.json({ success: false, error: 'tenantId is required' }, { status: 400 });
+  }
+  if (!(await getSessionTenantIds(context.session)).includes(tenantId)) return tenantForbidden(tenantId);
+
+  try {
+    const deleted = await TenantConfigStore.delete(tenantId);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: `No stored configuration for tenant ${tenantId}` }, { status: 404 });
+    }
+    logger.info({ tenantId, deletedBy: context.session?.user?.email }, 'Tenant configuration deleted');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to delete tenant configuration');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete tenant configuration'
+    }, { status: 500 });
+  }
+});
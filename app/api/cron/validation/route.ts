@@ -0,0 +1,36 @@
+/**
+ * Cron endpoint for scheduled background validation
+ *
+ * GET - run every validation schedule that is due (requires `Authorization: Bearer $CRON_SECRET`)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runScheduledValidations } from '@/lib/scheduler/validationScheduler';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Validation of several tenants can take a few minutes
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await runScheduledValidations();
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Scheduled validation failed';
+
+    if (message.includes('Failed to acquire lock')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Scheduled validation is already running'
+      }, { status: 409 });
+    }
+
+    logger.error({ error: message }, 'Scheduled validation pass failed');
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
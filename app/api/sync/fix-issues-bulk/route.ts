@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureValidToken } from '@/lib/ensureXeroToken';
+import { fixIssue } from '@/lib/fixes/issueFixer';
+import { generateBulkFixReport, BulkFixIssueResult, BulkFixSummary } from '@/lib/fixes/bulkFixReport';
+import { ExcelReportService } from '@/lib/timesheet/services/ExcelReportService';
+import { SmartRateLimit } from '@/lib/smartRateLimit';
+import { waitForXeroRateLimit } from '@/lib/xeroApiTracker';
+
+interface BulkFixIssue {
+  dealId: string | number;
+  issueCode: string;
+  dealTitle?: string;
+  dealData?: any;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const issues: BulkFixIssue[] = Array.isArray(body?.issues) ? body.issues : [];
+
+  if (issues.length === 0) {
+    return NextResponse.json({
+      error: 'No issues provided'
+    }, { status: 400 });
+  }
+
+  const invalid = issues.findIndex(issue => !issue?.dealId || !issue?.issueCode);
+  if (invalid !== -1) {
+    return NextResponse.json({
+      error: `Issue ${invalid + 1} is missing dealId or issueCode`
+    }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        const sendProgress = (data: any) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const { effective_tenant_id } = await ensureValidToken();
+        const startTime = Date.now();
+        const results: BulkFixIssueResult[] = [];
+        const attempted = new Set<string>();
+        let rateLimitError: string | null = null;
+
+        sendProgress({ type: 'log', message: `Fixing ${issues.length} issues for tenant: ${effective_tenant_id}` });
+
+        for (let index = 0; index < issues.length; index++) {
+          const issue = issues[index];
+          const dealId = String(issue.dealId);
+          const dealTitle = issue.dealTitle || issue.dealData?.title;
+          const issueStart = Date.now();
+
+          const record = (status: BulkFixIssueResult['status'], message: string, journalEntryId?: string) => {
+            const result: BulkFixIssueResult = {
+              index,
+              dealId,
+              dealTitle,
+              issueCode: issue.issueCode,
+              status,
+              message,
+              durationMs: Date.now() - issueStart,
+              journalEntryId
+            };
+            results.push(result);
+            sendProgress({
+              type: 'progress',
+              index,
+              total: issues.length,
+              dealId,
+              issueCode: issue.issueCode,
+              status,
+              message
+            });
+          };
+
+          // Once the Xero daily budget is exhausted, stop writing and report the rest
+          if (rateLimitError) {
+            record('failed', rateLimitError);
+            continue;
+          }
+
+          // The same fix submitted twice in one run only needs applying once
+          const key = `${dealId}:${issue.issueCode}`;
+          if (attempted.has(key)) {
+            record('skipped', 'Duplicate of an earlier issue in this run');
+            continue;
+          }
+          attempted.add(key);
+
+          sendProgress({
+            type: 'progress',
+            index,
+            total: issues.length,
+            dealId,
+            issueCode: issue.issueCode,
+            status: 'running',
+            message: `Fixing ${issue.issueCode} for deal ${dealId}`
+          });
+
+          try {
+            await SmartRateLimit.waitIfNeeded();
+            await waitForXeroRateLimit(effective_tenant_id);
+          } catch (error) {
+            rateLimitError = error instanceof Error ? error.message : 'Xero rate limit reached';
+            sendProgress({ type: 'log', message: rateLimitError });
+            record('failed', rateLimitError);
+            continue;
+          }
+
+          try {
+            const fixResult = await fixIssue({
+              dealId,
+              issueCode: issue.issueCode,
+              dealData: issue.dealData,
+              tenantId: effective_tenant_id,
+              skipIfAlreadyFixed: true
+            });
+
+            if (fixResult.outcome === 'skipped') {
+              record('skipped', fixResult.body.message);
+            } else if (fixResult.outcome === 'fixed') {
+              record('success', fixResult.body.message || 'Fixed', fixResult.body.journalEntryId);
+            } else {
+              record('failed', fixResult.body.error || 'Fix failed');
+            }
+          } catch (error) {
+            console.error(`Error fixing ${issue.issueCode} for deal ${dealId}:`, error);
+            record('failed', error instanceof Error ? error.message : 'Unknown error');
+          }
+        }
+
+        const summary: BulkFixSummary = {
+          total: issues.length,
+          succeeded: results.filter(r => r.status === 'success').length,
+          failed: results.filter(r => r.status === 'failed').length,
+          skipped: results.filter(r => r.status === 'skipped').length,
+          startedAt: new Date(startTime).toISOString(),
+          completedAt: new Date().toISOString(),
+          processingTimeMs: Date.now() - startTime
+        };
+
+        const excelBuffer = generateBulkFixReport(summary, results);
+
+        sendProgress({
+          type: 'complete',
+          data: {
+            summary,
+            results,
+            downloadableReport: {
+              filename: new ExcelReportService().generateReportFilename('bulk-fix-report'),
+              content: excelBuffer.toString('base64'),
+              contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+            }
+          }
+        });
+
+        controller.close();
+      } catch (error) {
+        console.error('Error in bulk fix stream:', error);
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+          type: 'error',
+          message: (error as Error).message
+        })}\n\n`));
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    }
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * API endpoint for manual match overrides between Pipedrive deals and Xero projects/quotes
+ *
+ * GET              - list the tenant's overrides
+ * POST             - add an override: { type: 'force_link' | 'never_link' | 'ignore', dealId?, xeroProjectId?, xeroQuoteId?, note? }
+ * DELETE ?id=ID    - remove an override
+ *
+ * Overrides take effect on the next validation or sync run.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import {
+  MatchOverrideStore,
+  saveMatchOverride,
+  validateMatchOverride,
+  type MatchOverrideInput
+} from '@/lib/validation/matchOverrides';
+import { logger } from '@/lib/logger';
+
+export const GET = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+
+  try {
+    const overrides = await MatchOverrideStore.list(tenantId);
+    return NextResponse.json({ success: true, overrides });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to list match overrides');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list match overrides'
+    }, { status: 500 });
+  }
+});
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { tenantId, session } = context;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const dealId = body.dealId !== undefined && body.dealId !== null && body.dealId !== ''
+    ? Number(body.dealId)
+    : undefined;
+  if (dealId !== undefined && !Number.isInteger(dealId)) {
+    return NextResponse.json({ success: false, error: 'dealId must be a Pipedrive deal ID' }, { status: 400 });
+  }
+
+  const input: MatchOverrideInput = {
+    type: body.type,
+    dealId,
+    xeroProjectId: body.xeroProjectId || undefined,
+    xeroQuoteId: body.xeroQuoteId || undefined,
+    note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined
+  };
+
+  const validationError = validateMatchOverride(input);
+  if (validationError) {
+    return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+  }
+
+  try {
+    const { override, replaced } = await saveMatchOverride(tenantId, input, session?.user?.email);
+    logger.info({ tenantId, overrideId: override.id, type: override.type, replaced: replaced.length }, 'Match override saved');
+    return NextResponse.json({ success: true, override, replaced });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to save match override');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save match override'
+    }, { status: 500 });
+  }
+});
+
+export const DELETE = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+  const overrideId = req.nextUrl.searchParams.get('id');
+
+  if (!overrideId) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await MatchOverrideStore.delete(tenantId, overrideId);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: `Match override ${overrideId} not found` }, { status: 404 });
+    }
+    logger.info({ tenantId, overrideId }, 'Match override deleted');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to delete match override');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete match override'
+    }, { status: 500 });
+  }
+});
@@ -1,7 +1,13 @@
 /**
- * Stub implementation for tenant EA67107E validation
+ * Multi-pipeline validation for tenant EA67107E (BSENI WIP pipelines)
  */
 
+import { ValidationOrchestrator } from '@/lib/orchestration/ValidationOrchestrator';
+import type { ValidationResult } from '@/lib/orchestration/ValidationOrchestrator';
+import { resolvePipedriveConfig, getPipelineNames } from '@/lib/utils/tenantConfig';
+import type { PipedriveConfig } from '@/lib/utils/tenantConfig';
+import { logger } from '@/lib/logger';
+
 export interface TenantValidationConfig {
   tenantId: string;
   accessToken?: string;
@@ -19,19 +25,142 @@ export interface ValidationProgress {
   type: string;
   message?: string;
   data?: any;
+  step?: any;
+}
+
+export interface TenantValidationResult {
+  success: boolean;
+  session?: {
+    id: string;
+    tenantId: string;
+    tenantName: string;
+    startTime: Date;
+    endTime?: Date;
+    status: string;
+  };
+  results?: ValidationResult;
+  error?: string;
 }
 
+/**
+ * Validates all WIP pipelines for tenant EA67107E and streams progress
+ *
+ * @description Resolves the tenant's Pipedrive configuration (eight WIP pipelines and the
+ * wopqNumber / vesselType / salesReference custom fields), applies any overrides from `config`,
+ * and runs the shared ValidationOrchestrator workflow. Emits `log`, `progress` and per-pipeline
+ * `pipeline` events, then a `complete` event with the same `{ session, results }` payload as
+ * `/api/xero/validate-deals`, so both tenants render in the same UI.
+ *
+ * @param {TenantValidationConfig} config - Tenant ID plus optional Pipedrive credential and field overrides
+ * @param {(progress: ValidationProgress) => void} onProgress - Receives streaming progress events
+ * @returns {Promise<TenantValidationResult>} Session details and validation results, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await validateTenantEA67107EV3(
+ *   { tenantId: 'ea67107e-c352-40a9-a8b8-24d81ae3fc85' },
+ *   (progress) => sendProgress(progress)
+ * );
+ * ```
+ *
+ * @since 1.0.0
+ */
 export async function validateTenantEA67107EV3(
   config: TenantValidationConfig,
   onProgress: (progress: ValidationProgress) => void
-) {
-  onProgress({ 
-    type: 'log', 
-    message: 'Validation stub - full implementation has been removed' 
-  });
-  
-  return {
-    success: false,
-    error: 'Pipedrive validation has been removed from this application'
+): Promise<TenantValidationResult> {
+  const resolvedConfig = await resolvePipedriveConfig(config.tenantId);
+
+  if (!resolvedConfig) {
+    const error = `No Pipedrive configuration found for tenant ${config.tenantId}`;
+    onProgress({ type: 'error', message: error });
+    return { success: false, error };
+  }
+
+  const pipedriveConfig: PipedriveConfig = {
+    ...resolvedConfig,
+    apiKey: config.pipedriveApiKey || resolvedConfig.apiKey,
+    companyDomain: config.pipedriveCompanyDomain || resolvedConfig.companyDomain,
+    tenantName: config.tenantName || resolvedConfig.tenantName,
+    customFieldKeys: {
+      ...resolvedConfig.customFieldKeys,
+      xeroQuoteId: config.quoteIdFieldKey || resolvedConfig.customFieldKeys.xeroQuoteId,
+      quoteNumber: config.quoteNumberFieldKey || resolvedConfig.customFieldKeys.quoteNumber
+    }
   };
-}
\ No newline at end of file
+
+  if (!pipedriveConfig.apiKey) {
+    const error = 'Pipedrive API key not configured for this tenant';
+    onProgress({ type: 'error', message: error });
+    return { success: false, error };
+  }
+
+  const pipelineNames = await getPipelineNames(config.tenantId);
+  onProgress({
+    type: 'log',
+    message: `Validating ${pipedriveConfig.pipelineIds.length} pipelines: ${pipedriveConfig.pipelineIds.map(id => pipelineNames[id] || `Pipeline ${id}`).join(', ')}`
+  });
+
+  const orchestrator = new ValidationOrchestrator();
+
+  orchestrator.setProgressCallback((step) => {
+    onProgress({
+      type: 'progress',
+      step: {
+        id: step.id,
+        name: step.name,
+        description: step.description,
+        status: step.status,
+        progress: step.progress,
+        result: step.result,
+        error: step.error
+      }
+    });
+  });
+
+  orchestrator.setPipelineCallback(({ pipelineId, dealCount }) => {
+    const pipelineName = pipelineNames[pipelineId] || `Pipeline ${pipelineId}`;
+    onProgress({
+      type: 'pipeline',
+      message: `${pipelineName}: ${dealCount} won deals`,
+      data: { pipelineId, pipelineName, dealCount }
+    });
+  });
+
+  try {
+    const validationSession = await orchestrator.executeValidationWorkflow(config.tenantId, pipedriveConfig);
+
+    const result: TenantValidationResult = {
+      success: true,
+      session: {
+        id: validationSession.id,
+        tenantId: validationSession.tenantId,
+        tenantName: validationSession.tenantName,
+        startTime: validationSession.startTime,
+        endTime: validationSession.endTime,
+        status: validationSession.status
+      },
+      results: validationSession.validationResults
+    };
+
+    onProgress({
+      type: 'complete',
+      data: {
+        session: result.session,
+        results: result.results
+      }
+    });
+
+    logger.info({
+      sessionId: validationSession.id,
+      summary: validationSession.validationResults?.summary
+    }, 'Tenant EA67107E validation completed');
+
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Validation failed';
+    logger.error({ tenantId: config.tenantId, error: message }, 'Tenant EA67107E validation failed');
+    onProgress({ type: 'error', message });
+    return { success: false, error: message };
+  }
+}
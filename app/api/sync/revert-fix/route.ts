@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureValidToken } from '@/lib/ensureXeroToken';
+import { revertQuoteFix } from '@/lib/fixes/xeroQuoteFixesV2';
+import { QuoteFixJournalStore } from '@/lib/fixes/quoteFixJournal';
+
+// List journaled quote fixes, optionally for a single quote
+export async function GET(request: NextRequest) {
+  try {
+    const quoteId = request.nextUrl.searchParams.get('quoteId') || undefined;
+    const { effective_tenant_id } = await ensureValidToken();
+
+    const entries = await QuoteFixJournalStore.list(effective_tenant_id, quoteId);
+
+    // Snapshots can be large, so only the summary of each entry is returned
+    return NextResponse.json({
+      entries: entries.map(({ snapshot, ...entry }) => ({
+        ...entry,
+        status: snapshot?.Status,
+        total: snapshot?.Total
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing quote fix journal:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Restore a quote to the state recorded before a fix; `force` discards changes made to the quote since the fix
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { journalEntryId, dryRun = false, force = false } = body;
+
+    if (!journalEntryId) {
+      return NextResponse.json({
+        error: 'Missing journal entry ID'
+      }, { status: 400 });
+    }
+
+    const { effective_tenant_id } = await ensureValidToken();
+
+    console.log(`${dryRun ? 'Previewing revert of' : 'Reverting'} quote fix ${journalEntryId}`);
+
+    const revertResult = await revertQuoteFix({
+      journalEntryId,
+      tenantId: effective_tenant_id,
+      dryRun,
+      force: force === true
+    });
+
+    if (revertResult.success && revertResult.dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        preview: revertResult.preview,
+        warning: revertResult.warning
+      });
+    }
+
+    if (revertResult.success) {
+      return NextResponse.json({
+        success: true,
+        message: 'Quote restored successfully',
+        warning: revertResult.warning,
+        restoredQuote: revertResult.restoredQuote,
+        journalEntryId: revertResult.journalEntryId
+      });
+    }
+
+    if (revertResult.conflicts) {
+      return NextResponse.json({
+        error: revertResult.error,
+        conflicts: revertResult.conflicts
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      error: revertResult.error || 'Failed to revert fix'
+    }, { status: 500 });
+
+  } catch (error) {
+    console.error('Error reverting fix:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 });
+  }
+}
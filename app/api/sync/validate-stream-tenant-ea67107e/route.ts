@@ -17,35 +17,12 @@ export async function GET() {
         
         sendProgress({ type: 'log', message: `Starting validation for tenant: ${effective_tenant_id}` });
         
-        // Check tenant
-        if (effective_tenant_id !== 'ea67107e-c352-40a9-a8b8-24d81ae3fc85') {
-          sendProgress({ 
-            type: 'error', 
-            message: 'This endpoint is only for tenant ea67107e-c352-40a9-a8b8-24d81ae3fc85',
-            tenantId: effective_tenant_id 
-          });
-          controller.close();
-          return;
-        }
-        
+        // API key, domain, pipelines and field keys come from the tenant's Pipedrive configuration;
+        // a tenant without one gets an error from the handler
         const config: TenantValidationConfig = {
-          tenantId: 'ea67107e-c352-40a9-a8b8-24d81ae3fc85',
-          tenantName: 'Tenant EA67107E',
-          pipedriveApiKey: process.env.PIPEDRIVE_KEY_2 || '',
-          pipedriveCompanyDomain: 'api', // Using standard API domain
-          quoteIdFieldKey: '1f21104ccb95f5a4773ef52cd0c2cc1c78203f69',
-          quoteNumberFieldKey: 'a52165a056d57cabba309ec5e53d7a6cd47ea766'
+          tenantId: effective_tenant_id
         };
         
-        if (!config.pipedriveApiKey) {
-          sendProgress({ 
-            type: 'error',
-            message: 'Pipedrive API key not configured (PIPEDRIVE_KEY_2)'
-          });
-          controller.close();
-          return;
-        }
-        
         // Run validation with streaming progress
         await validateTenantEA67107EV3(config, (progress: ValidationProgress) => {
           sendProgress(progress);
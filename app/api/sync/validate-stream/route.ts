@@ -18,15 +18,9 @@ import {
 import {
   validatePipeline3Invoices
 } from '@/lib/validation/invoiceValidationRules';
-
-// Tenant-specific Pipedrive configuration
-const TENANT_PIPEDRIVE_CONFIG = {
-  '6dd39ea4-e6a6-4993-a37a-21482ccf8d22': {
-    apiKey: process.env.PIPEDRIVE_KEY,
-    enabled: true,
-    description: 'BSENI'
-  }
-};
+import { resolvePipedriveConfig } from '@/lib/utils/tenantConfig';
+import { ValidationRuleSet, resolveValidationRuleSettings } from '@/lib/validation/ruleRegistry';
+import { waitForXeroRateLimit, trackXeroApiCall, updateXeroRateLimitFromHeaders } from '@/lib/xeroApiTracker';
 
 /**
  * Generate matching key from title
@@ -64,20 +58,19 @@ export async function GET() {
         
         sendProgress({ type: 'log', message: `Starting validation for tenant: ${effective_tenant_id}` });
         
-        // Check tenant
-        if (effective_tenant_id !== '6dd39ea4-e6a6-4993-a37a-21482ccf8d22') {
+        // Pipelines, field keys and API key all come from the tenant's Pipedrive configuration
+        const pipedriveConfig = await resolvePipedriveConfig(effective_tenant_id);
+        if (!pipedriveConfig) {
           sendProgress({ 
             type: 'error', 
-            message: 'This endpoint is only for BSENI tenant',
+            message: 'Pipedrive is not configured for this tenant',
             tenantId: effective_tenant_id 
           });
           controller.close();
           return;
         }
         
-        const tenantConfig = TENANT_PIPEDRIVE_CONFIG[effective_tenant_id];
-        const apiKey = tenantConfig.apiKey;
-        
+        const apiKey = pipedriveConfig.apiKey;
         if (!apiKey) {
           sendProgress({ 
             type: 'error',
@@ -87,6 +80,9 @@ export async function GET() {
           return;
         }
         
+        // Tenant rule settings drop disabled rules and apply severity overrides
+        const rules = new ValidationRuleSet(resolveValidationRuleSettings(effective_tenant_id, pipedriveConfig.validationRules));
+        
         // Step 1: Fetch deals
         sendProgress({ 
           type: 'progress', 
@@ -95,55 +91,58 @@ export async function GET() {
           detail: 'Fetching won deals from Pipedrive'
         });
         
-        const companyDomain = 'bseni';
+        const { companyDomain, pipelineIds, customFieldKeys } = pipedriveConfig;
         let allDeals: any[] = [];
-        let moreItemsInCollection = true;
-        let cursor: string | null = null;
         let pageCount = 0;
         
-        while (moreItemsInCollection) {
-          const url = new URL(`https://${companyDomain}.pipedrive.com/api/v2/deals`);
-          url.searchParams.append('limit', '100');
-          url.searchParams.append('status', 'won');
-          url.searchParams.append('pipeline_id', '2');
-          if (cursor) {
-            url.searchParams.append('cursor', cursor);
-          }
-          
-          pageCount++;
-          sendProgress({ 
-            type: 'progress', 
-            step: 'fetch', 
-            status: 'running',
-            detail: `Fetching page ${pageCount}...`
-          });
+        for (const pipelineId of pipelineIds) {
+          let moreItemsInCollection = true;
+          let cursor: string | null = null;
           
-          const response = await fetch(url.toString(), {
-            headers: {
-              'Accept': 'application/json',
-              'x-api-token': apiKey
+          while (moreItemsInCollection) {
+            const url = new URL(`https://${companyDomain}.pipedrive.com/api/v2/deals`);
+            url.searchParams.append('limit', '100');
+            url.searchParams.append('status', 'won');
+            url.searchParams.append('pipeline_id', String(pipelineId));
+            if (cursor) {
+              url.searchParams.append('cursor', cursor);
             }
-          });
           
-          if (!response.ok) {
-            const errorText = await response.text();
+            pageCount++;
             sendProgress({ 
-              type: 'error',
-              message: 'Pipedrive API authentication failed',
-              error: errorText
+              type: 'progress', 
+              step: 'fetch', 
+              status: 'running',
+              detail: `Fetching page ${pageCount}...`
             });
-            controller.close();
-            return;
-          }
           
-          const data = await response.json();
-          const pageDeals = data.data || [];
-          allDeals = allDeals.concat(pageDeals);
+            const response = await fetch(url.toString(), {
+              headers: {
+                'Accept': 'application/json',
+                'x-api-token': apiKey
+              }
+            });
           
-          if (data.additional_data?.pagination?.next_cursor) {
-            cursor = data.additional_data.pagination.next_cursor;
-          } else {
-            moreItemsInCollection = false;
+            if (!response.ok) {
+              const errorText = await response.text();
+              sendProgress({ 
+                type: 'error',
+                message: 'Pipedrive API authentication failed',
+                error: errorText
+              });
+              controller.close();
+              return;
+            }
+          
+            const data = await response.json();
+            const pageDeals = data.data || [];
+            allDeals = allDeals.concat(pageDeals);
+          
+            if (data.additional_data?.pagination?.next_cursor) {
+              cursor = data.additional_data.pagination.next_cursor;
+            } else {
+              moreItemsInCollection = false;
+            }
           }
         }
         
@@ -273,8 +272,7 @@ export async function GET() {
               const fullDeal = dealDetails.data;
               
               // Look for Xero quote ID
-              const xeroQuoteFieldKey = '0e9dc89b14fb67546540fd3e11a7fe06653d708f';
-              const xeroQuoteId = fullDeal.custom_fields?.[xeroQuoteFieldKey] || null;
+              const xeroQuoteId = fullDeal.custom_fields?.[customFieldKeys.xeroQuoteId] || null;
               dealData.xeroQuoteId = xeroQuoteId;
               
               // Fetch Xero quote if ID exists
@@ -334,7 +332,8 @@ export async function GET() {
             deal: dealData,
             xeroQuote: xeroQuoteData,
             dealProducts: dealProducts,
-            tenantId: effective_tenant_id
+            tenantId: effective_tenant_id,
+            rules
           };
           
           const validationIssues = validateDeal(validationContext);
@@ -365,21 +364,7 @@ export async function GET() {
           detail: 'Analyzing validation results'
         });
         
-        const baseValidationStats = generateValidationStats(validatedDeals);
-        
-        // Add Xero quote totals calculation
-        const acceptedQuotesTotal = validatedDeals
-          .filter(d => d.xeroQuoteStatus === 'ACCEPTED')
-          .reduce((sum, d) => sum + (d.xeroQuoteTotal || 0), 0);
-        
-        const dealsTotal = validatedDeals.reduce((sum, d) => sum + d.value, 0);
-        
-        const validationStats = {
-          ...baseValidationStats,
-          acceptedQuotesTotal,
-          dealsTotal,
-          totalsMismatch: Math.abs(dealsTotal - acceptedQuotesTotal) > 0.01
-        };
+        const validationStats = generateValidationStats(validatedDeals);
         
         const issuesCount = validationStats.withErrors;
         sendProgress({ 
@@ -411,27 +396,29 @@ export async function GET() {
           detail: 'Validation report ready'
         });
         
-        // Phase 2: Validate Pipeline 3 Deals Invoices
+        // Phase 2: Validate invoice pipeline deals against Xero invoices
         sendProgress({ 
           type: 'progress', 
           step: 'phase2_fetch', 
           status: 'running',
-          detail: 'Fetching Pipeline 3 deals for invoice validation'
+          detail: 'Fetching invoice pipeline deals for invoice validation'
         });
         
         let phase2InvoiceValidationResult = null;
+        // Tenants without an invoice pipeline have no Phase 2 deals
+        const { invoicePipelineId } = pipedriveConfig;
         
         try {
-          // Fetch Pipeline 3 deals
+          // Fetch invoice pipeline deals
           let pipeline3Deals: any[] = [];
-          let moreItemsInCollection = true;
+          let moreItemsInCollection = !!invoicePipelineId;
           let cursor: string | null = null;
           
           while (moreItemsInCollection) {
             const url = new URL(`https://${companyDomain}.pipedrive.com/api/v2/deals`);
             url.searchParams.append('limit', '100');
             url.searchParams.append('status', 'won');
-            url.searchParams.append('pipeline_id', '3'); // Pipeline 3
+            url.searchParams.append('pipeline_id', String(invoicePipelineId));
             if (cursor) {
               url.searchParams.append('cursor', cursor);
             }
@@ -444,7 +431,7 @@ export async function GET() {
             });
             
             if (!response.ok) {
-              console.error('Failed to fetch Pipeline 3 deals');
+              console.error('Failed to fetch invoice pipeline deals');
               break;
             }
             
@@ -463,7 +450,7 @@ export async function GET() {
             type: 'progress', 
             step: 'phase2_fetch', 
             status: 'completed',
-            detail: `Found ${pipeline3Deals.length} Pipeline 3 deals`
+            detail: invoicePipelineId ? `Found ${pipeline3Deals.length} invoice pipeline deals` : 'No invoice pipeline configured'
           });
           
           // Fetch deal details and validate invoices
@@ -503,12 +490,15 @@ export async function GET() {
           }
           
           // Validate invoices
-          const invoiceFieldKey = 'c599cab3902b6c84c1f9e2689f308a4369fffe7d'; // Invoice ID field
           phase2InvoiceValidationResult = await validatePipeline3Invoices(
             detailedDeals,
-            invoiceFieldKey,
+            customFieldKeys.invoiceId,
             access_token,
-            effective_tenant_id
+            effective_tenant_id,
+            {
+              invoiceNumberFieldKey: customFieldKeys.invoiceNumber,
+              xeroQuoteFieldKey: customFieldKeys.xeroQuoteId
+            }
           );
           
           sendProgress({ 
@@ -574,7 +564,8 @@ export async function GET() {
               const phase2Context: QuoteValidationContext = {
                 xeroQuotes: allXeroQuotes,
                 pipedriveDeals: validatedDeals, // Use validated deals from Phase 1 which includes all deal details
-                tenantId: effective_tenant_id
+                tenantId: effective_tenant_id,
+                rules
               };
               
               phase3ValidationResult = validateQuotesAgainstDeals(phase2Context);
@@ -660,14 +651,62 @@ export async function GET() {
               }
             }
             
+            // Fetch tasks so task rates x estimates can be checked against the quote
+            const taskFetchFailures: string[] = [];
+            for (let p = 0; p < allProjects.length; p++) {
+              const project = allProjects[p];
+              if (p % 10 === 0) {
+                sendProgress({
+                  type: 'progress',
+                  step: 'phase4_fetch',
+                  status: 'running',
+                  detail: `Fetching project tasks ${p + 1} of ${allProjects.length}...`
+                });
+              }
+
+              try {
+                await waitForXeroRateLimit(effective_tenant_id);
+                const tasksResponse = await fetch(`https://api.xero.com/projects.xro/2.0/Projects/${project.projectId}/Tasks?pageSize=500`, {
+                  headers: {
+                    'Accept': 'application/json',
+                    'Authorization': `Bearer ${access_token}`,
+                    'Xero-tenant-id': effective_tenant_id
+                  }
+                });
+                await trackXeroApiCall(effective_tenant_id);
+                await updateXeroRateLimitFromHeaders(tasksResponse.headers, effective_tenant_id);
+
+                if (tasksResponse.ok) {
+                  const tasksData = await tasksResponse.json();
+                  project.tasks = tasksData.items || [];
+                } else {
+                  console.error(`Failed to fetch tasks for project ${project.projectId}: ${tasksResponse.status}`);
+                  taskFetchFailures.push(project.name || project.projectId || 'unknown project');
+                }
+              } catch (tasksError) {
+                console.error(`Error fetching tasks for project ${project.projectId}:`, tasksError);
+                taskFetchFailures.push(project.name || project.projectId || 'unknown project');
+              }
+            }
+
+            // Task totals are not checked for these projects, so say so rather than report them as clean
+            if (taskFetchFailures.length > 0) {
+              sendProgress({
+                type: 'log',
+                message: `Could not fetch tasks for ${taskFetchFailures.length} project(s); task totals were not checked for: ${taskFetchFailures.join(', ')}`
+              });
+            }
+
             sendProgress({ 
               type: 'progress', 
               step: 'phase4_fetch', 
               status: 'completed',
-              detail: `Found ${allProjects.length} in-progress projects`
+              detail: taskFetchFailures.length > 0
+                ? `Found ${allProjects.length} in-progress projects (tasks unavailable for ${taskFetchFailures.length})`
+                : `Found ${allProjects.length} in-progress projects`
             });
             
-            // Phase 3 validation
+            // Phase 4 validation
             sendProgress({ 
               type: 'progress', 
               step: 'phase4_validate', 
@@ -675,11 +714,16 @@ export async function GET() {
               detail: 'Validating projects against quotes and deals'
             });
             
-            phase4ValidationResult = validateProjectsAgainstQuotes(
+            const rawProjectValidation = validateProjectsAgainstQuotes(
               allProjects,
               phase3ValidationResult.quotes,
               validatedDeals
             );
+            phase4ValidationResult = {
+              ...rawProjectValidation,
+              issues: rules.apply(rawProjectValidation.issues),
+              projects: rawProjectValidation.projects.map(p => ({ ...p, issues: rules.apply(p.issues) }))
+            };
             
             sendProgress({ 
               type: 'progress', 
@@ -705,7 +749,7 @@ export async function GET() {
           data: {
             success: true,
             tenantId: effective_tenant_id,
-            tenantName: 'BSENI',
+            tenantName: pipedriveConfig.tenantName,
             totalDeals: validatedDeals.length,
             validationStats,
             groupedByPrefix,
@@ -715,9 +759,10 @@ export async function GET() {
             phase3: phase3ValidationResult ? {
               quotes: phase3ValidationResult.quotes,
               stats: phase3ValidationResult.stats,
-              duplicateQuotes: Array.from(duplicateQuotes?.entries() || []).map(([dealId, quotes]: [any, any]) => ({
+              issues: phase3ValidationResult.issues,
+              duplicateQuotes: Array.from(duplicateQuotes?.entries() || []).map(([dealId, quotes]) => ({
                 dealId,
-                quotes: (quotes as any[]).map((q: any) => ({
+                quotes: quotes.map(q => ({
                   quoteId: q.quoteId,
                   quoteNumber: q.quoteNumber,
                   total: q.total,
@@ -0,0 +1,60 @@
+/**
+ * API endpoint for stored validation runs and run-to-run diffs
+ *
+ * GET                      - list recent runs (`limit`, default 20)
+ * GET ?runId=ID            - one run with its issues
+ * GET ?from=ID&to=ID       - diff two runs; `to` defaults to the latest run
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { ValidationRunStore, diffValidationRuns } from '@/lib/validation/validationRunHistory';
+import { logger } from '@/lib/logger';
+
+export const GET = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+  const params = req.nextUrl.searchParams;
+
+  try {
+    const runId = params.get('runId');
+    if (runId) {
+      const run = await ValidationRunStore.get(tenantId, runId);
+      if (!run) {
+        return NextResponse.json({ success: false, error: `Validation run ${runId} not found` }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, run });
+    }
+
+    const fromId = params.get('from');
+    if (fromId) {
+      let toId = params.get('to');
+      if (!toId) {
+        const [latest] = await ValidationRunStore.list(tenantId, 1);
+        toId = latest?.id || null;
+      }
+      if (!toId) {
+        return NextResponse.json({ success: false, error: 'No validation runs recorded' }, { status: 404 });
+      }
+
+      const [fromRun, toRun] = await Promise.all([ValidationRunStore.get(tenantId, fromId), ValidationRunStore.get(tenantId, toId)]);
+      if (!fromRun || !toRun) {
+        return NextResponse.json({
+          success: false,
+          error: `Validation run ${!fromRun ? fromId : toId} not found`
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({ success: true, diff: diffValidationRuns(fromRun, toRun) });
+    }
+
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), 200);
+    const runs = await ValidationRunStore.list(tenantId, limit);
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to read validation history');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read validation history'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * API endpoint listing the validation rules and how they apply to the current tenant
+ *
+ * GET                    - rules with the tenant's effective enablement and severity
+ * GET ?format=markdown   - the registry rendered as VALIDATION_RULES.md
+ *
+ * Rule settings come from `validationRules` in the tenant's Pipedrive configuration and `VALIDATION_RULE_SETTINGS`.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { resolvePipedriveConfig } from '@/lib/utils/tenantConfig';
+import {
+  ValidationRuleSet,
+  VALIDATION_RULE_GROUPS,
+  getValidationRules,
+  renderValidationRulesMarkdown,
+  resolveValidationRuleSettings,
+  validateRuleSettings
+} from '@/lib/validation/ruleRegistry';
+import { logger } from '@/lib/logger';
+
+export const GET = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+
+  if (req.nextUrl.searchParams.get('format') === 'markdown') {
+    return new NextResponse(renderValidationRulesMarkdown(), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="VALIDATION_RULES.md"'
+      }
+    });
+  }
+
+  try {
+    const pipedriveConfig = await resolvePipedriveConfig(tenantId);
+    const settings = resolveValidationRuleSettings(tenantId, pipedriveConfig?.validationRules);
+    const ruleSet = new ValidationRuleSet(settings);
+
+    const rules = getValidationRules().map(({ check, ...rule }) => ({
+      ...rule,
+      enabled: ruleSet.isEnabled(rule.code),
+      effectiveSeverity: ruleSet.severityFor(rule.code) || rule.severity
+    }));
+
+    return NextResponse.json({
+      success: true,
+      groups: VALIDATION_RULE_GROUPS,
+      rules,
+      settings,
+      // Unknown codes are ignored during validation, but usually mean a typo in the configuration
+      settingsError: validateRuleSettings(settings)
+    });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to list validation rules');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list validation rules'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * API endpoint to try a custom field rule against a single deal
+ *
+ * POST { rule, dealId }  - evaluate the rule against the deal, its linked Xero quote and matched project
+ *
+ * Nothing is saved; use it to check a rule before adding it to the tenant's `validationRules.custom`.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { resolvePipedriveConfig } from '@/lib/utils/tenantConfig';
+import { fetchDealDetails } from '@/lib/utils/pipedriveHelpers';
+import { XeroQuoteService } from '@/lib/services/xeroQuoteService';
+import { XeroProjectService } from '@/lib/xeroProjectService';
+import {
+  buildCustomRuleSubject,
+  type PipedriveValidationContext
+} from '@/lib/validation/pipedriveValidationRules';
+import {
+  collectRulePaths,
+  evaluateCustomFieldRule,
+  resolveRulePath,
+  validateCustomFieldRule,
+  type CustomFieldRule
+} from '@/lib/validation/customFieldRules';
+import { loadMatchOverrides } from '@/lib/validation/matchOverrides';
+import { logger } from '@/lib/logger';
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const dealId = Number(body.dealId);
+  if (!Number.isInteger(dealId) || dealId <= 0) {
+    return NextResponse.json({ success: false, error: 'dealId must be a Pipedrive deal ID' }, { status: 400 });
+  }
+
+  const ruleError = validateCustomFieldRule(body.rule);
+  if (ruleError) {
+    return NextResponse.json({ success: false, error: ruleError }, { status: 400 });
+  }
+  const rule: CustomFieldRule = body.rule;
+
+  try {
+    const pipedriveConfig = await resolvePipedriveConfig(tenantId);
+    if (!pipedriveConfig?.enabled) {
+      return NextResponse.json({ success: false, error: 'Pipedrive is not configured for this tenant' }, { status: 400 });
+    }
+
+    const deal = await fetchDealDetails(pipedriveConfig.apiKey, pipedriveConfig.companyDomain, dealId);
+    if (!deal) {
+      return NextResponse.json({ success: false, error: `Deal ${dealId} not found` }, { status: 404 });
+    }
+
+    const matchOverrides = await loadMatchOverrides(tenantId);
+    const { customFieldKeys } = pipedriveConfig;
+    const xeroQuoteId = matchOverrides.linkedQuoteId(
+      deal.id,
+      deal.custom_fields?.[customFieldKeys.xeroQuoteId] || deal[customFieldKeys.xeroQuoteId]
+    );
+    const fetchedQuote = xeroQuoteId ? await XeroQuoteService.fetchQuoteById(tenantId, xeroQuoteId) : null;
+    // The field may hold a quote number, so the never_link check is repeated with the fetched QuoteID
+    const quote = fetchedQuote && !matchOverrides.forcedQuoteForDeal(deal.id) &&
+      matchOverrides.isQuoteNeverLinked(deal.id, fetchedQuote.QuoteID) ? null : fetchedQuote;
+
+    // Projects are only fetched when the rule reads them
+    const paths = collectRulePaths(rule);
+    const projects = paths.some(path => path.startsWith('project.'))
+      ? (await XeroProjectService.getProjectData('INPROGRESS')).projects
+      : [];
+
+    const validationContext: PipedriveValidationContext = {
+      pipedriveDeals: [deal],
+      xeroQuotes: quote ? [quote] : [],
+      xeroProjects: projects,
+      tenantConfig: {
+        tenantId,
+        pipedriveApiKey: pipedriveConfig.apiKey,
+        companyDomain: pipedriveConfig.companyDomain,
+        pipelineIds: pipedriveConfig.pipelineIds,
+        customFieldKeys,
+        enabled: pipedriveConfig.enabled,
+        invoiceStageId: pipedriveConfig.invoiceStageId
+      },
+      matchOverrides
+    };
+    const subject = buildCustomRuleSubject(deal, validationContext);
+    const result = evaluateCustomFieldRule(rule, subject);
+
+    return NextResponse.json({
+      success: true,
+      dealId,
+      dealTitle: deal.title,
+      ...result,
+      // Values the rule read, to explain the result
+      values: Object.fromEntries(paths.map(path => [path, resolveRulePath(path, subject) ?? null])),
+      linked: {
+        quoteId: subject.quote?.QuoteID,
+        projectId: subject.project?.projectId
+      }
+    });
+  } catch (error) {
+    logger.error({ tenantId, dealId, error: (error as Error).message }, 'Failed to test custom field rule');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to test custom field rule'
+    }, { status: 500 });
+  }
+});
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ensureValidToken } from '@/lib/ensureXeroToken';
 import { XeroUpdateService } from '@/app/api/xero/services/XeroUpdateService';
+import { markTimesheetPeriodApplied } from '@/lib/timesheet/services/TimesheetPeriodStore';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { tenantId, updates, creates } = body;
+    const { tenantId, updates, creates, fileName, periodRecordId, reopenProjectIds } = body;
     
     if (!tenantId) {
       return NextResponse.json({ 
@@ -18,19 +21,55 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (reopenProjectIds !== undefined &&
+        (!Array.isArray(reopenProjectIds) || reopenProjectIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({
+        error: 'reopenProjectIds must be an array of project IDs'
+      }, { status: 400 });
+    }
+
+    const session = await auth();
+    const { access_token, effective_tenant_id } = await ensureValidToken();
+    if (tenantId !== effective_tenant_id) {
+      return NextResponse.json({ error: 'The selected Xero organisation has changed; reload and try again' }, { status: 409 });
+    }
+
     console.log('[Xero Apply Updates] Starting updates for tenant:', tenantId);
     console.log('[Xero Apply Updates] Updates to apply:', updates.length);
     console.log('[Xero Apply Updates] Creates to apply:', creates.length);
+    if (reopenProjectIds?.length) {
+      console.log('[Xero Apply Updates] Closed projects to reopen:', reopenProjectIds.length);
+    }
 
-    const result = await XeroUpdateService.applyUpdates(tenantId, updates, creates);
+    const result = await XeroUpdateService.applyUpdates(
+      { tenantId, accessToken: access_token, userEmail: session?.user?.email || undefined, fileName },
+      updates,
+      creates,
+      { reopenProjectIds }
+    );
 
     console.log('[Xero Apply Updates] Update completed:', {
+      runId: result.runId,
       success: result.success,
       successCount: result.successCount,
       failureCount: result.failureCount,
+      reopenedProjects: result.reopenedProjects.length,
       duration: result.duration
     });
 
+    const leftOpen = result.reopenedProjects.filter(project => project.reopened && !project.reclosed);
+    if (leftOpen.length > 0) {
+      console.error('[Xero Apply Updates] Projects left in progress after reopening:', leftOpen.map(project => project.projectCode || project.projectId));
+    }
+
+    // Later uploads are checked against the entries whose tasks were applied
+    if (periodRecordId) {
+      const recorded = await markTimesheetPeriodApplied(tenantId, periodRecordId, result.runId, result.results);
+      if (!recorded) {
+        console.warn('[Xero Apply Updates] Timesheet period record not found, period not recorded:', periodRecordId);
+      }
+    }
+
     return NextResponse.json(result);
 
   } catch (error) {
@@ -40,4 +79,4 @@ export async function POST(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Failed to apply updates'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
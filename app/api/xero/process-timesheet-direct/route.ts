@@ -3,21 +3,24 @@ import { ensureValidToken } from '@/lib/ensureXeroToken';
 import { trackXeroApiCall, waitForXeroRateLimit, updateXeroRateLimitFromHeaders } from '@/lib/xeroApiTracker';
 import { auth } from '@/lib/auth';
 import { ExcelReportService } from '@/lib/timesheet/services/ExcelReportService';
-
-interface ConsolidatedTask {
-  name: string;
-  rate: {
-    currency: string;
-    value: string;  // was: number
-  };
-  chargeType: string;
-  estimateMinutes: number;
-  idempotencyKey: string;
-}
-
-interface ConsolidatedPayload {
-  [projectCode: string]: ConsolidatedTask[];
-}
+import { isTimesheetBlobUrl, TimesheetParserService, TimesheetParseError, TimesheetValidationError } from '@/lib/timesheet/services/TimesheetParserService';
+import { resolveTimesheetProfile } from '@/lib/timesheet/services/TimesheetProfileStore';
+import {
+  checkTimesheetPeriod,
+  fingerprintEntries,
+  recordPendingTimesheetPeriod,
+  TimesheetPeriodConflictError
+} from '@/lib/timesheet/services/TimesheetPeriodStore';
+import type {
+  ClosedProjectWithChanges,
+  ConsolidatedPayload,
+  ConsolidatedTask,
+  TimesheetCostVerification,
+  TimesheetOverlapAction,
+  TimesheetPeriodCheck,
+  TimesheetProfile,
+  TimesheetUpdateMode
+} from '@/lib/timesheet/types';
 
 interface TaskPayload {
   name: string;
@@ -31,13 +34,18 @@ interface TaskPayload {
 
 interface TaskUpdate {
   projectId: string;
+  projectCode: string;
+  projectName: string;
   taskId: string;
   payload: TaskPayload;
 }
 
 interface TaskCreate {
   projectId: string;
+  projectCode: string;
+  projectName: string;
   payload: TaskPayload;
+  idempotencyKey: string;
 }
 
 interface ProcessedTimesheet {
@@ -61,24 +69,21 @@ interface ProcessedTimesheet {
     total_projects_processed: number;
     tasks_to_update: number;
     tasks_to_create: number;
+    tasks_unchanged?: number;
     total_changes: number;
+    closed_projects_affected: number;
   };
-  cost_verification?: {
-    verification_performed: boolean;
-    calculations_match: boolean;
-    our_total_all_depts_ny_jobs: number;
-    excel_total_all_depts_ny_jobs: number;
-    excel_navy_only_ny_jobs: number;
-    excel_non_navy_ny_jobs: number;
-    difference: number;
-    excel_all_jobs_all_depts: number;
-    discrepancies: Array<{
-      job_code: string;
-      our_calculated: number;
-      excel_total: number;
-      difference: number;
-    }>;
+  cost_verification?: TimesheetCostVerification;
+  // Changes for closed projects; only applied when the user confirms reopening each project
+  closed_projects_with_changes: ClosedProjectWithChanges[];
+  closed_changes: {
+    updates: TaskUpdate[];
+    creates: TaskCreate[];
   };
+  update_mode: TimesheetUpdateMode;
+  period_check: TimesheetPeriodCheck;
+  // Pass to /api/xero/apply-updates so the period is recorded once applied
+  period_record_id: string;
 }
 
 interface XeroProject {
@@ -171,67 +176,258 @@ function getTaskConfigForTenant(tenantId: string, tenantName: string) {
   return { currency: "USD" };
 }
 
-// Process timesheet with Python backend
-async function processTimesheetWithPython(blobUrl: string, fileName: string, tenantId: string): Promise<ProcessedTimesheet> {
-  const flaskUrl = `${process.env.NEXT_PUBLIC_FLASK_SERVER_URL}/api/process-timesheet`;
-  const response = await fetch(flaskUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      blobUrl,
-      fileName,
-      tenantId
-    }),
-  });
+// Xero returns rates in currency units; consolidated rates are in cents
+const sameRate = (existing: XeroTask, task: ConsolidatedTask): boolean =>
+  Math.round(Number(existing.rate.value) * 100) === Number(task.rate.value);
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
-    throw new Error(errorData.error || `Python backend error: ${response.status}`);
+// Xero rate for an accumulated task: the average of the existing and added rates, weighted by minutes
+function accumulatedRate(existing: XeroTask, task: ConsolidatedTask): number {
+  const totalMinutes = existing.estimateMinutes + task.estimateMinutes;
+  if (totalMinutes <= 0) return Number(task.rate.value) / 100;
+  const totalCost = Number(existing.rate.value) * existing.estimateMinutes + (Number(task.rate.value) / 100) * task.estimateMinutes;
+  return Math.round((totalCost / totalMinutes) * 100) / 100;
+}
+
+// Compare consolidated tasks with the tasks of matching in-progress projects; tasks are matched by name.
+// In accumulate mode the consolidated minutes are added to each existing task's estimate.
+function buildTaskChanges(
+  payload: ConsolidatedPayload,
+  projectsByCode: Map<string, XeroProject>,
+  tasksByProject: Map<string, XeroTask[]>,
+  mode: TimesheetUpdateMode
+): { updates: TaskUpdate[]; creates: TaskCreate[]; unchanged: number; projectsProcessed: number } {
+  const updates: TaskUpdate[] = [];
+  const creates: TaskCreate[] = [];
+  let unchanged = 0;
+  let projectsProcessed = 0;
+
+  for (const [projectCode, tasks] of Object.entries(payload)) {
+    const project = projectsByCode.get(projectCode);
+    const existingTasks = project && tasksByProject.get(project.projectId);
+    // Without the project's current tasks every task would look new, so the project is left out
+    if (!project || !existingTasks) continue;
+    projectsProcessed++;
+
+    const existingByName = new Map(existingTasks.map(task => [task.name.toLowerCase(), task]));
+    for (const task of tasks) {
+      const payloadForXero: TaskPayload = {
+        name: task.name,
+        rate: { currency: task.rate.currency, value: Number(task.rate.value) / 100 },
+        chargeType: task.chargeType,
+        estimateMinutes: task.estimateMinutes
+      };
+      const existing = existingByName.get(task.name.toLowerCase());
+      const projectDetails = { projectId: project.projectId, projectCode, projectName: project.name };
+      if (!existing) {
+        creates.push({ ...projectDetails, payload: payloadForXero, idempotencyKey: task.idempotencyKey });
+      } else if (mode === 'accumulate') {
+        if (task.estimateMinutes > 0) {
+          updates.push({
+            ...projectDetails,
+            taskId: existing.taskId,
+            payload: {
+              ...payloadForXero,
+              rate: { ...payloadForXero.rate, value: accumulatedRate(existing, task) },
+              estimateMinutes: existing.estimateMinutes + task.estimateMinutes
+            }
+          });
+        } else {
+          unchanged++;
+        }
+      } else if (existing.estimateMinutes !== task.estimateMinutes || !sameRate(existing, task)) {
+        updates.push({ ...projectDetails, taskId: existing.taskId, payload: payloadForXero });
+      } else {
+        unchanged++;
+      }
+    }
   }
 
-  const data = await response.json();
-  
-  // Temporary: Handle empty response from backend during development
-  if (Object.keys(data).length === 0) {
-    console.log('[API] Backend returned empty response - using mock data for now');
-    return {
-      success: true,
-      metadata: {
-        entries_processed: 0,
-        projects_consolidated: 0,
-        period_range: 'N/A'
-      },
-      consolidated_payload: {}
-    };
+  return { updates, creates, unchanged, projectsProcessed };
+}
+
+// Closed projects with changes, with the number of task updates and creates for each
+function summarizeClosedProjects(
+  updates: TaskUpdate[],
+  creates: TaskCreate[],
+  projectsById: Map<string, XeroProject>
+): ClosedProjectWithChanges[] {
+  const summaries = new Map<string, ClosedProjectWithChanges>();
+  const summaryFor = (projectId: string) => {
+    let summary = summaries.get(projectId);
+    if (!summary) {
+      const project = projectsById.get(projectId);
+      summary = {
+        projectId,
+        projectCode: project?.projectCode || '',
+        projectName: project?.name || '',
+        status: project?.status || 'CLOSED',
+        tasksToUpdate: 0,
+        tasksToCreate: 0
+      };
+      summaries.set(projectId, summary);
+    }
+    return summary;
+  };
+  updates.forEach(update => summaryFor(update.projectId).tasksToUpdate++);
+  creates.forEach(create => summaryFor(create.projectId).tasksToCreate++);
+  return Array.from(summaries.values());
+}
+
+// Parse the timesheet in-process and work out the task changes for matching in-progress Xero projects, and
+// separately for closed projects, which are only changed if the user confirms reopening them.
+// Uploads that repeat or overlap applied periods are rejected, or merged by leaving out the entries applied before.
+async function processTimesheet(
+  blobUrl: string,
+  fileName: string,
+  accessToken: string,
+  tenantId: string,
+  tenantName: string,
+  profile: TimesheetProfile,
+  mode: TimesheetUpdateMode,
+  onOverlap: TimesheetOverlapAction
+): Promise<ProcessedTimesheet> {
+  const { currency } = getTaskConfigForTenant(tenantId, tenantName);
+  const parser = new TimesheetParserService();
+  const parsed = await parser.parseFromUrl(blobUrl, { tenantId, currency, profile });
+  // Any row that does not fit the profile stops the run before Xero is called
+  if (parsed.rowErrors.length > 0) {
+    throw new TimesheetValidationError(parsed.rowErrors);
   }
-  
-  if (!data.success) {
-    throw new Error(data.error || 'Timesheet processing failed');
+  if (parsed.entries.length === 0) {
+    throw new TimesheetParseError(`No timesheet entries found in ${fileName}`);
   }
+  console.log(`[Timesheet] Parsed ${parsed.entries.length} entries into ${parsed.metadata.projects_consolidated} projects with profile "${profile.name}"`);
 
-  return data;
-}
+  const { check: periodCheck, appliedFingerprints } = await checkTimesheetPeriod(tenantId, parsed.entries);
+  // Undated entries cannot be matched against earlier uploads, so adding them again would double their hours
+  if (mode === 'accumulate' && periodCheck.undatedEntries > 0) {
+    throw new TimesheetParseError(
+      `Adding to existing estimates needs a date on every entry; ${periodCheck.undatedEntries} entries have no date`
+    );
+  }
+  if (periodCheck.status === 'duplicate' || (periodCheck.status === 'overlap' && onOverlap === 'reject')) {
+    throw new TimesheetPeriodConflictError(periodCheck);
+  }
+  const fingerprints = fingerprintEntries(parsed.entries);
+  const entries = periodCheck.status === 'overlap'
+    ? parsed.entries.filter((entry, index) => !fingerprints[index] || !appliedFingerprints.has(fingerprints[index]!))
+    : parsed.entries;
+  const payload = entries === parsed.entries
+    ? parsed.consolidated_payload
+    : parser.consolidate(entries, { tenantId, currency, profile });
+  if (entries !== parsed.entries) {
+    console.log(`[Timesheet] Merging ${entries.length} new entries; ${periodCheck.duplicateEntries} were applied before`);
+  }
 
-// Fetch active Xero projects directly (no caching)
-async function getActiveXeroProjects(accessToken: string, tenantId: string): Promise<{ projects: XeroProject[], tenantName: string }> {
-  const response = await fetch('https://api.xero.com/projects.xro/2.0/Projects?status=INPROGRESS', {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Xero-Tenant-Id': tenantId,
-      'Accept': 'application/json'
+  const { projects } = await getXeroProjects(accessToken, tenantId, ['INPROGRESS', 'CLOSED']);
+  const projectsByCode = new Map<string, XeroProject>(
+    projects.filter(p => p.projectCode && p.status === 'INPROGRESS').map(p => [p.projectCode, p])
+  );
+  // A code reused by an in-progress project always goes to that project
+  const closedProjectsByCode = new Map<string, XeroProject>(
+    projects
+      .filter(p => p.projectCode && p.status === 'CLOSED' && !projectsByCode.has(p.projectCode))
+      .map(p => [p.projectCode, p])
+  );
+  const matchingProjectIds = Object.keys(payload)
+    .map(code => (projectsByCode.get(code) || closedProjectsByCode.get(code))?.projectId)
+    .filter((id): id is string => !!id);
+  const tasksByProject = matchingProjectIds.length > 0
+    ? await getBatchProjectTasks(matchingProjectIds, accessToken, tenantId)
+    : new Map<string, XeroTask[]>();
+
+  const { updates, creates, unchanged, projectsProcessed } = buildTaskChanges(
+    payload,
+    projectsByCode,
+    tasksByProject,
+    mode
+  );
+  const closed = buildTaskChanges(payload, closedProjectsByCode, tasksByProject, mode);
+  const closedProjects = summarizeClosedProjects(
+    closed.updates,
+    closed.creates,
+    new Map(Array.from(closedProjectsByCode.values()).map(p => [p.projectId, p]))
+  );
+  if (closedProjects.length > 0) {
+    console.log(`[Timesheet] ${closedProjects.length} closed projects have changes: ${closedProjects.map(p => p.projectCode).join(', ')}`);
+  }
+  const totalChanges = updates.length + creates.length;
+  // Entries are recorded by the Xero task they feed, so only those whose task is applied count as applied
+  const changedTasks = new Set(
+    [...updates, ...creates, ...closed.updates, ...closed.creates]
+      .map(change => `${change.projectId}|${change.payload.name.toLowerCase()}`)
+  );
+  const periodRecord = await recordPendingTimesheetPeriod(tenantId, entries, {
+    fileName,
+    mode,
+    targetOf: entry => {
+      const project = projectsByCode.get(entry.jobCode) || closedProjectsByCode.get(entry.jobCode);
+      if (!project || !tasksByProject.has(project.projectId)) return null;
+      return {
+        projectId: project.projectId,
+        changed: changedTasks.has(`${project.projectId}|${entry.department.toLowerCase()}`)
+      };
     }
   });
 
-  await trackXeroApiCall(tenantId);
-  await updateXeroRateLimitFromHeaders(response.headers, tenantId);
+  return {
+    success: true,
+    message: `${totalChanges} task changes for ${projectsProcessed} in-progress projects`,
+    metadata: {
+      ...parsed.metadata,
+      projects_processed: projectsProcessed,
+      total_changes: totalChanges
+    },
+    changes: { updates, creates },
+    consolidated_payload: payload,
+    summary: {
+      total_projects_processed: projectsProcessed,
+      tasks_to_update: updates.length,
+      tasks_to_create: creates.length,
+      tasks_unchanged: unchanged,
+      total_changes: totalChanges,
+      closed_projects_affected: closedProjects.length
+    },
+    cost_verification: parsed.cost_verification,
+    closed_projects_with_changes: closedProjects,
+    closed_changes: { updates: closed.updates, creates: closed.creates },
+    update_mode: mode,
+    period_check: periodCheck,
+    period_record_id: periodRecord.id
+  };
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch Xero projects: ${response.status}`);
-  }
+// Fetch Xero projects in the given states directly (no caching), following pagination
+async function getXeroProjects(
+  accessToken: string,
+  tenantId: string,
+  states: string[] = ['INPROGRESS']
+): Promise<{ projects: XeroProject[], tenantName: string }> {
+  const items: any[] = [];
+  let page = 1;
+  let pageCount = 1;
+  do {
+    await waitForXeroRateLimit(tenantId);
+    const response = await fetch(`https://api.xero.com/projects.xro/2.0/Projects?states=${states.join(',')}&page=${page}&pageSize=100`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Xero-Tenant-Id': tenantId,
+        'Accept': 'application/json'
+      }
+    });
 
-  const data = await response.json();
+    await trackXeroApiCall(tenantId);
+    await updateXeroRateLimitFromHeaders(response.headers, tenantId);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Xero projects: ${response.status}`);
+    }
+
+    const data = await response.json();
+    items.push(...(data.items || []));
+    pageCount = data.pagination?.pageCount || 1;
+    page++;
+  } while (page <= pageCount);
   
   // Get tenant info from organizations API
   const orgResponse = await fetch('https://api.xero.com/api.xro/2.0/Organisation', {
@@ -251,7 +447,7 @@ async function getActiveXeroProjects(accessToken: string, tenantId: string): Pro
   }
 
   // Extract project codes from project names
-  const projects = (data.items || []).map((project: any) => {
+  const projects = items.map((project: any) => {
     const extractedCode = extractProjectCode(project.name);
     return {
       ...project,
@@ -308,13 +504,14 @@ async function getBatchProjectTasks(
         return { projectId, tasks };
       } catch (error) {
         console.error(`[Error] Failed to fetch tasks for project ${projectId}:`, error);
-        return { projectId, tasks: [] };
+        return { projectId, tasks: null };
       }
     });
     
+    // Projects whose tasks could not be fetched are left out of the map
     const results = await Promise.all(promises);
     results.forEach(({ projectId, tasks }) => {
-      tasksByProject.set(projectId, tasks);
+      if (tasks) tasksByProject.set(projectId, tasks);
     });
   }
   
@@ -616,16 +813,49 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json();
-    const { blobUrl, fileName, tenantId } = body;
+    const { blobUrl, fileName, tenantId, profileId } = body;
+    const mode: TimesheetUpdateMode = body.mode || 'replace';
+    const onOverlap: TimesheetOverlapAction = body.onOverlap || 'reject';
     
     if (!blobUrl || !fileName || !tenantId) {
       return NextResponse.json({ error: 'blobUrl, fileName, and tenantId are required' }, { status: 400 });
     }
+    if (!isTimesheetBlobUrl(blobUrl)) {
+      return NextResponse.json({ error: 'blobUrl must be a file in this app\'s blob storage' }, { status: 400 });
+    }
+    if (mode !== 'replace' && mode !== 'accumulate') {
+      return NextResponse.json({ error: 'mode must be "replace" or "accumulate"' }, { status: 400 });
+    }
+    if (onOverlap !== 'reject' && onOverlap !== 'merge') {
+      return NextResponse.json({ error: 'onOverlap must be "reject" or "merge"' }, { status: 400 });
+    }
+    if (onOverlap === 'merge' && mode !== 'accumulate') {
+      // Replacing estimates with only the new entries would drop the hours applied before
+      return NextResponse.json({ error: 'Merging overlapping uploads requires accumulate mode' }, { status: 400 });
+    }
 
     console.log('[API] Processing file:', fileName);
 
-    // Step 1: Process timesheet with Python backend
-    const timesheetData = await processTimesheetWithPython(blobUrl, fileName, tenantId);
+    if (tenantId !== effective_tenant_id) {
+      return NextResponse.json({ error: 'The selected Xero organisation has changed; reload and try again' }, { status: 409 });
+    }
+
+    const profile = await resolveTimesheetProfile(effective_tenant_id, profileId);
+    if (!profile) {
+      return NextResponse.json({ error: `Timesheet profile ${profileId} not found for this organisation` }, { status: 400 });
+    }
+
+    // Step 1: Parse the timesheet and compare it with the tenant's in-progress projects
+    const timesheetData = await processTimesheet(
+      blobUrl,
+      fileName,
+      access_token,
+      effective_tenant_id,
+      selectedTenant?.tenantName || '',
+      profile,
+      mode,
+      onOverlap
+    );
     console.log(`[Stats] Processed: ${timesheetData.metadata.entries_processed} entries, ${timesheetData.metadata.projects_processed || timesheetData.metadata.projects_consolidated || 0} projects`);
 
     // Create mock results for Excel report (since we're not processing with Xero yet)
@@ -654,17 +884,20 @@ export async function POST(request: NextRequest) {
     // Convert buffer to base64 for download
     const excelBase64 = excelBuffer.toString('base64');
     
-    // Prepare the response data - pass through all data from Python backend
+    // Prepare the response data
     const responseData: any = {
       success: timesheetData.success,
       message: timesheetData.message,
       metadata: timesheetData.metadata,
-      // Include the changes data from Python backend
+      // Task updates and creates for review before they are applied
       changes: timesheetData.changes,
-      // Include the summary from Python backend
       summary: timesheetData.summary,
-      // Include cost verification if present
       cost_verification: timesheetData.cost_verification,
+      closed_projects_with_changes: timesheetData.closed_projects_with_changes,
+      closed_changes: timesheetData.closed_changes,
+      update_mode: timesheetData.update_mode,
+      period_check: timesheetData.period_check,
+      period_record_id: timesheetData.period_record_id,
       // Add processing time
       processingTimeMs: Date.now() - startTime,
       // Results array for compatibility
@@ -689,7 +922,7 @@ export async function POST(request: NextRequest) {
     // });
     
     // Step 2: Get active Xero projects and verify tenant
-    const { projects, tenantName } = await getActiveXeroProjects(access_token, effective_tenant_id);
+    const { projects, tenantName } = await getXeroProjects(access_token, effective_tenant_id);
     console.log(`[Stats] Found ${projects.length} active IN PROGRESS Xero projects for: ${tenantName}`);
     
     // Log the project codes we found in Xero
@@ -807,7 +1040,22 @@ export async function POST(request: NextRequest) {
 
   } catch (error: any) {
     console.error('[API Error]:', error.message || error);
-    
+
+    if (error instanceof TimesheetPeriodConflictError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        period_check: error.check
+      }, { status: 409 });
+    }
+
+    if (error instanceof TimesheetValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        row_errors: error.rowErrors
+      }, { status: 422 });
+    }
 
     return NextResponse.json({
       success: false,
@@ -824,6 +1072,6 @@ export async function POST(request: NextRequest) {
         processingTimeMs: Date.now() - startTime
       },
       results: []
-    }, { status: 500 });
+    }, { status: error instanceof TimesheetParseError ? 400 : 500 });
   }
 } 
\ No newline at end of file
@@ -1,30 +1,445 @@
 /**
- * XeroUpdateService - Handles Xero timesheet updates
+ * XeroUpdateService - Applies timesheet task changes to Xero projects and rolls them back
+ *
+ * Every run records each task's state before it was changed under a run ID, so the whole run can be
+ * undone: updated tasks get their previous estimate and rate back, and created tasks are deleted.
+ * Closed projects are only changed when the caller confirms them; they are reopened for the run and
+ * closed again afterwards.
  */
 
+import { trackXeroApiCall, waitForXeroRateLimit, updateXeroRateLimitFromHeaders } from '@/lib/xeroApiTracker';
+import { withDistributedLock } from '@/lib/redis/redisClient';
+import { createRunId, TimesheetRunStore } from '@/lib/timesheet/services/TimesheetRunStore';
+import type { TimesheetReopenedProject, TimesheetRun, TimesheetRunChange, XeroTaskState } from '@/lib/timesheet/types';
+
+export interface TaskUpdateRequest {
+  projectId: string;
+  taskId: string;
+  projectCode?: string;
+  projectName?: string;
+  payload: XeroTaskState;
+}
+
+export interface TaskCreateRequest {
+  projectId: string;
+  projectCode?: string;
+  projectName?: string;
+  payload: XeroTaskState;
+  idempotencyKey?: string;
+}
+
+export interface XeroRunContext {
+  tenantId: string;
+  accessToken: string;
+  // Email of the user applying or rolling back the run
+  userEmail?: string;
+  fileName?: string;
+}
+
+export interface XeroUpdateSummary {
+  success: boolean;
+  runId: string;
+  totalAttempted: number;
+  successCount: number;
+  failureCount: number;
+  // Closed projects reopened for the run; any that could not be closed again are left in progress
+  reopenedProjects: TimesheetReopenedProject[];
+  results: Array<{
+    projectId: string;
+    taskId?: string;
+    taskName: string;
+    action: 'updated' | 'created';
+    success: boolean;
+    error?: string;
+    projectDetails: { projectCode?: string; projectName?: string };
+  }>;
+  duration: number;
+}
+
+export interface ApplyUpdatesOptions {
+  // Closed projects the user confirmed to reopen, update and close again
+  reopenProjectIds?: string[];
+}
+
+export interface RollbackOptions {
+  // Restore tasks even if they were changed in Xero after the run
+  force?: boolean;
+}
+
+const XERO_PROJECTS_API = 'https://api.xero.com/projects.xro/2.0';
+
+// Xero task as returned by the Projects API, reduced to the fields a run writes
+function toTaskState(task: any): XeroTaskState {
+  return {
+    name: task.name,
+    estimateMinutes: Number(task.estimateMinutes) || 0,
+    rate: { currency: task.rate?.currency, value: Number(task.rate?.value) || 0 },
+    chargeType: task.chargeType
+  };
+}
+
+// Compared in cents so 12.5 and "12.50" are the same rate
+const sameState = (a: XeroTaskState, b: XeroTaskState): boolean =>
+  a.estimateMinutes === b.estimateMinutes && Math.round(a.rate.value * 100) === Math.round(b.rate.value * 100);
+
+async function xeroProjectsRequest(
+  context: XeroRunContext,
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  path: string,
+  body?: object,
+  headers: Record<string, string> = {}
+): Promise<any> {
+  await waitForXeroRateLimit(context.tenantId);
+
+  const response = await fetch(`${XERO_PROJECTS_API}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${context.accessToken}`,
+      'Xero-Tenant-Id': context.tenantId,
+      'Accept': 'application/json',
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...headers
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  await trackXeroApiCall(context.tenantId);
+  await updateXeroRateLimitFromHeaders(response.headers, context.tenantId);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${method} ${path} failed: ${response.status} - ${errorText}`);
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+// Current tasks of each project; a project whose tasks cannot be read maps to its error message
+async function fetchCurrentTasks(context: XeroRunContext, projectIds: string[]): Promise<Map<string, any[] | string>> {
+  const tasksByProject = new Map<string, any[] | string>();
+  for (const projectId of Array.from(new Set(projectIds))) {
+    try {
+      const data = await xeroProjectsRequest(context, 'GET', `/projects/${projectId}/tasks`);
+      tasksByProject.set(projectId, data?.items || []);
+    } catch (error) {
+      tasksByProject.set(projectId, error instanceof Error ? error.message : 'Failed to read project tasks');
+    }
+  }
+  return tasksByProject;
+}
+
+type ProjectDetails = { projectId: string; projectCode?: string; projectName?: string };
+
+// Reopen the listed projects that are closed; changes to a project that could not be reopened are blocked with its error
+async function reopenClosedProjects(
+  context: XeroRunContext,
+  projects: ProjectDetails[]
+): Promise<{ reopened: TimesheetReopenedProject[]; blocked: Map<string, string> }> {
+  const reopened: TimesheetReopenedProject[] = [];
+  const blocked = new Map<string, string>();
+  for (const details of projects) {
+    const record: TimesheetReopenedProject = { ...details, reopened: false, reclosed: false };
+    try {
+      const project = await xeroProjectsRequest(context, 'GET', `/projects/${details.projectId}`);
+      // Reopened by someone else since processing; it is left as it is afterwards
+      if (project?.status !== 'CLOSED') continue;
+      await xeroProjectsRequest(context, 'PATCH', `/projects/${details.projectId}`, { status: 'INPROGRESS' });
+      record.reopened = true;
+    } catch (error) {
+      record.error = `Could not reopen project: ${error instanceof Error ? error.message : 'unknown error'}`;
+      blocked.set(details.projectId, record.error);
+    }
+    reopened.push(record);
+  }
+  return { reopened, blocked };
+}
+
+// Projects in the list that are closed; their changes are blocked unless the caller confirmed reopening them
+async function findClosedProjects(context: XeroRunContext, projectIds: string[]): Promise<Map<string, string>> {
+  const blocked = new Map<string, string>();
+  const ids = Array.from(new Set(projectIds));
+  // Keeps the projectIds filter well within URL length limits
+  const chunkSize = 50;
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const chunk = ids.slice(i, i + chunkSize);
+    try {
+      const data = await xeroProjectsRequest(context, 'GET', `/projects?projectIds=${chunk.join(',')}&states=CLOSED&pageSize=500`);
+      for (const project of data?.items || []) {
+        blocked.set(project.projectId, 'Project is closed; confirm reopening it to apply changes');
+      }
+    } catch (error) {
+      const message = `Could not check project status: ${error instanceof Error ? error.message : 'unknown error'}`;
+      chunk.forEach(projectId => blocked.set(projectId, message));
+    }
+  }
+  return blocked;
+}
+
+// Close the reopened projects again; failures are kept on the record so the project can be closed by hand
+async function recloseProjects(context: XeroRunContext, reopened: TimesheetReopenedProject[]): Promise<void> {
+  for (const record of reopened.filter(project => project.reopened)) {
+    try {
+      await xeroProjectsRequest(context, 'PATCH', `/projects/${record.projectId}`, { status: 'CLOSED' });
+      record.reclosed = true;
+    } catch (error) {
+      record.error = `Could not close project again: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  }
+}
+
 export class XeroUpdateService {
-  constructor(private accessToken: string, private tenantId: string) {}
+  /**
+   * Applies task updates and creates to Xero and records them as a run
+   *
+   * @description Reads each project's current tasks first and stores them with the run, so an update is only
+   * sent when its previous state is known. The run is saved even if some changes fail, and can be undone
+   * with {@link rollbackRun}. Projects in `reopenProjectIds` that are closed are reopened before their
+   * changes are sent and closed again afterwards, even if the changes fail. Changes to any other closed
+   * project are not sent.
+   *
+   * @param {XeroRunContext} context - Tenant, access token and the user applying the changes
+   * @param {TaskUpdateRequest[]} updates - Changes to existing tasks
+   * @param {TaskCreateRequest[]} creates - New tasks
+   * @param {ApplyUpdatesOptions} [options={}] - Closed projects confirmed for reopening
+   * @returns {Promise<XeroUpdateSummary>} Per-task results and the run ID
+   *
+   * @example
+   * ```typescript
+   * const summary = await XeroUpdateService.applyUpdates({ tenantId, accessToken, userEmail }, updates, creates);
+   * console.log(`Run ${summary.runId}: ${summary.successCount} applied`);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  static async applyUpdates(
+    context: XeroRunContext,
+    updates: TaskUpdateRequest[],
+    creates: TaskCreateRequest[],
+    options: ApplyUpdatesOptions = {}
+  ): Promise<XeroUpdateSummary> {
+    const startTime = Date.now();
+    const run: TimesheetRun = {
+      runId: createRunId(),
+      tenantId: context.tenantId,
+      fileName: context.fileName,
+      createdBy: context.userEmail,
+      createdAt: new Date().toISOString(),
+      status: 'applied',
+      changes: []
+    };
+    const reopenIds = new Set(options.reopenProjectIds || []);
+    const projectsToReopen = new Map<string, ProjectDetails>();
+    for (const change of [...updates, ...creates]) {
+      if (reopenIds.has(change.projectId) && !projectsToReopen.has(change.projectId)) {
+        projectsToReopen.set(change.projectId, {
+          projectId: change.projectId,
+          projectCode: change.projectCode,
+          projectName: change.projectName
+        });
+      }
+    }
+    const blocked = new Map<string, string>();
+
+    try {
+      const currentTasks = await fetchCurrentTasks(context, updates.map(u => u.projectId));
+      const otherProjectIds = [...updates, ...creates].map(change => change.projectId).filter(id => !reopenIds.has(id));
+      (await findClosedProjects(context, otherProjectIds)).forEach((error, projectId) => blocked.set(projectId, error));
+      if (projectsToReopen.size > 0) {
+        const result = await reopenClosedProjects(context, Array.from(projectsToReopen.values()));
+        run.reopenedProjects = result.reopened;
+        result.blocked.forEach((error, projectId) => blocked.set(projectId, error));
+      }
 
-  async updateTimesheets(updates: any[]): Promise<any> {
-    // This is a placeholder implementation
-    // The actual implementation would update timesheets in Xero
+      for (const update of updates) {
+        const change: TimesheetRunChange = {
+          projectId: update.projectId,
+          projectCode: update.projectCode,
+          projectName: update.projectName,
+          taskId: update.taskId,
+          taskName: update.payload.name,
+          action: 'updated',
+          applied: update.payload,
+          success: false
+        };
+        run.changes.push(change);
+        if (blocked.has(update.projectId)) {
+          change.error = blocked.get(update.projectId);
+          continue;
+        }
+
+        const tasks = currentTasks.get(update.projectId);
+        const existing = Array.isArray(tasks) ? tasks.find(task => task.taskId === update.taskId) : undefined;
+        if (!existing) {
+          // Without the previous state the update could not be rolled back, so it is not sent
+          change.error = typeof tasks === 'string' ? `Current task state unavailable: ${tasks}` : 'Task no longer exists in Xero';
+          continue;
+        }
+        change.previous = toTaskState(existing);
+
+        try {
+          await xeroProjectsRequest(context, 'PUT', `/projects/${update.projectId}/tasks/${update.taskId}`, update.payload);
+          change.success = true;
+        } catch (error) {
+          change.error = error instanceof Error ? error.message : 'Update failed';
+        }
+      }
+
+      for (const create of creates) {
+        const change: TimesheetRunChange = {
+          projectId: create.projectId,
+          projectCode: create.projectCode,
+          projectName: create.projectName,
+          taskName: create.payload.name,
+          action: 'created',
+          applied: create.payload,
+          success: false
+        };
+        run.changes.push(change);
+        if (blocked.has(create.projectId)) {
+          change.error = blocked.get(create.projectId);
+          continue;
+        }
+
+        try {
+          const created = await xeroProjectsRequest(
+            context,
+            'POST',
+            `/projects/${create.projectId}/tasks`,
+            create.payload,
+            create.idempotencyKey ? { 'Idempotency-Key': create.idempotencyKey } : {}
+          );
+          change.taskId = created?.taskId;
+          change.success = true;
+        } catch (error) {
+          change.error = error instanceof Error ? error.message : 'Create failed';
+        }
+      }
+    } finally {
+      if (run.reopenedProjects) {
+        await recloseProjects(context, run.reopenedProjects);
+      }
+      // Also kept when only projects were reopened, so a project left in progress can be traced to the run
+      if (run.changes.some(change => change.success) || run.reopenedProjects?.some(project => project.reopened)) {
+        await TimesheetRunStore.save(run);
+      }
+    }
+
+    const successCount = run.changes.filter(change => change.success).length;
+    const reopenedProjects = run.reopenedProjects || [];
     return {
-      success: true,
-      updatedCount: updates.length,
-      results: updates.map(u => ({ ...u, status: 'updated' }))
+      success: successCount === run.changes.length && reopenedProjects.every(project => !project.error),
+      runId: run.runId,
+      totalAttempted: run.changes.length,
+      successCount,
+      failureCount: run.changes.length - successCount,
+      reopenedProjects,
+      results: run.changes.map(change => ({
+        projectId: change.projectId,
+        taskId: change.taskId,
+        taskName: change.taskName,
+        action: change.action,
+        success: change.success,
+        error: change.error,
+        projectDetails: { projectCode: change.projectCode, projectName: change.projectName }
+      })),
+      duration: Date.now() - startTime
     };
   }
 
-  static async applyUpdates(tenantId: string, updates: any[], creates: any[]): Promise<any> {
-    // This is a placeholder implementation
-    return {
-      success: true,
-      successCount: updates.length + creates.length,
-      failureCount: 0,
-      results: {
-        updates: updates.map(u => ({ ...u, status: 'success' })),
-        creates: creates.map(c => ({ ...c, status: 'success' }))
+  /**
+   * Undoes the task changes of a run
+   *
+   * @description Updated tasks get their previous estimate and rate back; created tasks are deleted. A task
+   * changed in Xero since the run is left alone unless `force` is set, so later manual edits are not lost.
+   * Changes that cannot be undone keep their error and the run is marked `rollback_failed`; rolling back
+   * again retries only those. Projects the run reopened are reopened again if they are closed, and closed
+   * once the rollback is done.
+   *
+   * @param {XeroRunContext} context - Tenant, access token and the user rolling back
+   * @param {string} runId - Run ID from {@link applyUpdates} or the Excel report
+   * @param {RollbackOptions} [options={}] - Rollback options
+   * @returns {Promise<TimesheetRun | null>} The updated run, or null if the tenant has no run with that ID
+   * @throws {Error} If another rollback of the same run is in progress
+   *
+   * @example
+   * ```typescript
+   * const run = await XeroUpdateService.rollbackRun({ tenantId, accessToken, userEmail }, 'TS-20250314-1a2b3c');
+   * ```
+   *
+   * @since 1.0.0
+   */
+  static async rollbackRun(
+    context: XeroRunContext,
+    runId: string,
+    options: RollbackOptions = {}
+  ): Promise<TimesheetRun | null> {
+    return withDistributedLock(`timesheet-rollback:${context.tenantId}:${runId}`, 300, async () => {
+      const run = await TimesheetRunStore.get(context.tenantId, runId);
+      if (!run) return null;
+
+      const pending = run.changes.filter(change => change.success && !change.rolledBack);
+      const currentTasks = await fetchCurrentTasks(context, pending.map(change => change.projectId));
+      const pendingProjectIds = new Set(pending.map(change => change.projectId));
+      const { reopened, blocked } = await reopenClosedProjects(
+        context,
+        (run.reopenedProjects || [])
+          .filter(project => project.reopened && pendingProjectIds.has(project.projectId))
+          .map(({ projectId, projectCode, projectName }) => ({ projectId, projectCode, projectName }))
+      );
+
+      try {
+        for (const change of pending) {
+          change.rollbackError = undefined;
+          if (blocked.has(change.projectId)) {
+            change.rollbackError = blocked.get(change.projectId);
+            continue;
+          }
+          const tasks = currentTasks.get(change.projectId);
+          if (!Array.isArray(tasks)) {
+            change.rollbackError = `Current task state unavailable: ${tasks}`;
+            continue;
+          }
+
+          // Created tasks whose ID Xero did not return are found by name
+          const current = change.taskId
+            ? tasks.find(task => task.taskId === change.taskId)
+            : tasks.find(task => task.name?.toLowerCase() === change.taskName.toLowerCase());
+          if (!current) {
+            if (change.action === 'created') {
+              change.rolledBack = true;
+            } else {
+              change.rollbackError = 'Task no longer exists in Xero';
+            }
+            continue;
+          }
+
+          if (!options.force && !sameState(toTaskState(current), change.applied)) {
+            change.rollbackError = 'Task was changed in Xero after this run; roll back with force to overwrite it';
+            continue;
+          }
+
+          try {
+            if (change.action === 'created') {
+              await xeroProjectsRequest(context, 'DELETE', `/projects/${change.projectId}/tasks/${current.taskId}`);
+            } else {
+              await xeroProjectsRequest(context, 'PUT', `/projects/${change.projectId}/tasks/${current.taskId}`, change.previous!);
+            }
+            change.rolledBack = true;
+          } catch (error) {
+            change.rollbackError = error instanceof Error ? error.message : 'Rollback failed';
+          }
+        }
+      } finally {
+        await recloseProjects(context, reopened);
       }
-    };
+
+      run.status = run.changes.every(change => !change.success || change.rolledBack) ? 'rolled_back' : 'rollback_failed';
+      run.rolledBackBy = context.userEmail;
+      run.rolledBackAt = new Date().toISOString();
+      run.rollbackReopenedProjects = reopened;
+      await TimesheetRunStore.save(run);
+      return run;
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+/**
+ * Timesheet format profiles for the selected Xero tenant
+ *
+ * GET             - list the built-in standard profile and the tenant's profiles
+ * POST            - create or replace a profile: { id?, name, sheetName?, headerRow?, columns?, dateFormat? }
+ * DELETE ?id=ID   - remove one of the tenant's profiles
+ *
+ * Any signed-in user can list profiles to choose one for an upload; changes are restricted to ADMIN_EMAILS.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute, isAdminSession } from '@/lib/api/middleware';
+import {
+  TimesheetProfileStore,
+  listTimesheetProfiles,
+  saveTimesheetProfile,
+  validateTimesheetProfile
+} from '@/lib/timesheet/services/TimesheetProfileStore';
+import { STANDARD_TIMESHEET_PROFILE } from '@/lib/timesheet/services/TimesheetParserService';
+import type { TimesheetProfile } from '@/lib/timesheet/types';
+import { logger } from '@/lib/logger';
+
+const forbidden = () => NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+
+export const GET = createProtectedRoute(async (req, context) => {
+  try {
+    const profiles = await listTimesheetProfiles(context.tenantId);
+    return NextResponse.json({ success: true, profiles, canEdit: isAdminSession(context.session) });
+  } catch (error) {
+    logger.error({ tenantId: context.tenantId, error: (error as Error).message }, 'Failed to list timesheet profiles');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list timesheet profiles'
+    }, { status: 500 });
+  }
+});
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { session, tenantId } = context;
+  if (!isAdminSession(session)) return forbidden();
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const input: Omit<TimesheetProfile, 'builtIn' | 'updatedBy' | 'updatedAt'> = {
+    id: typeof body.id === 'string' ? body.id : '',
+    name: body.name,
+    sheetName: body.sheetName || undefined,
+    headerRow: body.headerRow ?? undefined,
+    columns: body.columns || undefined,
+    dateFormat: body.dateFormat || undefined
+  };
+
+  if (input.id === STANDARD_TIMESHEET_PROFILE.id) {
+    return NextResponse.json({ success: false, error: 'The standard profile cannot be changed' }, { status: 400 });
+  }
+  const validationError = validateTimesheetProfile(input);
+  if (validationError) {
+    return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+  }
+
+  try {
+    const profile = await saveTimesheetProfile(tenantId, input, session?.user?.email);
+    logger.info({ tenantId, profileId: profile.id, updatedBy: profile.updatedBy }, 'Timesheet profile saved');
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to save timesheet profile');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save timesheet profile'
+    }, { status: 500 });
+  }
+});
+
+export const DELETE = createProtectedRoute(async (req, context) => {
+  const { session, tenantId } = context;
+  if (!isAdminSession(session)) return forbidden();
+
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await TimesheetProfileStore.delete(tenantId, id);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: `No timesheet profile ${id} for this organisation` }, { status: 404 });
+    }
+    logger.info({ tenantId, profileId: id, deletedBy: session?.user?.email }, 'Timesheet profile deleted');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({ tenantId, profileId: id, error: (error as Error).message }, 'Failed to delete timesheet profile');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete timesheet profile'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,66 @@
+/**
+ * Rollback of a timesheet run
+ *
+ * POST { runId, force? } - restore the previous estimates and rates of the tasks the run updated and delete
+ *                          the tasks it created. Tasks changed in Xero since the run are skipped unless force is set.
+ *                          Once fully rolled back, the run's timesheet periods can be uploaded again.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { ensureValidToken } from '@/lib/ensureXeroToken';
+import { XeroUpdateService } from '@/app/api/xero/services/XeroUpdateService';
+import { releaseTimesheetPeriodsForRun } from '@/lib/timesheet/services/TimesheetPeriodStore';
+import { logger } from '@/lib/logger';
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { tenantId, session } = context;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.runId !== 'string' || !body.runId) {
+    return NextResponse.json({ success: false, error: 'runId is required' }, { status: 400 });
+  }
+
+  try {
+    const { access_token, effective_tenant_id } = await ensureValidToken();
+    if (effective_tenant_id !== tenantId) {
+      return NextResponse.json({ success: false, error: 'The selected Xero organisation has changed; reload and try again' }, { status: 409 });
+    }
+
+    const run = await XeroUpdateService.rollbackRun(
+      { tenantId, accessToken: access_token, userEmail: session?.user?.email },
+      body.runId,
+      { force: body.force === true }
+    );
+    if (!run) {
+      return NextResponse.json({ success: false, error: `No timesheet run ${body.runId} for this organisation` }, { status: 404 });
+    }
+
+    const releasedPeriods = run.status === 'rolled_back' ? await releaseTimesheetPeriodsForRun(tenantId, run.runId) : 0;
+    const failed = run.changes.filter(change => change.rollbackError);
+    logger.info({
+      tenantId,
+      runId: run.runId,
+      status: run.status,
+      rolledBack: run.changes.filter(change => change.rolledBack).length,
+      failed: failed.length,
+      releasedPeriods,
+      rolledBackBy: run.rolledBackBy
+    }, 'Timesheet run rolled back');
+
+    return NextResponse.json({ success: run.status === 'rolled_back', run });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Rollback failed';
+    if (message.includes('Failed to acquire lock')) {
+      return NextResponse.json({ success: false, error: 'This run is already being rolled back' }, { status: 409 });
+    }
+    logger.error({ tenantId, runId: body.runId, error: message }, 'Timesheet run rollback failed');
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+});
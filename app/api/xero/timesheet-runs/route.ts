@@ -0,0 +1,39 @@
+/**
+ * Timesheet runs applied to the selected Xero tenant
+ *
+ * GET         - list recent runs, newest first
+ * GET ?id=ID  - one run with its task changes and their previous state
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { TimesheetRunStore } from '@/lib/timesheet/services/TimesheetRunStore';
+import { logger } from '@/lib/logger';
+
+export const GET = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+  const runId = req.nextUrl.searchParams.get('id');
+
+  try {
+    if (runId) {
+      const run = await TimesheetRunStore.get(tenantId, runId);
+      if (!run) {
+        return NextResponse.json({ success: false, error: `No timesheet run ${runId} for this organisation` }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, run });
+    }
+
+    const runs = (await TimesheetRunStore.list(tenantId)).map(({ changes, ...run }) => ({
+      ...run,
+      changesApplied: changes.filter(change => change.success).length,
+      changesRolledBack: changes.filter(change => change.rolledBack).length
+    }));
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    logger.error({ tenantId, runId, error: (error as Error).message }, 'Failed to read timesheet runs');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read timesheet runs'
+    }, { status: 500 });
+  }
+});
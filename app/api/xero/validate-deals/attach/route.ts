@@ -0,0 +1,138 @@
+/**
+ * API endpoint to reattach to a validation session with SSE streaming
+ *
+ * GET ?id=ID  - replay the session's steps, then stream its checkpoints until it finishes
+ *
+ * Emits the same `session`, `progress`, `complete`, `cancelled` and `error` events as `/api/xero/validate-deals`,
+ * so a client that lost its connection (e.g. after a page refresh) can pick up where it left off.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { SyncSessionStore, isSessionStale } from '@/lib/orchestration/sessionStore';
+import type { ValidationSession } from '@/lib/orchestration/ValidationOrchestrator';
+import { logger } from '@/lib/logger';
+
+const POLL_INTERVAL_MS = 1000;
+
+export const maxDuration = 300;
+
+export const GET = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+  const sessionId = req.nextUrl.searchParams.get('id');
+
+  if (!sessionId) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let connected = true;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendProgress = (data: any) => {
+        if (!connected) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          connected = false;
+        }
+      };
+
+      try {
+        // Last status and progress sent for each step, so only changes are streamed
+        const sentSteps = new Map<string, string>();
+        let announced = false;
+
+        while (connected && !req.signal.aborted) {
+          const session = await SyncSessionStore.get<ValidationSession>(tenantId, sessionId);
+
+          if (!session) {
+            sendProgress({ type: 'error', message: `Validation session ${sessionId} not found`, sessionId });
+            break;
+          }
+
+          if (!announced) {
+            announced = true;
+            sendProgress({ type: 'session', sessionId, status: session.status });
+            sendProgress({ type: 'log', message: `Reattached to validation session ${sessionId}` });
+          }
+
+          for (const step of session.steps) {
+            const snapshot = `${step.status}:${step.progress ?? ''}`;
+            if (step.status === 'pending' || sentSteps.get(step.id) === snapshot) continue;
+            sentSteps.set(step.id, snapshot);
+            sendProgress({
+              type: 'progress',
+              step: {
+                id: step.id,
+                name: step.name,
+                description: step.description,
+                status: step.status,
+                progress: step.progress,
+                error: step.error
+              }
+            });
+          }
+
+          if (session.status === 'completed') {
+            sendProgress({
+              type: 'complete',
+              data: {
+                session: {
+                  id: session.id,
+                  tenantId: session.tenantId,
+                  tenantName: session.tenantName,
+                  startTime: session.startTime,
+                  endTime: session.endTime,
+                  status: session.status
+                },
+                results: session.validationResults
+              }
+            });
+            break;
+          }
+
+          if (session.status === 'cancelled') {
+            sendProgress({ type: 'cancelled', sessionId });
+            break;
+          }
+
+          if (session.status === 'failed' || isSessionStale(session)) {
+            sendProgress({
+              type: 'error',
+              message: session.status === 'failed'
+                ? session.error || 'Validation failed'
+                : 'Validation session stopped responding',
+              sessionId,
+              resumable: true
+            });
+            break;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        logger.error({ tenantId, sessionId, error: (error as Error).message }, 'Failed to reattach to validation session');
+        sendProgress({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Failed to reattach to validation session'
+        });
+      }
+
+      if (connected) controller.close();
+    },
+    cancel() {
+      connected = false;
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable nginx buffering
+    }
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * API endpoint to cancel a running validation session
+ *
+ * POST ?id=ID  - stop the session before its next step
+ *
+ * The step already running finishes first; completed steps are kept so the session can be resumed.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import {
+  SyncSessionStore,
+  isSessionFinished,
+  isSessionStale
+} from '@/lib/orchestration/sessionStore';
+import { logger } from '@/lib/logger';
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+  const sessionId = req.nextUrl.searchParams.get('id');
+
+  if (!sessionId) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    const session = await SyncSessionStore.get(tenantId, sessionId);
+
+    if (!session) {
+      return NextResponse.json({ success: false, error: `Validation session ${sessionId} not found` }, { status: 404 });
+    }
+
+    if (isSessionFinished(session)) {
+      return NextResponse.json({
+        success: false,
+        error: `Validation session ${sessionId} is already ${session.status}`,
+        status: session.status
+      }, { status: 409 });
+    }
+
+    await SyncSessionStore.requestCancel(tenantId, sessionId);
+
+    // No process is left to notice the flag, so record the cancellation directly
+    if (isSessionStale(session)) {
+      await SyncSessionStore.save({ ...session, status: 'cancelled', endTime: new Date(), updatedAt: new Date() });
+      logger.info({ tenantId, sessionId }, 'Stalled validation session cancelled');
+      return NextResponse.json({ success: true, status: 'cancelled' });
+    }
+
+    logger.info({ tenantId, sessionId }, 'Validation session cancel requested');
+    return NextResponse.json({ success: true, status: 'cancelling' });
+  } catch (error) {
+    logger.error({ tenantId, sessionId, error: (error as Error).message }, 'Failed to cancel validation session');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel validation session'
+    }, { status: 500 });
+  }
+});
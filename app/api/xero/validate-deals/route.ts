@@ -1,5 +1,10 @@
 /**
  * API endpoint for Pipedrive-Xero validation with SSE streaming
+ *
+ * GET              - start a new validation session
+ * GET ?resume=ID   - continue a failed, cancelled or stalled session, reusing its fetched data
+ *
+ * The first event is `session` with the session ID, which `/attach` and `/cancel` take.
  */
 
 import { NextResponse } from 'next/server';
@@ -7,25 +12,58 @@ import { createProtectedRoute } from '@/lib/api/middleware';
 import { ValidationOrchestrator } from '@/lib/orchestration/ValidationOrchestrator';
 import { resolvePipedriveConfig } from '@/lib/utils/tenantConfig';
 import { logger } from '@/lib/logger';
+import {
+  SyncSessionStore,
+  isSessionResumable,
+  SessionCancelledError
+} from '@/lib/orchestration/sessionStore';
 
 export const GET = createProtectedRoute(async (req, context) => {
   const encoder = new TextEncoder();
+  const resumeSessionId = req.nextUrl.searchParams.get('resume');
+  // Cleared when the client disconnects; the workflow keeps running and checkpointing so it can be reattached
+  let connected = true;
+  // Set once the workflow has a session, so a failure can be offered for resume
+  let activeSessionId: string | undefined;
   
   const stream = new ReadableStream({
     async start(controller) {
       try {
         const sendProgress = (data: any) => {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          if (!connected) return;
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          } catch {
+            connected = false;
+          }
         };
         
         // Use context from middleware
         const tenantId = context.tenantId;
-        logger.info({ tenantId }, 'Starting Pipedrive validation');
+        logger.info({ tenantId, resumeSessionId }, 'Starting Pipedrive validation');
         
         sendProgress({ 
           type: 'log', 
-          message: `Starting validation for tenant: ${tenantId}` 
+          message: resumeSessionId
+            ? `Resuming validation session ${resumeSessionId} for tenant: ${tenantId}`
+            : `Starting validation for tenant: ${tenantId}` 
         });
+
+        const resumeFrom = resumeSessionId
+          ? await SyncSessionStore.get(tenantId, resumeSessionId)
+          : undefined;
+
+        if (resumeSessionId && (!resumeFrom || !isSessionResumable(resumeFrom))) {
+          sendProgress({
+            type: 'error',
+            message: resumeFrom
+              ? `Validation session ${resumeSessionId} is ${resumeFrom.status} and cannot be resumed`
+              : `Validation session ${resumeSessionId} not found`,
+            sessionId: resumeSessionId
+          });
+          controller.close();
+          return;
+        }
         
         // Resolve tenant configuration
         const pipedriveConfig = await resolvePipedriveConfig(tenantId);
@@ -60,6 +98,10 @@ export const GET = createProtectedRoute(async (req, context) => {
         
         // Set up progress callback
         orchestrator.setProgressCallback((step) => {
+          if (!activeSessionId) {
+            activeSessionId = orchestrator.getSession()?.id;
+            sendProgress({ type: 'session', sessionId: activeSessionId });
+          }
           sendProgress({ 
             type: 'progress', 
             step: {
@@ -82,7 +124,8 @@ export const GET = createProtectedRoute(async (req, context) => {
         
         const validationSession = await orchestrator.executeValidationWorkflow(
           tenantId,
-          pipedriveConfig
+          pipedriveConfig,
+          resumeFrom || undefined
         );
         
         // Send completion with results
@@ -106,15 +149,11 @@ export const GET = createProtectedRoute(async (req, context) => {
           summary: validationSession.validationResults?.summary
         }, 'Validation completed');
         
-        controller.close();
+        if (connected) controller.close();
         
       } catch (error) {
-        logger.error({ 
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined
-        }, 'Validation workflow failed');
-        
         const sendProgress = (data: any) => {
+          if (!connected) return;
           try {
             controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
           } catch (e) {
@@ -122,15 +161,32 @@ export const GET = createProtectedRoute(async (req, context) => {
             console.error('Failed to send progress:', e);
           }
         };
+
+        if (error instanceof SessionCancelledError) {
+          sendProgress({ type: 'cancelled', sessionId: error.sessionId });
+          if (connected) controller.close();
+          return;
+        }
+
+        logger.error({ 
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined
+        }, 'Validation workflow failed');
         
         sendProgress({ 
           type: 'error', 
           message: error instanceof Error ? error.message : 'Validation failed',
-          details: error instanceof Error ? error.stack : undefined
+          details: error instanceof Error ? error.stack : undefined,
+          sessionId: activeSessionId,
+          resumable: !!activeSessionId
         });
         
-        controller.close();
+        if (connected) controller.close();
       }
+    },
+    cancel() {
+      connected = false;
+      logger.info({ tenantId: context.tenantId }, 'Validation stream disconnected, workflow continues in background');
     }
   });
   
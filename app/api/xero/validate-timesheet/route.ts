@@ -0,0 +1,79 @@
+/**
+ * Timesheet upload validation
+ *
+ * POST { blobUrl, profileId? } - parse an uploaded timesheet with the selected profile and report the entries
+ *                                found, any row errors and whether its period was already applied, without
+ *                                contacting Xero
+ *
+ * Used before processing so the user can fix the file or choose another profile.
+ */
+
+import { NextResponse } from 'next/server';
+import { createProtectedRoute } from '@/lib/api/middleware';
+import { isTimesheetBlobUrl, TimesheetParserService, TimesheetParseError } from '@/lib/timesheet/services/TimesheetParserService';
+import { resolveTimesheetProfile } from '@/lib/timesheet/services/TimesheetProfileStore';
+import { checkTimesheetPeriod } from '@/lib/timesheet/services/TimesheetPeriodStore';
+import { logger } from '@/lib/logger';
+
+// Row errors returned in full; the total is always reported
+const MAX_ROW_ERRORS = 200;
+
+export const POST = createProtectedRoute(async (req, context) => {
+  const { tenantId } = context;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.blobUrl !== 'string' || !body.blobUrl) {
+    return NextResponse.json({ success: false, error: 'blobUrl is required' }, { status: 400 });
+  }
+  if (!isTimesheetBlobUrl(body.blobUrl)) {
+    return NextResponse.json({ success: false, error: 'blobUrl must be a file in this app\'s blob storage' }, { status: 400 });
+  }
+
+  const profile = await resolveTimesheetProfile(tenantId, body.profileId || undefined);
+  if (!profile) {
+    return NextResponse.json({ success: false, error: `Timesheet profile ${body.profileId} not found for this organisation` }, { status: 400 });
+  }
+
+  try {
+    // Rates are not returned here, so their currency does not matter
+    const parsed = await new TimesheetParserService().parseFromUrl(body.blobUrl, { tenantId, currency: 'USD', profile });
+    const { check: periodCheck } = await checkTimesheetPeriod(tenantId, parsed.entries);
+    return NextResponse.json({
+      success: true,
+      valid: parsed.rowErrors.length === 0 && parsed.entries.length > 0,
+      profileId: profile.id,
+      entriesProcessed: parsed.metadata.entries_processed,
+      periodRange: parsed.metadata.period_range,
+      projects: parsed.metadata.projects_consolidated,
+      rowErrors: parsed.rowErrors.slice(0, MAX_ROW_ERRORS),
+      rowErrorCount: parsed.rowErrors.length,
+      periodCheck
+    });
+  } catch (error) {
+    if (error instanceof TimesheetParseError) {
+      // The file does not fit the profile at all, e.g. a missing sheet or header column
+      return NextResponse.json({
+        success: true,
+        valid: false,
+        profileId: profile.id,
+        entriesProcessed: 0,
+        periodRange: 'Unknown',
+        projects: 0,
+        error: error.message,
+        rowErrors: [],
+        rowErrorCount: 0
+      });
+    }
+    logger.error({ tenantId, profileId: profile.id, error: (error as Error).message }, 'Timesheet validation failed');
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Timesheet validation failed'
+    }, { status: 500 });
+  }
+});
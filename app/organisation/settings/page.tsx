@@ -0,0 +1,23 @@
+'use client';
+
+import React from 'react';
+import TenantConfigPanel from '../../../components/TenantConfigPanel';
+import TimesheetProfilesPanel from '../../../components/TimesheetProfilesPanel';
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="mt-2 text-gray-600">Configure Pipedrive and timesheet formats for each connected Xero organisation</p>
+        </div>
+
+        <div className="space-y-8">
+          <TenantConfigPanel />
+          <TimesheetProfilesPanel />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ export default function OrganisationHeader() {
     
     const navigation = [
         { name: 'Xero', href: '/organisation/xero', current: pathname === '/organisation/xero' },
+        { name: 'Settings', href: '/organisation/settings', current: pathname === '/organisation/settings' },
     ]
 
     const user = {
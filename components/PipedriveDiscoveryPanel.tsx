@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface DiscoveredField {
+  key: string;
+  name: string;
+  fieldType: string;
+}
+
+interface DiscoveredPipeline {
+  id: number;
+  name: string;
+  active: boolean;
+  stages: Array<{ id: number; name: string; orderNr: number }>;
+}
+
+interface FieldMappingSuggestion {
+  name: string;
+  required: boolean;
+  currentKey?: string;
+  currentKeyFound: boolean;
+  suggestedKey?: string;
+  suggestedFieldName?: string;
+  match: 'current' | 'exact' | 'partial' | 'none';
+}
+
+interface PipedriveDiscovery {
+  fields: DiscoveredField[];
+  pipelines: DiscoveredPipeline[];
+  suggestions: FieldMappingSuggestion[];
+  suggestedInvoiceStageId?: number;
+  missingFields: Array<{ name: string; key: string; required: boolean }>;
+}
+
+export interface ConfirmedDiscovery {
+  // Mapping name to field key; an empty key removes the mapping
+  customFieldKeys: Record<string, string>;
+  pipelines: Array<{ id: number; name: string }>;
+  invoiceStageId?: number;
+}
+
+interface PipedriveDiscoveryPanelProps {
+  tenantId: string;
+  companyDomain: string;
+  // Key typed into the form; the saved key is used when empty
+  apiKey: string;
+  // Pipelines currently configured, preselected in the review
+  pipelineIds: number[];
+  onApply: (confirmed: ConfirmedDiscovery) => void;
+}
+
+const MATCH_LABELS: Record<FieldMappingSuggestion['match'], string> = {
+  current: 'Current',
+  exact: 'Name match',
+  partial: 'Partial name match',
+  none: 'No match'
+};
+
+/**
+ * Reviews a tenant's Pipedrive fields, pipelines and stages before they are applied to its configuration
+ *
+ * @description Runs discovery through `/api/admin/tenant-configs/discover`, shows the suggested field mapping
+ * with a choice of field for each name, and the account's pipelines with their stages. Applying copies the
+ * confirmed choices into the tenant form; they are stored when the form is saved.
+ *
+ * @param {PipedriveDiscoveryPanelProps} props - Tenant connection details and the apply callback
+ * @returns {JSX.Element} Discovery review
+ *
+ * @since 1.0.0
+ */
+export default function PipedriveDiscoveryPanel({
+  tenantId,
+  companyDomain,
+  apiKey,
+  pipelineIds,
+  onApply
+}: PipedriveDiscoveryPanelProps) {
+  const [discovery, setDiscovery] = useState<PipedriveDiscovery | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [selectedPipelines, setSelectedPipelines] = useState<number[]>([]);
+  const [invoiceStageId, setInvoiceStageId] = useState<number | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runDiscovery = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/tenant-configs/discover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, companyDomain, apiKey: apiKey || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setDiscovery(data);
+      setMapping(Object.fromEntries(
+        (data.suggestions as FieldMappingSuggestion[]).map(s => [s.name, s.suggestedKey || ''])
+      ));
+      setSelectedPipelines(pipelineIds.filter(id => data.pipelines.some((p: DiscoveredPipeline) => p.id === id)));
+      setInvoiceStageId(data.suggestedInvoiceStageId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pipedrive discovery failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePipeline = (id: number) =>
+    setSelectedPipelines(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+  const apply = () => {
+    if (!discovery) return;
+    onApply({
+      customFieldKeys: mapping,
+      pipelines: discovery.pipelines
+        .filter(p => selectedPipelines.includes(p.id))
+        .map(p => ({ id: p.id, name: p.name })),
+      invoiceStageId
+    });
+    setDiscovery(null);
+  };
+
+  const missingRequired = discovery?.suggestions.filter(s => s.required && !mapping[s.name]) || [];
+  const secondaryButtonClass = 'inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Discover from Pipedrive</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Read deal fields, pipelines and stages from the account and suggest a mapping.
+          </p>
+        </div>
+        <button
+          onClick={runDiscovery}
+          disabled={loading || !tenantId || !companyDomain}
+          className={secondaryButtonClass}
+        >
+          <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          {loading ? 'Discovering…' : discovery ? 'Discover again' : 'Discover'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {discovery && (
+        <>
+          {discovery.missingFields.length > 0 && (
+            <div className="flex gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700">
+              <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+              <span>
+                Mapped fields no longer in Pipedrive: {discovery.missingFields.map(f => f.name).join(', ')}.
+                {discovery.missingFields.some(f => f.required) && ' Validation will stop until these are remapped.'}
+              </span>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-2">Field mapping</h4>
+            <div className="divide-y divide-gray-100">
+              {discovery.suggestions.map(suggestion => (
+                <div key={suggestion.name} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+                  <div className="w-40 font-mono text-xs text-gray-900">
+                    {suggestion.name}
+                    {suggestion.required && <span className="text-red-600"> *</span>}
+                  </div>
+                  <select
+                    value={mapping[suggestion.name] || ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [suggestion.name]: e.target.value }))}
+                    className="flex-1 min-w-0 text-sm border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    <option value="">Not mapped</option>
+                    {discovery.fields.map(field => (
+                      <option key={field.key} value={field.key}>{field.name} ({field.fieldType})</option>
+                    ))}
+                  </select>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                    !suggestion.currentKeyFound
+                      ? 'text-red-700 bg-red-50'
+                      : suggestion.match === 'none' ? 'text-gray-600 bg-gray-100' : 'text-green-700 bg-green-50'
+                  }`}>
+                    {!suggestion.currentKeyFound ? 'Current key missing' : MATCH_LABELS[suggestion.match]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-2">Pipelines</h4>
+            <div className="space-y-2">
+              {discovery.pipelines.map(pipeline => (
+                <div key={pipeline.id} className="text-sm">
+                  <label className="inline-flex items-center gap-2 text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={selectedPipelines.includes(pipeline.id)}
+                      onChange={() => togglePipeline(pipeline.id)}
+                    />
+                    {pipeline.id}: {pipeline.name}
+                    {!pipeline.active && <span className="text-xs text-gray-500">(inactive)</span>}
+                  </label>
+                  <div className="ml-6 flex flex-wrap gap-1 mt-1">
+                    {pipeline.stages.map(stage => (
+                      <button
+                        key={stage.id}
+                        onClick={() => setInvoiceStageId(invoiceStageId === stage.id ? undefined : stage.id)}
+                        title="Use as the Invoice stage"
+                        className={`px-2 py-0.5 text-xs rounded-full border ${
+                          invoiceStageId === stage.id
+                            ? 'border-gray-800 bg-gray-800 text-white'
+                            : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        {stage.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Select a stage to use it as the Invoice stage.</p>
+          </div>
+
+          {missingRequired.length > 0 && (
+            <div className="text-sm text-red-700">
+              Map {missingRequired.map(s => s.name).join(', ')} before applying.
+            </div>
+          )}
+
+          <button
+            onClick={apply}
+            disabled={missingRequired.length > 0 || selectedPipelines.length === 0}
+            className={secondaryButtonClass}
+          >
+            Apply to form
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import PipedriveDiscoveryPanel, { type ConfirmedDiscovery } from './PipedriveDiscoveryPanel';
+
+interface TenantConfigSummary {
+  tenantId: string;
+  tenantName?: string;
+  companyDomain: string;
+  pipelineIds: number[];
+  pipelineNames?: Record<number, string>;
+  invoiceStageId?: number;
+  invoicePipelineId?: number;
+  customFieldKeys: Record<string, string | undefined>;
+  enabled: boolean;
+  validationRules?: Record<string, any>;
+  updatedBy?: string;
+  updatedAt?: string;
+  source: 'store' | 'built_in';
+  apiKeySource: 'store' | 'environment' | 'none';
+}
+
+interface ConnectedTenant {
+  tenantId: string;
+  tenantName: string;
+}
+
+// Form state; pipelines, field keys and rules are edited as text
+interface TenantConfigForm {
+  tenantId: string;
+  tenantName: string;
+  companyDomain: string;
+  apiKey: string;
+  clearApiKey: boolean;
+  pipelines: string;
+  invoiceStageId: string;
+  invoicePipelineId: string;
+  customFieldKeys: string;
+  validationRules: string;
+  enabled: boolean;
+}
+
+const API_KEY_LABELS: Record<TenantConfigSummary['apiKeySource'], string> = {
+  store: 'Stored (encrypted)',
+  environment: 'Environment variable',
+  none: 'Not set'
+};
+
+const EMPTY_FORM: TenantConfigForm = {
+  tenantId: '',
+  tenantName: '',
+  companyDomain: 'api',
+  apiKey: '',
+  clearApiKey: false,
+  pipelines: '',
+  invoiceStageId: '',
+  invoicePipelineId: '',
+  customFieldKeys: JSON.stringify({ xeroQuoteId: '', invoiceId: '', vesselName: '' }, null, 2),
+  validationRules: '',
+  enabled: true
+};
+
+function toForm(config: TenantConfigSummary): TenantConfigForm {
+  return {
+    tenantId: config.tenantId,
+    tenantName: config.tenantName || '',
+    companyDomain: config.companyDomain,
+    apiKey: '',
+    clearApiKey: false,
+    pipelines: config.pipelineIds
+      .map(id => config.pipelineNames?.[id] ? `${id}: ${config.pipelineNames[id]}` : String(id))
+      .join('\n'),
+    invoiceStageId: config.invoiceStageId ? String(config.invoiceStageId) : '',
+    invoicePipelineId: config.invoicePipelineId ? String(config.invoicePipelineId) : '',
+    customFieldKeys: JSON.stringify(config.customFieldKeys, null, 2),
+    validationRules: config.validationRules ? JSON.stringify(config.validationRules, null, 2) : '',
+    enabled: config.enabled
+  };
+}
+
+// One pipeline per line: "ID" or "ID: Name"
+function parsePipelines(text: string): { pipelineIds: number[]; pipelineNames: Record<number, string> } {
+  const pipelineIds: number[] = [];
+  const pipelineNames: Record<number, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const match = line.match(/^(\d+)\s*(?::\s*(.*))?$/);
+    if (!match) {
+      throw new Error(`Invalid pipeline line "${line}": use "ID" or "ID: Name"`);
+    }
+    const id = Number(match[1]);
+    pipelineIds.push(id);
+    if (match[2]) pipelineNames[id] = match[2];
+  }
+  return { pipelineIds, pipelineNames };
+}
+
+function parseJson(text: string, label: string): any {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${label} is not valid JSON`);
+  }
+}
+
+/**
+ * Admin panel for tenant Pipedrive configurations
+ *
+ * @description Lists configured Xero organisations and edits their Pipedrive domain, API key, pipelines,
+ * Invoice stage, custom field keys and validation rule settings through `/api/admin/tenant-configs`.
+ * Connected organisations without a configuration can be onboarded without a deploy. API keys are
+ * write-only: they are never sent back to the browser.
+ *
+ * @returns {JSX.Element} Tenant configuration panel
+ *
+ * @since 1.0.0
+ */
+export default function TenantConfigPanel() {
+  const [tenants, setTenants] = useState<TenantConfigSummary[]>([]);
+  const [connectedTenants, setConnectedTenants] = useState<ConnectedTenant[]>([]);
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true);
+  const [form, setForm] = useState<TenantConfigForm | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTenants = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [configResponse, tenantsResponse] = await Promise.all([
+        fetch('/api/admin/tenant-configs'),
+        fetch('/api/tenants')
+      ]);
+      const data = await configResponse.json();
+      if (!configResponse.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${configResponse.status}`);
+      }
+      setTenants(data.tenants || []);
+      setEncryptionConfigured(data.encryptionConfigured);
+
+      if (tenantsResponse.ok) {
+        const tenantsData = await tenantsResponse.json();
+        setConnectedTenants(tenantsData.availableTenants || tenantsData.tenants || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tenant configurations');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTenants();
+  }, [fetchTenants]);
+
+  const unconfiguredTenants = connectedTenants.filter(t => !tenants.some(c => c.tenantId === t.tenantId));
+
+  const startNew = (tenant?: ConnectedTenant) => {
+    setError(null);
+    setIsNew(true);
+    setForm({ ...EMPTY_FORM, tenantId: tenant?.tenantId || '', tenantName: tenant?.tenantName || '' });
+  };
+
+  const startEdit = (config: TenantConfigSummary) => {
+    setError(null);
+    setIsNew(false);
+    setForm(toForm(config));
+  };
+
+  const saveForm = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const { pipelineIds, pipelineNames } = parsePipelines(form.pipelines);
+      const response = await fetch('/api/admin/tenant-configs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tenantId: form.tenantId,
+          tenantName: form.tenantName,
+          companyDomain: form.companyDomain,
+          apiKey: form.apiKey || undefined,
+          clearApiKey: form.clearApiKey,
+          pipelineIds,
+          pipelineNames,
+          invoiceStageId: form.invoiceStageId ? Number(form.invoiceStageId) : undefined,
+          invoicePipelineId: form.invoicePipelineId ? Number(form.invoicePipelineId) : undefined,
+          customFieldKeys: parseJson(form.customFieldKeys, 'Custom field keys'),
+          validationRules: parseJson(form.validationRules, 'Validation rules'),
+          enabled: form.enabled
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setForm(null);
+      await fetchTenants();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tenant configuration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteConfig = async (config: TenantConfigSummary) => {
+    if (!window.confirm(`Delete the stored configuration for ${config.tenantName || config.tenantId}? Organisations without a built-in default lose their Pipedrive connection.`)) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/tenant-configs?tenantId=${encodeURIComponent(config.tenantId)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchTenants();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tenant configuration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<TenantConfigForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+
+  // Confirmed discovery replaces the pipelines and merges the field mapping into any unknown fields already typed
+  const applyDiscovery = (confirmed: ConfirmedDiscovery) => {
+    if (!form) return;
+    let customFieldKeys: Record<string, string> = {};
+    try {
+      customFieldKeys = parseJson(form.customFieldKeys, 'Custom field keys') || {};
+    } catch {
+      // Replace JSON that does not parse
+    }
+    for (const [name, key] of Object.entries(confirmed.customFieldKeys)) {
+      if (key) {
+        customFieldKeys[name] = key;
+      } else {
+        delete customFieldKeys[name];
+      }
+    }
+    updateForm({
+      customFieldKeys: JSON.stringify(customFieldKeys, null, 2),
+      pipelines: confirmed.pipelines.map(p => `${p.id}: ${p.name}`).join('\n'),
+      invoiceStageId: confirmed.invoiceStageId ? String(confirmed.invoiceStageId) : ''
+    });
+  };
+
+  const formPipelineIds = (): number[] => {
+    try {
+      return form ? parsePipelines(form.pipelines).pipelineIds : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-gray-500';
+  const secondaryButtonClass = 'inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Pipedrive Configuration</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Pipedrive settings for each Xero organisation. Changes apply immediately.
+            </p>
+          </div>
+          {!form && (
+            <button onClick={() => startNew()} className={secondaryButtonClass}>
+              <PlusIcon className="h-4 w-4" />
+              Add organisation
+            </button>
+          )}
+        </div>
+
+        {!encryptionConfigured && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700">
+            TENANT_CONFIG_ENCRYPTION_KEY is not set, so API keys cannot be stored. Other settings can still be saved.
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm text-gray-700">
+                Xero tenant ID
+                <input
+                  value={form.tenantId}
+                  onChange={(e) => updateForm({ tenantId: e.target.value })}
+                  disabled={!isNew}
+                  className={`${inputClass} mt-1 font-mono disabled:bg-gray-50`}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Name
+                <input value={form.tenantName} onChange={(e) => updateForm({ tenantName: e.target.value })} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Pipedrive company domain
+                <input value={form.companyDomain} onChange={(e) => updateForm({ companyDomain: e.target.value })} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Pipedrive API key
+                <input
+                  type="password"
+                  value={form.apiKey}
+                  onChange={(e) => updateForm({ apiKey: e.target.value, clearApiKey: false })}
+                  placeholder={isNew ? '' : 'Leave blank to keep the current key'}
+                  autoComplete="off"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Pipelines (one per line, "ID: Name")
+                <textarea value={form.pipelines} onChange={(e) => updateForm({ pipelines: e.target.value })} rows={4} className={`${inputClass} mt-1 font-mono`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Invoice stage ID (optional)
+                <input value={form.invoiceStageId} onChange={(e) => updateForm({ invoiceStageId: e.target.value })} inputMode="numeric" className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Invoice pipeline ID (optional)
+                <input value={form.invoicePipelineId} onChange={(e) => updateForm({ invoicePipelineId: e.target.value })} inputMode="numeric" className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Custom field keys (JSON)
+                <textarea value={form.customFieldKeys} onChange={(e) => updateForm({ customFieldKeys: e.target.value })} rows={8} className={`${inputClass} mt-1 font-mono text-xs`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Validation rules (JSON, optional)
+                <textarea value={form.validationRules} onChange={(e) => updateForm({ validationRules: e.target.value })} rows={8} className={`${inputClass} mt-1 font-mono text-xs`} />
+              </label>
+            </div>
+
+            <PipedriveDiscoveryPanel
+              tenantId={form.tenantId}
+              companyDomain={form.companyDomain}
+              apiKey={form.apiKey}
+              pipelineIds={formPipelineIds()}
+              onApply={applyDiscovery}
+            />
+
+            <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+              <label className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={form.enabled} onChange={(e) => updateForm({ enabled: e.target.checked })} />
+                Enabled
+              </label>
+              {!isNew && (
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={form.clearApiKey} onChange={(e) => updateForm({ clearApiKey: e.target.checked, apiKey: '' })} />
+                  Remove stored API key
+                </label>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={saveForm}
+                disabled={saving || !form.tenantId}
+                className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: 'oklch(27.4% 0.006 286.033)' }}
+              >
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+              <button onClick={() => setForm(null)} disabled={saving} className={secondaryButtonClass}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {loading && tenants.length === 0 ? (
+              <div className="text-sm text-gray-500">Loading…</div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {tenants.map(config => (
+                  <div key={config.tenantId} className="flex flex-wrap items-center gap-3 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{config.tenantName || config.tenantId}</div>
+                      <div className="text-xs text-gray-500 font-mono truncate">{config.tenantId}</div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {config.companyDomain} · {config.pipelineIds.length} pipeline{config.pipelineIds.length === 1 ? '' : 's'} · API key: {API_KEY_LABELS[config.apiKeySource]}
+                        {config.updatedBy && ` · updated by ${config.updatedBy}`}
+                      </div>
+                    </div>
+                    {config.source === 'built_in' && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-gray-100 rounded-full">Built-in default</span>
+                    )}
+                    {!config.enabled && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-red-700 bg-red-50 rounded-full">Disabled</span>
+                    )}
+                    <button onClick={() => startEdit(config)} className={secondaryButtonClass}>
+                      <PencilSquareIcon className="h-4 w-4" />
+                      Edit
+                    </button>
+                    {config.source === 'store' && (
+                      <button onClick={() => deleteConfig(config)} disabled={saving} className={secondaryButtonClass}>
+                        <TrashIcon className="h-4 w-4" />
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {tenants.length === 0 && (
+                  <div className="py-3 text-sm text-gray-500">No organisations configured.</div>
+                )}
+              </div>
+            )}
+
+            {unconfiguredTenants.length > 0 && (
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Connected organisations without a configuration</h3>
+                <div className="space-y-2">
+                  {unconfiguredTenants.map(tenant => (
+                    <div key={tenant.tenantId} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg text-sm">
+                      <span className="flex-1 min-w-0 truncate text-gray-900">{tenant.tenantName}</span>
+                      <button onClick={() => startNew(tenant)} className={secondaryButtonClass}>
+                        <PlusIcon className="h-4 w-4" />
+                        Configure
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
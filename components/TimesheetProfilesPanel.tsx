@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { TimesheetColumn, TimesheetDateFormat, TimesheetProfile } from '../lib/timesheet/types';
+
+// Form state; header row is edited as text
+interface TimesheetProfileForm {
+  id: string;
+  name: string;
+  sheetName: string;
+  headerRow: string;
+  columns: Record<TimesheetColumn, string>;
+  dateFormat: TimesheetDateFormat | '';
+}
+
+const COLUMN_FIELDS: Array<{ column: TimesheetColumn; label: string; required: boolean }> = [
+  { column: 'jobCode', label: 'Job code', required: true },
+  { column: 'department', label: 'Department', required: true },
+  { column: 'hours', label: 'Hours', required: true },
+  { column: 'cost', label: 'Cost', required: true },
+  { column: 'employee', label: 'Employee', required: false },
+  { column: 'date', label: 'Date', required: false }
+];
+
+const DATE_FORMATS: TimesheetDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const EMPTY_FORM: TimesheetProfileForm = {
+  id: '',
+  name: '',
+  sheetName: '',
+  headerRow: '',
+  columns: { employee: '', date: '', jobCode: '', department: '', hours: '', cost: '' },
+  dateFormat: ''
+};
+
+function toForm(profile: TimesheetProfile): TimesheetProfileForm {
+  return {
+    id: profile.id,
+    name: profile.name,
+    sheetName: profile.sheetName || '',
+    headerRow: profile.headerRow ? String(profile.headerRow) : '',
+    columns: { ...EMPTY_FORM.columns, ...profile.columns },
+    dateFormat: profile.dateFormat || ''
+  };
+}
+
+// "Sheet Payroll, header row 3, job code in B"
+function describeProfile(profile: TimesheetProfile): string {
+  const parts = [
+    profile.sheetName ? `sheet ${profile.sheetName}` : 'first matching sheet',
+    profile.headerRow ? `header row ${profile.headerRow}` : 'header row detected'
+  ];
+  const mapped = Object.keys(profile.columns || {}).length;
+  parts.push(mapped > 0 ? `${mapped} mapped column${mapped === 1 ? '' : 's'}` : 'common header names');
+  if (profile.dateFormat) parts.push(profile.dateFormat);
+  return parts.join(' · ');
+}
+
+/**
+ * Timesheet format profiles for the selected Xero organisation
+ *
+ * @description Lists the organisation's profiles through `/api/xero/timesheet-profiles` and, for admins,
+ * creates, edits and deletes them. A profile names the sheet, the header row, the header text or column
+ * letter of each column and the date format of one payroll system's export. Empty settings fall back to
+ * the standard layout's detection.
+ *
+ * @returns {JSX.Element} Timesheet profiles panel
+ *
+ * @since 1.0.0
+ */
+export default function TimesheetProfilesPanel() {
+  const [profiles, setProfiles] = useState<TimesheetProfile[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [form, setForm] = useState<TimesheetProfileForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/xero/timesheet-profiles');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setProfiles(data.profiles || []);
+      setCanEdit(data.canEdit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load timesheet profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const startEdit = (profile?: TimesheetProfile) => {
+    setError(null);
+    setForm(profile ? toForm(profile) : { ...EMPTY_FORM, columns: { ...EMPTY_FORM.columns } });
+  };
+
+  const saveForm = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const columns = Object.fromEntries(
+        Object.entries(form.columns).filter(([, value]) => value.trim())
+      );
+      const response = await fetch('/api/xero/timesheet-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id || undefined,
+          name: form.name,
+          sheetName: form.sheetName || undefined,
+          headerRow: form.headerRow ? Number(form.headerRow) : undefined,
+          columns: Object.keys(columns).length > 0 ? columns : undefined,
+          dateFormat: form.dateFormat || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setForm(null);
+      await fetchProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save timesheet profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async (profile: TimesheetProfile) => {
+    if (!window.confirm(`Delete the timesheet profile "${profile.name}"?`)) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/xero/timesheet-profiles?id=${encodeURIComponent(profile.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete timesheet profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<TimesheetProfileForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+  const updateColumn = (column: TimesheetColumn, value: string) =>
+    setForm(prev => prev ? { ...prev, columns: { ...prev.columns, [column]: value } } : prev);
+
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-gray-500';
+  const secondaryButtonClass = 'inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Timesheet Formats</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Column layouts of the selected organisation&apos;s timesheet exports. Uploads are checked against the chosen format before processing.
+            </p>
+          </div>
+          {canEdit && !form && (
+            <button onClick={() => startEdit()} className={secondaryButtonClass}>
+              <PlusIcon className="h-4 w-4" />
+              Add format
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm text-gray-700">
+                Name
+                <input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Sheet name (optional)
+                <input value={form.sheetName} onChange={(e) => updateForm({ sheetName: e.target.value })} placeholder="First sheet with the header row" className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Header row (optional)
+                <input value={form.headerRow} onChange={(e) => updateForm({ headerRow: e.target.value })} inputMode="numeric" placeholder="Detected" className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Date format for text dates
+                <select
+                  value={form.dateFormat}
+                  onChange={(e) => updateForm({ dateFormat: e.target.value as TimesheetProfileForm['dateFormat'] })}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="">ISO or day first</option>
+                  {DATE_FORMATS.map(format => (
+                    <option key={format} value={format}>{format}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div>
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-1">Columns</h3>
+              <p className="text-xs text-gray-500 mb-2">Header text or column letter, e.g. &quot;Job No&quot; or &quot;B&quot;. Leave empty to recognise common header names.</p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {COLUMN_FIELDS.map(({ column, label, required }) => (
+                  <label key={column} className="block text-sm text-gray-700">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                    <input value={form.columns[column]} onChange={(e) => updateColumn(column, e.target.value)} className={`${inputClass} mt-1`} />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={saveForm}
+                disabled={saving || !form.name.trim()}
+                className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: 'oklch(27.4% 0.006 286.033)' }}
+              >
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+              <button onClick={() => setForm(null)} disabled={saving} className={secondaryButtonClass}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : loading && profiles.length === 0 ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex flex-wrap items-center gap-3 py-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{profile.name}</div>
+                  <div className="text-xs text-gray-600 mt-1">
+                    {describeProfile(profile)}
+                    {profile.updatedBy && ` · updated by ${profile.updatedBy}`}
+                  </div>
+                </div>
+                {profile.builtIn ? (
+                  <span className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-gray-100 rounded-full">Built-in</span>
+                ) : canEdit && (
+                  <>
+                    <button onClick={() => startEdit(profile)} className={secondaryButtonClass}>
+                      <PencilSquareIcon className="h-4 w-4" />
+                      Edit
+                    </button>
+                    <button onClick={() => deleteProfile(profile)} disabled={saving} className={secondaryButtonClass}>
+                      <TrashIcon className="h-4 w-4" />
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
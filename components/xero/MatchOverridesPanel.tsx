@@ -0,0 +1,335 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  LinkIcon,
+  NoSymbolIcon,
+  EyeSlashIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import type { ValidationIssue } from '@/lib/types/validation';
+
+type MatchOverrideType = 'force_link' | 'never_link' | 'ignore';
+
+interface MatchOverride {
+  id: string;
+  type: MatchOverrideType;
+  dealId?: number;
+  xeroProjectId?: string;
+  xeroQuoteId?: string;
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+interface OverrideDeal {
+  id: number;
+  title: string;
+  matchedProject?: { projectId: string; name: string };
+  projectManuallyLinked?: boolean;
+  ignored?: boolean;
+}
+
+interface OverrideProject {
+  projectId: string;
+  name: string;
+  status: string;
+  matchedDealId?: number;
+  ignored?: boolean;
+}
+
+interface MatchOverridesPanelProps {
+  deals: OverrideDeal[];
+  projects: OverrideProject[];
+  issues: ValidationIssue[];
+}
+
+const OVERRIDE_LABELS: Record<MatchOverrideType, string> = {
+  force_link: 'Manually linked',
+  never_link: 'Never link',
+  ignore: 'Ignored'
+};
+
+/**
+ * Lets users correct deal/project/quote matching from the unmatched lists of a validation run
+ *
+ * @description Lists unmatched Xero projects, unmatched deals, orphaned accepted quotes and current
+ * project matches with actions to force-link, never-link or ignore them. Overrides are stored per
+ * tenant through `/api/sync/match-overrides` and take effect on the next validation run.
+ *
+ * @param {MatchOverridesPanelProps} props - Deals, projects and issues from the validation results
+ * @returns {JSX.Element} Override management panel
+ *
+ * @since 1.0.0
+ */
+export default function MatchOverridesPanel({ deals, projects, issues }: MatchOverridesPanelProps) {
+  const [overrides, setOverrides] = useState<MatchOverride[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDeals, setSelectedDeals] = useState<Record<string, string>>({});
+
+  const fetchOverrides = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/sync/match-overrides');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setOverrides(data.overrides || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load match overrides');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverrides();
+  }, [fetchOverrides]);
+
+  const addOverride = async (
+    key: string,
+    override: { type: MatchOverrideType; dealId?: number; xeroProjectId?: string; xeroQuoteId?: string }
+  ) => {
+    setSaving(key);
+    setError(null);
+    try {
+      const response = await fetch('/api/sync/match-overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(override)
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchOverrides();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save match override');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const removeOverride = async (overrideId: string) => {
+    setSaving(overrideId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sync/match-overrides?id=${encodeURIComponent(overrideId)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchOverrides();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove match override');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Records already covered by a saved override are hidden from the action lists
+  const hasOverride = (match: (o: MatchOverride) => boolean) => overrides.some(match);
+
+  const unmatchedDeals = deals.filter(d =>
+    !d.matchedProject && !d.ignored && !hasOverride(o => o.dealId === d.id && o.type !== 'never_link')
+  );
+  const unmatchedProjects = projects.filter(p =>
+    !p.matchedDealId && !p.ignored && p.status === 'INPROGRESS' &&
+    !hasOverride(o => o.xeroProjectId === p.projectId && o.type !== 'never_link')
+  );
+  const orphanedQuotes = issues.filter(i =>
+    i.code === 'ORPHANED_ACCEPTED_QUOTE' && i.metadata?.quoteId &&
+    !hasOverride(o => o.xeroQuoteId === i.metadata?.quoteId)
+  );
+  const matchedDeals = deals.filter(d => d.matchedProject);
+
+  const dealTitle = (dealId?: number) => deals.find(d => d.id === dealId)?.title || `Deal ${dealId}`;
+  const projectName = (projectId?: string) => projects.find(p => p.projectId === projectId)?.name || projectId;
+
+  const describeOverride = (override: MatchOverride) => {
+    const target = override.xeroProjectId
+      ? `project "${projectName(override.xeroProjectId)}"`
+      : override.xeroQuoteId
+        ? `quote ${issues.find(i => i.metadata?.quoteId === override.xeroQuoteId)?.metadata?.quoteNumber || override.xeroQuoteId}`
+        : '';
+    if (override.type === 'ignore') {
+      return override.dealId ? `"${dealTitle(override.dealId)}"` : target;
+    }
+    return `"${dealTitle(override.dealId)}" ${override.type === 'force_link' ? '→' : '≠'} ${target}`;
+  };
+
+  const dealSelect = (key: string) => (
+    <select
+      value={selectedDeals[key] || ''}
+      onChange={(e) => setSelectedDeals(prev => ({ ...prev, [key]: e.target.value }))}
+      className="text-xs border border-gray-300 rounded-md px-2 py-1 max-w-48"
+      aria-label="Pipedrive deal to link"
+    >
+      <option value="">Select deal…</option>
+      {unmatchedDeals.map(deal => (
+        <option key={deal.id} value={deal.id}>{deal.title}</option>
+      ))}
+    </select>
+  );
+
+  const actionButton = (label: string, icon: React.ReactNode, onClick: () => void, disabled = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled || saving !== null}
+      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow duration-200">
+      <div className="p-6 space-y-5">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Match Overrides</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Correct automatic matching. Changes apply on the next validation run.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Unmatched Xero projects */}
+        {unmatchedProjects.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Unmatched Xero Projects ({unmatchedProjects.length})</h4>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {unmatchedProjects.map(project => {
+                const key = `project-${project.projectId}`;
+                return (
+                  <div key={key} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 rounded-lg text-sm">
+                    <span className="flex-1 min-w-0 truncate text-gray-900">{project.name}</span>
+                    {dealSelect(key)}
+                    {actionButton('Link', <LinkIcon className="h-3 w-3" />, () => addOverride(key, {
+                      type: 'force_link',
+                      dealId: Number(selectedDeals[key]),
+                      xeroProjectId: project.projectId
+                    }), !selectedDeals[key])}
+                    {actionButton('Ignore', <EyeSlashIcon className="h-3 w-3" />, () => addOverride(key, {
+                      type: 'ignore',
+                      xeroProjectId: project.projectId
+                    }))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Orphaned accepted quotes */}
+        {orphanedQuotes.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Orphaned Accepted Quotes ({orphanedQuotes.length})</h4>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {orphanedQuotes.map(issue => {
+                const quoteId = issue.metadata!.quoteId as string;
+                const key = `quote-${quoteId}`;
+                return (
+                  <div key={key} className="flex flex-wrap items-center gap-2 p-2 bg-yellow-50 rounded-lg text-sm">
+                    <span className="flex-1 min-w-0 truncate text-gray-900">
+                      {issue.metadata?.quoteNumber || quoteId}
+                      {issue.metadata?.contactName && <span className="text-gray-600"> - {issue.metadata.contactName}</span>}
+                    </span>
+                    {dealSelect(key)}
+                    {actionButton('Link', <LinkIcon className="h-3 w-3" />, () => addOverride(key, {
+                      type: 'force_link',
+                      dealId: Number(selectedDeals[key]),
+                      xeroQuoteId: quoteId
+                    }), !selectedDeals[key])}
+                    {actionButton('Ignore', <EyeSlashIcon className="h-3 w-3" />, () => addOverride(key, {
+                      type: 'ignore',
+                      xeroQuoteId: quoteId
+                    }))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Unmatched deals */}
+        {unmatchedDeals.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Deals Without a Project ({unmatchedDeals.length})</h4>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {unmatchedDeals.map(deal => (
+                <div key={deal.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg text-sm">
+                  <span className="flex-1 min-w-0 truncate text-gray-900">{deal.title}</span>
+                  {actionButton('Ignore', <EyeSlashIcon className="h-3 w-3" />, () => addOverride(`deal-${deal.id}`, {
+                    type: 'ignore',
+                    dealId: deal.id
+                  }))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Current matches */}
+        {matchedDeals.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Matched Projects ({matchedDeals.length})</h4>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {matchedDeals.map(deal => {
+                const manualLink = overrides.find(o =>
+                  o.type === 'force_link' && o.dealId === deal.id && o.xeroProjectId === deal.matchedProject!.projectId
+                );
+                return (
+                  <div key={deal.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg text-sm">
+                    <span className="flex-1 min-w-0 truncate text-gray-900">
+                      {deal.title} <span className="text-gray-500">→ {deal.matchedProject!.name}</span>
+                    </span>
+                    {deal.projectManuallyLinked && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 rounded-full">Manually linked</span>
+                    )}
+                    {manualLink
+                      ? actionButton('Unlink', <TrashIcon className="h-3 w-3" />, () => removeOverride(manualLink.id))
+                      : actionButton('Never link', <NoSymbolIcon className="h-3 w-3" />, () => addOverride(`match-${deal.id}`, {
+                          type: 'never_link',
+                          dealId: deal.id,
+                          xeroProjectId: deal.matchedProject!.projectId
+                        }))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Saved overrides */}
+        <div className="border-t pt-4">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Saved Overrides ({overrides.length})</h4>
+          {loading && overrides.length === 0 ? (
+            <div className="text-xs text-gray-500">Loading…</div>
+          ) : overrides.length === 0 ? (
+            <div className="text-xs text-gray-500">No overrides saved for this organisation.</div>
+          ) : (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {overrides.map(override => (
+                <div key={override.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg text-xs">
+                  <span className="px-2 py-0.5 font-medium text-gray-700 bg-white border border-gray-200 rounded-full">
+                    {OVERRIDE_LABELS[override.type]}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-gray-900">{describeOverride(override)}</span>
+                  {override.createdBy && <span className="text-gray-500">{override.createdBy}</span>}
+                  {actionButton('Remove', <TrashIcon className="h-3 w-3" />, () => removeOverride(override.id))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,21 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   CheckCircleIcon,
   XCircleIcon,
   ExclamationTriangleIcon,
   InformationCircleIcon,
-  PlayIcon
+  PlayIcon,
+  StopIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
 import { CheckCircleIcon as CheckCircleIconSolid } from '@heroicons/react/24/solid';
 import { ValidationSummary, ValidationIssue } from '@/lib/types/validation';
+import MatchOverridesPanel from './MatchOverridesPanel';
+
+// Session of the validation in progress, so the page can reattach to it after a refresh
+const SESSION_STORAGE_KEY = 'validation-session-id';
 
 interface ValidationStep {
   id: string;
@@ -26,6 +32,9 @@ interface ValidationResults {
   results?: {
     summary: ValidationSummary;
     issues: ValidationIssue[];
+    deals?: any[];
+    projects?: any[];
+    rules?: { code: string; enabled: boolean; severityOverridden: boolean }[];
   };
 }
 
@@ -64,6 +73,9 @@ export function SyncButton() {
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<ValidationResults | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [canResume, setCanResume] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   
   /**
    * Initiates the validation workflow by calling the API endpoint and processing SSE responses
@@ -82,15 +94,56 @@ export function SyncButton() {
    * await startValidation();
    * ```
    */
-  const startValidation = async () => {
+  const startValidation = () => runValidationStream('/api/xero/validate-deals');
+  
+  /**
+   * Continues the last failed or cancelled session, reusing the data it already fetched
+   */
+  const resumeValidation = () => {
+    if (sessionId) {
+      runValidationStream(`/api/xero/validate-deals?resume=${encodeURIComponent(sessionId)}`);
+    }
+  };
+  
+  /**
+   * Asks the server to stop the running session before its next step
+   */
+  const cancelValidation = async () => {
+    if (!sessionId) return;
+    setIsCancelling(true);
+    
+    try {
+      const response = await fetch(`/api/xero/validate-deals/cancel?id=${encodeURIComponent(sessionId)}`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel validation');
+      }
+      setLogs(prev => [...prev, 'Cancelling after the current step...']);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel validation');
+      setIsCancelling(false);
+    }
+  };
+  
+  /**
+   * Streams a validation session from the given endpoint and updates component state from its events
+   * 
+   * @param {string} url - Start, resume or attach endpoint
+   * @returns {Promise<void>} Promise that resolves when the stream ends
+   */
+  const runValidationStream = useCallback(async (url: string) => {
     setIsValidating(true);
+    setIsCancelling(false);
+    setCanResume(false);
     setCurrentStep(null);
     setLogs([]);
     setError(null);
     setResults(null);
     
     try {
-      const response = await fetch('/api/xero/validate-deals', {
+      const response = await fetch(url, {
         method: 'GET',
         headers: {
           'Accept': 'text/event-stream',
@@ -134,18 +187,29 @@ export function SyncButton() {
               
               const data = JSON.parse(jsonStr);
               
-              if (data.type === 'progress') {
+              if (data.type === 'session') {
+                setSessionId(data.sessionId);
+                window.localStorage.setItem(SESSION_STORAGE_KEY, data.sessionId);
+              } else if (data.type === 'progress') {
                 setCurrentStep(data.step);
               } else if (data.type === 'log') {
                 setLogs(prev => [...prev, data.message]);
               } else if (data.type === 'error') {
                 setError(data.message);
+                setCanResume(!!data.resumable);
+                window.localStorage.removeItem(SESSION_STORAGE_KEY);
                 if (data.details) {
                   console.error('Validation error details:', data.details);
                 }
+              } else if (data.type === 'cancelled') {
+                setLogs(prev => [...prev, 'Validation cancelled']);
+                setCurrentStep(null);
+                setCanResume(true);
+                window.localStorage.removeItem(SESSION_STORAGE_KEY);
               } else if (data.type === 'complete') {
                 setResults(data.data);
                 setCurrentStep(null);
+                window.localStorage.removeItem(SESSION_STORAGE_KEY);
               }
             } catch (e) {
               console.error('Failed to parse SSE data:', e, 'Line:', line);
@@ -174,8 +238,18 @@ export function SyncButton() {
       setError(err instanceof Error ? err.message : 'Validation failed');
     } finally {
       setIsValidating(false);
+      setIsCancelling(false);
     }
-  };
+  }, []);
+  
+  // Reattach to a validation that was still running when the page was left
+  useEffect(() => {
+    const storedSessionId = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (storedSessionId) {
+      setSessionId(storedSessionId);
+      runValidationStream(`/api/xero/validate-deals/attach?id=${encodeURIComponent(storedSessionId)}`);
+    }
+  }, [runValidationStream]);
   
   /**
    * Returns appropriate icon component based on validation step status
@@ -251,6 +325,29 @@ export function SyncButton() {
           )}
         </button>
         
+        {isValidating && sessionId && (
+          <button
+            onClick={cancelValidation}
+            disabled={isCancelling}
+            className="flex-1 sm:flex-initial sm:min-w-32 inline-flex items-center justify-center px-4 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            aria-label="Cancel validation"
+          >
+            <StopIcon className="h-5 w-5 mr-2" aria-hidden="true" />
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        )}
+        
+        {!isValidating && canResume && sessionId && (
+          <button
+            onClick={resumeValidation}
+            className="flex-1 sm:flex-initial sm:min-w-32 inline-flex items-center justify-center px-4 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors duration-200"
+            aria-label="Resume validation"
+          >
+            <ArrowPathIcon className="h-5 w-5 mr-2" aria-hidden="true" />
+            Resume
+          </button>
+        )}
+        
         {results && (
           <button
             onClick={() => setShowDetails(!showDetails)}
@@ -344,6 +441,22 @@ export function SyncButton() {
                 </div>
               </div>
               
+              {/* Match override effects */}
+              {((results.results.summary.manuallyLinked ?? 0) > 0 || (results.results.summary.ignoredRecords ?? 0) > 0) && (
+                <div className="text-xs text-gray-600 mb-4">
+                  {results.results.summary.manuallyLinked ?? 0} manually linked, {results.results.summary.ignoredRecords ?? 0} ignored by match overrides
+                </div>
+              )}
+              
+              {/* Rules applied by the tenant's rule settings */}
+              {results.results.rules && (
+                <div className="text-xs text-gray-600 mb-4">
+                  {results.results.rules.filter(r => r.enabled).length} rules ran
+                  {results.results.rules.some(r => !r.enabled) && `, ${results.results.rules.filter(r => !r.enabled).length} disabled`}
+                  {results.results.rules.some(r => r.severityOverridden) && `, ${results.results.rules.filter(r => r.severityOverridden).length} with a custom severity`}
+                </div>
+              )}
+              
               {/* Quotes Breakdown by Status */}
               {results.results.summary.quotesByStatus && (
                 <div className="border-t pt-4">
@@ -633,6 +746,15 @@ export function SyncButton() {
             </div>
           )}
           
+          {/* Match Overrides (shown when expanded) */}
+          {showDetails && results.results.deals && results.results.projects && (
+            <MatchOverridesPanel
+              deals={results.results.deals}
+              projects={results.results.projects}
+              issues={results.results.issues}
+            />
+          )}
+          
           {/* Success Message */}
           {results.results.summary.totalIssues === 0 && (
             <div className="bg-green-50 border border-green-200 rounded-lg p-3">
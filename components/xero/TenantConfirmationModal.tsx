@@ -2,23 +2,62 @@
 
 import React, { Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { ExclamationTriangleIcon, BuildingOfficeIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { ExclamationTriangleIcon, BuildingOfficeIcon, DocumentTextIcon, TableCellsIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import type {
+  TimesheetOverlapAction,
+  TimesheetProfile,
+  TimesheetUpdateMode,
+  TimesheetValidationResult
+} from '../../lib/timesheet/types';
 
 interface TenantConfirmationModalProps {
   isOpen: boolean;
   tenantName: string;
   fileName: string;
+  profiles: TimesheetProfile[];
+  selectedProfileId: string;
+  onProfileChange: (profileId: string) => void;
+  // Check of the file against the selected profile; processing is blocked until it passes
+  validation: TimesheetValidationResult | null;
+  validating: boolean;
+  validationError?: string | null;
+  updateMode: TimesheetUpdateMode;
+  onUpdateModeChange: (mode: TimesheetUpdateMode) => void;
+  // Merging an upload that overlaps applied periods requires accumulate mode
+  overlapAction: TimesheetOverlapAction;
+  onOverlapActionChange: (action: TimesheetOverlapAction) => void;
   onConfirm: () => void;
   onCancel: () => void;
 }
 
+// Row errors listed in the modal; the rest are counted
+const ROW_ERRORS_SHOWN = 20;
+
 export default function TenantConfirmationModal({
   isOpen,
   tenantName,
   fileName,
+  profiles,
+  selectedProfileId,
+  onProfileChange,
+  validation,
+  validating,
+  validationError,
+  updateMode,
+  onUpdateModeChange,
+  overlapAction,
+  onOverlapActionChange,
   onConfirm,
   onCancel
 }: TenantConfirmationModalProps) {
+  const periodCheck = validation?.periodCheck;
+  // Undated entries cannot be checked for repeats, so their hours are only ever replaced, not added
+  const undatedBlocked = updateMode === 'accumulate' && (periodCheck?.undatedEntries || 0) > 0;
+  const periodBlocked = !!periodCheck && (
+    periodCheck.status === 'duplicate' || (periodCheck.status === 'overlap' && overlapAction !== 'merge') || undatedBlocked
+  );
+  const canConfirm = !validating && !!validation?.valid && !periodBlocked;
+
   return (
     <Transition.Root show={isOpen} as={Fragment}>
       <Dialog as="div" className="relative z-10" onClose={onCancel}>
@@ -69,14 +108,118 @@ export default function TenantConfirmationModal({
                           <p className="text-sm text-gray-600">{fileName}</p>
                         </div>
                       </div>
+                      <div className="flex items-start space-x-3">
+                        <TableCellsIcon className="h-5 w-5 text-gray-400 mt-0.5" />
+                        <div className="flex-1">
+                          <label htmlFor="timesheet-profile" className="text-sm font-medium text-gray-900">Format Profile</label>
+                          <select
+                            id="timesheet-profile"
+                            value={selectedProfileId}
+                            onChange={(e) => onProfileChange(e.target.value)}
+                            disabled={validating}
+                            className="mt-1 block w-full text-sm border border-gray-300 rounded-md px-2 py-1"
+                          >
+                            {profiles.map(profile => (
+                              <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div className="flex items-start space-x-3">
+                        <ArrowPathIcon className="h-5 w-5 text-gray-400 mt-0.5" />
+                        <div className="flex-1">
+                          <label htmlFor="timesheet-update-mode" className="text-sm font-medium text-gray-900">Task Estimates</label>
+                          <select
+                            id="timesheet-update-mode"
+                            value={updateMode}
+                            onChange={(e) => onUpdateModeChange(e.target.value as TimesheetUpdateMode)}
+                            disabled={validating || overlapAction === 'merge'}
+                            className="mt-1 block w-full text-sm border border-gray-300 rounded-md px-2 py-1"
+                          >
+                            <option value="replace">Replace with this file&apos;s hours</option>
+                            <option value="accumulate">Add this file&apos;s hours to existing estimates</option>
+                          </select>
+                        </div>
+                      </div>
+
+                      {validating && (
+                        <p className="text-sm text-gray-500">Checking the file against the profile…</p>
+                      )}
+                      {!validating && validationError && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{validationError}</div>
+                      )}
+                      {!validating && validation && (
+                        validation.valid ? (
+                          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+                            {validation.entriesProcessed} entries for {validation.projects} projects, {validation.periodRange}
+                          </div>
+                        ) : (
+                          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                            <p className="font-medium">
+                              {validation.error || (validation.rowErrorCount > 0
+                                ? `${validation.rowErrorCount} row error${validation.rowErrorCount === 1 ? '' : 's'}; nothing will be sent to Xero until they are fixed`
+                                : 'No timesheet entries found')}
+                            </p>
+                            {validation.rowErrors.length > 0 && (
+                              <ul className="mt-2 max-h-48 overflow-y-auto space-y-0.5 text-xs">
+                                {validation.rowErrors.slice(0, ROW_ERRORS_SHOWN).map((rowError, index) => (
+                                  <li key={index}>Row {rowError.row}: {rowError.message}</li>
+                                ))}
+                                {validation.rowErrorCount > ROW_ERRORS_SHOWN && (
+                                  <li>…and {validation.rowErrorCount - ROW_ERRORS_SHOWN} more</li>
+                                )}
+                              </ul>
+                            )}
+                          </div>
+                        )
+                      )}
+                      {!validating && validation?.valid && undatedBlocked && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                          {periodCheck!.undatedEntries} entries have no date, so they cannot be checked for repeated uploads.
+                          Replace the estimates instead, or use a profile with a date column.
+                        </div>
+                      )}
+                      {!validating && validation?.valid && periodCheck && periodCheck.status !== 'new' && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                          <p className="font-medium">
+                            {periodCheck.status === 'duplicate'
+                              ? 'Every entry in this file was already applied to Xero'
+                              : `${periodCheck.duplicateEntries} of ${periodCheck.totalEntries} entries were already applied to Xero`}
+                          </p>
+                          <ul className="mt-2 space-y-0.5 text-xs">
+                            {periodCheck.overlapping.map(upload => (
+                              <li key={upload.id}>
+                                {upload.fileName || 'Earlier upload'}: {upload.periodStart && upload.periodEnd
+                                  ? `${upload.periodStart} to ${upload.periodEnd}`
+                                  : 'no dates'}, {upload.entryCount} entries{upload.runId ? ` (run ${upload.runId})` : ''}
+                              </li>
+                            ))}
+                          </ul>
+                          {periodCheck.status === 'overlap' && (
+                            <label className="mt-2 flex items-start gap-2">
+                              <input
+                                type="checkbox"
+                                className="mt-0.5"
+                                checked={overlapAction === 'merge'}
+                                onChange={(e) => onOverlapActionChange(e.target.checked ? 'merge' : 'reject')}
+                              />
+                              <span>Merge: add only the {periodCheck.newEntries} new entries to the existing estimates</span>
+                            </label>
+                          )}
+                          {periodCheck.status === 'duplicate' && (
+                            <p className="mt-2 text-xs">Roll back the earlier run to upload this period again.</p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
                 <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
                   <button
                     type="button"
-                    className="inline-flex w-full justify-center rounded-md bg-orange-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-orange-500 sm:ml-3 sm:w-auto"
+                    className="inline-flex w-full justify-center rounded-md bg-orange-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-orange-500 disabled:opacity-50 disabled:cursor-not-allowed sm:ml-3 sm:w-auto"
                     onClick={onConfirm}
+                    disabled={!canConfirm}
                   >
                     Confirm & Process
                   </button>
@@ -11,8 +11,20 @@ import ProjectsSyncStep from './timesheet/ProjectsSyncStep';
 import XeroUpdatePreview from './timesheet/XeroUpdatePreview';
 import XeroUpdateResults from './timesheet/XeroUpdateResults';
 import { TimesheetProcessingController } from '../../lib/timesheet/TimesheetProcessingController';
-import { ProcessingStatus, ProcessingStep, DirectProcessingResult, FilePreview, TenantInfo } from '../../lib/timesheet/types';
+import {
+  ProcessingStatus,
+  ProcessingStep,
+  DirectProcessingResult,
+  FilePreview,
+  TenantInfo,
+  TimesheetOverlapAction,
+  TimesheetProfile,
+  TimesheetRun,
+  TimesheetUpdateMode,
+  TimesheetValidationResult
+} from '../../lib/timesheet/types';
 import { ReportService } from '../../lib/timesheet/services/ReportService';
+import { FileValidationService } from '../../lib/timesheet/services/FileValidationService';
 import { ExcelReportService } from '../../lib/timesheet/services/ExcelReportService';
 
 interface TimesheetProcessingCardProps {
@@ -41,10 +53,20 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
   const [isUpdatingXero, setIsUpdatingXero] = useState(false);
   const [updateResults, setUpdateResults] = useState<any | null>(null);
   const [processingResponse, setProcessingResponse] = useState<any | null>(null);
+  const [profiles, setProfiles] = useState<TimesheetProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('standard');
+  const [validation, setValidation] = useState<TimesheetValidationResult | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [updateMode, setUpdateMode] = useState<TimesheetUpdateMode>('replace');
+  const [overlapAction, setOverlapAction] = useState<TimesheetOverlapAction>('reject');
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rollbackRun, setRollbackRun] = useState<TimesheetRun | null>(null);
 
   // Controller reference
   const controllerRef = useRef<TimesheetProcessingController | null>(null);
   const reportServiceRef = useRef<ReportService>(new ReportService());
+  const fileValidationServiceRef = useRef<FileValidationService>(new FileValidationService());
 
   // Initialize controller
   useEffect(() => {
@@ -60,8 +82,9 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
       onTenantInfo: setTenantInfo
     });
 
-    // Fetch current tenant info on mount
+    // Fetch current tenant info and its timesheet profiles on mount
     fetchCurrentTenant();
+    fetchProfiles();
 
     return () => {
       controllerRef.current?.reset();
@@ -85,6 +108,46 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
     }
   };
 
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/xero/timesheet-profiles');
+      const data = await response.json();
+      if (data.success) {
+        setProfiles(data.profiles);
+        // Preselect the tenant's own profile when it has one
+        const tenantProfile = data.profiles.find((p: TimesheetProfile) => !p.builtIn);
+        setSelectedProfileId(tenantProfile?.id || 'standard');
+      }
+    } catch (err) {
+      console.error('Error fetching timesheet profiles:', err);
+    }
+  };
+
+  // Check the selected file against the profile whenever the confirmation opens or the profile changes
+  useEffect(() => {
+    if (!showTenantConfirmation || !selectedBlobUrl) return;
+
+    let cancelled = false;
+    setValidating(true);
+    setValidation(null);
+    setValidationError(null);
+    setOverlapAction('reject');
+    fileValidationServiceRef.current.validateTimesheet(selectedBlobUrl, selectedProfileId)
+      .then(result => { if (!cancelled) setValidation(result); })
+      .catch(err => { if (!cancelled) setValidationError(err.message); })
+      .finally(() => { if (!cancelled) setValidating(false); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showTenantConfirmation, selectedBlobUrl, selectedProfileId]);
+
+  // Merging adds only the new entries, so their hours must be added to the existing estimates
+  const handleOverlapActionChange = (action: TimesheetOverlapAction) => {
+    setOverlapAction(action);
+    if (action === 'merge') setUpdateMode('accumulate');
+  };
+
   const handleBlobFileSelect = async (blobUrl: string, fileName: string) => {
     setError(null);
     setLoadingTenant(true);
@@ -171,13 +234,21 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
         body: JSON.stringify({
           blobUrl: selectedBlobUrl,
           fileName: selectedFileName,
-          tenantId: tenantInfo.tenantId
+          tenantId: tenantInfo.tenantId,
+          profileId: selectedProfileId,
+          mode: updateMode,
+          onOverlap: overlapAction
         })
       });
 
       if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
         updateStep('upload', 'error', 'Failed to process timesheet');
-        throw new Error('Processing failed');
+        // Row errors found when processing, e.g. if the file changed after it was checked
+        const firstRowError = errorData.row_errors?.[0];
+        throw new Error(firstRowError
+          ? `${errorData.error} (row ${firstRowError.row}: ${firstRowError.message})`
+          : errorData.error || 'Processing failed');
       }
 
       const result = await response.json();
@@ -274,24 +345,22 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
     setShowUpdatePreview(false);
   };
 
-  const handleApplyXeroUpdates = async () => {
+  const handleApplyXeroUpdates = async (reopenProjectIds: string[]) => {
     if (!processingResponse || !currentTenantId) return;
 
     setIsUpdatingXero(true);
     
     try {
-      // Filter out changes for closed projects
-      const closedProjectIds = new Set(
-        processingResponse.closed_projects_with_changes?.map((p: any) => p.projectId) || []
-      );
-      
-      const updates = processingResponse.changes.updates.filter(
-        (update: any) => !closedProjectIds.has(update.projectId)
-      );
-      
-      const creates = processingResponse.changes.creates.filter(
-        (create: any) => !closedProjectIds.has(create.projectId)
-      );
+      // Changes for closed projects are only sent for the projects the user confirmed to reopen
+      const reopen = new Set(reopenProjectIds);
+      const updates = [
+        ...processingResponse.changes.updates,
+        ...(processingResponse.closed_changes?.updates || []).filter((update: any) => reopen.has(update.projectId))
+      ];
+      const creates = [
+        ...processingResponse.changes.creates,
+        ...(processingResponse.closed_changes?.creates || []).filter((create: any) => reopen.has(create.projectId))
+      ];
 
       const response = await fetch('/api/xero/apply-updates', {
         method: 'POST',
@@ -300,13 +369,17 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
         },
         body: JSON.stringify({
           tenantId: currentTenantId,
+          fileName: selectedFileName,
+          periodRecordId: processingResponse.period_record_id,
           updates,
-          creates
+          creates,
+          reopenProjectIds
         })
       });
 
       if (!response.ok) {
-        throw new Error('Failed to apply updates to Xero');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to apply updates to Xero');
       }
 
       const result = await response.json();
@@ -321,6 +394,30 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
     }
   };
 
+  const handleRollback = async (force: boolean) => {
+    if (!updateResults?.runId) return;
+
+    setIsRollingBack(true);
+    try {
+      const response = await fetch('/api/xero/timesheet-runs/rollback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ runId: updateResults.runId, force })
+      });
+      const result = await response.json();
+      if (!result.run) {
+        throw new Error(result.error || 'Rollback failed');
+      }
+      setRollbackRun(result.run);
+    } catch (err: any) {
+      alert(`Rollback failed: ${err.message}`);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
   const handleCloseUpdateResults = () => {
     setUpdateResults(null);
     resetProcessor();
@@ -337,7 +434,9 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
         updates: processingResponse.changes.updates,
         creates: processingResponse.changes.creates
       },
-      closedProjectsSkipped: processingResponse.closed_projects_with_changes
+      closedProjectsSkipped: (processingResponse.closed_projects_with_changes || []).filter(
+        (project: any) => !updateResults.reopenedProjects?.some((reopened: any) => reopened.projectId === project.projectId && reopened.reopened === true)
+      )
     });
     
     // Convert buffer to base64
@@ -376,6 +475,9 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
     setShowUpdatePreview(false);
     setUpdateResults(null);
     setProcessingResponse(null);
+    setRollbackRun(null);
+    setValidation(null);
+    setValidationError(null);
     controllerRef.current?.reset();
   };
 
@@ -485,7 +587,8 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
             <XeroUpdatePreview
               updates={processingResponse.changes.updates || []}
               creates={processingResponse.changes.creates || []}
-              closedProjectsCount={processingResponse.closed_projects_with_changes?.length || 0}
+              closedProjects={processingResponse.closed_projects_with_changes || []}
+              closedChanges={processingResponse.closed_changes || { updates: [], creates: [] }}
               onConfirm={handleApplyXeroUpdates}
               onCancel={handleCancelUpdate}
               isUpdating={isUpdatingXero}
@@ -497,6 +600,9 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
               results={updateResults}
               onClose={handleCloseUpdateResults}
               onDownloadReport={handleDownloadUpdateReport}
+              onRollback={handleRollback}
+              isRollingBack={isRollingBack}
+              rollbackRun={rollbackRun}
             />
           )}
 
@@ -523,6 +629,16 @@ export default function TimesheetProcessingCardRefactored({ disabled = false }:
         isOpen={showTenantConfirmation}
         tenantName={tenantInfo?.tenantName || ''}
         fileName={filePreview?.fileName || ''}
+        profiles={profiles}
+        selectedProfileId={selectedProfileId}
+        onProfileChange={setSelectedProfileId}
+        validation={validation}
+        validating={validating}
+        validationError={validationError}
+        updateMode={updateMode}
+        onUpdateModeChange={setUpdateMode}
+        overlapAction={overlapAction}
+        onOverlapActionChange={handleOverlapActionChange}
         onConfirm={handleConfirmProcessing}
         onCancel={handleCancelProcessing}
       />
@@ -305,8 +305,8 @@ function ClosedProjectsWarning({ closedProjects }: { closedProjects: any[] }) {
             Warning: Changes Requested for Closed Projects ({closedProjects.length})
           </h3>
           <p className="text-xs text-amber-700 mb-3">
-            The following projects are marked as CLOSED or COMPLETED but have changes in the timesheet. 
-            Review these carefully before applying updates:
+            The following projects are marked as CLOSED or COMPLETED but have changes in the timesheet.
+            They are skipped unless you select them for reopening when reviewing the Xero updates:
           </p>
           
           <div className="space-y-2 max-h-40 overflow-y-auto">
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import { ArrowUpCircleIcon, PlusCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { ClosedProjectWithChanges } from '../../../lib/timesheet/types';
 
 interface UpdatePayload {
   projectId: string;
@@ -20,8 +21,11 @@ interface UpdatePayload {
 interface XeroUpdatePreviewProps {
   updates: UpdatePayload[];
   creates: UpdatePayload[];
-  closedProjectsCount: number;
-  onConfirm: () => void;
+  // Closed projects with changes, and those changes; each project is only changed if the user selects it
+  closedProjects: ClosedProjectWithChanges[];
+  closedChanges: { updates: UpdatePayload[]; creates: UpdatePayload[] };
+  // Called with the closed projects the user confirmed to reopen, update and close again
+  onConfirm: (reopenProjectIds: string[]) => void;
   onCancel: () => void;
   isUpdating?: boolean;
 }
@@ -29,14 +33,39 @@ interface XeroUpdatePreviewProps {
 export default function XeroUpdatePreview({
   updates,
   creates,
-  closedProjectsCount,
+  closedProjects,
+  closedChanges,
   onConfirm,
   onCancel,
   isUpdating = false
 }: XeroUpdatePreviewProps) {
   const [showDetails, setShowDetails] = useState(true);
-  
-  const totalChanges = updates.length + creates.length;
+  const [reopenProjectIds, setReopenProjectIds] = useState<string[]>([]);
+
+  const selectedUpdates = closedChanges.updates.filter(update => reopenProjectIds.includes(update.projectId));
+  const selectedCreates = closedChanges.creates.filter(create => reopenProjectIds.includes(create.projectId));
+  const allUpdates = [...updates, ...selectedUpdates];
+  const allCreates = [...creates, ...selectedCreates];
+  const totalChanges = allUpdates.length + allCreates.length;
+  const closedProjectsCount = closedProjects.length - reopenProjectIds.length;
+
+  const toggleReopen = (projectId: string) => {
+    setReopenProjectIds(ids => ids.includes(projectId) ? ids.filter(id => id !== projectId) : [...ids, projectId]);
+  };
+
+  // Reopening changes the project status in Xero, so it is confirmed once more with the project list
+  const handleConfirm = () => {
+    if (reopenProjectIds.length > 0) {
+      const names = closedProjects
+        .filter(project => reopenProjectIds.includes(project.projectId))
+        .map(project => `${project.projectCode} - ${project.projectName}`)
+        .join('\n');
+      if (!window.confirm(`These closed projects will be reopened, updated and closed again:\n\n${names}\n\nContinue?`)) {
+        return;
+      }
+    }
+    onConfirm(reopenProjectIds);
+  };
   
   const formatCurrency = (value: number | string, currency: string = 'SGD') => {
     const numValue = typeof value === 'string' ? parseFloat(value) : value;
@@ -65,7 +94,7 @@ export default function XeroUpdatePreview({
             <div className="flex items-center justify-center mb-1">
               <ArrowUpCircleIcon className="h-8 w-8 text-blue-600" />
             </div>
-            <p className="text-2xl font-bold text-gray-900">{updates.length}</p>
+            <p className="text-2xl font-bold text-gray-900">{allUpdates.length}</p>
             <p className="text-sm text-gray-600">Tasks to Update</p>
           </div>
           
@@ -73,7 +102,7 @@ export default function XeroUpdatePreview({
             <div className="flex items-center justify-center mb-1">
               <PlusCircleIcon className="h-8 w-8 text-green-600" />
             </div>
-            <p className="text-2xl font-bold text-gray-900">{creates.length}</p>
+            <p className="text-2xl font-bold text-gray-900">{allCreates.length}</p>
             <p className="text-sm text-gray-600">Tasks to Create</p>
           </div>
           
@@ -86,12 +115,29 @@ export default function XeroUpdatePreview({
           </div>
         </div>
 
-        {closedProjectsCount > 0 && (
+        {closedProjects.length > 0 && (
           <div className="bg-amber-50 border border-amber-200 rounded p-3 mb-4">
             <p className="text-sm text-amber-800">
-              <strong>Note:</strong> {closedProjectsCount} closed projects with requested changes will be skipped.
-              Only active projects will be updated.
+              <strong>Note:</strong> {closedProjects.length} closed projects have requested changes and are skipped
+              unless selected below. A selected project is reopened, updated and closed again.
             </p>
+            <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+              {closedProjects.map(project => (
+                <label key={project.projectId} className="flex items-start gap-2 text-xs text-amber-900">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={reopenProjectIds.includes(project.projectId)}
+                    onChange={() => toggleReopen(project.projectId)}
+                    disabled={isUpdating}
+                  />
+                  <span>
+                    <span className="font-medium">{project.projectCode} - {project.projectName}</span>
+                    {' '}({project.tasksToUpdate} updates, {project.tasksToCreate} new tasks)
+                  </span>
+                </label>
+              ))}
+            </div>
           </div>
         )}
 
@@ -105,14 +151,14 @@ export default function XeroUpdatePreview({
         {showDetails && (
           <div className="space-y-4 max-h-96 overflow-y-auto">
             {/* Updates Section */}
-            {updates.length > 0 && (
+            {allUpdates.length > 0 && (
               <div>
                 <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
                   <ArrowUpCircleIcon className="h-4 w-4 mr-1 text-blue-600" />
-                  Task Updates ({updates.length})
+                  Task Updates ({allUpdates.length})
                 </h4>
                 <div className="space-y-2">
-                  {updates.map((update, idx) => (
+                  {allUpdates.map((update, idx) => (
                     <div key={idx} className="bg-white rounded p-3 border border-gray-200">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
@@ -137,14 +183,14 @@ export default function XeroUpdatePreview({
             )}
 
             {/* Creates Section */}
-            {creates.length > 0 && (
+            {allCreates.length > 0 && (
               <div>
                 <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
                   <PlusCircleIcon className="h-4 w-4 mr-1 text-green-600" />
-                  New Tasks ({creates.length})
+                  New Tasks ({allCreates.length})
                 </h4>
                 <div className="space-y-2">
-                  {creates.map((create, idx) => (
+                  {allCreates.map((create, idx) => (
                     <div key={idx} className="bg-white rounded p-3 border border-gray-200">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
@@ -180,7 +226,7 @@ export default function XeroUpdatePreview({
           Cancel
         </button>
         <button
-          onClick={onConfirm}
+          onClick={handleConfirm}
           disabled={isUpdating || totalChanges === 0}
           className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors ${
             isUpdating || totalChanges === 0
@@ -1,7 +1,8 @@
 'use client';
 
 import React from 'react';
-import { CheckCircleIcon, XCircleIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { CheckCircleIcon, XCircleIcon, DocumentArrowDownIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import type { TimesheetReopenedProject, TimesheetRun } from '../../../lib/timesheet/types';
 
 interface UpdateResult {
   projectId: string;
@@ -18,9 +19,11 @@ interface UpdateResult {
 
 interface XeroUpdateSummary {
   success: boolean;
+  runId?: string;
   totalAttempted: number;
   successCount: number;
   failureCount: number;
+  reopenedProjects?: TimesheetReopenedProject[];
   results: UpdateResult[];
   duration: number;
 }
@@ -29,12 +32,19 @@ interface XeroUpdateResultsProps {
   results: XeroUpdateSummary;
   onClose: () => void;
   onDownloadReport: () => void;
+  onRollback?: (force: boolean) => void;
+  isRollingBack?: boolean;
+  // Run as returned by the last rollback attempt
+  rollbackRun?: TimesheetRun | null;
 }
 
 export default function XeroUpdateResults({
   results,
   onClose,
-  onDownloadReport
+  onDownloadReport,
+  onRollback,
+  isRollingBack = false,
+  rollbackRun = null
 }: XeroUpdateResultsProps) {
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
@@ -44,6 +54,21 @@ export default function XeroUpdateResults({
   const successfulUpdates = results.results.filter(r => r.success && r.action === 'updated');
   const successfulCreates = results.results.filter(r => r.success && r.action === 'created');
   const failures = results.results.filter(r => !r.success);
+  const reopenedProjects = results.reopenedProjects || [];
+  // Closed projects that could not be reopened, or were left in progress because closing them again failed
+  const reopenProblems = reopenedProjects.filter(project => project.error);
+  const rollbackFailures = rollbackRun?.changes.filter(change => change.rollbackError) || [];
+  // Tasks edited in Xero after the run are only overwritten when the user asks for it
+  const changedSinceRun = rollbackFailures.some(change => change.rollbackError?.includes('changed in Xero after this run'));
+
+  const confirmRollback = (force: boolean) => {
+    const message = force
+      ? 'Overwrite tasks changed in Xero since this run with their values from before the run?'
+      : `Roll back run ${results.runId}? Updated tasks get their previous estimates and rates back and created tasks are deleted.`;
+    if (window.confirm(message)) {
+      onRollback?.(force);
+    }
+  };
 
   return (
     <div className="space-y-4">
@@ -119,6 +144,28 @@ export default function XeroUpdateResults({
           </div>
         )}
 
+        {results.runId && (
+          <div className="text-xs text-gray-600 mb-3">
+            Run ID: <span className="font-mono text-gray-900">{results.runId}</span>
+          </div>
+        )}
+
+        {reopenedProjects.length > 0 && (
+          <div className="text-xs text-gray-600 mb-3">
+            Closed projects reopened and closed again: {reopenedProjects.filter(project => project.reclosed).length} of {reopenedProjects.length}
+            {reopenProblems.length > 0 && (
+              <ul className="mt-1 ml-4 text-red-700">
+                {reopenProblems.map(project => (
+                  <li key={project.projectId}>
+                    • {project.projectCode || project.projectId}: {project.error}
+                    {project.reopened && !project.reclosed && ' (close it in Xero)'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Failure Details */}
         {failures.length > 0 && (
           <div className="p-3 bg-red-50 bg-opacity-70 rounded">
@@ -149,6 +196,29 @@ export default function XeroUpdateResults({
         )}
       </div>
 
+      {rollbackRun && (
+        <div className={`border rounded-lg p-3 text-sm ${
+          rollbackRun.status === 'rolled_back'
+            ? 'bg-green-50 border-green-200 text-green-700'
+            : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="font-medium">
+            {rollbackRun.status === 'rolled_back'
+              ? 'Run rolled back'
+              : `${rollbackFailures.length} change${rollbackFailures.length === 1 ? '' : 's'} could not be rolled back`}
+          </p>
+          {rollbackFailures.length > 0 && (
+            <ul className="mt-2 max-h-32 overflow-y-auto space-y-0.5 text-xs">
+              {rollbackFailures.map((change, idx) => (
+                <li key={idx}>
+                  {change.projectCode || change.projectId} / {change.taskName}: {change.rollbackError}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="flex gap-3">
         <button
           onClick={onClose}
@@ -163,6 +233,16 @@ export default function XeroUpdateResults({
           <DocumentArrowDownIcon className="w-4 h-4" />
           Download Update Report
         </button>
+        {onRollback && results.runId && rollbackRun?.status !== 'rolled_back' && (
+          <button
+            onClick={() => confirmRollback(changedSinceRun)}
+            disabled={isRollingBack}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+            {isRollingBack ? 'Rolling back…' : changedSinceRun ? 'Overwrite and Roll Back' : rollbackRun ? 'Retry Rollback' : 'Roll Back Run'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -141,4 +141,30 @@ export function createPublicRoute(
       );
     }
   };
-}
\ No newline at end of file
+}
+/**
+ * Checks whether the signed-in user may use admin routes
+ * Admins are listed in ADMIN_EMAILS (comma separated); when it is not set, nobody is an admin
+ */
+export function isAdminSession(session: any): boolean {
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  const email = session?.user?.email?.trim().toLowerCase();
+  return !!email && admins.includes(email);
+}
+
+/**
+ * Lists the Xero tenant IDs the signed-in user has connected
+ * Admin routes that take a tenant ID from the request only act on these tenants
+ */
+export async function getSessionTenantIds(session: any): Promise<string[]> {
+  const userId = session?.user?.email || session?.user?.id;
+  if (!userId) {
+    return [];
+  }
+  const { XeroTokenStore } = await import('@/lib/redis/xeroTokenStore');
+  const tenants = (await XeroTokenStore.getUserTenants(userId)) || session?.xeroTenants || [];
+  return tenants.map((tenant: { tenantId: string }) => tenant.tenantId);
+}
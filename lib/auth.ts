@@ -116,6 +116,21 @@ export const authConfig: NextAuthConfig = {
         return token as XeroJWT
       }
       
+      // Scheduled jobs refresh tokens too; Xero rotates refresh tokens, so pick up a newer one if stored
+      try {
+        const TokenStore = await getXeroTokenStore();
+        const stored = await TokenStore.getRefreshToken(token.email || '');
+        if (stored?.refresh_token && stored.refresh_token !== token.refresh_token &&
+            stored.expires_at > ((token.expires_at as number) || 0)) {
+          token.refresh_token = stored.refresh_token;
+          if (Date.now() < stored.expires_at * 1000 - fiveMinutesInMs) {
+            return { ...token, access_token: stored.access_token, expires_at: stored.expires_at } as XeroJWT;
+          }
+        }
+      } catch (error) {
+        console.error('[Auth] Failed to read stored refresh token:', error);
+      }
+      
       // Access token has expired or will expire soon, try to update it
       // Use distributed lock to prevent concurrent refreshes
       try {
@@ -225,7 +240,7 @@ export const authConfig: NextAuthConfig = {
  * @param {XeroJWT} token - The current token object containing refresh token
  * @returns {Promise<XeroJWT>} Updated token object with new access token or error state
  */
-async function refreshAccessToken(token: XeroJWT): Promise<XeroJWT> {
+export async function refreshAccessToken(token: XeroJWT): Promise<XeroJWT> {
   try {
     // Log refresh attempt for debugging
     console.log(`[Auth] Attempting to refresh token at ${new Date().toISOString()}`);
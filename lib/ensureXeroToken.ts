@@ -2,10 +2,39 @@
  * Helper function to ensure valid Xero token and get tenant information
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { auth } from '@/lib/auth';
 import { XeroTokenStore } from '@/lib/redis/xeroTokenStore';
+import type { XeroTenant } from '@/types/auth.types';
+
+export interface XeroTokenContext {
+  access_token: string;
+  refresh_token: string;
+  effective_tenant_id: string;
+  available_tenants: XeroTenant[];
+  expires_at: number;
+}
+
+// Token supplied by background jobs, which run without a signed-in session
+const scopedToken = new AsyncLocalStorage<XeroTokenContext>();
+
+/**
+ * Runs an operation with a fixed Xero token and tenant
+ * Every ensureValidToken() call made inside the operation returns this token instead of the session's
+ * @param {XeroTokenContext} token - Token and tenant to use
+ * @param {() => Promise<T>} operation - Operation to run
+ * @returns {Promise<T>} Result of the operation
+ */
+export function runWithXeroToken<T>(token: XeroTokenContext, operation: () => Promise<T>): Promise<T> {
+  return scopedToken.run(token, operation);
+}
 
 export async function ensureValidToken() {
+  const scoped = scopedToken.getStore();
+  if (scoped) {
+    return { ...scoped };
+  }
+
   const session = await auth();
   
   if (!session?.user) {
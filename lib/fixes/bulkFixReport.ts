@@ -0,0 +1,123 @@
+// bulkFixReport.ts
+// Generates the Excel summary for a bulk fix run
+
+import * as XLSX from 'xlsx';
+
+export type BulkFixStatus = 'success' | 'failed' | 'skipped';
+
+export interface BulkFixIssueResult {
+  index: number;
+  dealId: string;
+  dealTitle?: string;
+  issueCode: string;
+  status: BulkFixStatus;
+  message: string;
+  durationMs: number;
+  journalEntryId?: string;
+}
+
+export interface BulkFixSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  startedAt: string;
+  completedAt: string;
+  processingTimeMs: number;
+}
+
+export function generateBulkFixReport(summary: BulkFixSummary, results: BulkFixIssueResult[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  addSummarySheet(workbook, summary, results);
+  addResultsSheet(workbook, 'Fixed', 'Fixed Issues', results.filter(r => r.status === 'success'));
+  addResultsSheet(workbook, 'Failed', 'Failed Fixes', results.filter(r => r.status === 'failed'));
+  addResultsSheet(workbook, 'Skipped', 'Skipped Issues', results.filter(r => r.status === 'skipped'));
+
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' });
+  return Buffer.from(buffer);
+}
+
+function addSummarySheet(workbook: XLSX.WorkBook, summary: BulkFixSummary, results: BulkFixIssueResult[]) {
+  const summaryData: any[][] = [
+    ['Bulk Fix Report'],
+    [],
+    ['Report Generated:', summary.completedAt],
+    ['Run Started:', summary.startedAt],
+    [],
+    ['Summary Statistics'],
+    ['Metric', 'Value'],
+    ['Issues Submitted', summary.total],
+    ['Fixed', summary.succeeded],
+    ['Failed', summary.failed],
+    ['Skipped', summary.skipped],
+    ['Processing Time (ms)', summary.processingTimeMs],
+    [],
+    ['Success Rate', summary.total > 0 ? `${((summary.succeeded / summary.total) * 100).toFixed(1)}%` : '0%'],
+    [],
+    ['Issue Code Breakdown'],
+    ['Issue Code', 'Fixed', 'Failed', 'Skipped']
+  ];
+
+  const byCode = new Map<string, { success: number; failed: number; skipped: number }>();
+  results.forEach(r => {
+    const counts = byCode.get(r.issueCode) || { success: 0, failed: 0, skipped: 0 };
+    counts[r.status]++;
+    byCode.set(r.issueCode, counts);
+  });
+  byCode.forEach((counts, code) => {
+    summaryData.push([code, counts.success, counts.failed, counts.skipped]);
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(summaryData);
+
+  // Apply formatting
+  ws['A1'].s = { font: { bold: true, sz: 16 } };
+  ws['A6'].s = { font: { bold: true, sz: 14 } };
+  ws['A16'].s = { font: { bold: true, sz: 14 } };
+
+  // Set column widths
+  ws['!cols'] = [{ wch: 32 }, { wch: 25 }, { wch: 10 }, { wch: 10 }];
+
+  XLSX.utils.book_append_sheet(workbook, ws, 'Summary');
+}
+
+function addResultsSheet(workbook: XLSX.WorkBook, sheetName: string, title: string, results: BulkFixIssueResult[]) {
+  const headers = ['#', 'Deal ID', 'Deal Title', 'Issue Code', 'Result', 'Duration (ms)', 'Undo Entry'];
+  const rows = results.map(r => [
+    r.index + 1,
+    r.dealId,
+    r.dealTitle || 'N/A',
+    r.issueCode,
+    r.message,
+    r.durationMs,
+    r.journalEntryId || ''
+  ]);
+
+  const wsData = [
+    [title],
+    [],
+    [`Total: ${results.length}`],
+    [],
+    headers,
+    ...rows
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+
+  // Apply formatting
+  ws['A1'].s = { font: { bold: true, sz: 16 } };
+
+  // Set column widths
+  ws['!cols'] = [
+    { wch: 6 },
+    { wch: 12 },
+    { wch: 40 },
+    { wch: 32 },
+    { wch: 60 },
+    { wch: 14 },
+    { wch: 32 }
+  ];
+
+  XLSX.utils.book_append_sheet(workbook, ws, sheetName);
+}
@@ -0,0 +1,455 @@
+/**
+ * Issue Fixer
+ * Dispatches a validation issue code to the fix function that resolves it
+ */
+
+import {
+  syncProductsToXeroQuote,
+  acceptXeroQuote,
+  fixQuoteNumber,
+  alignQuoteCurrency,
+  alignQuoteContact
+} from './xeroQuoteFixesV2';
+import type { QuoteFixPreview } from './xeroQuoteFixesV2';
+import {
+  syncProductsToPipedrive,
+  fixDealTitle,
+  setDealOrganizationFromContact,
+  fetchPipedriveDeal
+} from './pipedriveFixes';
+import { resolvePipedriveConfig, type PipedriveConfig } from '../utils/tenantConfig';
+
+export type FixOutcome = 'fixed' | 'preview' | 'skipped' | 'failed';
+
+export interface FixIssueParams {
+  dealId: string | number;
+  issueCode: string;
+  dealData?: any;
+  tenantId: string;
+  dryRun?: boolean;
+  // Preview the fix first and skip it when it would change nothing
+  skipIfAlreadyFixed?: boolean;
+}
+
+export interface FixIssueResult {
+  outcome: FixOutcome;
+  statusCode: number;
+  body: Record<string, any>;
+}
+
+// Apply (or preview) the fix for a single validation issue
+export async function fixIssue(params: FixIssueParams): Promise<FixIssueResult> {
+  const { dryRun = false, skipIfAlreadyFixed = false } = params;
+
+  if (skipIfAlreadyFixed && !dryRun) {
+    const previewResult = await runFix({ ...params, dryRun: true });
+    if (previewResult.outcome !== 'preview') {
+      return previewResult;
+    }
+    if (isNoOpPreview(previewResult.body)) {
+      return {
+        outcome: 'skipped',
+        statusCode: 200,
+        body: { success: true, skipped: true, message: 'Already fixed, nothing to change' }
+      };
+    }
+  }
+
+  return runFix({ ...params, dryRun });
+}
+
+async function runFix(params: FixIssueParams): Promise<FixIssueResult> {
+  const { issueCode, dealData, tenantId, dryRun = false } = params;
+  const dealId = String(params.dealId);
+
+  console.log((dryRun ? 'Previewing fix for' : 'Fixing') + ' issue ' + issueCode + ' for deal ' + dealId);
+
+  switch (issueCode) {
+    case 'DEAL_PRODUCTS_VALUE_MISMATCH': {
+      // Check if Pipedrive has no products but Xero does
+      const pipedriveProductCount = dealData?.dealProducts?.length || 0;
+      const xeroLineItemCount = dealData?.xeroQuote?.LineItems?.length || 0;
+
+      if (pipedriveProductCount === 0 && xeroLineItemCount > 0) {
+        // Sync from Xero to Pipedrive when Pipedrive is empty
+        return syncXeroLinesToPipedrive(tenantId, dealId, dealData.xeroQuote.LineItems, dryRun);
+      }
+
+      // Otherwise sync from Pipedrive to Xero
+      if (!dealData?.xeroQuoteId || !dealData?.dealProducts) {
+        return failed(400, { error: 'Missing quote ID or products data' });
+      }
+
+      const syncResult = await syncProductsToXeroQuote({
+        xeroQuoteId: dealData.xeroQuoteId,
+        pipedriveProducts: dealData.dealProducts,
+        tenantId,
+        dryRun
+      });
+
+      if (syncResult.success && syncResult.dryRun) {
+        return preview({
+          success: true,
+          dryRun: true,
+          direction: 'pipedrive_to_xero',
+          preview: syncResult.preview
+        });
+      }
+
+      if (syncResult.success) {
+        return fixed({
+          success: true,
+          message: 'Products synced successfully',
+          updatedQuote: syncResult.updatedQuote,
+          journalEntryId: syncResult.journalEntryId
+        });
+      }
+      return failed(500, { error: syncResult.error || 'Failed to sync products' });
+    }
+
+    case 'PRODUCT_COUNT_MISMATCH':
+    case 'XERO_QUOTE_VALUE_MISMATCH': {
+      // Sync products from Pipedrive to Xero
+      if (!dealData?.xeroQuoteId || !dealData?.dealProducts) {
+        return failed(400, { error: 'Missing quote ID or products data' });
+      }
+
+      const syncResult = await syncProductsToXeroQuote({
+        xeroQuoteId: dealData.xeroQuoteId,
+        pipedriveProducts: dealData.dealProducts,
+        tenantId,
+        dryRun
+      });
+
+      if (syncResult.success && syncResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: syncResult.preview });
+      }
+
+      if (syncResult.success) {
+        return fixed({
+          success: true,
+          message: 'Products synced successfully',
+          updatedQuote: syncResult.updatedQuote,
+          journalEntryId: syncResult.journalEntryId
+        });
+      }
+      return failed(500, { error: syncResult.error || 'Failed to sync products' });
+    }
+
+    case 'XERO_QUOTE_NOT_ACCEPTED': {
+      // Accept the quote in Xero
+      if (!dealData?.xeroQuoteId) {
+        return failed(400, { error: 'Missing quote ID' });
+      }
+
+      const acceptResult = await acceptXeroQuote({
+        xeroQuoteId: dealData.xeroQuoteId,
+        tenantId,
+        dryRun
+      });
+
+      if (acceptResult.success && acceptResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: acceptResult.preview });
+      }
+
+      if (acceptResult.success) {
+        return fixed({ success: true, message: 'Quote accepted successfully', journalEntryId: acceptResult.journalEntryId });
+      }
+      return failed(500, { error: acceptResult.error || 'Failed to accept quote' });
+    }
+
+    case 'XERO_QUOTE_NUMBER_NO_PROJECT': {
+      // Fix quote number format
+      if (!dealData?.xeroQuoteId || !dealData?.expectedQuoteNumber) {
+        return failed(400, { error: 'Missing quote ID or expected quote number' });
+      }
+
+      const fixNumberResult = await fixQuoteNumber({
+        xeroQuoteId: dealData.xeroQuoteId,
+        newQuoteNumber: dealData.expectedQuoteNumber,
+        tenantId,
+        dryRun
+      });
+
+      if (fixNumberResult.success && fixNumberResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: fixNumberResult.preview });
+      }
+
+      if (fixNumberResult.success) {
+        return fixed({ success: true, message: 'Quote number updated successfully', journalEntryId: fixNumberResult.journalEntryId });
+      }
+      return failed(500, { error: fixNumberResult.error || 'Failed to update quote number' });
+    }
+
+    case 'NO_PRODUCTS': {
+      // Copy the quoted line items onto the empty deal
+      if (!dealData?.xeroQuote?.LineItems?.length) {
+        return failed(400, { error: 'Missing Xero quote line items' });
+      }
+
+      return syncXeroLinesToPipedrive(tenantId, dealId, dealData.xeroQuote.LineItems, dryRun);
+    }
+
+    case 'MISSING_VESSEL':
+    case 'INVALID_VESSEL_NAME': {
+      // Rewrite the title as PROJECTCODE-VESSELNAME
+      const pipedrive = await resolvePipedrive(tenantId);
+      if (!pipedrive) return pipedriveNotConfigured(tenantId);
+      
+      const titleResult = await fixDealTitle({
+        dealId,
+        apiKey: pipedrive.apiKey,
+        companyDomain: pipedrive.companyDomain,
+        vesselNameFieldKey: dealData?.vesselNameFieldKey || pipedrive.customFieldKeys.vesselName,
+        dryRun
+      });
+
+      if (titleResult.success && titleResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: { titleChange: titleResult.titleChange } });
+      }
+
+      if (titleResult.success) {
+        return fixed({
+          success: true,
+          message: 'Deal title updated successfully',
+          titleChange: titleResult.titleChange
+        });
+      }
+      return failed(500, { error: titleResult.error || 'Failed to update deal title' });
+    }
+
+    case 'DEAL_ORG_MISSING': {
+      // Link the organization named on the Xero quote
+      const contactName = dealData?.xeroQuote?.Contact?.Name;
+      if (!contactName) {
+        return failed(400, { error: 'Missing Xero quote contact' });
+      }
+
+      const pipedrive = await resolvePipedrive(tenantId);
+      if (!pipedrive) return pipedriveNotConfigured(tenantId);
+      
+      const orgResult = await setDealOrganizationFromContact({
+        dealId,
+        contactName,
+        apiKey: pipedrive.apiKey,
+        companyDomain: pipedrive.companyDomain,
+        dryRun
+      });
+
+      if (orgResult.success && orgResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: { organizationChange: orgResult.organizationChange } });
+      }
+
+      if (orgResult.success) {
+        return fixed({
+          success: true,
+          message: 'Deal organization set successfully',
+          organizationChange: orgResult.organizationChange
+        });
+      }
+      return failed(500, { error: orgResult.error || 'Failed to set deal organization' });
+    }
+
+    case 'CURRENCY_MISMATCH': {
+      // Re-issue the quote in the deal currency
+      if (!dealData?.xeroQuoteId) {
+        return failed(400, { error: 'Missing quote ID' });
+      }
+
+      const pipedrive = await resolvePipedrive(tenantId);
+      if (!pipedrive) return pipedriveNotConfigured(tenantId);
+      
+      const deal = await fetchPipedriveDeal(dealId, pipedrive.apiKey, pipedrive.companyDomain);
+      if (!deal?.currency) {
+        return failed(400, { error: 'Deal currency could not be determined' });
+      }
+
+      const currencyResult = await alignQuoteCurrency({
+        xeroQuoteId: dealData.xeroQuoteId,
+        currencyCode: deal.currency,
+        tenantId,
+        dryRun
+      });
+
+      if (currencyResult.success && currencyResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: currencyResult.preview });
+      }
+
+      if (currencyResult.success) {
+        return fixed({
+          success: true,
+          message: 'Quote currency updated successfully',
+          warning: currencyResult.warning,
+          journalEntryId: currencyResult.journalEntryId
+        });
+      }
+      return failed(500, { error: currencyResult.error || 'Failed to update quote currency' });
+    }
+
+    case 'CUSTOMER_NAME_MISMATCH': {
+      // Move the quote onto the Xero contact matching the deal organization
+      if (!dealData?.xeroQuoteId) {
+        return failed(400, { error: 'Missing quote ID' });
+      }
+
+      const pipedrive = await resolvePipedrive(tenantId);
+      if (!pipedrive) return pipedriveNotConfigured(tenantId);
+      
+      const deal = await fetchPipedriveDeal(dealId, pipedrive.apiKey, pipedrive.companyDomain);
+      if (!deal?.org_name) {
+        return failed(400, { error: 'Deal has no organization' });
+      }
+
+      const contactResult = await alignQuoteContact({
+        xeroQuoteId: dealData.xeroQuoteId,
+        contactName: deal.org_name,
+        tenantId,
+        dryRun
+      });
+
+      if (contactResult.success && contactResult.dryRun) {
+        return preview({ success: true, dryRun: true, preview: contactResult.preview });
+      }
+
+      if (contactResult.success) {
+        return fixed({
+          success: true,
+          message: 'Quote contact updated successfully',
+          warning: contactResult.warning,
+          journalEntryId: contactResult.journalEntryId
+        });
+      }
+      return failed(500, { error: contactResult.error || 'Failed to update quote contact' });
+    }
+
+    default:
+      return failed(400, { error: 'Unknown issue code: ' + issueCode });
+  }
+}
+
+// Copy Xero quote line items onto a Pipedrive deal as products
+async function syncXeroLinesToPipedrive(
+  tenantId: string,
+  dealId: string,
+  lineItems: any[],
+  dryRun: boolean
+): Promise<FixIssueResult> {
+  const pipedrive = await resolvePipedrive(tenantId);
+  if (!pipedrive) return pipedriveNotConfigured(tenantId);
+  
+  const pipedriveResult = await syncProductsToPipedrive({
+    dealId,
+    xeroLineItems: lineItems,
+    apiKey: pipedrive.apiKey,
+    companyDomain: pipedrive.companyDomain,
+    dryRun
+  });
+
+  if (pipedriveResult.success && pipedriveResult.dryRun) {
+    return preview({
+      success: true,
+      dryRun: true,
+      direction: 'xero_to_pipedrive',
+      preview: {
+        lines: pipedriveResult.lines,
+        productsCreated: pipedriveResult.productsCreated,
+        existingProductsCount: pipedriveResult.existingProductsCount,
+        dealValue: {
+          before: pipedriveResult.previousDealValue,
+          after: pipedriveResult.newDealValue
+        }
+      }
+    });
+  }
+
+  if (pipedriveResult.success) {
+    return fixed({
+      success: true,
+      message: 'Products synced from Xero to Pipedrive successfully',
+      lines: pipedriveResult.lines,
+      newDealValue: pipedriveResult.newDealValue
+    });
+  }
+  return failed(500, {
+    error: pipedriveResult.error || 'Failed to sync products',
+    lines: pipedriveResult.lines
+  });
+}
+
+// A preview that would leave Xero and Pipedrive unchanged means the issue is already fixed
+function isNoOpPreview(body: Record<string, any>): boolean {
+  if (body.direction === 'xero_to_pipedrive') {
+    // Products already on the deal would be duplicated by another sync
+    return (body.preview?.existingProductsCount || 0) > 0;
+  }
+
+  if (body.preview?.titleChange) {
+    return body.preview.titleChange.before === body.preview.titleChange.after;
+  }
+
+  if (body.preview?.organizationChange) {
+    // An organization is already linked
+    return body.preview.organizationChange.before !== null;
+  }
+
+  const quotePreview = body.preview as QuoteFixPreview | undefined;
+  if (!quotePreview) {
+    return false;
+  }
+
+  if (quotePreview.currencyChange) {
+    return String(quotePreview.currencyChange.before).toUpperCase() === String(quotePreview.currencyChange.after).toUpperCase();
+  }
+
+  if (quotePreview.contactChange) {
+    return quotePreview.contactChange.before === quotePreview.contactChange.after;
+  }
+
+  if (quotePreview.quoteNumberChange) {
+    return quotePreview.quoteNumberChange.before === quotePreview.quoteNumberChange.after;
+  }
+
+  if (quotePreview.lineItems || quotePreview.total) {
+    return lineItemsMatch(quotePreview.lineItems?.before || [], quotePreview.lineItems?.after || []);
+  }
+
+  return quotePreview.statusTransitions.length === 0;
+}
+
+// Compare only the fields a product sync writes, since Xero adds IDs and tax amounts to saved lines
+function lineItemsMatch(before: any[], after: any[]): boolean {
+  if (before.length !== after.length) {
+    return false;
+  }
+  const key = (item: any) => [
+    (item.Description || '').trim(),
+    Number(item.Quantity) || 0,
+    Number(item.UnitAmount) || 0,
+    Number(item.DiscountRate) || 0
+  ].join('|');
+  const beforeKeys = before.map(key).sort();
+  const afterKeys = after.map(key).sort();
+  return beforeKeys.every((value, index) => value === afterKeys[index]);
+}
+
+// Pipedrive configuration for fixes that write to Pipedrive, or null when the tenant has no usable configuration
+async function resolvePipedrive(tenantId: string): Promise<PipedriveConfig | null> {
+  const config = await resolvePipedriveConfig(tenantId);
+  return config?.enabled ? config : null;
+}
+
+function pipedriveNotConfigured(tenantId: string): FixIssueResult {
+  return failed(400, { error: `Pipedrive is not configured for tenant ${tenantId}` });
+}
+
+function fixed(body: Record<string, any>): FixIssueResult {
+  return { outcome: 'fixed', statusCode: 200, body };
+}
+
+function preview(body: Record<string, any>): FixIssueResult {
+  return { outcome: 'preview', statusCode: 200, body };
+}
+
+function failed(statusCode: number, body: Record<string, any>): FixIssueResult {
+  return { outcome: 'failed', statusCode, body };
+}
@@ -1,17 +1,455 @@
 /**
- * Stub implementation for Pipedrive fixes
- * These functions are not actively used but needed for compilation
+ * Pipedrive Fix Functions
+ * Applies Xero data back onto Pipedrive deals
  */
 
+import { buildPipedriveApiUrl } from '../utils/pipedriveHelpers';
+import { parseTitle, normalizeEDFormat } from '../validation/pipedriveValidationRules';
+
+export interface PipedriveProductLineResult {
+  description: string;
+  itemCode?: string;
+  productId?: number;
+  productCreated: boolean;
+  quantity: number;
+  unitPrice: number;
+  discountPercentage: number;
+  taxPercentage: number;
+  lineTotal: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface SyncProductsToPipedriveResult {
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  lines?: PipedriveProductLineResult[];
+  productsAttached?: number;
+  productsCreated?: number;
+  previousDealValue?: number;
+  newDealValue?: number;
+  existingProductsCount?: number;
+}
+
+// Sync Xero quote line items onto a Pipedrive deal as products
 export async function syncProductsToPipedrive(params: {
   dealId: string;
   xeroLineItems: any[];
   apiKey: string;
   companyDomain: string;
-}) {
-  console.warn('syncProductsToPipedrive is not implemented - Pipedrive integration has been removed');
-  return {
-    success: false,
-    error: 'Pipedrive integration has been removed from this application'
+  dryRun?: boolean;
+}): Promise<SyncProductsToPipedriveResult> {
+  const { dealId, xeroLineItems, apiKey, companyDomain, dryRun } = params;
+
+  try {
+    if (!xeroLineItems || xeroLineItems.length === 0) {
+      return { success: false, error: 'No Xero line items to sync' };
+    }
+
+    // Step 1: Get the deal so products are priced in its currency
+    const dealResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId, { api_token: apiKey }));
+    if (!dealResponse.ok) {
+      return { success: false, error: 'Failed to fetch deal: ' + dealResponse.status };
+    }
+    const dealData = await dealResponse.json();
+    const deal = dealData.data;
+    if (!deal) {
+      return { success: false, error: 'Deal ' + dealId + ' not found in Pipedrive' };
+    }
+    const currency = deal.currency;
+
+    // Step 2: Find or create a product for each line item and attach it to the deal
+    const lines: PipedriveProductLineResult[] = [];
+    for (const lineItem of xeroLineItems) {
+      lines.push(await syncLineItem(lineItem, dealId, currency, apiKey, companyDomain, dryRun));
+    }
+
+    const attached = lines.filter(line => line.success);
+    if (attached.length === 0) {
+      return { success: false, error: 'No products could be attached to the deal', lines };
+    }
+
+    // Step 3: Update the deal value to the total of the attached products
+    const newDealValue = roundAmount(attached.reduce((sum, line) => sum + line.lineTotal, 0));
+
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        lines,
+        productsAttached: attached.length,
+        productsCreated: lines.filter(line => line.productCreated).length,
+        previousDealValue: deal.value,
+        newDealValue,
+        existingProductsCount: deal.products_count || 0
+      };
+    }
+
+    const updateResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId, { api_token: apiKey }), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value: newDealValue })
+    });
+
+    const result: SyncProductsToPipedriveResult = {
+      success: attached.length === lines.length,
+      lines,
+      productsAttached: attached.length,
+      productsCreated: lines.filter(line => line.productCreated).length,
+      previousDealValue: deal.value,
+      newDealValue,
+      existingProductsCount: deal.products_count || 0
+    };
+
+    if (!updateResponse.ok) {
+      const errorText = await updateResponse.text();
+      console.error('Failed to update deal value:', errorText);
+      return { ...result, success: false, error: 'Products attached but failed to update deal value: ' + updateResponse.status };
+    }
+
+    if (!result.success) {
+      result.error = (lines.length - attached.length) + ' of ' + lines.length + ' line items could not be synced';
+    }
+
+    console.log('Synced ' + attached.length + ' products to Pipedrive deal ' + dealId + ', value ' + newDealValue);
+    return result;
+  } catch (error) {
+    console.error('Error syncing products to Pipedrive:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Find or create the product for one Xero line item and attach it to the deal
+async function syncLineItem(
+  lineItem: any,
+  dealId: string,
+  currency: string,
+  apiKey: string,
+  companyDomain: string,
+  dryRun?: boolean
+): Promise<PipedriveProductLineResult> {
+  const description = (lineItem.Description || lineItem.ItemCode || 'Item').trim();
+  const itemCode = lineItem.ItemCode || undefined;
+  const quantity = Number(lineItem.Quantity) || 1;
+  const unitPrice = Number(lineItem.UnitAmount) || 0;
+  const discountPercentage = Number(lineItem.DiscountRate) || 0;
+  const lineAmount = Number(lineItem.LineAmount);
+  const taxPercentage = lineAmount > 0 && lineItem.TaxAmount
+    ? roundAmount((Number(lineItem.TaxAmount) / lineAmount) * 100)
+    : 0;
+  const lineTotal = roundAmount(quantity * unitPrice * (1 - discountPercentage / 100));
+
+  const line: PipedriveProductLineResult = {
+    description,
+    itemCode,
+    productCreated: false,
+    quantity,
+    unitPrice,
+    discountPercentage,
+    taxPercentage,
+    lineTotal,
+    success: false
+  };
+
+  try {
+    // Product name is limited, so long descriptions are truncated for matching and creation
+    const productName = description.split('\n')[0].slice(0, 255);
+
+    let productId = itemCode
+      ? await findProduct(itemCode, 'code', apiKey, companyDomain)
+      : null;
+    if (!productId) {
+      productId = await findProduct(productName, 'name', apiKey, companyDomain);
+    }
+
+    // In dry-run mode, report the product that would be created and the line that would be attached
+    if (dryRun) {
+      line.productId = productId || undefined;
+      line.productCreated = !productId;
+      line.success = true;
+      return line;
+    }
+
+    if (!productId) {
+      const createResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'products', { api_token: apiKey }), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: productName,
+          code: itemCode,
+          tax: taxPercentage,
+          prices: [{ price: unitPrice, currency }]
+        })
+      });
+      if (!createResponse.ok) {
+        line.error = 'Failed to create product: ' + createResponse.status;
+        return line;
+      }
+      const created = await createResponse.json();
+      productId = created.data?.id;
+      line.productCreated = true;
+    }
+
+    if (!productId) {
+      line.error = 'Product could not be resolved';
+      return line;
+    }
+    line.productId = productId;
+
+    const attachResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId + '/products', { api_token: apiKey }), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        product_id: productId,
+        item_price: unitPrice,
+        quantity,
+        discount: discountPercentage,
+        discount_type: 'percentage',
+        tax: taxPercentage,
+        comments: description !== productName ? description : undefined
+      })
+    });
+    if (!attachResponse.ok) {
+      line.error = 'Failed to attach product to deal: ' + attachResponse.status;
+      return line;
+    }
+
+    line.success = true;
+    return line;
+  } catch (error) {
+    line.error = error instanceof Error ? error.message : 'Unknown error';
+    return line;
+  }
+}
+
+// Look up a product by exact code or name, returning its ID
+async function findProduct(
+  term: string,
+  field: 'code' | 'name',
+  apiKey: string,
+  companyDomain: string
+): Promise<number | null> {
+  // Pipedrive search requires at least 2 characters
+  if (term.length < 2) {
+    return null;
+  }
+
+  const response = await fetch(buildPipedriveApiUrl(companyDomain, 'products/search', {
+    api_token: apiKey,
+    term,
+    fields: field,
+    exact_match: true,
+    limit: 1
+  }));
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json();
+  return data.data?.items?.[0]?.item?.id || null;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface FixDealTitleResult {
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  titleChange?: {
+    before: string;
+    after: string;
+  };
+}
+
+// Rewrite a deal title to PROJECTCODE-VESSELNAME, taking the vessel from the vessel name custom field when set
+export async function fixDealTitle(params: {
+  dealId: string;
+  apiKey: string;
+  companyDomain: string;
+  vesselNameFieldKey?: string;
+  dryRun?: boolean;
+}): Promise<FixDealTitleResult> {
+  const { dealId, apiKey, companyDomain, vesselNameFieldKey, dryRun } = params;
+
+  try {
+    const deal = await fetchPipedriveDeal(dealId, apiKey, companyDomain);
+    if (!deal) {
+      return { success: false, error: 'Deal ' + dealId + ' not found in Pipedrive' };
+    }
+
+    const title: string = deal.title || '';
+    const parsed = parseTitle(normalizeEDFormat(title));
+
+    // The project code can still be read from titles that failed validation
+    const projectCode = parsed.projectCode || title.match(/^((?:NY|MES|ED|PO|WO|SO|JO)\d+)/i)?.[1]?.toUpperCase();
+    if (!projectCode) {
+      return { success: false, error: 'Cannot determine project code from title "' + title + '"' };
+    }
+
+    const fieldVesselName = vesselNameFieldKey
+      ? String(deal.custom_fields?.[vesselNameFieldKey] || deal[vesselNameFieldKey] || '').trim()
+      : '';
+    const vesselName = fieldVesselName && !/^\d+$/.test(fieldVesselName)
+      ? fieldVesselName
+      : parsed.vesselName;
+    if (!vesselName) {
+      return { success: false, error: 'Deal has no valid vessel name in its title or vessel name field' };
+    }
+
+    const newTitle = projectCode + '-' + vesselName;
+    const titleChange = { before: title, after: newTitle };
+
+    if (dryRun || newTitle === title) {
+      return { success: true, dryRun, titleChange };
+    }
+
+    const updateResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId, { api_token: apiKey }), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: newTitle })
+    });
+    if (!updateResponse.ok) {
+      return { success: false, error: 'Failed to update deal title: ' + updateResponse.status };
+    }
+
+    console.log('Renamed deal ' + dealId + ' from "' + title + '" to "' + newTitle + '"');
+    return { success: true, titleChange };
+  } catch (error) {
+    console.error('Error fixing deal title:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+export interface SetDealOrganizationResult {
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  organizationChange?: {
+    before: string | null;
+    after: string;
+    organizationId?: number;
+    organizationCreated: boolean;
   };
-}
\ No newline at end of file
+}
+
+// Link a deal to the Pipedrive organization named after the Xero quote contact, creating it if needed
+export async function setDealOrganizationFromContact(params: {
+  dealId: string;
+  contactName: string;
+  apiKey: string;
+  companyDomain: string;
+  dryRun?: boolean;
+}): Promise<SetDealOrganizationResult> {
+  const { dealId, contactName, apiKey, companyDomain, dryRun } = params;
+
+  try {
+    const deal = await fetchPipedriveDeal(dealId, apiKey, companyDomain);
+    if (!deal) {
+      return { success: false, error: 'Deal ' + dealId + ' not found in Pipedrive' };
+    }
+
+    const currentOrgName: string | null = deal.org_id ? (deal.org_name || deal.org_id.name || String(deal.org_id.value || deal.org_id)) : null;
+
+    // Leave existing links alone, the mismatch case is handled on the Xero side
+    if (currentOrgName) {
+      return {
+        success: true,
+        dryRun,
+        organizationChange: { before: currentOrgName, after: currentOrgName, organizationCreated: false }
+      };
+    }
+
+    let organizationId = await findOrganization(contactName, apiKey, companyDomain);
+    const organizationCreated = !organizationId;
+
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        organizationChange: { before: null, after: contactName, organizationId: organizationId || undefined, organizationCreated }
+      };
+    }
+
+    if (!organizationId) {
+      const createResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'organizations', { api_token: apiKey }), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: contactName })
+      });
+      if (!createResponse.ok) {
+        return { success: false, error: 'Failed to create organization: ' + createResponse.status };
+      }
+      const created = await createResponse.json();
+      organizationId = created.data?.id;
+    }
+
+    if (!organizationId) {
+      return { success: false, error: 'Organization could not be resolved' };
+    }
+
+    const updateResponse = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId, { api_token: apiKey }), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ org_id: organizationId })
+    });
+    if (!updateResponse.ok) {
+      return { success: false, error: 'Failed to link organization to deal: ' + updateResponse.status };
+    }
+
+    console.log('Linked deal ' + dealId + ' to organization "' + contactName + '" (' + organizationId + ')');
+    return {
+      success: true,
+      organizationChange: { before: null, after: contactName, organizationId, organizationCreated }
+    };
+  } catch (error) {
+    console.error('Error setting deal organization:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Fetch a single deal, returning null when it does not exist
+export async function fetchPipedriveDeal(dealId: string, apiKey: string, companyDomain: string): Promise<any | null> {
+  const response = await fetch(buildPipedriveApiUrl(companyDomain, 'deals/' + dealId, { api_token: apiKey }));
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch deal: ' + response.status);
+  }
+  const data = await response.json();
+  return data.data || null;
+}
+
+// Look up an organization by exact name, returning its ID
+async function findOrganization(name: string, apiKey: string, companyDomain: string): Promise<number | null> {
+  // Pipedrive search requires at least 2 characters
+  if (name.length < 2) {
+    return null;
+  }
+
+  const response = await fetch(buildPipedriveApiUrl(companyDomain, 'organizations/search', {
+    api_token: apiKey,
+    term: name,
+    fields: 'name',
+    exact_match: true,
+    limit: 1
+  }));
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json();
+  return data.data?.items?.[0]?.item?.id || null;
+}
@@ -0,0 +1,120 @@
+/**
+ * Quote Fix Journal
+ * Records the Xero quote as it was before each fix so the change can be reverted
+ */
+
+import { withRedis } from '../redis/redisClient';
+
+export type QuoteFixAction = 'sync_products' | 'accept' | 'fix_number' | 'align_currency' | 'align_contact' | 'revert';
+
+export interface QuoteFixJournalEntry {
+  id: string;
+  tenantId: string;
+  quoteId: string;
+  quoteNumber: string;
+  action: QuoteFixAction;
+  // Full quote as returned by Xero before the fix was applied
+  snapshot: any;
+  // Quote as the fix left it; a revert is refused if the quote has changed since
+  appliedSnapshot?: any;
+  createdAt: string;
+  revertedAt?: string;
+  revertedByEntryId?: string;
+}
+
+const JOURNAL_TTL_SECONDS = 90 * 24 * 60 * 60; // 90 days
+const JOURNAL_MAX_ENTRIES = 1000;
+
+// Redis-backed journal: one key per entry plus a newest-first index per tenant
+export class QuoteFixJournalStore {
+  private static entryKey(tenantId: string, entryId: string): string {
+    return `quote-fix-journal:${tenantId}:entry:${entryId}`;
+  }
+
+  private static indexKey(tenantId: string): string {
+    return `quote-fix-journal:${tenantId}:index`;
+  }
+
+  static async save(entry: QuoteFixJournalEntry): Promise<void> {
+    await withRedis(async (redis) => {
+      const key = this.entryKey(entry.tenantId, entry.id);
+      const exists = await redis.exists(key);
+      await redis.set(key, JSON.stringify(entry), 'EX', JOURNAL_TTL_SECONDS);
+
+      if (!exists) {
+        const indexKey = this.indexKey(entry.tenantId);
+        await redis.lpush(indexKey, entry.id);
+        await redis.ltrim(indexKey, 0, JOURNAL_MAX_ENTRIES - 1);
+        await redis.expire(indexKey, JOURNAL_TTL_SECONDS);
+      }
+    });
+  }
+
+  static async get(tenantId: string, entryId: string): Promise<QuoteFixJournalEntry | null> {
+    return withRedis(async (redis) => {
+      const data = await redis.get(this.entryKey(tenantId, entryId));
+      return data ? JSON.parse(data) : null;
+    });
+  }
+
+  static async list(tenantId: string, quoteId?: string): Promise<QuoteFixJournalEntry[]> {
+    return withRedis(async (redis) => {
+      const ids = await redis.lrange(this.indexKey(tenantId), 0, -1);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const values = await redis.mget(...ids.map(id => this.entryKey(tenantId, id)));
+      const entries: QuoteFixJournalEntry[] = values
+        .filter((value): value is string => !!value)
+        .map(value => JSON.parse(value));
+
+      return quoteId ? entries.filter(entry => entry.quoteId === quoteId) : entries;
+    });
+  }
+}
+
+// Record the quote before a fix changes it; throws so the fix is not applied without a way back
+export async function recordQuoteSnapshot(
+  tenantId: string,
+  action: QuoteFixAction,
+  quote: any
+): Promise<QuoteFixJournalEntry> {
+  const entry: QuoteFixJournalEntry = {
+    id: `qfix_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    tenantId,
+    quoteId: quote.QuoteID,
+    quoteNumber: quote.QuoteNumber,
+    action,
+    snapshot: JSON.parse(JSON.stringify(quote)),
+    createdAt: new Date().toISOString()
+  };
+
+  try {
+    await QuoteFixJournalStore.save(entry);
+  } catch (error) {
+    console.error('Failed to record quote fix journal entry:', error);
+    throw new Error('Could not record undo journal entry for quote ' + (quote.QuoteNumber || quote.QuoteID));
+  }
+
+  console.log('Recorded ' + action + ' journal entry ' + entry.id + ' for quote ' + entry.quoteNumber);
+  return entry;
+}
+
+// Record the quote as the fix left it; failures are logged since the fix itself has already been applied
+export async function recordQuoteFixApplied(entry: QuoteFixJournalEntry, quote: any): Promise<void> {
+  try {
+    await QuoteFixJournalStore.save({ ...entry, appliedSnapshot: JSON.parse(JSON.stringify(quote)) });
+  } catch (error) {
+    console.error('Failed to record applied state for journal entry ' + entry.id + ':', error);
+  }
+}
+
+// Mark an entry as reverted so it cannot be applied twice
+export async function markQuoteFixReverted(entry: QuoteFixJournalEntry, revertEntryId: string): Promise<void> {
+  await QuoteFixJournalStore.save({
+    ...entry,
+    revertedAt: new Date().toISOString(),
+    revertedByEntryId: revertEntryId
+  });
+}
@@ -4,6 +4,8 @@
  */
 
 import { ensureValidToken } from '../ensureXeroToken';
+import { recordQuoteSnapshot, recordQuoteFixApplied, markQuoteFixReverted, QuoteFixJournalStore } from './quoteFixJournal';
+import type { QuoteFixAction, QuoteFixJournalEntry } from './quoteFixJournal';
 
 // Valid Xero Quote Status Transitions
 export const XERO_QUOTE_STATUS_TRANSITIONS: Record<string, string[]> = {
@@ -41,15 +43,67 @@ export function getStatusTransitionPath(currentStatus: string, targetStatus: str
   return [];
 }
 
+// Change a fix would make to a quote, returned instead of writing when dryRun is set
+export interface QuoteFixPreview {
+  quoteId: string;
+  quoteNumber: string;
+  currentStatus: string;
+  statusTransitions: string[];
+  lineItems?: {
+    before: any[];
+    after: any[];
+  };
+  total?: {
+    before: number;
+    after: number;
+  };
+  quoteNumberChange?: {
+    before: string;
+    after: string;
+  };
+  currencyChange?: {
+    before: string;
+    after: string;
+  };
+  contactChange?: {
+    before: string;
+    after: string;
+  };
+}
+
+// Status changes needed to edit a quote: ACCEPTED quotes are moved to SENT and back
+function getEditTransitionPath(currentStatus: string): string[] {
+  if (currentStatus !== 'ACCEPTED') {
+    return [];
+  }
+  return getStatusTransitionPath('ACCEPTED', 'SENT').concat(getStatusTransitionPath('SENT', 'ACCEPTED'));
+}
+
+// Convert Pipedrive deal products to Xero line items
+function mapProductsToLineItems(pipedriveProducts: any[]): any[] {
+  return pipedriveProducts.map(product => ({
+    Description: product.name || 'Product',
+    Quantity: product.quantity || 1,
+    UnitAmount: product.item_price || 0,
+    LineAmount: (product.quantity || 1) * (product.item_price || 0),
+    AccountCode: '200',
+    TaxType: 'NONE',
+    TaxAmount: 0,
+    DiscountRate: product.discount_percentage || 0,
+    Tracking: []
+  }));
+}
+
 // Sync products from Pipedrive to Xero quote
 export async function syncProductsToXeroQuote(params: {
   xeroQuoteId: string;
   pipedriveProducts: any[];
   tenantId: string;
-}): Promise<{ success: boolean; error?: string; updatedQuote?: any; warning?: string }> {
+  dryRun?: boolean;
+}): Promise<{ success: boolean; error?: string; updatedQuote?: any; warning?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
   try {
     const { access_token } = await ensureValidToken();
-    const { xeroQuoteId, pipedriveProducts, tenantId } = params;
+    const { xeroQuoteId, pipedriveProducts, tenantId, dryRun } = params;
     
     // Step 1: Get the current quote from Xero
     console.log('Fetching Xero quote ' + xeroQuoteId + ' for update...');
@@ -86,17 +140,31 @@ export async function syncProductsToXeroQuote(params: {
     }
     
     // Step 2: Convert Pipedrive products to Xero line items
-    const newLineItems = pipedriveProducts.map(product => ({
-      Description: product.name || 'Product',
-      Quantity: product.quantity || 1,
-      UnitAmount: product.item_price || 0,
-      LineAmount: (product.quantity || 1) * (product.item_price || 0),
-      AccountCode: '200',
-      TaxType: 'NONE',
-      TaxAmount: 0,
-      DiscountRate: product.discount_percentage || 0,
-      Tracking: []
-    }));
+    const newLineItems = mapProductsToLineItems(pipedriveProducts);
+    
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        preview: {
+          quoteId: currentQuote.QuoteID,
+          quoteNumber: currentQuote.QuoteNumber,
+          currentStatus: originalStatus,
+          statusTransitions: getEditTransitionPath(originalStatus),
+          lineItems: {
+            before: currentQuote.LineItems || [],
+            after: newLineItems
+          },
+          total: {
+            before: currentQuote.Total || 0,
+            after: newLineItems.reduce((sum, item) => sum + (item.LineAmount || 0), 0)
+          }
+        }
+      };
+    }
+    
+    // Record the quote before changing it so the sync can be reverted
+    const journalEntry = await recordQuoteSnapshot(tenantId, 'sync_products', currentQuote);
     
     // Step 3: Check if we need to change status to allow edits
     let needsStatusReset = false;
@@ -202,10 +270,12 @@ export async function syncProductsToXeroQuote(params: {
         if (!finalStatusResponse.ok) {
           const errorText = await finalStatusResponse.text();
           console.error('Failed to change quote back to ACCEPTED:', errorText);
+          await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
           return { 
             success: true, 
             updatedQuote: finalQuote, 
-            warning: 'Quote updated but status could not be changed back to ACCEPTED' 
+            warning: 'Quote updated but status could not be changed back to ACCEPTED',
+            journalEntryId: journalEntry.id
           };
         }
         
@@ -216,7 +286,8 @@ export async function syncProductsToXeroQuote(params: {
       }
       
       console.log('Quote updated successfully. New total: ' + finalQuote.Total);
-      return { success: true, updatedQuote: finalQuote };
+      await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+      return { success: true, updatedQuote: finalQuote, journalEntryId: journalEntry.id };
     } else {
       return { success: false, error: 'Update response invalid' };
     }
@@ -232,10 +303,11 @@ export async function syncProductsToXeroQuote(params: {
 export async function acceptXeroQuote(params: {
   xeroQuoteId: string;
   tenantId: string;
-}): Promise<{ success: boolean; error?: string }> {
+  dryRun?: boolean;
+}): Promise<{ success: boolean; error?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
   try {
     const { access_token } = await ensureValidToken();
-    const { xeroQuoteId, tenantId } = params;
+    const { xeroQuoteId, tenantId, dryRun } = params;
     
     // Get current quote
     const getQuoteUrl = 'https://api.xero.com/api.xro/2.0/Quotes/' + xeroQuoteId;
@@ -267,11 +339,38 @@ export async function acceptXeroQuote(params: {
     if (transitionPath.length === 0) {
       if (currentStatus === 'ACCEPTED') {
         console.log('Quote is already ACCEPTED');
+        if (dryRun) {
+          return {
+            success: true,
+            dryRun: true,
+            preview: {
+              quoteId: currentQuote.QuoteID,
+              quoteNumber: currentQuote.QuoteNumber,
+              currentStatus,
+              statusTransitions: []
+            }
+          };
+        }
         return { success: true };
       }
       return { success: false, error: 'Cannot transition from ' + currentStatus + ' to ACCEPTED' };
     }
     
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        preview: {
+          quoteId: currentQuote.QuoteID,
+          quoteNumber: currentQuote.QuoteNumber,
+          currentStatus,
+          statusTransitions: transitionPath
+        }
+      };
+    }
+    
+    const journalEntry = await recordQuoteSnapshot(tenantId, 'accept', currentQuote);
+    
     // Apply each status transition in sequence
     for (const nextStatus of transitionPath) {
       console.log('Transitioning quote from ' + currentQuote.Status + ' to ' + nextStatus);
@@ -309,7 +408,8 @@ export async function acceptXeroQuote(params: {
     }
     
     console.log('Quote successfully transitioned to ACCEPTED');
-    return { success: true };
+    await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+    return { success: true, journalEntryId: journalEntry.id };
     
   } catch (error) {
     console.error('Error accepting quote:', error);
@@ -323,10 +423,11 @@ export async function fixQuoteNumber(params: {
   xeroQuoteId: string;
   newQuoteNumber: string;
   tenantId: string;
-}): Promise<{ success: boolean; error?: string }> {
+  dryRun?: boolean;
+}): Promise<{ success: boolean; error?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
   try {
     const { access_token } = await ensureValidToken();
-    const { xeroQuoteId, newQuoteNumber, tenantId } = params;
+    const { xeroQuoteId, newQuoteNumber, tenantId, dryRun } = params;
     
     // Get current quote
     const getQuoteUrl = 'https://api.xero.com/api.xro/2.0/Quotes/' + xeroQuoteId;
@@ -358,6 +459,25 @@ export async function fixQuoteNumber(params: {
       return { success: false, error: 'Cannot modify quote number for invoiced quotes' };
     }
     
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        preview: {
+          quoteId: currentQuote.QuoteID,
+          quoteNumber: currentQuote.QuoteNumber,
+          currentStatus,
+          statusTransitions: getEditTransitionPath(currentStatus),
+          quoteNumberChange: {
+            before: currentQuote.QuoteNumber,
+            after: newQuoteNumber
+          }
+        }
+      };
+    }
+    
+    const journalEntry = await recordQuoteSnapshot(tenantId, 'fix_number', currentQuote);
+    
     // For ACCEPTED quotes, change to SENT first
     if (currentStatus === 'ACCEPTED') {
       console.log('Quote is ACCEPTED, changing to SENT to allow quote number update...');
@@ -447,15 +567,428 @@ export async function fixQuoteNumber(params: {
       });
       
       if (!finalResponse.ok) {
-        return { success: true, error: 'Quote number updated but status could not be restored to ACCEPTED' };
+        await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+        return { success: true, error: 'Quote number updated but status could not be restored to ACCEPTED', journalEntryId: journalEntry.id };
       }
     }
     
-    return { success: true };
+    await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+    return { success: true, journalEntryId: journalEntry.id };
     
   } catch (error) {
     console.error('Error updating quote number:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return { success: false, error: errorMessage };
   }
-}
\ No newline at end of file
+}
+// Restore a quote to the snapshot recorded before a fix; refused if the quote changed since the fix unless force is set
+export async function revertQuoteFix(params: {
+  journalEntryId: string;
+  tenantId: string;
+  dryRun?: boolean;
+  force?: boolean;
+}): Promise<{ success: boolean; error?: string; warning?: string; conflicts?: string[]; dryRun?: boolean; preview?: QuoteFixPreview; restoredQuote?: any; journalEntryId?: string }> {
+  try {
+    const { journalEntryId, tenantId, dryRun, force } = params;
+    
+    const entry = await QuoteFixJournalStore.get(tenantId, journalEntryId);
+    if (!entry) {
+      return { success: false, error: 'Journal entry ' + journalEntryId + ' not found' };
+    }
+    if (entry.revertedAt) {
+      return { success: false, error: 'Fix was already reverted at ' + entry.revertedAt };
+    }
+    
+    const { access_token } = await ensureValidToken();
+    const snapshot = entry.snapshot;
+    
+    // Get current quote
+    const getQuoteUrl = 'https://api.xero.com/api.xro/2.0/Quotes/' + entry.quoteId;
+    const getResponse = await fetch(getQuoteUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': 'Bearer ' + access_token,
+        'Xero-tenant-id': tenantId
+      }
+    });
+    
+    if (!getResponse.ok) {
+      return { success: false, error: 'Failed to fetch quote: ' + getResponse.status };
+    }
+    
+    const quoteData = await getResponse.json();
+    let currentQuote = quoteData.Quotes?.[0];
+    
+    if (!currentQuote) {
+      return { success: false, error: 'Quote not found' };
+    }
+    
+    // Reverting over later edits would silently discard them
+    const conflicts = await findRevertConflicts(entry, currentQuote);
+    if (conflicts.length > 0 && !force) {
+      return {
+        success: false,
+        error: 'Quote ' + (currentQuote.QuoteNumber || entry.quoteId) + ' has changed since the fix; revert with force to discard the changes',
+        conflicts
+      };
+    }
+    
+    const currentStatus = currentQuote.Status;
+    const targetStatus = snapshot.Status;
+    
+    // ACCEPTED and INVOICED quotes are locked for edits, so walk them back to SENT first
+    const unlockPath = currentStatus === 'ACCEPTED' || currentStatus === 'INVOICED'
+      ? getStatusTransitionPath(currentStatus, 'SENT')
+      : [];
+    const editableStatus = unlockPath.length > 0 ? 'SENT' : currentStatus;
+    
+    // Xero cannot move a quote back to DRAFT, so the content is restored and the status left where it is
+    const restorePath = getStatusTransitionPath(editableStatus, targetStatus);
+    let warning: string | undefined;
+    if (editableStatus !== targetStatus && restorePath.length === 0) {
+      warning = 'Xero does not allow moving a quote from ' + editableStatus + ' to ' + targetStatus + ', status left as ' + editableStatus;
+    }
+    
+    const restoredLineItems = (snapshot.LineItems || []).map((item: any) => {
+      const lineItem = Object.assign({}, item);
+      delete lineItem.LineItemID;
+      return lineItem;
+    });
+    
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        warning,
+        preview: {
+          quoteId: currentQuote.QuoteID,
+          quoteNumber: currentQuote.QuoteNumber,
+          currentStatus,
+          statusTransitions: unlockPath.concat(restorePath),
+          lineItems: {
+            before: currentQuote.LineItems || [],
+            after: snapshot.LineItems || []
+          },
+          total: {
+            before: currentQuote.Total || 0,
+            after: snapshot.Total || 0
+          },
+          quoteNumberChange: {
+            before: currentQuote.QuoteNumber,
+            after: snapshot.QuoteNumber
+          },
+          currencyChange: {
+            before: currentQuote.CurrencyCode,
+            after: snapshot.CurrencyCode
+          },
+          contactChange: {
+            before: currentQuote.Contact?.Name || '',
+            after: snapshot.Contact?.Name || ''
+          }
+        }
+      };
+    }
+    
+    // The revert is itself journaled so it can be undone
+    const revertEntry = await recordQuoteSnapshot(tenantId, 'revert', currentQuote);
+    
+    for (const nextStatus of unlockPath) {
+      console.log('Transitioning quote from ' + currentQuote.Status + ' to ' + nextStatus + ' for revert');
+      const result = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, { Status: nextStatus }), access_token, tenantId);
+      if (!result.success) {
+        return { success: false, error: 'Failed to transition quote to ' + nextStatus + ': ' + result.error, journalEntryId: revertEntry.id };
+      }
+      currentQuote = result.quote || currentQuote;
+    }
+    
+    // Restore line items, number, currency and contact from the snapshot
+    console.log('Restoring quote ' + entry.quoteId + ' to snapshot ' + entry.id);
+    const restoreResult = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, {
+      QuoteNumber: snapshot.QuoteNumber,
+      CurrencyCode: snapshot.CurrencyCode,
+      Contact: snapshot.Contact?.ContactID ? { ContactID: snapshot.Contact.ContactID } : currentQuote.Contact,
+      LineItems: restoredLineItems,
+      LineAmountTypes: snapshot.LineAmountTypes,
+      Reference: snapshot.Reference
+    }), access_token, tenantId);
+    
+    if (!restoreResult.success) {
+      return { success: false, error: 'Failed to restore quote: ' + restoreResult.error, journalEntryId: revertEntry.id };
+    }
+    currentQuote = restoreResult.quote || currentQuote;
+    
+    for (const nextStatus of restorePath) {
+      console.log('Transitioning quote from ' + currentQuote.Status + ' to ' + nextStatus + ' for revert');
+      const result = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, { Status: nextStatus }), access_token, tenantId);
+      if (!result.success) {
+        warning = 'Quote restored but status could not be changed to ' + nextStatus;
+        break;
+      }
+      currentQuote = result.quote || currentQuote;
+    }
+    
+    await journalAppliedQuote(revertEntry, getQuoteUrl, access_token, tenantId);
+    await markQuoteFixReverted(entry, revertEntry.id);
+    
+    console.log('Quote ' + snapshot.QuoteNumber + ' reverted to journal entry ' + entry.id);
+    return { success: true, warning, restoredQuote: currentQuote, journalEntryId: revertEntry.id };
+    
+  } catch (error) {
+    console.error('Error reverting quote fix:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Differences between the quote as a fix left it and the quote now, or the newer fixes when the applied state was not recorded
+async function findRevertConflicts(
+  entry: QuoteFixJournalEntry,
+  currentQuote: any
+): Promise<string[]> {
+  if (!entry.appliedSnapshot) {
+    const newerFixes = (await QuoteFixJournalStore.list(entry.tenantId, entry.quoteId))
+      .filter(other => other.id !== entry.id && !other.revertedAt && other.createdAt > entry.createdAt);
+    return newerFixes.map(other => 'Later ' + other.action + ' fix ' + other.id + ' at ' + other.createdAt);
+  }
+  
+  const applied = entry.appliedSnapshot;
+  const conflicts: string[] = [];
+  const compare = (label: string, before: any, after: any) => {
+    if (JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)) {
+      conflicts.push(label + ' changed from ' + JSON.stringify(before ?? null) + ' to ' + JSON.stringify(after ?? null));
+    }
+  };
+  
+  compare('Status', applied.Status, currentQuote.Status);
+  compare('Quote number', applied.QuoteNumber, currentQuote.QuoteNumber);
+  compare('Currency', applied.CurrencyCode, currentQuote.CurrencyCode);
+  compare('Contact', applied.Contact?.ContactID, currentQuote.Contact?.ContactID);
+  compare('Reference', applied.Reference, currentQuote.Reference);
+  compare('Total', applied.Total, currentQuote.Total);
+  compare('Line items', lineItemSummary(applied.LineItems), lineItemSummary(currentQuote.LineItems));
+  return conflicts;
+}
+
+// Line item fields a user would edit, without Xero-assigned IDs
+function lineItemSummary(lineItems: any[] = []): string[] {
+  return lineItems.map(item => [item.Description, item.Quantity, item.UnitAmount, item.AccountCode, item.TaxType, item.DiscountRate].join('|'));
+}
+
+// Journal the quote as a fix left it, read back from Xero
+async function journalAppliedQuote(
+  entry: QuoteFixJournalEntry,
+  quoteUrl: string,
+  accessToken: string,
+  tenantId: string
+): Promise<void> {
+  try {
+    const response = await fetch(quoteUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': 'Bearer ' + accessToken,
+        'Xero-tenant-id': tenantId
+      }
+    });
+    const quote = response.ok ? (await response.json()).Quotes?.[0] : null;
+    if (!quote) {
+      console.error('Could not read quote ' + entry.quoteNumber + ' after fix, applied state not journaled');
+      return;
+    }
+    await recordQuoteFixApplied(entry, quote);
+  } catch (error) {
+    console.error('Error journaling applied state for quote ' + entry.quoteNumber + ':', error);
+  }
+}
+
+// POST a quote update after removing the read-only fields
+async function postQuote(
+  quoteUrl: string,
+  quote: any,
+  accessToken: string,
+  tenantId: string
+): Promise<{ success: boolean; quote?: any; error?: string }> {
+  const body = Object.assign({}, quote);
+  delete body.QuoteID;
+  delete body.UpdatedDateUTC;
+  delete body.HasAttachments;
+  delete body.IsDeleted;
+  delete body.ValidationErrors;
+  
+  const response = await fetch(quoteUrl, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'Authorization': 'Bearer ' + accessToken,
+      'Xero-tenant-id': tenantId
+    },
+    body: JSON.stringify({ Quotes: [body] })
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Quote update failed:', errorText);
+    return { success: false, error: String(response.status) };
+  }
+  
+  const data = await response.json();
+  return { success: true, quote: data.Quotes?.[0] };
+}
+
+// Change a quote's currency to match its Pipedrive deal
+export async function alignQuoteCurrency(params: {
+  xeroQuoteId: string;
+  currencyCode: string;
+  tenantId: string;
+  dryRun?: boolean;
+}): Promise<{ success: boolean; error?: string; warning?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
+  const currencyCode = params.currencyCode.toUpperCase();
+  
+  return updateQuoteFields(params.xeroQuoteId, params.tenantId, 'align_currency', params.dryRun, async (currentQuote) => ({
+    changes: { CurrencyCode: currencyCode },
+    preview: {
+      currencyChange: {
+        before: currentQuote.CurrencyCode,
+        after: currencyCode
+      }
+    }
+  }));
+}
+
+// Move a quote onto the Xero contact named after the deal organization
+export async function alignQuoteContact(params: {
+  xeroQuoteId: string;
+  contactName: string;
+  tenantId: string;
+  dryRun?: boolean;
+}): Promise<{ success: boolean; error?: string; warning?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
+  const { xeroQuoteId, contactName, tenantId, dryRun } = params;
+  
+  return updateQuoteFields(xeroQuoteId, tenantId, 'align_contact', dryRun, async (currentQuote, accessToken) => {
+    const escapedName = contactName.replace(/"/g, '\\"');
+    const contactsUrl = 'https://api.xero.com/api.xro/2.0/Contacts?where=' + encodeURIComponent('Name=="' + escapedName + '"');
+    const contactsResponse = await fetch(contactsUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': 'Bearer ' + accessToken,
+        'Xero-tenant-id': tenantId
+      }
+    });
+    
+    if (!contactsResponse.ok) {
+      throw new Error('Failed to search Xero contacts: ' + contactsResponse.status);
+    }
+    
+    const contactsData = await contactsResponse.json();
+    const contact = contactsData.Contacts?.[0];
+    if (!contact) {
+      throw new Error('No Xero contact named "' + contactName + '"');
+    }
+    
+    return {
+      changes: { Contact: { ContactID: contact.ContactID } },
+      preview: {
+        contactChange: {
+          before: currentQuote.Contact?.Name || '',
+          after: contact.Name
+        }
+      }
+    };
+  });
+}
+
+// Apply field changes to a quote, journaling it first and unlocking ACCEPTED quotes for the edit
+async function updateQuoteFields(
+  xeroQuoteId: string,
+  tenantId: string,
+  action: QuoteFixAction,
+  dryRun: boolean | undefined,
+  buildUpdate: (currentQuote: any, accessToken: string) => Promise<{ changes: Record<string, any>; preview: Partial<QuoteFixPreview> }>
+): Promise<{ success: boolean; error?: string; warning?: string; dryRun?: boolean; preview?: QuoteFixPreview; journalEntryId?: string }> {
+  try {
+    const { access_token } = await ensureValidToken();
+    
+    // Get current quote
+    const getQuoteUrl = 'https://api.xero.com/api.xro/2.0/Quotes/' + xeroQuoteId;
+    const getResponse = await fetch(getQuoteUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': 'Bearer ' + access_token,
+        'Xero-tenant-id': tenantId
+      }
+    });
+    
+    if (!getResponse.ok) {
+      return { success: false, error: 'Failed to fetch quote: ' + getResponse.status };
+    }
+    
+    const quoteData = await getResponse.json();
+    let currentQuote = quoteData.Quotes?.[0];
+    
+    if (!currentQuote) {
+      return { success: false, error: 'Quote not found' };
+    }
+    
+    const currentStatus = currentQuote.Status;
+    
+    // INVOICED quotes cannot be edited
+    if (currentStatus === 'INVOICED') {
+      return { success: false, error: 'Cannot modify a quote that has been invoiced' };
+    }
+    
+    const update = await buildUpdate(currentQuote, access_token);
+    
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        preview: Object.assign({
+          quoteId: currentQuote.QuoteID,
+          quoteNumber: currentQuote.QuoteNumber,
+          currentStatus,
+          statusTransitions: getEditTransitionPath(currentStatus)
+        }, update.preview)
+      };
+    }
+    
+    const journalEntry = await recordQuoteSnapshot(tenantId, action, currentQuote);
+    const needsStatusReset = currentStatus === 'ACCEPTED';
+    
+    if (needsStatusReset) {
+      console.log('Quote is ACCEPTED, changing to SENT to allow edits...');
+      const sentResult = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, { Status: 'SENT' }), access_token, tenantId);
+      if (!sentResult.success) {
+        return { success: false, error: 'Failed to change quote status for update', journalEntryId: journalEntry.id };
+      }
+      currentQuote = sentResult.quote || currentQuote;
+    }
+    
+    const updateResult = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, update.changes), access_token, tenantId);
+    if (!updateResult.success) {
+      return { success: false, error: 'Failed to update quote: ' + updateResult.error, journalEntryId: journalEntry.id };
+    }
+    currentQuote = updateResult.quote || currentQuote;
+    
+    if (needsStatusReset) {
+      console.log('Changing quote status back to ACCEPTED...');
+      const acceptedResult = await postQuote(getQuoteUrl, Object.assign({}, currentQuote, { Status: 'ACCEPTED' }), access_token, tenantId);
+      if (!acceptedResult.success) {
+        await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+        return {
+          success: true,
+          warning: 'Quote updated but status could not be changed back to ACCEPTED',
+          journalEntryId: journalEntry.id
+        };
+      }
+    }
+    
+    console.log('Quote ' + currentQuote.QuoteNumber + ' updated (' + action + ')');
+    await journalAppliedQuote(journalEntry, getQuoteUrl, access_token, tenantId);
+    return { success: true, journalEntryId: journalEntry.id };
+    
+  } catch (error) {
+    console.error('Error updating quote:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -9,17 +9,59 @@ import {
   OrchestrationConfig,
   DEFAULT_ORCHESTRATION_CONFIG,
   ValueDiscrepancy,
+  SuggestedProjectMatch,
+  MatchStrategy,
 } from './types';
+import { parseProjectName, scoreProjectMatch } from './projectMatcher';
+import { loadMatchOverrides, MatchOverrideIndex } from '../validation/matchOverrides';
 import { createLogger, logSyncOperation } from '../logger';
+import { SyncSessionStore, SessionCancelledError, SESSION_HEARTBEAT_INTERVAL_MS } from './sessionStore';
+import {
+  convertToBaseCurrency,
+  getDefaultFxRateTable,
+  normalizeCurrencyCode,
+  type FxRateTable
+} from '../utils/fxRates';
+
+const MAX_SUGGESTIONS_PER_DEAL = 3;
+
+// Only fetched data is reused on resume; later steps depend on overrides and config that may have changed
+const RESUMABLE_STEP_PREFIX = 'fetch_';
+
+interface MatchCandidate {
+  deal: PipedriveWonDeal;
+  project: XeroProject;
+  matchKey: string;
+  confidence: number;
+  strategy: MatchStrategy;
+  reasons: string[];
+  valueMatch: boolean;
+  valueDifference: number;
+  valueDifferencePercentage: number;
+}
+
+// Deal and project values compared in the base currency
+interface ValueComparison {
+  valueMatch: boolean;
+  valueDifference: number;
+  valueDifferencePercentage: number;
+  pipedriveCurrency: string;
+  xeroCurrency: string;
+  pipedriveValueBase?: number;
+  xeroValueBase?: number;
+  conversionUnavailable: boolean;
+}
 
 export class ProjectSyncOrchestrator {
   private session: SyncSession | null = null;
   private progressCallback: SyncProgressCallback | null = null;
   private config: OrchestrationConfig;
+  private fxRates: FxRateTable;
   private logger = createLogger('ProjectSyncOrchestrator');
 
   constructor(config: Partial<OrchestrationConfig> = {}) {
     this.config = { ...DEFAULT_ORCHESTRATION_CONFIG, ...config };
+    this.fxRates = this.config.fxRates || getDefaultFxRateTable();
   }
 
   /**
@@ -34,7 +76,7 @@ export class ProjectSyncOrchestrator {
    */
   initializeSession(tenantId: string, tenantName: string): SyncSession {
     this.session = {
-      id: `sync_${Date.now()}`,
+      id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       tenantId,
       tenantName,
       startTime: new Date(),
@@ -58,6 +100,51 @@ export class ProjectSyncOrchestrator {
     return this.session;
   }
 
+  /**
+   * Restores a stored session so its workflow can continue
+   *
+   * @description Completed fetch steps keep their results and are skipped when the workflow runs again;
+   * every other step is reset to pending. The session keeps its ID so clients can reattach to it.
+   *
+   * @param {SyncSession} stored - Session loaded from the session store
+   * @returns {SyncSession} The restored session, now the orchestrator's current session
+   *
+   * @example
+   * ```typescript
+   * const stored = await SyncSessionStore.get(tenantId, sessionId);
+   * orchestrator.resumeSession(stored);
+   * await orchestrator.executeSyncWorkflow(fetchPipedrive, fetchXero);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  resumeSession(stored: SyncSession): SyncSession {
+    this.session = {
+      ...stored,
+      status: 'initializing',
+      endTime: undefined,
+      error: undefined,
+      summary: undefined,
+      resumedAt: new Date(),
+      steps: stored.steps.map(step => {
+        const reusable = step.id.startsWith(RESUMABLE_STEP_PREFIX) &&
+          (step.status === 'completed' || step.status === 'skipped') &&
+          step.result !== undefined;
+        return reusable
+          ? step
+          : { id: step.id, name: step.name, description: step.description, status: 'pending' };
+      }),
+    };
+
+    this.logger.info({
+      sessionId: this.session.id,
+      tenantId: this.session.tenantId,
+      reusedSteps: this.session.steps.filter(s => s.status !== 'pending').map(s => s.id)
+    }, 'Sync session resumed');
+
+    return this.session;
+  }
+
   /**
    * Create the sync steps for the workflow
    */
@@ -156,9 +243,10 @@ export class ProjectSyncOrchestrator {
       });
 
       // Step 4: Match Projects
-      const matches = await this.executeStep(
+      const overrides = await loadMatchOverrides(this.session.tenantId);
+      const { matches, suggestedMatches } = await this.executeStep(
         'match_projects',
-        async () => this.matchProjects(pipedriveDeals, xeroProjects)
+        async () => this.matchProjects(pipedriveDeals, xeroProjects, overrides)
       );
 
       // Step 5: Compare Values
@@ -170,13 +258,14 @@ export class ProjectSyncOrchestrator {
       // Step 6: Generate Summary
       const summary = await this.executeStep(
         'generate_summary',
-        async () => this.generateSummary(pipedriveDeals, xeroProjects, matches, valueDiscrepancies)
+        async () => this.generateSummary(pipedriveDeals, xeroProjects, matches, suggestedMatches, valueDiscrepancies, overrides)
       );
 
       // Complete session
       this.session.endTime = new Date();
       this.session.status = 'completed';
       this.session.summary = summary;
+      await this.checkpoint();
 
       this.logger.info({ 
         sessionId: this.session.id,
@@ -198,10 +287,16 @@ export class ProjectSyncOrchestrator {
 
       return this.session;
     } catch (error) {
+      if (error instanceof SessionCancelledError) {
+        await this.markCancelled();
+        throw error;
+      }
+
       if (this.session) {
         this.session.status = 'failed';
         this.session.error = (error as Error).message;
         this.session.endTime = new Date();
+        await this.checkpoint();
       }
       
       this.logger.error({ 
@@ -223,10 +318,19 @@ export class ProjectSyncOrchestrator {
   /**
    * Execute a single step with progress tracking
    */
-  private async executeStep<T>(stepId: string, executor: () => Promise<T>): Promise<T> {
+  protected async executeStep<T>(stepId: string, executor: () => Promise<T>): Promise<T> {
     const step = this.session?.steps.find(s => s.id === stepId);
     if (!step) throw new Error(`Step ${stepId} not found`);
 
+    // Steps restored by resumeSession already hold their result
+    if (step.status === 'completed' || step.status === 'skipped') {
+      this.logger.debug({ stepId, stepName: step.name }, 'Reusing checkpointed step result');
+      this.progressCallback?.(step);
+      return step.result as T;
+    }
+
+    await this.throwIfCancelled();
+
     try {
       // Start the step with 0% progress
       this.updateStep(stepId, { 
@@ -234,6 +338,7 @@ export class ProjectSyncOrchestrator {
         startTime: new Date(),
         progress: 0 
       });
+      await this.checkpoint();
       this.logger.debug({ stepId, stepName: step.name }, 'Executing sync step');
       
       // Update to 50% before executing (to show immediate progress)
@@ -243,7 +348,13 @@ export class ProjectSyncOrchestrator {
         }
       }, 100);
       
-      const result = await executor();
+      const stopHeartbeat = this.startHeartbeat();
+      let result: T;
+      try {
+        result = await executor();
+      } finally {
+        stopHeartbeat();
+      }
       
       const endTime = new Date();
       const duration = step.startTime ? endTime.getTime() - new Date(step.startTime).getTime() : 0;
@@ -254,6 +365,7 @@ export class ProjectSyncOrchestrator {
         result,
         progress: 100,
       });
+      await this.checkpoint();
       
       this.logger.debug({ 
         stepId, 
@@ -269,6 +381,7 @@ export class ProjectSyncOrchestrator {
         endTime: new Date(),
         progress: 0,
       });
+      await this.checkpoint();
       
       this.logger.error({ 
         stepId, 
@@ -280,6 +393,83 @@ export class ProjectSyncOrchestrator {
     }
   }
 
+  /**
+   * Save the current session so it can be reattached to or resumed
+   * A storage failure is logged and the run carries on without a checkpoint
+   */
+  protected async checkpoint(): Promise<void> {
+    if (!this.session) return;
+
+    this.session.updatedAt = new Date();
+    try {
+      await SyncSessionStore.save(this.session);
+    } catch (error) {
+      this.logger.warn({
+        sessionId: this.session.id,
+        error: (error as Error).message
+      }, 'Failed to checkpoint sync session');
+    }
+  }
+
+  /**
+   * Refresh the session's heartbeat while a step runs, so a long step is not reported as stale
+   * @returns {() => void} Stops the heartbeat
+   */
+  private startHeartbeat(): () => void {
+    const session = this.session;
+    if (!session) return () => {};
+
+    const timer = setInterval(() => {
+      SyncSessionStore.heartbeat(session.tenantId, session.id).catch(error => {
+        this.logger.warn({
+          sessionId: session.id,
+          error: (error as Error).message
+        }, 'Failed to send session heartbeat');
+      });
+    }, SESSION_HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Stop between steps if the session has been cancelled here or through the session store
+   */
+  private async throwIfCancelled(): Promise<void> {
+    if (!this.session) return;
+
+    let cancelled = this.session.status === 'cancelled';
+    if (!cancelled) {
+      try {
+        cancelled = await SyncSessionStore.isCancelRequested(this.session.tenantId, this.session.id);
+      } catch (error) {
+        this.logger.warn({
+          sessionId: this.session.id,
+          error: (error as Error).message
+        }, 'Failed to check for session cancellation');
+      }
+    }
+
+    if (cancelled) {
+      throw new SessionCancelledError(this.session.id);
+    }
+  }
+
+  /**
+   * Record a cancelled session, leaving completed steps in place for a later resume
+   */
+  protected async markCancelled(): Promise<void> {
+    if (!this.session) return;
+
+    this.session.status = 'cancelled';
+    this.session.endTime = new Date();
+    await this.checkpoint();
+
+    this.logger.info({ sessionId: this.session.id }, 'Sync session cancelled');
+    logSyncOperation('cancel', {
+      action: 'session_cancelled',
+      sessionId: this.session.id
+    });
+  }
+
   /**
    * Update a step and notify progress callback
    */
@@ -360,96 +550,158 @@ export class ProjectSyncOrchestrator {
 
   /**
    * Match projects between Pipedrive and Xero
+   * Manual overrides are applied first: forced links become matches, ignored records are left out
+   * and never-linked pairs are not scored. The rest are scored pair by pair and the strongest
+   * candidates are paired first; candidates below the auto-match confidence are kept as suggested
+   * matches instead of being dropped
    */
   private matchProjects(
     pipedriveDeals: PipedriveWonDeal[],
-    xeroProjects: XeroProject[]
-  ): ProjectMatch[] {
+    xeroProjects: XeroProject[],
+    overrides: MatchOverrideIndex = new MatchOverrideIndex()
+  ): { matches: ProjectMatch[]; suggestedMatches: SuggestedProjectMatch[] } {
+    const candidates: MatchCandidate[] = [];
     const matches: ProjectMatch[] = [];
+    const matchedDealIds = new Set<string>();
     const matchedXeroIds = new Set<string>();
 
-    // Create a map of Xero projects by normalized keys for faster lookup
-    const xeroProjectMap = new Map<string, XeroProject[]>();
-    for (const xeroProject of xeroProjects) {
-      if (!xeroProject.name) {
-        this.logger.warn({ projectId: xeroProject.projectId }, 'Skipping Xero project with no name');
-        continue;
-      }
-      
-      const xeroKey = this.generateProjectKey(xeroProject.name);
-      if (!xeroKey) continue;
-      
-      if (!xeroProjectMap.has(xeroKey)) {
-        xeroProjectMap.set(xeroKey, []);
-      }
-      xeroProjectMap.get(xeroKey)!.push(xeroProject);
+    for (const deal of pipedriveDeals) {
+      const forced = overrides.forcedProjectForDeal(deal.id);
+      const project = forced && xeroProjects.find(p => p.projectId === forced.xeroProjectId);
+      if (!forced || !project || matchedXeroIds.has(project.projectId)) continue;
+
+      const comparison = this.compareValues(deal, project);
+      matchedDealIds.add(deal.id);
+      matchedXeroIds.add(project.projectId);
+      matches.push({
+        pipedriveProject: deal,
+        xeroProject: project,
+        matchKey: this.generateProjectKey(deal.title) || this.generateProjectKey(project.name),
+        valueMatch: comparison.valueMatch,
+        valueDifference: comparison.valueDifference,
+        valueDifferencePercentage: comparison.valueDifferencePercentage,
+        confidence: 1,
+        matchStrategy: 'manual',
+        overrideId: forced.id,
+      });
     }
 
-    // Try to match each Pipedrive deal
-    for (const pipedriveDeal of pipedriveDeals) {
-      // Skip if deal has no title
-      if (!pipedriveDeal.title) {
-        this.logger.warn({ dealId: pipedriveDeal.id }, 'Skipping Pipedrive deal with no title');
-        continue;
+    const deals = pipedriveDeals.filter(deal => {
+      if (matchedDealIds.has(deal.id) || overrides.isDealIgnored(deal.id)) return false;
+      if (!deal.title) {
+        this.logger.warn({ dealId: deal.id }, 'Skipping Pipedrive deal with no title');
+        return false;
       }
-      
-      const pipedriveKey = this.generateProjectKey(pipedriveDeal.title);
-      if (!pipedriveKey) continue;
-      
-      // Look for exact key match only
-      const matchingXeroProjects = xeroProjectMap.get(pipedriveKey) || [];
-      
-      // Take the first unmatched Xero project with the same key
-      for (const xeroProject of matchingXeroProjects) {
-        if (!matchedXeroIds.has(xeroProject.projectId)) {
-          matchedXeroIds.add(xeroProject.projectId);
-          
-          const valueMatch = this.checkValueMatch(
-            pipedriveDeal.value,
-            xeroProject.totalAmount?.value || 0
-          );
-
-          matches.push({
-            pipedriveProject: pipedriveDeal,
-            xeroProject: xeroProject,
-            matchKey: pipedriveKey,
-            valueMatch,
-            valueDifference: Math.abs(pipedriveDeal.value - (xeroProject.totalAmount?.value || 0)),
-            valueDifferencePercentage: this.calculateDifferencePercentage(
-              pipedriveDeal.value,
-              xeroProject.totalAmount?.value || 0
-            ),
-          });
-          break; // Found a match, move to next Pipedrive deal
-        }
+      return true;
+    });
+    const projects = xeroProjects.filter(project => {
+      if (matchedXeroIds.has(project.projectId) || overrides.isProjectIgnored(project.projectId)) return false;
+      if (!project.name) {
+        this.logger.warn({ projectId: project.projectId }, 'Skipping Xero project with no name');
+        return false;
       }
+      return true;
+    });
+
+    const projectKeys = projects.map(project => this.generateProjectKey(project.name));
+    const parsedProjects = projects.map(project => parseProjectName(project.name));
+
+    for (const deal of deals) {
+      const dealKey = this.generateProjectKey(deal.title);
+      const parsedDeal = parseProjectName(deal.title);
+
+      projects.forEach((project, index) => {
+        if (overrides.isNeverLinked(deal.id, project.projectId)) return;
+
+        const score = scoreProjectMatch(dealKey, projectKeys[index], parsedDeal, parsedProjects[index]);
+        if (score.confidence < this.config.suggestionConfidence) return;
+
+        const comparison = this.compareValues(deal, project);
+        candidates.push({
+          deal,
+          project,
+          matchKey: dealKey || projectKeys[index],
+          ...score,
+          valueMatch: comparison.valueMatch,
+          valueDifference: comparison.valueDifference,
+          valueDifferencePercentage: comparison.valueDifferencePercentage,
+        });
+      });
     }
 
-    // Log sample keys for debugging
-    const samplePipedriveKeys = pipedriveDeals.slice(0, 5).map(d => ({
-      title: d.title,
-      key: this.generateProjectKey(d.title)
-    }));
-    const sampleXeroKeys = xeroProjects.slice(0, 5).map(p => ({
-      name: p.name,
-      key: this.generateProjectKey(p.name)
-    }));
-    
-    console.log('Sample Pipedrive keys:', samplePipedriveKeys);
-    console.log('Sample Xero keys:', sampleXeroKeys);
-    
+    // Strongest candidates first; equal scores go to the pair with the closest values
+    candidates.sort((a, b) =>
+      b.confidence - a.confidence || a.valueDifferencePercentage - b.valueDifferencePercentage
+    );
+
+    for (const candidate of candidates) {
+      if (candidate.confidence < this.config.autoMatchConfidence) break;
+      if (matchedDealIds.has(candidate.deal.id) || matchedXeroIds.has(candidate.project.projectId)) continue;
+
+      // Another free candidate with the same score means the value difference decided this pairing
+      const tied = candidates.some(other =>
+        other !== candidate &&
+        other.confidence === candidate.confidence &&
+        (other.deal.id === candidate.deal.id || other.project.projectId === candidate.project.projectId) &&
+        !matchedDealIds.has(other.deal.id) &&
+        !matchedXeroIds.has(other.project.projectId)
+      );
+
+      matchedDealIds.add(candidate.deal.id);
+      matchedXeroIds.add(candidate.project.projectId);
+
+      matches.push({
+        pipedriveProject: candidate.deal,
+        xeroProject: candidate.project,
+        matchKey: candidate.matchKey,
+        valueMatch: candidate.valueMatch,
+        valueDifference: candidate.valueDifference,
+        valueDifferencePercentage: candidate.valueDifferencePercentage,
+        confidence: candidate.confidence,
+        matchStrategy: candidate.strategy,
+        ...(tied ? { tieBreaker: 'value_proximity' as const } : {}),
+      });
+    }
+
+    // Remaining candidates between two unmatched records go to review, best few per deal
+    const suggestionsPerDeal = new Map<string, number>();
+    const suggestedMatches: SuggestedProjectMatch[] = [];
+    for (const candidate of candidates) {
+      if (matchedDealIds.has(candidate.deal.id) || matchedXeroIds.has(candidate.project.projectId)) continue;
+
+      const count = suggestionsPerDeal.get(candidate.deal.id) || 0;
+      if (count >= MAX_SUGGESTIONS_PER_DEAL) continue;
+      suggestionsPerDeal.set(candidate.deal.id, count + 1);
+
+      suggestedMatches.push({
+        pipedriveProject: candidate.deal,
+        xeroProject: candidate.project,
+        confidence: candidate.confidence,
+        matchStrategy: candidate.strategy,
+        reasons: candidate.reasons,
+        valueDifference: candidate.valueDifference,
+        valueDifferencePercentage: candidate.valueDifferencePercentage,
+      });
+    }
+
+    const strategyCounts = matches.reduce((counts, match) => {
+      counts[match.matchStrategy] = (counts[match.matchStrategy] || 0) + 1;
+      return counts;
+    }, {} as Record<string, number>);
+
     this.logger.info({ 
       totalPipedrive: pipedriveDeals.length,
       totalXero: xeroProjects.length,
       matched: matches.length,
-      samplePipedriveKeys,
-      sampleXeroKeys
+      strategyCounts,
+      tieBrokenByValue: matches.filter(m => m.tieBreaker).length,
+      overrides: overrides.size,
+      suggested: suggestedMatches.length
     }, 'Project matching completed');
 
-    return matches;
+    return { matches, suggestedMatches };
   }
 
-
   /**
    * Generate a normalized key for project matching
    * Made public so it can be used for reporting
@@ -513,12 +765,50 @@ export class ProjectSyncOrchestrator {
    */
   private checkValueMatch(value1: number, value2: number): boolean {
     if (value1 === value2) return true;
-    
-    const difference = Math.abs(value1 - value2);
-    const average = (value1 + value2) / 2;
-    const percentageDiff = (difference / average) * 100;
-    
-    return percentageDiff <= this.config.valueTolerancePercentage;
+    return this.calculateDifferencePercentage(value1, value2) <= this.config.valueTolerancePercentage;
+  }
+
+  /**
+   * Compare a deal's value with a project's total in the base currency
+   * Amounts in the same currency are compared directly when that currency has no rate;
+   * amounts in different currencies without a rate cannot be compared and never match
+   */
+  private compareValues(deal: PipedriveWonDeal, project: XeroProject): ValueComparison {
+    const pipedriveCurrency = normalizeCurrencyCode(deal.currency);
+    const xeroCurrency = normalizeCurrencyCode(project.totalAmount?.currency) || pipedriveCurrency;
+    const xeroValue = project.totalAmount?.value || 0;
+
+    const pipedriveBase = convertToBaseCurrency(deal.value, pipedriveCurrency, this.fxRates);
+    const xeroBase = convertToBaseCurrency(xeroValue, xeroCurrency, this.fxRates);
+
+    let value1 = deal.value;
+    let value2 = xeroValue;
+    if (pipedriveBase && xeroBase) {
+      value1 = pipedriveBase.amount;
+      value2 = xeroBase.amount;
+    } else if (pipedriveCurrency !== xeroCurrency) {
+      return {
+        valueMatch: false,
+        valueDifference: 0,
+        valueDifferencePercentage: 100,
+        pipedriveCurrency,
+        xeroCurrency,
+        pipedriveValueBase: pipedriveBase?.amount,
+        xeroValueBase: xeroBase?.amount,
+        conversionUnavailable: true,
+      };
+    }
+
+    return {
+      valueMatch: this.checkValueMatch(value1, value2),
+      valueDifference: Math.round(Math.abs(value1 - value2) * 100) / 100,
+      valueDifferencePercentage: this.calculateDifferencePercentage(value1, value2),
+      pipedriveCurrency,
+      xeroCurrency,
+      pipedriveValueBase: pipedriveBase?.amount,
+      xeroValueBase: xeroBase?.amount,
+      conversionUnavailable: false,
+    };
   }
 
   /**
@@ -537,19 +827,39 @@ export class ProjectSyncOrchestrator {
   private compareProjectValues(matches: ProjectMatch[]): ValueDiscrepancy[] {
     const discrepancies: ValueDiscrepancy[] = [];
 
+    if (!this.config.enableValueComparison) {
+      return discrepancies;
+    }
+
     for (const match of matches) {
-      if (!match.valueMatch && this.config.enableValueComparison) {
-        discrepancies.push({
-          projectName: match.xeroProject.name,
-          projectKey: match.matchKey,
-          pipedriveValue: match.pipedriveProject.value,
-          xeroValue: match.xeroProject.totalAmount?.value || 0,
-          difference: match.valueDifference || 0,
-          differencePercentage: match.valueDifferencePercentage || 0,
-        });
-      }
+      if (match.valueMatch) continue;
+
+      const comparison = this.compareValues(match.pipedriveProject, match.xeroProject);
+      discrepancies.push({
+        projectName: match.xeroProject.name,
+        projectKey: match.matchKey,
+        pipedriveValue: match.pipedriveProject.value,
+        pipedriveCurrency: comparison.pipedriveCurrency,
+        xeroValue: match.xeroProject.totalAmount?.value || 0,
+        xeroCurrency: comparison.xeroCurrency,
+        baseCurrency: this.fxRates.baseCurrency,
+        pipedriveValueBase: comparison.pipedriveValueBase,
+        xeroValueBase: comparison.xeroValueBase,
+        fxRateDate: this.fxRates.asOf,
+        difference: comparison.valueDifference,
+        differencePercentage: comparison.valueDifferencePercentage,
+        ...(comparison.conversionUnavailable ? { conversionUnavailable: true } : {}),
+      });
     }
 
+    this.logger.info({
+      compared: matches.length,
+      discrepancies: discrepancies.length,
+      unconverted: discrepancies.filter(d => d.conversionUnavailable).length,
+      baseCurrency: this.fxRates.baseCurrency,
+      fxRateDate: this.fxRates.asOf
+    }, 'Value comparison completed');
+
     return discrepancies;
   }
 
@@ -560,13 +870,16 @@ export class ProjectSyncOrchestrator {
     pipedriveDeals: PipedriveWonDeal[],
     xeroProjects: XeroProject[],
     matches: ProjectMatch[],
-    valueDiscrepancies: ValueDiscrepancy[]
+    suggestedMatches: SuggestedProjectMatch[],
+    valueDiscrepancies: ValueDiscrepancy[],
+    overrides: MatchOverrideIndex
   ): SyncSummary {
     const matchedProjectIds = new Set(matches.map(m => m.xeroProject.projectId));
     const matchedDealIds = new Set(matches.map(m => m.pipedriveProject.id));
 
-    const unmatchedPipedriveDeals = pipedriveDeals.filter(d => !matchedDealIds.has(d.id));
-    const unmatchedXeroProjects = xeroProjects.filter(p => !matchedProjectIds.has(p.projectId));
+    // Ignored records are neither matched nor reported as unmatched
+    const unmatchedPipedriveDeals = pipedriveDeals.filter(d => !matchedDealIds.has(d.id) && !overrides.isDealIgnored(d.id));
+    const unmatchedXeroProjects = xeroProjects.filter(p => !matchedProjectIds.has(p.projectId) && !overrides.isProjectIgnored(p.projectId));
     
     // Add normalized keys to unmatched items for reporting
     const unmatchedPipedriveWithKeys = unmatchedPipedriveDeals.map(deal => ({
@@ -589,8 +902,20 @@ export class ProjectSyncOrchestrator {
       recommendations.push(`${unmatchedXeroProjects.length} projects in Xero may need to be reviewed or linked to Pipedrive deals`);
     }
 
-    if (valueDiscrepancies.length > 0) {
-      recommendations.push(`${valueDiscrepancies.length} projects have value discrepancies that need reconciliation`);
+    if (suggestedMatches.length > 0) {
+      const dealsWithSuggestions = new Set(suggestedMatches.map(s => s.pipedriveProject.id)).size;
+      recommendations.push(`${dealsWithSuggestions} unmatched deals have possible Xero project matches that need confirming`);
+    }
+
+    const unconverted = valueDiscrepancies.filter(d => d.conversionUnavailable);
+    if (valueDiscrepancies.length > unconverted.length) {
+      recommendations.push(`${valueDiscrepancies.length - unconverted.length} projects have value discrepancies that need reconciliation`);
+    }
+
+    if (unconverted.length > 0) {
+      const currencies = Array.from(new Set(unconverted.flatMap(d => [d.pipedriveCurrency, d.xeroCurrency])))
+        .filter(code => code !== this.fxRates.baseCurrency && !this.fxRates.rates[code]);
+      recommendations.push(`${unconverted.length} projects could not be compared: add FX rates for ${currencies.join(', ')} (base ${this.fxRates.baseCurrency})`);
     }
 
     if (matches.length === 0 && pipedriveDeals.length > 0 && xeroProjects.length > 0) {
@@ -615,6 +940,11 @@ export class ProjectSyncOrchestrator {
       matchedProjects: matches,
       unmatchedPipedriveDeals: unmatchedPipedriveWithKeys as any,
       unmatchedXeroProjects: unmatchedXeroWithKeys as any,
+      suggestedMatches,
+      ignoredPipedriveCount: pipedriveDeals.filter(d => !matchedDealIds.has(d.id) && overrides.isDealIgnored(d.id)).length,
+      ignoredXeroCount: xeroProjects.filter(p => !matchedProjectIds.has(p.projectId) && overrides.isProjectIgnored(p.projectId)).length,
+      baseCurrency: this.fxRates.baseCurrency,
+      fxRateDate: this.fxRates.asOf,
     };
   }
 
@@ -627,11 +957,12 @@ export class ProjectSyncOrchestrator {
 
   /**
    * Cancel the current sync session
+   * The workflow stops before its next step; the step already running is allowed to finish
    */
-  cancelSession() {
+  async cancelSession(): Promise<void> {
     if (this.session && this.session.status === 'running') {
       this.session.status = 'cancelled';
-      this.session.endTime = new Date();
+      await SyncSessionStore.requestCancel(this.session.tenantId, this.session.id);
     }
   }
 }
\ No newline at end of file
@@ -29,6 +29,25 @@ import {
   generateProjectKey,
   type PipedriveValidationContext
 } from '../validation/pipedriveValidationRules';
+import { validateProjectsAgainstQuotes } from '../validation/projectValidationRules';
+import { fetchXeroInvoices } from '../validation/invoiceValidationRules';
+import { ensureValidToken } from '../ensureXeroToken';
+import { saveValidationRun } from '../validation/validationRunHistory';
+import { loadMatchOverrides, MatchOverrideIndex } from '../validation/matchOverrides';
+import { SyncSessionStore, SessionCancelledError } from './sessionStore';
+import { checkFieldMapping } from '../utils/pipedriveFieldDiscovery';
+import {
+  ValidationRuleSet,
+  resolveValidationRuleSettings,
+  type ValidationRuleRun
+} from '../validation/ruleRegistry';
+
+export interface PipelineProgress {
+  pipelineId: number;
+  dealCount: number;
+}
+
+export type PipelineProgressCallback = (progress: PipelineProgress) => void;
 
 export interface ValidationSession extends SyncSession {
   validationResults?: ValidationResult;
@@ -42,6 +61,8 @@ export interface ValidationResult {
   projects: ValidatedProject[];
   summary: ImportedValidationSummary;
   issues: ValidationIssue[];
+  // Rules the run applied, with their effective severity and issue counts
+  rules?: ValidationRuleRun[];
 }
 
 export interface ValidatedDeal {
@@ -58,6 +79,10 @@ export interface ValidatedDeal {
   customFields: Record<string, any>;
   matchedProject?: any;
   matchedQuote?: any;
+  // Set when the project or quote link comes from a force_link override
+  projectManuallyLinked?: boolean;
+  quoteManuallyLinked?: boolean;
+  ignored?: boolean;
 }
 
 export interface ValidatedQuote {
@@ -66,6 +91,8 @@ export interface ValidatedQuote {
   Status: string;
   Total: number;
   matchedDealId?: number;
+  manuallyLinked?: boolean;
+  ignored?: boolean;
   validationIssues: ValidationIssue[];
 }
 
@@ -76,6 +103,8 @@ export interface ValidatedProject {
   status: string;
   totalAmount?: number;
   matchedDealId?: number;
+  manuallyLinked?: boolean;
+  ignored?: boolean;
   validationIssues: ValidationIssue[];
 }
 
@@ -106,6 +135,8 @@ export interface ValidatedProject {
  * @since 1.0.0
  */
 export class ValidationOrchestrator extends ProjectSyncOrchestrator {
+  private pipelineCallback: PipelineProgressCallback | null = null;
+  
   /**
    * Creates a new ValidationOrchestrator instance
    * 
@@ -115,6 +146,13 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     super(config);
   }
   
+  /**
+   * Set a callback invoked after each pipeline's deals have been fetched
+   */
+  setPipelineCallback(callback: PipelineProgressCallback) {
+    this.pipelineCallback = callback;
+  }
+  
   /**
    * Override to create validation-specific steps
    */
@@ -168,10 +206,15 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
    * 3. Cross-references deals with quotes and projects
    * 4. Generates comprehensive validation report with issues
    * 
+   * The session is checkpointed after every step. Passing a stored session as `resumeFrom` continues it
+   * under the same ID, reusing the data its completed fetch steps returned.
+   * 
    * @param {string} tenantId - The unique identifier for the tenant to validate
    * @param {PipedriveConfig} pipedriveConfig - Tenant's Pipedrive configuration including API keys and field mappings
+   * @param {SyncSession} [resumeFrom] - Stored failed or cancelled session to continue
    * @returns {Promise<ValidationSession>} Promise resolving to complete validation session with results
    * 
+   * @throws {SessionCancelledError} When the session is cancelled between steps
    * @throws {Error} When validation workflow fails at any step
    * 
    * @example
@@ -204,53 +247,74 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
    */
   async executeValidationWorkflow(
     tenantId: string,
-    pipedriveConfig: PipedriveConfig
+    pipedriveConfig: PipedriveConfig,
+    resumeFrom?: SyncSession
   ): Promise<ValidationSession> {
-    // Initialize session with validation steps
-    const session = this.initializeSession(tenantId, pipedriveConfig.tenantName || 'Unknown');
-    session.steps = this.createValidationSteps();
+    // Initialize session with validation steps, or continue a stored one
+    let session: SyncSession;
+    if (resumeFrom) {
+      if (resumeFrom.tenantId !== tenantId) {
+        throw new Error(`Session ${resumeFrom.id} belongs to a different tenant`);
+      }
+      session = this.resumeSession(resumeFrom);
+      try {
+        await SyncSessionStore.clearCancel(tenantId, session.id);
+      } catch (error) {
+        logger.warn({ sessionId: session.id, error: (error as Error).message }, 'Failed to clear session cancel flag');
+      }
+    } else {
+      session = this.initializeSession(tenantId, pipedriveConfig.tenantName || 'Unknown');
+      session.steps = this.createValidationSteps();
+    }
     
     try {
       (session as any).status = 'running';
-      logger.info({ sessionId: session.id, tenantId }, 'Starting validation workflow');
+      await this.checkpoint();
+      logger.info({ sessionId: session.id, tenantId, resumed: !!resumeFrom }, 'Starting validation workflow');
+      
+      // Check the field mapping first; a stale required field stops the run with a FieldMappingError
+      const configIssues = await checkFieldMapping(pipedriveConfig);
       
       // Step 1: Fetch Pipedrive deals
-      const pipedriveDeals = await this.executeValidationStep(
+      const pipedriveDeals = await this.executeStep(
         'fetch_pipedrive_deals',
         async () => await this.fetchPipedriveDeals(pipedriveConfig)
       );
       
       // Step 2: Fetch Xero quotes
-      const xeroQuotes = await this.executeValidationStep(
+      const xeroQuotes = await this.executeStep(
         'fetch_xero_quotes',
         async () => await this.fetchXeroQuotes(tenantId)
       );
       
       // Step 3: Fetch Xero projects
-      const xeroProjects = await this.executeValidationStep(
+      const xeroProjects = await this.executeStep(
         'fetch_xero_projects',
         async () => await this.fetchXeroProjects(tenantId)
       );
       
       // Step 4: Validate deal titles
-      const titleValidations = await this.executeValidationStep(
+      const titleValidations = await this.executeStep(
         'validate_titles',
         async () => await this.validateDealsStep(pipedriveDeals)
       );
       
-      // Step 5: Cross-reference systems
-      const crossReferenceResult = await this.executeValidationStep(
+      // Step 5: Cross-reference systems, applying the tenant's manual match overrides
+      const matchOverrides = await loadMatchOverrides(tenantId);
+      const crossReferenceResult = await this.executeStep(
         'cross_reference',
         async () => await this.crossReferenceStep(
           pipedriveDeals,
           xeroQuotes,
           xeroProjects,
-          pipedriveConfig
+          pipedriveConfig,
+          matchOverrides
         )
       );
       
-      // Step 6: Generate report
-      const validationResult = await this.executeValidationStep(
+      // Step 6: Generate report, applying the tenant's rule settings
+      const rules = new ValidationRuleSet(resolveValidationRuleSettings(tenantId, pipedriveConfig.validationRules));
+      const validationResult = await this.executeStep(
         'generate_report',
         async () => await this.generateReportStep(
           pipedriveDeals,
@@ -258,7 +322,10 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
           xeroProjects,
           titleValidations,
           crossReferenceResult,
-          pipedriveConfig
+          pipedriveConfig,
+          matchOverrides,
+          rules,
+          configIssues
         )
       );
       
@@ -266,6 +333,24 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       (session as any).endTime = new Date();
       (session as any).status = 'completed';
       (session as ValidationSession).validationResults = validationResult;
+      await this.checkpoint();
+      
+      // Keep the run in the tenant's history; a storage failure should not fail the validation
+      try {
+        await saveValidationRun({
+          id: session.id,
+          tenantId,
+          tenantName: session.tenantName,
+          timestamp: validationResult.timestamp,
+          summary: validationResult.summary,
+          issues: validationResult.issues
+        });
+      } catch (historyError) {
+        logger.warn({
+          sessionId: session.id,
+          error: (historyError as Error).message
+        }, 'Failed to save validation run history');
+      }
       
       logger.info({
         sessionId: session.id,
@@ -275,9 +360,15 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       return session as ValidationSession;
       
     } catch (error) {
+      if (error instanceof SessionCancelledError) {
+        await this.markCancelled();
+        throw error;
+      }
+
       (session as any).status = 'failed';
       (session as any).error = (error as Error).message;
       (session as any).endTime = new Date();
+      await this.checkpoint();
       
       logger.error({
         sessionId: session.id,
@@ -288,18 +379,6 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     }
   }
   
-  /**
-   * Execute a validation step using parent's protected method
-   */
-  private async executeValidationStep<T>(stepId: string, executor: () => Promise<T>): Promise<T> {
-    // Access parent's private method through prototype
-    const parentExecuteStep = (this as any).executeStep;
-    if (typeof parentExecuteStep === 'function') {
-      return parentExecuteStep.call(this, stepId, executor);
-    }
-    throw new Error('Parent executeStep method not accessible');
-  }
-  
   /**
    * Fetch deals from Pipedrive
    */
@@ -309,19 +388,21 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       pipelines: config.pipelineIds 
     }, 'Fetching Pipedrive deals');
     
-    // First fetch deal fields to understand custom field mapping
-    const { fetchDealFields } = await import('@/lib/utils/pipedriveHelpers');
-    await fetchDealFields(config.apiKey, config.companyDomain);
-    
     // Apply rate limiting
     await SmartRateLimit.waitIfNeeded();
     
-    const deals = await fetchDealsFromMultiplePipelines(
-      config.apiKey,
-      config.companyDomain,
-      config.pipelineIds,
-      'won' // Only fetch won deals for validation
-    );
+    // Fetch pipeline by pipeline so progress can be reported per pipeline
+    const deals: PipedriveDeal[] = [];
+    for (const pipelineId of config.pipelineIds) {
+      const pipelineDeals = await fetchDealsFromMultiplePipelines(
+        config.apiKey,
+        config.companyDomain,
+        [pipelineId],
+        'won' // Only fetch won deals for validation
+      );
+      deals.push(...pipelineDeals);
+      this.pipelineCallback?.({ pipelineId, dealCount: pipelineDeals.length });
+    }
     
     logger.info({ dealCount: deals.length }, 'Fetched Pipedrive deals');
     return deals;
@@ -416,7 +497,8 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     deals: PipedriveDeal[],
     quotes: any[],
     projects: any[],
-    config: PipedriveConfig
+    config: PipedriveConfig,
+    matchOverrides: MatchOverrideIndex
   ): Promise<QuoteValidationResult[]> {
     logger.info('Cross-referencing deals with Xero data');
     
@@ -432,7 +514,8 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         customFieldKeys: config.customFieldKeys,
         enabled: config.enabled,
         invoiceStageId: config.invoiceStageId
-      }
+      },
+      matchOverrides
     };
     
     const quoteValidations = crossReferenceQuotes(context);
@@ -454,12 +537,19 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     projects: any[],
     titleValidations: TitleValidationResult[],
     quoteValidations: QuoteValidationResult[],
-    config: PipedriveConfig
+    config: PipedriveConfig,
+    matchOverrides: MatchOverrideIndex,
+    rules: ValidationRuleSet,
+    configIssues: ValidationIssue[] = []
   ): Promise<ValidationResult> {
     logger.info('Generating validation report');
     
-    // Combine all issues
-    const allIssues: ValidationIssue[] = [];
+    // Drop disabled rules and apply severity overrides before issues are counted or attached to records
+    titleValidations = titleValidations.map(tv => ({ ...tv, issues: rules.apply(tv.issues) }));
+    quoteValidations = quoteValidations.map(qv => ({ ...qv, issues: rules.apply(qv.issues) }));
+    
+    // Combine all issues, starting with tenant configuration problems
+    const allIssues: ValidationIssue[] = [...rules.apply(configIssues)];
     
     // Collect title validation issues
     titleValidations.forEach(tv => {
@@ -472,10 +562,12 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     });
     
     // Run comprehensive business logic validation (includes orphaned quotes, invoice stage, etc.)
+    const xeroInvoices = await this.fetchInvoiceStageInvoices(deals, config);
     const context: PipedriveValidationContext = {
       pipedriveDeals: deals,
       xeroQuotes: quotes,
       xeroProjects: projects,
+      xeroInvoices,
       tenantConfig: {
         tenantId: config.companyDomain,
         pipedriveApiKey: config.apiKey,
@@ -484,7 +576,9 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         customFieldKeys: config.customFieldKeys,
         enabled: config.enabled,
         invoiceStageId: config.invoiceStageId
-      }
+      },
+      matchOverrides,
+      rules
     };
     
     const businessLogicIssues = validatePipedriveDeals(context);
@@ -497,6 +591,50 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       invoiceStageIssues: businessLogicIssues.filter(i => i.code?.startsWith('INVOICE_STAGE')).length
     }, 'Business logic validation completed');
     
+    // Quote linked to each deal: a manual link first, then the custom field (v2 or v1 location) unless never-linked
+    const getDealQuoteId = (deal: PipedriveDeal): string | undefined =>
+      matchOverrides.linkedQuoteId(
+        deal.id,
+        deal.custom_fields?.[config.customFieldKeys.xeroQuoteId] || deal[config.customFieldKeys.xeroQuoteId],
+        quotes
+      );
+    
+    // Project paired with each deal: a manual link first, then an equal project key unless never-linked or ignored
+    const findMatchedProject = (deal: PipedriveDeal): { project?: any; manual: boolean } => {
+      const forced = matchOverrides.forcedProjectForDeal(deal.id);
+      const forcedProject = forced && projects.find(p => p.projectId === forced.xeroProjectId);
+      if (forcedProject) {
+        return { project: forcedProject, manual: true };
+      }
+      
+      const normalizedKey = generateProjectKey(deal.title || deal.name || '');
+      const project = projects.find(p =>
+        generateProjectKey(p.name) === normalizedKey &&
+        !matchOverrides.isNeverLinked(deal.id, p.projectId) &&
+        !matchOverrides.isProjectIgnored(p.projectId) &&
+        !matchOverrides.forcedDealForProject(p.projectId)
+      );
+      return { project, manual: false };
+    };
+    
+    // Check in-progress projects against accepted quotes
+    const rawProjectValidation = validateProjectsAgainstQuotes(
+      projects,
+      quotes,
+      deals.map(deal => ({
+        ...deal,
+        xeroQuoteId: getDealQuoteId(deal)
+      }))
+    );
+    const projectValidation = {
+      ...rawProjectValidation,
+      issues: rules.apply(rawProjectValidation.issues),
+      projects: rawProjectValidation.projects.map(p => ({ ...p, issues: rules.apply(p.issues) }))
+    };
+    allIssues.push(...projectValidation.issues);
+    
+    logger.info(projectValidation.stats, 'Project validation completed');
+    
     // Map deals with their validation results
     const validatedDeals: ValidatedDeal[] = deals.map(deal => {
       const titleValidation = titleValidations.find(tv => tv.dealId === deal.id);
@@ -510,15 +648,12 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         dealIssues.push(...quoteValidation.issues);
       }
       
-      // Find matching project
-      const normalizedKey = generateProjectKey(deal.title || deal.name || '');
-      const matchedProject = projects.find(p => 
-        generateProjectKey(p.name) === normalizedKey
-      );
-      
-      // Extract Xero Quote ID from v2 API structure
-      const xeroQuoteId = deal.custom_fields?.[config.customFieldKeys.xeroQuoteId] || 
-                         deal[config.customFieldKeys.xeroQuoteId];
+      // Find matching project; ignored deals are left unmatched
+      const ignored = matchOverrides.isDealIgnored(deal.id);
+      const { project: matchedProject, manual: projectManuallyLinked } = ignored
+        ? { project: undefined, manual: false }
+        : findMatchedProject(deal);
+      const xeroQuoteId = getDealQuoteId(deal);
       
       return {
         id: deal.id,
@@ -532,17 +667,16 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         validationIssues: dealIssues,
         customFields: this.extractCustomFields(deal, config.customFieldKeys),
         matchedProject,
-        matchedQuote: quotes.find(q => q.QuoteID === xeroQuoteId)
+        matchedQuote: quotes.find(q => q.QuoteID === xeroQuoteId),
+        projectManuallyLinked,
+        quoteManuallyLinked: !!matchOverrides.forcedQuoteForDeal(deal.id),
+        ignored
       };
     });
     
     // Map quotes with validation
     const validatedQuotes: ValidatedQuote[] = quotes.map(quote => {
-      const matchedDeal = deals.find(d => {
-        const quoteId = d.custom_fields?.[config.customFieldKeys.xeroQuoteId] || 
-                        d[config.customFieldKeys.xeroQuoteId];
-        return quoteId === quote.QuoteID;
-      });
+      const matchedDeal = deals.find(d => getDealQuoteId(d) === quote.QuoteID);
       
       return {
         QuoteID: quote.QuoteID,
@@ -550,6 +684,8 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         Status: quote.Status,
         Total: quote.Total,
         matchedDealId: matchedDeal?.id,
+        manuallyLinked: !!matchOverrides.forcedDealForQuote(quote.QuoteID),
+        ignored: matchOverrides.isQuoteIgnored(quote.QuoteID),
         validationIssues: []
       };
     });
@@ -557,20 +693,26 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     // Map projects with validation
     const validatedProjects: ValidatedProject[] = projects.map(project => {
       const normalizedKey = generateProjectKey(project.name);
-      const matchedDeal = deals.find(d => 
-        generateProjectKey(d.title || d.name || '') === normalizedKey
-      );
+      const ignored = matchOverrides.isProjectIgnored(project.projectId);
+      const matchedDeal = ignored
+        ? undefined
+        : validatedDeals.find(d => d.matchedProject?.projectId === project.projectId);
       
       const issues: ValidationIssue[] = [];
-      if (!matchedDeal && project.status === 'INPROGRESS') {
+      if (!matchedDeal && !ignored && project.status === 'INPROGRESS' && rules.isEnabled('UNMATCHED_PROJECT')) {
         issues.push({
-          severity: 'info',
+          severity: rules.severityFor('UNMATCHED_PROJECT') || 'info',
           code: 'UNMATCHED_PROJECT',
           message: `Project "${project.name}" has no matching deal in Pipedrive`,
           field: 'project'
         });
       }
       
+      const projectResult = projectValidation.projects.find(p => p.projectId === project.projectId);
+      if (projectResult) {
+        issues.push(...projectResult.issues);
+      }
+      
       return {
         projectId: project.projectId,
         name: project.name,
@@ -578,6 +720,8 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
         status: project.status,
         totalAmount: project.totalAmount?.value,
         matchedDealId: matchedDeal?.id,
+        manuallyLinked: !!matchedDeal?.projectManuallyLinked,
+        ignored,
         validationIssues: issues
       };
     });
@@ -585,7 +729,7 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     // Calculate summary with better matching statistics
     const dealsWithQuoteId = validatedDeals.filter(d => d.xeroQuoteId);
     const dealsWithMatchedQuote = validatedDeals.filter(d => d.matchedQuote);
-    const dealsWithoutQuoteId = validatedDeals.filter(d => !d.xeroQuoteId);
+    const dealsWithoutQuoteId = validatedDeals.filter(d => !d.xeroQuoteId && !d.ignored);
     
     // Calculate quotes by status
     const quotesByStatus = {
@@ -616,6 +760,10 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
     // Find orphaned accepted quotes (accepted quotes not linked to any deal)
     const acceptedQuotes = quotes.filter(q => q.Status === 'ACCEPTED');
     const orphanedAcceptedQuotes = acceptedQuotes.filter(quote => {
+      if (matchOverrides.isQuoteIgnored(quote.QuoteID)) {
+        return false;
+      }
+      
       // Check if quote references a Pipedrive Deal ID
       let referencedDealId: number | null = null;
       if (quote.Reference) {
@@ -633,8 +781,7 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       
       // Check if any deal references this quote
       const isLinked = deals.some(deal => {
-        const xeroQuoteId = deal.custom_fields?.[config.customFieldKeys.xeroQuoteId] || 
-                           deal[config.customFieldKeys.xeroQuoteId];
+        const xeroQuoteId = getDealQuoteId(deal);
         return xeroQuoteId === quote.QuoteID || xeroQuoteId === quote.QuoteNumber;
       });
       return !isLinked;
@@ -650,6 +797,13 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       !validQuotePattern.test(quote.QuoteNumber || '')
     ).length;
     
+    const ruleRuns = rules.describeRun(allIssues);
+    logger.info({
+      rulesRun: ruleRuns.filter(r => r.enabled).length,
+      rulesDisabled: ruleRuns.filter(r => !r.enabled).length,
+      severityOverrides: ruleRuns.filter(r => r.severityOverridden).length
+    }, 'Validation rules applied');
+    
     const summary: ImportedValidationSummary = {
       totalDeals: deals.length,
       totalQuotes: quotes.length,
@@ -664,8 +818,13 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       matchedDealsToQuotes: dealsWithMatchedQuote.length,
       matchedDealsToProjects: validatedDeals.filter(d => d.xeroProjectId).length,
       unmatchedDeals: dealsWithoutQuoteId.length,
-      unmatchedQuotes: validatedQuotes.filter(q => !q.matchedDealId).length,
-      unmatchedProjects: validatedProjects.filter(p => !p.matchedDealId).length,
+      unmatchedQuotes: validatedQuotes.filter(q => !q.matchedDealId && !q.ignored).length,
+      unmatchedProjects: validatedProjects.filter(p => !p.matchedDealId && !p.ignored).length,
+      manuallyLinked: validatedDeals.filter(d => d.projectManuallyLinked).length +
+        validatedDeals.filter(d => d.quoteManuallyLinked).length,
+      ignoredRecords: validatedDeals.filter(d => d.ignored).length +
+        validatedQuotes.filter(q => q.ignored).length +
+        validatedProjects.filter(p => p.ignored).length,
       quotesByStatus,
       totalQuoteInProgressValue: totalQuoteInProgressValue > 0 ? totalQuoteInProgressValue : undefined,
       quoteCurrency: totalQuoteInProgressValue > 0 ? quoteCurrency : undefined,
@@ -683,10 +842,39 @@ export class ValidationOrchestrator extends ProjectSyncOrchestrator {
       quotes: validatedQuotes,
       projects: validatedProjects,
       summary,
-      issues: allIssues
+      issues: allIssues,
+      rules: ruleRuns
     };
   }
   
+  /**
+   * Fetch Xero invoices linked to deals in the Invoice stage
+   */
+  private async fetchInvoiceStageInvoices(deals: PipedriveDeal[], config: PipedriveConfig): Promise<any[] | undefined> {
+    if (!config.invoiceStageId) {
+      return undefined;
+    }
+    
+    const invoiceRefs = deals
+      .filter(deal => deal.stage_id === config.invoiceStageId)
+      .map(deal => deal.custom_fields?.[config.customFieldKeys.invoiceId] || deal[config.customFieldKeys.invoiceId])
+      .filter(Boolean);
+    
+    if (invoiceRefs.length === 0) {
+      return [];
+    }
+    
+    try {
+      const { access_token, effective_tenant_id } = await ensureValidToken();
+      const invoices = await fetchXeroInvoices(invoiceRefs, access_token, effective_tenant_id);
+      logger.info({ requested: invoiceRefs.length, found: invoices.length }, 'Fetched Invoice stage invoices');
+      return invoices;
+    } catch (error) {
+      logger.error({ error: (error as Error).message }, 'Failed to fetch Xero invoices');
+      return undefined;
+    }
+  }
+  
   /**
    * Extract custom fields from deal
    */
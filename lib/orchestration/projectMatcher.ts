@@ -0,0 +1,185 @@
+/**
+ * Scoring for Pipedrive deal to Xero project matching
+ * Each candidate pair is scored by project key, then project code, then vessel name similarity
+ */
+
+import type { MatchStrategy } from './types';
+
+export interface ParsedProjectName {
+  // Lowercase project code such as "ed255007", or null if the name has none
+  code: string | null;
+  // Lowercase vessel/project name with punctuation collapsed to single spaces
+  vessel: string;
+}
+
+export interface MatchScore {
+  confidence: number;
+  strategy: MatchStrategy;
+  reasons: string[];
+}
+
+/**
+ * Splits a deal title or project name into project code and vessel name
+ *
+ * @description Removes numbered duplicate suffixes such as "(2)" first. Names without a leading
+ * project code keep the whole name as the vessel name.
+ *
+ * @param {string} name - Deal title or Xero project name
+ * @returns {ParsedProjectName} Code and vessel parts
+ *
+ * @example
+ * ```typescript
+ * parseProjectName('MES241058 - London Voyager (2)'); // { code: 'mes241058', vessel: 'london voyager' }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function parseProjectName(name: string | undefined | null): ParsedProjectName {
+  const cleanName = (name || '').replace(/\s*\(\d+\)\s*$/, '').trim();
+  const codeMatch = cleanName.match(/^([A-Z]+\d+)\s*[-\s]*\s*(.*)$/i);
+
+  return {
+    code: codeMatch ? codeMatch[1].toLowerCase() : null,
+    vessel: normalizeWords(codeMatch ? codeMatch[2] : cleanName)
+  };
+}
+
+/**
+ * Counts single-character insertions, deletions and substitutions needed to turn one string into another
+ *
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {number} Edit distance
+ *
+ * @example
+ * ```typescript
+ * levenshteinDistance('voyager', 'voyagr'); // 1
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Scores how alike two vessel names are, from 0 (unrelated) to 1 (identical)
+ *
+ * @description Takes the better of character similarity (edit distance over the longer name, ignoring
+ * spaces) and word overlap (Dice coefficient), so both typos and reordered or missing words score well.
+ *
+ * @param {string} a - First name, as produced by {@link parseProjectName}
+ * @param {string} b - Second name
+ * @returns {number} Similarity between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * nameSimilarity('london voyager', 'londn voyager'); // ~0.92
+ * nameSimilarity('voyager london', 'london voyager'); // 1
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+
+  const compactA = a.replace(/ /g, '');
+  const compactB = b.replace(/ /g, '');
+  if (compactA === compactB) return 1;
+
+  const characterSimilarity = 1 - levenshteinDistance(compactA, compactB) / Math.max(compactA.length, compactB.length);
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  const tokenSimilarity = (2 * shared) / (tokensA.size + tokensB.size);
+
+  return Math.max(characterSimilarity, tokenSimilarity);
+}
+
+/**
+ * Scores a deal/project pair using the matching layers in order of strength
+ *
+ * @description
+ * 1. Identical project keys score 1.
+ * 2. The same project code scores 0.85-1, rising with vessel name similarity, since codes identify a project.
+ * 3. Otherwise vessel name similarity is scaled down: by 0.9 when either side has no code, 0.8 when one
+ *    code has a character dropped or added (a likely typo), and 0.5 when they are different codes.
+ *
+ * @param {string} dealKey - Project key of the deal title
+ * @param {string} projectKey - Project key of the Xero project name
+ * @param {ParsedProjectName} deal - Parsed deal title
+ * @param {ParsedProjectName} project - Parsed project name
+ * @returns {MatchScore} Confidence, strategy and human-readable reasons
+ *
+ * @example
+ * ```typescript
+ * const score = scoreProjectMatch(dealKey, projectKey, parseProjectName(deal.title), parseProjectName(project.name));
+ * if (score.confidence >= 0.85) { ... }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function scoreProjectMatch(
+  dealKey: string,
+  projectKey: string,
+  deal: ParsedProjectName,
+  project: ParsedProjectName
+): MatchScore {
+  if (dealKey && dealKey === projectKey) {
+    return { confidence: 1, strategy: 'exact_key', reasons: ['Project keys are identical'] };
+  }
+
+  const vesselSimilarity = nameSimilarity(deal.vessel, project.vessel);
+  const similarityReason = `Vessel names are ${Math.round(vesselSimilarity * 100)}% similar`;
+
+  if (deal.code && project.code) {
+    if (deal.code === project.code) {
+      return {
+        confidence: round(0.85 + 0.15 * vesselSimilarity),
+        strategy: 'project_code',
+        reasons: [`Project code ${deal.code.toUpperCase()} matches`, similarityReason]
+      };
+    }
+
+    // A dropped or doubled character is a likely typo; a changed digit is usually the next job on the same vessel
+    const codeTypo = deal.code.length !== project.code.length && levenshteinDistance(deal.code, project.code) === 1;
+    return {
+      confidence: round(vesselSimilarity * (codeTypo ? 0.8 : 0.5)),
+      strategy: 'vessel_similarity',
+      reasons: [
+        codeTypo
+          ? `Project code ${deal.code.toUpperCase()} looks like a typo of ${project.code.toUpperCase()}`
+          : `Project codes ${deal.code.toUpperCase()} and ${project.code.toUpperCase()} differ`,
+        similarityReason
+      ]
+    };
+  }
+
+  return {
+    confidence: round(vesselSimilarity * 0.9),
+    strategy: 'vessel_similarity',
+    reasons: [`${deal.code || project.code ? 'Only one name has' : 'Neither name has'} a project code`, similarityReason]
+  };
+}
+
+function normalizeWords(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,133 @@
+/**
+ * Persisted orchestration sessions
+ * Checkpoints each session and its step results so a run can be reattached to, cancelled or resumed
+ */
+
+import { withRedis } from '../redis/redisClient';
+import type { SyncSession } from './types';
+
+// Sessions are kept for a day; long enough to reattach or resume, short enough to bound fetched payloads
+const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// How often a running session refreshes its heartbeat while a step runs
+export const SESSION_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// A running session without a checkpoint or heartbeat for this long is assumed to have lost its process
+export const SESSION_STALE_AFTER_MS = 4 * SESSION_HEARTBEAT_INTERVAL_MS;
+
+export class SessionCancelledError extends Error {
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} was cancelled`);
+    this.name = 'SessionCancelledError';
+  }
+}
+
+// Redis-backed store: one key per session plus separate cancel and heartbeat keys, so neither is overwritten by a checkpoint
+// and a heartbeat does not rewrite the session's step results
+export class SyncSessionStore {
+  private static sessionKey(tenantId: string, sessionId: string): string {
+    return `sync-sessions:${tenantId}:${sessionId}`;
+  }
+
+  private static cancelKey(tenantId: string, sessionId: string): string {
+    return `sync-sessions:${tenantId}:${sessionId}:cancel`;
+  }
+
+  private static heartbeatKey(tenantId: string, sessionId: string): string {
+    return `sync-sessions:${tenantId}:${sessionId}:heartbeat`;
+  }
+
+  static async save(session: SyncSession): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.set(
+        this.sessionKey(session.tenantId, session.id),
+        JSON.stringify(session),
+        'EX',
+        SESSION_TTL_SECONDS
+      );
+    });
+  }
+
+  static async get<T extends SyncSession = SyncSession>(tenantId: string, sessionId: string): Promise<T | null> {
+    return withRedis(async (redis) => {
+      const [data, heartbeatAt] = await redis.mget(
+        this.sessionKey(tenantId, sessionId),
+        this.heartbeatKey(tenantId, sessionId)
+      );
+      if (!data) return null;
+      const session = JSON.parse(data);
+      return heartbeatAt ? { ...session, heartbeatAt } : session;
+    });
+  }
+
+  static async requestCancel(tenantId: string, sessionId: string): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.set(this.cancelKey(tenantId, sessionId), '1', 'EX', SESSION_TTL_SECONDS);
+    });
+  }
+
+  static async isCancelRequested(tenantId: string, sessionId: string): Promise<boolean> {
+    return withRedis(async (redis) => {
+      return (await redis.exists(this.cancelKey(tenantId, sessionId))) > 0;
+    });
+  }
+
+  static async clearCancel(tenantId: string, sessionId: string): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.del(this.cancelKey(tenantId, sessionId));
+    });
+  }
+
+  static async heartbeat(tenantId: string, sessionId: string): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.set(this.heartbeatKey(tenantId, sessionId), new Date().toISOString(), 'EX', SESSION_TTL_SECONDS);
+    });
+  }
+}
+
+/**
+ * Checks whether a session has finished, successfully or not
+ * @param {SyncSession} session - Stored session
+ * @returns {boolean} True for completed, failed and cancelled sessions
+ */
+export function isSessionFinished(session: SyncSession): boolean {
+  return session.status === 'completed' || session.status === 'failed' || session.status === 'cancelled';
+}
+
+/**
+ * Checks whether a session claims to be running but its process has stopped
+ *
+ * @description Serverless functions can be stopped mid-run without updating the session, which would
+ * otherwise leave it "running" until it expires. The running process sends a heartbeat every
+ * {@link SESSION_HEARTBEAT_INTERVAL_MS} while a step runs, so a long step is not mistaken for a lost one.
+ *
+ * @param {SyncSession} session - Stored session
+ * @param {Date} [now=new Date()] - Time to compare the last checkpoint or heartbeat against
+ * @returns {boolean} True if the session is unfinished and its last checkpoint and heartbeat are older than {@link SESSION_STALE_AFTER_MS}
+ *
+ * @example
+ * ```typescript
+ * if (isSessionStale(session)) {
+ *   // Offer to resume instead of waiting for progress
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function isSessionStale(session: SyncSession, now: Date = new Date()): boolean {
+  if (isSessionFinished(session)) return false;
+  const lastSeen = Math.max(
+    new Date(session.updatedAt || session.startTime).getTime(),
+    session.heartbeatAt ? new Date(session.heartbeatAt).getTime() : 0
+  );
+  return now.getTime() - lastSeen > SESSION_STALE_AFTER_MS;
+}
+
+/**
+ * Checks whether a stored session can be resumed
+ * @param {SyncSession} session - Stored session
+ * @returns {boolean} True for failed and cancelled sessions, and running sessions that have gone stale
+ */
+export function isSessionResumable(session: SyncSession): boolean {
+  return session.status === 'failed' || session.status === 'cancelled' || isSessionStale(session);
+}
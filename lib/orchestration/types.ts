@@ -1,3 +1,5 @@
+import type { FxRateTable } from '../utils/fxRates';
+
 export interface SyncStep {
   id: string;
   name: string;
@@ -16,6 +18,12 @@ export interface SyncSession {
   tenantName: string;
   startTime: Date;
   endTime?: Date;
+  // Last time the session was checkpointed to the session store
+  updatedAt?: Date;
+  // Last heartbeat from the process running the session, refreshed while a step runs
+  heartbeatAt?: Date;
+  // Set when the session continues an earlier failed or cancelled run
+  resumedAt?: Date;
   status: 'initializing' | 'running' | 'completed' | 'failed' | 'cancelled';
   steps: SyncStep[];
   summary?: SyncSummary;
@@ -35,15 +43,34 @@ export interface SyncSummary {
   matchedProjects?: ProjectMatch[];
   unmatchedPipedriveDeals?: PipedriveWonDeal[];
   unmatchedXeroProjects?: XeroProject[];
+  // Low-confidence candidates left unmatched for a person to confirm
+  suggestedMatches?: SuggestedProjectMatch[];
+  // Deals and projects left out of matching by ignore overrides
+  ignoredPipedriveCount?: number;
+  ignoredXeroCount?: number;
+  // Currency and rate date used for value comparison
+  baseCurrency?: string;
+  fxRateDate?: string;
 }
 
 export interface ValueDiscrepancy {
   projectName: string;
   projectKey: string;
+  // Amounts in their original currencies
   pipedriveValue: number;
+  pipedriveCurrency: string;
   xeroValue: number;
+  xeroCurrency: string;
+  // Amounts converted with the FX rate table; absent when a currency has no rate
+  baseCurrency: string;
+  pipedriveValueBase?: number;
+  xeroValueBase?: number;
+  fxRateDate: string;
+  // In the base currency, or in the shared original currency when no conversion was possible
   difference: number;
   differencePercentage: number;
+  // Set when the currencies differ and one has no FX rate, so the values could not be compared
+  conversionUnavailable?: boolean;
 }
 
 export interface PipedriveWonDeal {
@@ -86,13 +113,40 @@ export interface XeroProject {
   };
 }
 
+/**
+ * How a deal and project were paired
+ * - exact_key: identical normalized project keys
+ * - project_code: same project code, vessel names differ
+ * - vessel_similarity: no shared code, similar vessel names
+ * - manual: linked by a force_link match override
+ */
+export type MatchStrategy = 'exact_key' | 'project_code' | 'vessel_similarity' | 'manual';
+
 export interface ProjectMatch {
   pipedriveProject: PipedriveWonDeal;
   xeroProject: XeroProject;
   matchKey: string;
   valueMatch: boolean;
+  // Difference in the base currency (see SyncSummary.baseCurrency)
   valueDifference?: number;
   valueDifferencePercentage?: number;
+  // 0-1, where 1 is an exact key match
+  confidence: number;
+  matchStrategy: MatchStrategy;
+  // Set when several candidates scored the same and the closest value won
+  tieBreaker?: 'value_proximity';
+  // Match override that created a manual link
+  overrideId?: string;
+}
+
+export interface SuggestedProjectMatch {
+  pipedriveProject: PipedriveWonDeal;
+  xeroProject: XeroProject;
+  confidence: number;
+  matchStrategy: MatchStrategy;
+  reasons: string[];
+  valueDifference: number;
+  valueDifferencePercentage: number;
 }
 
 export interface SyncProgressCallback {
@@ -104,10 +158,18 @@ export interface OrchestrationConfig {
   valueTolerancePercentage: number;
   includeArchivedProjects: boolean;
   workInProgressPipelineId?: number;
+  // Rates used to compare values in different currencies; defaults to getDefaultFxRateTable()
+  fxRates?: FxRateTable;
+  // Candidates at or above this confidence are matched automatically
+  autoMatchConfidence: number;
+  // Candidates between this and autoMatchConfidence are listed as suggested matches
+  suggestionConfidence: number;
 }
 
 export const DEFAULT_ORCHESTRATION_CONFIG: OrchestrationConfig = {
   enableValueComparison: true,
   valueTolerancePercentage: 5, // 5% tolerance for value differences
   includeArchivedProjects: false,
+  autoMatchConfidence: 0.85,
+  suggestionConfidence: 0.5,
 };
\ No newline at end of file
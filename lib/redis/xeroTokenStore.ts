@@ -177,6 +177,13 @@ export class XeroTokenStore {
 
     await withRedisFallback(async (redis) => {
       await redis.set(key, JSON.stringify(tokenData), 'EX', ttl);
+      // Refresh tokens outlive the access token, so background jobs read them from a longer-lived key
+      await redis.set(
+        `xero:refresh:${userId}`,
+        JSON.stringify({ ...tokenData, updated_at: Date.now() }),
+        'EX',
+        60 * 24 * 60 * 60 // 60 days, Xero's refresh token lifetime
+      );
       console.log(`[TokenStore] Token stored for user ${userId}`);
     }, undefined);
     
@@ -187,6 +194,23 @@ export class XeroTokenStore {
     }
   }
 
+  /**
+   * Gets the latest token data for a user, kept after the access token expires
+   * Used by background jobs that refresh the access token themselves
+   * @param {string} userId - User identifier
+   * @returns {Promise<(TokenData & { updated_at: number }) | null>} Token data with the time it was stored, or null
+   */
+  static async getRefreshToken(userId: string): Promise<(TokenData & { updated_at: number }) | null> {
+    if (!userId) {
+      return null;
+    }
+
+    return withRedisFallback(async (redis) => {
+      const data = await redis.get(`xero:refresh:${userId}`);
+      return data ? JSON.parse(data) : null;
+    }, null);
+  }
+
   /**
    * Gets user's token data
    * @param {string} userId - User identifier
@@ -219,7 +243,8 @@ export class XeroTokenStore {
       const keys = [
         this.getUserKey(userId, 'tenants'),
         this.getUserKey(userId, 'selected_tenant'),
-        `xero:token:${userId}`
+        `xero:token:${userId}`,
+        `xero:refresh:${userId}`
       ];
       
       await redis.del(...keys);
@@ -18,7 +18,7 @@ export interface ProjectComparisonData {
   onlyInXeroCount: number;
   projectsOnlyInPipedrive: Array<{ name: string; key: string; id?: string; status?: string }>;
   projectsOnlyInXero: Array<{ name: string; key: string; id?: string; status?: string }>;
-  matchedProjects?: Array<{ pipedriveProject: any; xeroProject: any; key: string }>;
+  matchedProjects?: Array<{ pipedriveProject: any; xeroProject: any; key: string; matchStrategy?: string }>;
   pipedriveDisabled?: boolean;
   pipedriveError?: string;
   rawPipedriveDeals?: any[];
@@ -27,9 +27,14 @@ export interface ProjectComparisonData {
     projectName: string;
     projectKey: string;
     pipedriveValue: number;
+    pipedriveCurrency?: string;
     xeroValue: number;
+    xeroCurrency?: string;
+    baseCurrency?: string;
+    fxRateDate?: string;
     difference: number;
     differencePercentage: number;
+    conversionUnavailable?: boolean;
   }>;
 }
 
@@ -197,7 +202,7 @@ export class ProfessionalReportGenerator {
         ['These projects exist in both systems', '', '', '', '', ''],
         ['Status: Synchronized', '', '', '', '', ''],
         [''],
-        ['No.', 'Matching Key', 'Pipedrive Name', 'Xero Name', 'Pipedrive ID', 'Xero ID']
+        ['No.', 'Matching Key', 'Pipedrive Name', 'Xero Name', 'Pipedrive ID', 'Xero ID', 'Match Type']
       ];
 
       data.matchedProjects.forEach((match, index) => {
@@ -207,7 +212,8 @@ export class ProfessionalReportGenerator {
           match.pipedriveProject?.name || 'N/A',
           match.xeroProject?.name || 'N/A',
           match.pipedriveProject?.id || 'N/A',
-          match.xeroProject?.projectId || 'N/A'
+          match.xeroProject?.projectId || 'N/A',
+          match.matchStrategy === 'manual' ? 'Manually linked' : 'Automatic'
         ]);
       });
 
@@ -221,17 +227,19 @@ export class ProfessionalReportGenerator {
         ['Value Discrepancies Report', '', '', '', '', ''],
         ['Projects with financial differences between systems', '', '', '', '', ''],
         [''],
-        ['Project Name', 'Matching Key', 'Pipedrive Value', 'Xero Value', 'Difference', 'Difference %']
+        ['Project Name', 'Matching Key', 'Pipedrive Value', 'Xero Value', 'Difference', 'Difference %', 'FX Rate Date']
       ];
 
       data.valueDiscrepancies.forEach((discrepancy) => {
+        const withCurrency = (value: number, currency?: string) => currency ? `${value.toFixed(2)} ${currency}` : value.toFixed(2);
         discrepanciesData.push([
           discrepancy.projectName,
           discrepancy.projectKey,
-          discrepancy.pipedriveValue.toFixed(2),
-          discrepancy.xeroValue.toFixed(2),
-          discrepancy.difference.toFixed(2),
-          `${discrepancy.differencePercentage.toFixed(1)}%`
+          withCurrency(discrepancy.pipedriveValue, discrepancy.pipedriveCurrency),
+          withCurrency(discrepancy.xeroValue, discrepancy.xeroCurrency),
+          discrepancy.conversionUnavailable ? 'No FX rate' : withCurrency(discrepancy.difference, discrepancy.baseCurrency),
+          discrepancy.conversionUnavailable ? '-' : `${discrepancy.differencePercentage.toFixed(1)}%`,
+          discrepancy.fxRateDate || ''
         ]);
       });
 
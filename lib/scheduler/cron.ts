@@ -0,0 +1,152 @@
+/**
+ * Minimal five-field cron expression support (minute hour day-of-month month day-of-week), evaluated in UTC
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Parses a five-field cron expression
+ *
+ * @description Supports `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and comma-separated
+ * lists in every field. Day-of-week accepts 0-7 where both 0 and 7 mean Sunday.
+ *
+ * @param {string} expression - Cron expression such as `0 7 * * 1`
+ * @returns {CronSchedule} Parsed schedule
+ * @throws {Error} If the expression does not have five valid fields
+ *
+ * @example
+ * ```typescript
+ * const schedule = parseCron('0 7 * * 1'); // 07:00 UTC every Monday
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (expression || '').trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, expression);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes: parseField(fields[0], 0, 59, expression),
+    hours: parseField(fields[1], 0, 23, expression),
+    daysOfMonth: parseField(fields[2], 1, 31, expression),
+    months: parseField(fields[3], 1, 12, expression),
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+/**
+ * Checks whether a schedule fires at the given minute
+ *
+ * @description Follows standard cron semantics: when both day-of-month and day-of-week are restricted,
+ * the schedule fires if either matches.
+ *
+ * @param {CronSchedule} schedule - Schedule from {@link parseCron}
+ * @param {Date} date - Moment to test (seconds are ignored)
+ * @returns {boolean} True if the schedule fires at that minute
+ *
+ * @example
+ * ```typescript
+ * cronMatches(parseCron('0 7 * * 1'), new Date('2025-01-06T07:00:00Z')); // true
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes()) ||
+      !schedule.hours.has(date.getUTCHours()) ||
+      !schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Finds the most recent time at or before `now` when the schedule fired
+ *
+ * @param {CronSchedule} schedule - Schedule from {@link parseCron}
+ * @param {Date} now - Upper bound for the search
+ * @param {number} [lookbackMinutes=10080] - How far back to search (default one week)
+ * @returns {Date | null} Most recent firing time, or null if none within the lookback window
+ *
+ * @example
+ * ```typescript
+ * const lastFire = getPreviousCronTime(parseCron('0 * * * *'), new Date());
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getPreviousCronTime(
+  schedule: CronSchedule,
+  now: Date,
+  lookbackMinutes: number = 7 * 24 * 60
+): Date | null {
+  const candidate = new Date(now.getTime());
+  candidate.setUTCSeconds(0, 0);
+
+  for (let i = 0; i <= lookbackMinutes; i++) {
+    if (cronMatches(schedule, candidate)) {
+      return candidate;
+    }
+    candidate.setUTCMinutes(candidate.getUTCMinutes() - 1);
+  }
+
+  return null;
+}
+
+/** Expand one cron field into the set of values it allows */
+function parseField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": bad step in "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const [startText, endText] = rangePart.split('-');
+      start = parseInt(startText, 10);
+      end = endText !== undefined ? parseInt(endText, 10) : (stepPart !== undefined ? max : start);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron expression "${expression}": "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
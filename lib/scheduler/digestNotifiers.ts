@@ -0,0 +1,151 @@
+/**
+ * Notifiers that deliver validation digests by webhook or email
+ */
+
+import nodemailer from 'nodemailer';
+import type { ValidationRunIssue } from '../validation/validationRunHistory';
+
+export interface ValidationDigest {
+  tenantId: string;
+  tenantName?: string;
+  runId: string;
+  runAt: string;
+  previousRunId?: string;
+  previousRunAt?: string;
+  newErrors: ValidationRunIssue[];
+  newInvoiceStageWrongStatus: ValidationRunIssue[];
+  newOrphanedAcceptedQuotes: ValidationRunIssue[];
+  resolvedCount: number;
+  openCount: number;
+}
+
+export interface DigestNotifier {
+  readonly name: string;
+  send(digest: ValidationDigest): Promise<void>;
+}
+
+export interface SmtpNotifierConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+/** Posts the digest as JSON, with a plain-text rendering under `text` for chat webhooks */
+export class WebhookDigestNotifier implements DigestNotifier {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async send(digest: ValidationDigest): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: formatDigestText(digest), digest })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Digest webhook returned ${response.status}`);
+    }
+  }
+}
+
+/** Sends the digest as a plain-text email over SMTP (implicit TLS or STARTTLS) */
+export class SmtpDigestNotifier implements DigestNotifier {
+  readonly name = 'smtp';
+
+  constructor(private readonly config: SmtpNotifierConfig) {}
+
+  async send(digest: ValidationDigest): Promise<void> {
+    const { host, port, secure, username, password, from, to } = this.config;
+    const transport = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      auth: username && password ? { user: username, pass: password } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS
+    });
+
+    try {
+      await transport.sendMail({
+        from,
+        to,
+        subject: formatDigestSubject(digest),
+        text: formatDigestText(digest)
+      });
+    } finally {
+      transport.close();
+    }
+  }
+}
+
+/**
+ * Returns the notifiers digests are sent to
+ * Built from the webhook and SMTP settings in environment variables
+ * @returns {DigestNotifier[]} Configured notifiers, possibly empty
+ */
+export function getDigestNotifiers(): DigestNotifier[] {
+  const notifiers: DigestNotifier[] = [];
+
+  if (process.env.VALIDATION_DIGEST_WEBHOOK_URL) {
+    notifiers.push(new WebhookDigestNotifier(process.env.VALIDATION_DIGEST_WEBHOOK_URL));
+  }
+
+  const recipients = (process.env.VALIDATION_DIGEST_TO || '').split(',').map(r => r.trim()).filter(Boolean);
+  if (process.env.SMTP_HOST && recipients.length > 0) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    notifiers.push(new SmtpDigestNotifier({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      username: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.VALIDATION_DIGEST_FROM || process.env.SMTP_USER || 'validation@localhost',
+      to: recipients
+    }));
+  }
+
+  return notifiers;
+}
+
+export function formatDigestSubject(digest: ValidationDigest): string {
+  const newCount = digest.newErrors.length + digest.newInvoiceStageWrongStatus.length + digest.newOrphanedAcceptedQuotes.length;
+  return `Validation digest for ${digest.tenantName || digest.tenantId}: ${newCount} new issue${newCount === 1 ? '' : 's'}`;
+}
+
+export function formatDigestText(digest: ValidationDigest): string {
+  const lines: string[] = [
+    formatDigestSubject(digest),
+    `Run ${digest.runId} at ${digest.runAt}` +
+      (digest.previousRunAt ? `, compared with run at ${digest.previousRunAt}` : ' (no previous run)'),
+    `${digest.resolvedCount} resolved, ${digest.openCount} open in total`,
+    ''
+  ];
+
+  const section = (title: string, issues: ValidationRunIssue[]) => {
+    if (issues.length === 0) {
+      return;
+    }
+    lines.push(`${title} (${issues.length})`);
+    issues.forEach(issue => {
+      const subject = issue.dealTitle
+        ? `${issue.dealTitle} (deal ${issue.dealId})`
+        : issue.quoteNumber ? `Quote ${issue.quoteNumber}` : issue.code;
+      lines.push(`- ${subject}: ${issue.message}`);
+    });
+    lines.push('');
+  };
+
+  section('Invoice stage deals with quotes not INVOICED', digest.newInvoiceStageWrongStatus);
+  section('Orphaned accepted quotes', digest.newOrphanedAcceptedQuotes);
+  section('Other new errors', digest.newErrors);
+
+  return lines.join('\n');
+}
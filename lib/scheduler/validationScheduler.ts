@@ -0,0 +1,293 @@
+/**
+ * Scheduled background validation
+ * Runs the validation workflow per tenant on a cron schedule and sends a digest of new issues
+ */
+
+import { ValidationOrchestrator } from '../orchestration/ValidationOrchestrator';
+import { resolvePipedriveConfig } from '../utils/tenantConfig';
+import { XeroTokenStore } from '../redis/xeroTokenStore';
+import { withRedis, withDistributedLock } from '../redis/redisClient';
+import { runWithXeroToken, type XeroTokenContext } from '../ensureXeroToken';
+import { refreshAccessToken } from '../auth';
+import {
+  buildValidationRunRecord,
+  diffValidationRuns,
+  ValidationRunStore,
+  type ValidationRunRecord
+} from '../validation/validationRunHistory';
+import { parseCron, getPreviousCronTime } from './cron';
+import { getDigestNotifiers, type ValidationDigest } from './digestNotifiers';
+import { logger } from '../logger';
+import type { XeroJWT } from '@/types/auth.types';
+
+export interface ValidationSchedule {
+  tenantId: string;
+  // User whose stored Xero refresh token is used for the run
+  userId: string;
+  cron: string;
+  enabled?: boolean;
+}
+
+export interface ScheduledRunResult {
+  tenantId: string;
+  status: 'completed' | 'skipped' | 'failed';
+  reason?: string;
+  runId?: string;
+  digestSent?: boolean;
+  newIssueCount?: number;
+}
+
+const SCHEDULER_LOCK_KEY = 'validation-scheduler';
+const SCHEDULER_LOCK_TTL_SECONDS = 30 * 60;
+const LAST_RUN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+// A tenant with no recorded run only catches up on a firing this recent, so a new schedule does not run immediately
+const FIRST_RUN_GRACE_MS = 60 * 60 * 1000;
+const TOKEN_EXPIRY_BUFFER_SECONDS = 300;
+
+/**
+ * Returns the configured validation schedules
+ * Read from the JSON array in VALIDATION_SCHEDULES, e.g. `[{"tenantId":"…","userId":"ops@example.com","cron":"0 6 * * *"}]`
+ * @returns {ValidationSchedule[]} Valid schedules; malformed entries are logged and ignored
+ */
+export function getValidationSchedules(): ValidationSchedule[] {
+  if (!process.env.VALIDATION_SCHEDULES) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(process.env.VALIDATION_SCHEDULES);
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array');
+    }
+    return parsed.filter((schedule: ValidationSchedule) => {
+      const valid = schedule && schedule.tenantId && schedule.userId && schedule.cron;
+      if (!valid) {
+        logger.warn({ schedule }, 'Ignoring incomplete validation schedule');
+      }
+      return valid;
+    });
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Invalid VALIDATION_SCHEDULES configuration');
+    return [];
+  }
+}
+
+/**
+ * Runs every validation schedule that is due
+ *
+ * @description Holds a distributed lock for the whole pass so only one instance runs scheduled validations
+ * at a time. A schedule is due when its cron expression has fired since the tenant's last scheduled run.
+ * Each due tenant is validated with the user's stored Xero refresh token, compared with the tenant's
+ * previous validation run, and a digest of new issues is sent to the configured notifiers. Failures are
+ * reported per tenant and do not stop the other tenants.
+ *
+ * @param {Date} [now=new Date()] - Time to evaluate the schedules at
+ * @returns {Promise<ScheduledRunResult[]>} One result per configured schedule
+ * @throws {Error} `Failed to acquire lock for validation-scheduler` if another instance is running
+ *
+ * @example
+ * ```typescript
+ * const results = await runScheduledValidations();
+ * results.filter(r => r.status === 'failed').forEach(r => console.error(r.tenantId, r.reason));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function runScheduledValidations(now: Date = new Date()): Promise<ScheduledRunResult[]> {
+  const schedules = getValidationSchedules();
+  if (schedules.length === 0) {
+    return [];
+  }
+
+  return withDistributedLock(SCHEDULER_LOCK_KEY, SCHEDULER_LOCK_TTL_SECONDS, async () => {
+    const results: ScheduledRunResult[] = [];
+
+    for (const schedule of schedules) {
+      if (schedule.enabled === false) {
+        results.push({ tenantId: schedule.tenantId, status: 'skipped', reason: 'Schedule disabled' });
+        continue;
+      }
+
+      let firedAt: Date | null;
+      try {
+        firedAt = getPreviousCronTime(parseCron(schedule.cron), now);
+      } catch (error) {
+        results.push({ tenantId: schedule.tenantId, status: 'failed', reason: (error as Error).message });
+        continue;
+      }
+
+      const lastRun = await getLastScheduledRun(schedule.tenantId);
+      const due = firedAt !== null && (lastRun
+        ? firedAt.getTime() > lastRun.getTime()
+        : now.getTime() - firedAt.getTime() <= FIRST_RUN_GRACE_MS);
+
+      if (!due) {
+        results.push({ tenantId: schedule.tenantId, status: 'skipped', reason: 'Not due' });
+        continue;
+      }
+
+      try {
+        results.push(await runScheduledValidation(schedule));
+      } catch (error) {
+        logger.error({
+          tenantId: schedule.tenantId,
+          error: (error as Error).message
+        }, 'Scheduled validation failed');
+        results.push({ tenantId: schedule.tenantId, status: 'failed', reason: (error as Error).message });
+      }
+
+      // Record the attempt even on failure so a broken tenant is retried at its next firing, not every pass
+      await setLastScheduledRun(schedule.tenantId, now);
+    }
+
+    return results;
+  });
+}
+
+/** Validate one tenant and send the digest of issues that are new since its previous run */
+async function runScheduledValidation(schedule: ValidationSchedule): Promise<ScheduledRunResult> {
+  const { tenantId } = schedule;
+  const token = await getSchedulerToken(schedule);
+
+  const pipedriveConfig = await resolvePipedriveConfig(tenantId);
+  if (!pipedriveConfig) {
+    throw new Error(`Pipedrive is not configured for tenant ${tenantId}`);
+  }
+
+  // Read the previous run before validating, since the workflow stores the new run in the same history
+  const [previousItem] = await ValidationRunStore.list(tenantId, 1);
+  const previousRun = previousItem ? await ValidationRunStore.get(tenantId, previousItem.id) : null;
+
+  logger.info({ tenantId, cron: schedule.cron }, 'Starting scheduled validation');
+
+  const session = await runWithXeroToken(token, () =>
+    new ValidationOrchestrator().executeValidationWorkflow(tenantId, pipedriveConfig)
+  );
+  const results = session.validationResults;
+  if (!results) {
+    throw new Error('Validation completed without results');
+  }
+
+  const currentRun = buildValidationRunRecord({
+    id: session.id,
+    tenantId,
+    tenantName: session.tenantName,
+    timestamp: results.timestamp,
+    summary: results.summary,
+    issues: results.issues
+  });
+
+  const digest = buildDigest(currentRun, previousRun);
+  const newIssueCount = digest.newErrors.length +
+    digest.newInvoiceStageWrongStatus.length +
+    digest.newOrphanedAcceptedQuotes.length;
+
+  let digestSent = false;
+  if (newIssueCount > 0) {
+    digestSent = await sendDigest(digest);
+  }
+
+  logger.info({ tenantId, runId: session.id, newIssueCount, digestSent }, 'Scheduled validation completed');
+
+  return { tenantId, status: 'completed', runId: session.id, digestSent, newIssueCount };
+}
+
+/** Split the issues introduced since the previous run into the digest sections */
+function buildDigest(currentRun: ValidationRunRecord, previousRun: ValidationRunRecord | null): ValidationDigest {
+  // Without a previous run every issue is new
+  const diff = previousRun ? diffValidationRuns(previousRun, currentRun) : null;
+  const introduced = diff ? diff.introduced : currentRun.issues;
+
+  return {
+    tenantId: currentRun.tenantId,
+    tenantName: currentRun.tenantName,
+    runId: currentRun.id,
+    runAt: currentRun.timestamp,
+    previousRunId: previousRun?.id,
+    previousRunAt: previousRun?.timestamp,
+    newInvoiceStageWrongStatus: introduced.filter(issue => issue.code === 'INVOICE_STAGE_WRONG_STATUS'),
+    newOrphanedAcceptedQuotes: introduced.filter(issue => issue.code === 'ORPHANED_ACCEPTED_QUOTE'),
+    newErrors: introduced.filter(issue =>
+      issue.severity === 'error' &&
+      issue.code !== 'INVOICE_STAGE_WRONG_STATUS' &&
+      issue.code !== 'ORPHANED_ACCEPTED_QUOTE'
+    ),
+    resolvedCount: diff ? diff.counts.resolved : 0,
+    openCount: currentRun.issueCount
+  };
+}
+
+/** Send the digest to every notifier; returns true if at least one delivered it */
+async function sendDigest(digest: ValidationDigest): Promise<boolean> {
+  const notifiers = getDigestNotifiers();
+  if (notifiers.length === 0) {
+    logger.warn({ tenantId: digest.tenantId }, 'No digest notifiers configured');
+    return false;
+  }
+
+  let delivered = false;
+  for (const notifier of notifiers) {
+    try {
+      await notifier.send(digest);
+      delivered = true;
+    } catch (error) {
+      logger.error({
+        tenantId: digest.tenantId,
+        notifier: notifier.name,
+        error: (error as Error).message
+      }, 'Failed to send validation digest');
+    }
+  }
+  return delivered;
+}
+
+/** Build a Xero token for the schedule's user, refreshing and storing it when it is about to expire */
+async function getSchedulerToken(schedule: ValidationSchedule): Promise<XeroTokenContext> {
+  const stored = await XeroTokenStore.getRefreshToken(schedule.userId);
+  if (!stored?.refresh_token) {
+    throw new Error(`No stored Xero refresh token for user ${schedule.userId}`);
+  }
+
+  let { access_token, refresh_token, expires_at } = stored;
+  let tenants = stored.tenants || [];
+
+  if (!access_token || expires_at - TOKEN_EXPIRY_BUFFER_SECONDS <= Math.floor(Date.now() / 1000)) {
+    const refreshed = await refreshAccessToken({ ...stored } as XeroJWT);
+    if (refreshed.error || !refreshed.access_token || !refreshed.refresh_token) {
+      throw new Error(`Failed to refresh Xero token for user ${schedule.userId}: ${refreshed.error || 'no token returned'}`);
+    }
+
+    access_token = refreshed.access_token;
+    refresh_token = refreshed.refresh_token;
+    expires_at = refreshed.expires_at || Math.floor(Date.now() / 1000) + 1800;
+    tenants = refreshed.tenants || tenants;
+
+    // Xero rotates refresh tokens, so the new one must be stored before the old one stops working
+    await XeroTokenStore.updateToken(schedule.userId, access_token, refresh_token, expires_at, tenants);
+  }
+
+  if (tenants.length > 0 && !tenants.some(tenant => tenant.tenantId === schedule.tenantId)) {
+    throw new Error(`User ${schedule.userId} has no access to tenant ${schedule.tenantId}`);
+  }
+
+  return {
+    access_token,
+    refresh_token,
+    effective_tenant_id: schedule.tenantId,
+    available_tenants: tenants,
+    expires_at
+  };
+}
+
+async function getLastScheduledRun(tenantId: string): Promise<Date | null> {
+  return withRedis(async (redis) => {
+    const value = await redis.get(`validation-scheduler:${tenantId}:last-run`);
+    return value ? new Date(value) : null;
+  });
+}
+
+async function setLastScheduledRun(tenantId: string, runAt: Date): Promise<void> {
+  await withRedis(async (redis) => {
+    await redis.set(`validation-scheduler:${tenantId}:last-run`, runAt.toISOString(), 'EX', LAST_RUN_TTL_SECONDS);
+  });
+}
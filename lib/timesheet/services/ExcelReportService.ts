@@ -58,6 +58,8 @@ interface ExcelReportData {
   results: TaskResult[];
   costVerification?: CostVerification;
   changes?: any;
+  // Set once the changes were written to Xero; quoted to roll the run back
+  runId?: string;
 }
 
 export class ExcelReportService {
@@ -95,6 +97,7 @@ export class ExcelReportService {
       [],
       ['Report Generated:', new Date().toISOString()],
       ['Period:', data.metadata.period_range],
+      ['Run ID:', data.runId || 'Not applied to Xero'],
       [],
       ['Summary Statistics'],
       ['Metric', 'Value'],
@@ -114,7 +117,7 @@ export class ExcelReportService {
     
     // Apply formatting
     ws['A1'].s = { font: { bold: true, sz: 16 } };
-    ws['A6'].s = { font: { bold: true, sz: 14 } };
+    ws['A7'].s = { font: { bold: true, sz: 14 } };
     
     // Set column widths
     ws['!cols'] = [{ wch: 25 }, { wch: 20 }];
@@ -398,6 +401,8 @@ export class ExcelReportService {
       [],
       ['Report Generated:', new Date().toISOString()],
       ['Status:', summary.success ? 'All Updates Successful' : 'Updates Completed with Errors'],
+      ['Run ID:', summary.runId || 'N/A'],
+      ['Rollback:', summary.runId ? 'Roll this run back from the timesheet results, or POST the run ID to /api/xero/timesheet-runs/rollback' : 'N/A'],
       [],
       ['Summary'],
       ['Metric', 'Value'],
@@ -413,7 +418,7 @@ export class ExcelReportService {
     
     // Apply formatting
     ws['A1'].s = { font: { bold: true, sz: 16 } };
-    ws['A6'].s = { font: { bold: true, sz: 14 } };
+    ws['A8'].s = { font: { bold: true, sz: 14 } };
     
     // Set column widths
     ws['!cols'] = [{ wch: 25 }, { wch: 20 }];
@@ -1,7 +1,7 @@
 // FileValidationService.ts
 // Service for validating and processing uploaded files
 
-import { FilePreview } from '../types';
+import { FilePreview, TimesheetValidationResult } from '../types';
 
 export class FileValidationService {
   private readonly ALLOWED_EXTENSIONS = ['.xlsx', '.xls'];
@@ -48,6 +48,20 @@ export class FileValidationService {
     };
   }
 
+  // Parse an uploaded timesheet with the selected profile and report row errors; nothing is sent to Xero
+  async validateTimesheet(blobUrl: string, profileId: string): Promise<TimesheetValidationResult> {
+    const response = await fetch('/api/xero/validate-timesheet', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ blobUrl, profileId })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Timesheet validation failed: ${response.status}`);
+    }
+    return data;
+  }
+
   private getFileExtension(fileName: string): string {
     const lastDotIndex = fileName.lastIndexOf('.');
     return lastDotIndex > -1 ? fileName.substring(lastDotIndex) : '';
@@ -0,0 +1,478 @@
+// TimesheetParserService.ts
+// Parses timesheet workbooks and consolidates entries into Xero project tasks
+
+import * as XLSX from 'xlsx';
+import { createHash } from 'crypto';
+import {
+  ConsolidatedPayload,
+  ConsolidatedTask,
+  TimesheetColumn,
+  TimesheetCostVerification,
+  TimesheetDateFormat,
+  TimesheetEntry,
+  TimesheetProfile,
+  TimesheetRowError
+} from '../types';
+
+// Header names recognised for each column when a profile does not map it, compared lowercase without punctuation
+const COLUMN_HEADERS: Record<TimesheetColumn, string[]> = {
+  employee: ['employee', 'employee name', 'name', 'staff', 'staff name'],
+  date: ['date', 'work date', 'entry date'],
+  jobCode: ['job code', 'job no', 'job number', 'job', 'project code'],
+  department: ['department', 'dept', 'division'],
+  hours: ['hours', 'total hours', 'hrs'],
+  cost: ['cost', 'total cost', 'amount']
+};
+
+const REQUIRED_TIMESHEET_COLUMNS: TimesheetColumn[] = ['jobCode', 'department', 'hours', 'cost'];
+
+// Rows searched for the header row when the profile does not give one
+const HEADER_SEARCH_ROWS = 20;
+
+// Largest workbook downloaded, the same as the upload limit in FileValidationService
+const MAX_TIMESHEET_BYTES = 50 * 1024 * 1024;
+
+// Public hosts of Vercel Blob stores are <storeId>.public.blob.vercel-storage.com
+const BLOB_HOST_SUFFIX = '.public.blob.vercel-storage.com';
+
+// Per-job difference between file cost and rate × minutes tolerated as rounding, in currency units
+const VERIFICATION_TOLERANCE = 1;
+
+// Layout used when no profile is selected: any sheet, detected header row, common header names
+export const STANDARD_TIMESHEET_PROFILE: TimesheetProfile = {
+  id: 'standard',
+  name: 'Standard export',
+  builtIn: true
+};
+
+export interface ParsedTimesheet {
+  metadata: {
+    creation_date: string;
+    period_range: string;
+    entries_processed: number;
+    entries_grouped: number;
+    projects_consolidated: number;
+  };
+  entries: TimesheetEntry[];
+  consolidated_payload: ConsolidatedPayload;
+  cost_verification: TimesheetCostVerification;
+  // Rows left out because they do not fit the profile
+  rowErrors: TimesheetRowError[];
+}
+
+export interface TimesheetParseOptions {
+  tenantId: string;
+  // Currency of the task rates
+  currency: string;
+  profile?: TimesheetProfile;
+}
+
+export class TimesheetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimesheetParseError';
+  }
+}
+
+// Rows that do not fit the selected profile; nothing is sent to Xero until they are fixed
+export class TimesheetValidationError extends TimesheetParseError {
+  constructor(public readonly rowErrors: TimesheetRowError[]) {
+    super(`${rowErrors.length} timesheet row error${rowErrors.length === 1 ? '' : 's'}; fix the file or choose another format profile`);
+    this.name = 'TimesheetValidationError';
+  }
+}
+
+const normalizeHeader = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const isTotalLabel = (value: unknown): boolean =>
+  typeof value === 'string' && /^(sub|grand)?\s*total\b/i.test(value.trim());
+
+// One or two capital letters name a column by position, e.g. "C" or "AB"
+const isColumnLetter = (value: string): boolean => /^[A-Z]{1,2}$/.test(value.trim());
+
+const COLUMN_LABELS: Record<TimesheetColumn, string> = {
+  employee: 'Employee',
+  date: 'Date',
+  jobCode: 'Job code',
+  department: 'Department',
+  hours: 'Hours',
+  cost: 'Cost'
+};
+
+/**
+ * Checks that a timesheet URL points into the app's own Vercel Blob store
+ * @description The store ID is read from BLOB_READ_WRITE_TOKEN (`vercel_blob_rw_<storeId>_<secret>`), so only
+ * https URLs on that store's host are downloaded; anything else could make the server fetch arbitrary URLs.
+ * @param {string} blobUrl - URL supplied by the client
+ * @returns {boolean} True if the URL may be downloaded
+ */
+export function isTimesheetBlobUrl(blobUrl: string): boolean {
+  const storeId = (process.env.BLOB_READ_WRITE_TOKEN || '').split('_')[3];
+  if (!storeId) return false;
+  try {
+    const url = new URL(blobUrl);
+    return url.protocol === 'https:' && url.hostname === `${storeId.toLowerCase()}${BLOB_HOST_SUFFIX}`;
+  } catch {
+    return false;
+  }
+}
+
+// Read a download into memory, stopping as soon as it is larger than MAX_TIMESHEET_BYTES
+async function readLimited(response: Response): Promise<Buffer> {
+  const tooLarge = () => new TimesheetParseError(`Timesheet is larger than the ${MAX_TIMESHEET_BYTES / (1024 * 1024)}MB limit`);
+  if (Number(response.headers.get('content-length')) > MAX_TIMESHEET_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_TIMESHEET_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export class TimesheetParserService {
+  /**
+   * Downloads a timesheet from blob storage and parses it
+   *
+   * @param {string} blobUrl - URL of the uploaded workbook in the app's blob store
+   * @param {TimesheetParseOptions} options - Tenant, rate currency and profile
+   * @returns {Promise<ParsedTimesheet>} See {@link parse}
+   * @throws {Error} If the download fails
+   * @throws {TimesheetParseError} If the URL is not in the app's blob store, the file is over the size limit,
+   * or the workbook does not fit the profile
+   */
+  async parseFromUrl(blobUrl: string, options: TimesheetParseOptions): Promise<ParsedTimesheet> {
+    if (!isTimesheetBlobUrl(blobUrl)) {
+      throw new TimesheetParseError('Timesheet URL is not in this app\'s blob storage');
+    }
+    const response = await fetch(blobUrl, { redirect: 'error' });
+    if (!response.ok) {
+      throw new Error(`Failed to download timesheet: ${response.status}`);
+    }
+    return this.parse(await readLimited(response), options);
+  }
+
+  /**
+   * Parses a timesheet workbook and consolidates its entries by job code and department
+   *
+   * @description Reads the sheet, header row and columns given by the profile, or detects them for the
+   * standard layout. Each job code becomes a project and each department within it a task, with the summed
+   * hours as `estimateMinutes` and the average cost per hour as the rate in cents. Rows that do not fit the
+   * profile are left out and reported in `rowErrors` with their row number; total rows are ignored.
+   *
+   * @param {ArrayBuffer | Buffer} data - Workbook contents (.xlsx or .xls)
+   * @param {TimesheetParseOptions} options - Tenant, rate currency and profile
+   * @returns {ParsedTimesheet} Entries, consolidated tasks, period metadata, cost verification and row errors
+   * @throws {TimesheetParseError} If the workbook cannot be read, or its sheet or header row does not match the profile
+   *
+   * @example
+   * ```typescript
+   * const parsed = new TimesheetParserService().parse(buffer, { tenantId, currency: 'SGD', profile });
+   * if (parsed.rowErrors.length > 0) console.log(parsed.rowErrors);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  parse(data: ArrayBuffer | Buffer, options: TimesheetParseOptions): ParsedTimesheet {
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(data, { type: Buffer.isBuffer(data) ? 'buffer' : 'array', cellDates: true });
+    } catch (error) {
+      throw new TimesheetParseError(`Timesheet could not be read as a workbook: ${(error as Error).message}`);
+    }
+
+    const profile = options.profile || STANDARD_TIMESHEET_PROFILE;
+    const { entries, rowErrors } = this.readEntries(workbook, profile);
+    const consolidated_payload = this.consolidate(entries, options);
+    const dates = entries.map(e => e.date).filter((d): d is string => !!d).sort();
+    const period_range = dates.length > 0 ? `${dates[0]} to ${dates[dates.length - 1]}` : 'Unknown';
+
+    return {
+      metadata: {
+        creation_date: (workbook.Props?.CreatedDate ? new Date(workbook.Props.CreatedDate) : new Date()).toISOString(),
+        period_range,
+        entries_processed: entries.length,
+        entries_grouped: Object.values(consolidated_payload).reduce((sum, tasks) => sum + tasks.length, 0),
+        projects_consolidated: Object.keys(consolidated_payload).length
+      },
+      entries,
+      consolidated_payload,
+      cost_verification: this.verifyCosts(entries, consolidated_payload),
+      rowErrors
+    };
+  }
+
+  private readEntries(
+    workbook: XLSX.WorkBook,
+    profile: TimesheetProfile
+  ): { entries: TimesheetEntry[]; rowErrors: TimesheetRowError[] } {
+    if (profile.sheetName && !workbook.Sheets[profile.sheetName]) {
+      throw new TimesheetParseError(`Sheet "${profile.sheetName}" not found; the workbook has ${workbook.SheetNames.join(', ')}`);
+    }
+
+    const sheetNames = profile.sheetName ? [profile.sheetName] : workbook.SheetNames;
+    let headerError: string | null = null;
+    for (const sheetName of sheetNames) {
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: true, defval: null });
+      const header = this.findHeaderRow(rows, profile);
+      if ('error' in header) {
+        headerError = headerError || `${header.error} in sheet "${sheetName}"`;
+        continue;
+      }
+      return this.readRows(rows, header.rowIndex, header.columns, profile);
+    }
+
+    throw new TimesheetParseError(
+      headerError || `No sheet has a header row with ${REQUIRED_TIMESHEET_COLUMNS.map(c => COLUMN_LABELS[c]).join(', ')} columns`
+    );
+  }
+
+  private readRows(
+    rows: unknown[][],
+    headerIndex: number,
+    columns: Partial<Record<TimesheetColumn, number>>,
+    profile: TimesheetProfile
+  ): { entries: TimesheetEntry[]; rowErrors: TimesheetRowError[] } {
+    const entries: TimesheetEntry[] = [];
+    const rowErrors: TimesheetRowError[] = [];
+    const cell = (row: unknown[], column: TimesheetColumn) =>
+      columns[column] === undefined ? null : row[columns[column]!] ?? null;
+    const isBlank = (value: unknown) => value === null || String(value).trim() === '';
+
+    for (let index = headerIndex + 1; index < rows.length; index++) {
+      const row = rows[index] || [];
+      const rowNumber = index + 1;
+      if (row.every(isBlank)) continue;
+
+      const jobCode = this.normalizeJobCode(cell(row, 'jobCode'));
+      // Subtotal and grand total rows are not entries, whichever column holds the label
+      if (isTotalLabel(cell(row, 'jobCode')) || (!jobCode && row.some(isTotalLabel))) continue;
+
+      const errors: TimesheetRowError[] = [];
+      if (!jobCode) {
+        errors.push({ row: rowNumber, column: 'jobCode', message: 'Job code is empty' });
+      }
+      const department = String(cell(row, 'department') ?? '').trim();
+      if (!department) {
+        errors.push({ row: rowNumber, column: 'department', message: 'Department is empty' });
+      }
+      const hours = this.parseNumber(cell(row, 'hours'));
+      if (hours === null) {
+        errors.push({ row: rowNumber, column: 'hours', message: `Hours "${cell(row, 'hours') ?? ''}" is not a number` });
+      }
+      const cost = this.parseNumber(cell(row, 'cost'));
+      if (cost === null) {
+        errors.push({ row: rowNumber, column: 'cost', message: `Cost "${cell(row, 'cost') ?? ''}" is not a number` });
+      }
+      const rawDate = cell(row, 'date');
+      const date = isBlank(rawDate) ? undefined : this.parseDate(rawDate, profile.dateFormat);
+      if (!isBlank(rawDate) && !date) {
+        errors.push({
+          row: rowNumber,
+          column: 'date',
+          message: `Date "${rawDate}" does not match ${profile.dateFormat || 'YYYY-MM-DD or DD/MM/YYYY'}`
+        });
+      }
+
+      if (errors.length > 0) {
+        rowErrors.push(...errors);
+        continue;
+      }
+
+      const employee = cell(row, 'employee');
+      entries.push({
+        row: rowNumber,
+        employee: isBlank(employee) ? undefined : String(employee).trim(),
+        date,
+        jobCode,
+        department,
+        hours: hours!,
+        cost: cost!
+      });
+    }
+
+    return { entries, rowErrors };
+  }
+
+  // Header row and column positions from the profile, or detected from common header names
+  private findHeaderRow(
+    rows: unknown[][],
+    profile: TimesheetProfile
+  ): { rowIndex: number; columns: Partial<Record<TimesheetColumn, number>> } | { error: string } {
+    const candidates = profile.headerRow
+      ? [profile.headerRow - 1]
+      : Array.from({ length: Math.min(rows.length, HEADER_SEARCH_ROWS) }, (_, i) => i);
+
+    let lastMissing: TimesheetColumn[] = REQUIRED_TIMESHEET_COLUMNS;
+    for (const rowIndex of candidates) {
+      const headers = (rows[rowIndex] || []).map(normalizeHeader);
+      const columns: Partial<Record<TimesheetColumn, number>> = {};
+      for (const column of Object.keys(COLUMN_HEADERS) as TimesheetColumn[]) {
+        const mapped = profile.columns?.[column]?.trim();
+        if (mapped && isColumnLetter(mapped)) {
+          columns[column] = XLSX.utils.decode_col(mapped);
+          continue;
+        }
+        const names = mapped ? [normalizeHeader(mapped)] : COLUMN_HEADERS[column];
+        const position = headers.findIndex(h => names.includes(h));
+        if (position >= 0) columns[column] = position;
+      }
+
+      // Mapped optional columns must exist too, so a misspelt header is not silently ignored
+      const expected = (Object.keys(COLUMN_HEADERS) as TimesheetColumn[])
+        .filter(column => REQUIRED_TIMESHEET_COLUMNS.includes(column) || profile.columns?.[column]);
+      const missing = expected.filter(column => columns[column] === undefined);
+      if (missing.length === 0) {
+        return { rowIndex, columns };
+      }
+      lastMissing = missing;
+    }
+
+    const describe = (column: TimesheetColumn) =>
+      profile.columns?.[column] ? `"${profile.columns[column]}" (${COLUMN_LABELS[column]})` : COLUMN_LABELS[column];
+    return {
+      error: profile.headerRow
+        ? `Header row ${profile.headerRow} is missing ${lastMissing.map(describe).join(', ')}`
+        : `No header row with ${REQUIRED_TIMESHEET_COLUMNS.map(describe).join(', ')} columns`
+    };
+  }
+
+  // "NY250388 - USS SAVANNAH" -> "NY250388"
+  private normalizeJobCode(value: unknown): string {
+    const text = String(value ?? '').trim().toUpperCase();
+    return text.split(/\s+-\s+|\s+/)[0] || '';
+  }
+
+  private parseNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (value === null || value === undefined) return null;
+    const cleaned = String(value).replace(/[^0-9.\-]/g, '');
+    if (!cleaned) return null;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  // Excel dates and serial numbers, or text in the profile's format; ISO or day-first text without one
+  private parseDate(value: unknown, format?: TimesheetDateFormat): string | undefined {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const valid = (y: number, m: number, d: number) => {
+      const date = new Date(Date.UTC(y, m - 1, d));
+      return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d
+        ? `${y}-${pad(m)}-${pad(d)}`
+        : undefined;
+    };
+
+    if (value instanceof Date && !isNaN(value.getTime())) {
+      return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    if (typeof value === 'number') {
+      const parsed = XLSX.SSF.parse_date_code(value);
+      return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : undefined;
+    }
+
+    const text = String(value ?? '').trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const slashed = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (format === 'YYYY-MM-DD' || !format) {
+      if (iso) return valid(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+      if (format) return undefined;
+    }
+    if (!slashed) return undefined;
+    return format === 'MM/DD/YYYY'
+      ? valid(Number(slashed[3]), Number(slashed[1]), Number(slashed[2]))
+      : valid(Number(slashed[3]), Number(slashed[2]), Number(slashed[1]));
+  }
+
+  // Groups entries by job code and department into tasks; used by parse, and for a subset of entries when merging uploads
+  consolidate(entries: TimesheetEntry[], options: TimesheetParseOptions): ConsolidatedPayload {
+    const groups = new Map<string, Map<string, { hours: number; cost: number }>>();
+    for (const entry of entries) {
+      const departments = groups.get(entry.jobCode) || new Map();
+      const totals = departments.get(entry.department) || { hours: 0, cost: 0 };
+      totals.hours += entry.hours;
+      totals.cost += entry.cost;
+      departments.set(entry.department, totals);
+      groups.set(entry.jobCode, departments);
+    }
+
+    const payload: ConsolidatedPayload = {};
+    for (const jobCode of Array.from(groups.keys()).sort()) {
+      const tasks: ConsolidatedTask[] = [];
+      for (const [department, totals] of groups.get(jobCode)!) {
+        if (totals.hours <= 0) continue;
+        const estimateMinutes = Math.round(totals.hours * 60);
+        const rateCents = Math.round((totals.cost / totals.hours) * 100);
+        tasks.push({
+          name: department,
+          rate: { currency: options.currency, value: String(rateCents) },
+          chargeType: 'TIME',
+          estimateMinutes,
+          // Same file, same task: Xero ignores a repeated create
+          idempotencyKey: createHash('sha256')
+            .update([options.tenantId, jobCode, department, estimateMinutes, rateCents].join('|'))
+            .digest('hex')
+        });
+      }
+      if (tasks.length > 0) payload[jobCode] = tasks;
+    }
+    return payload;
+  }
+
+  // Compares the file's cost totals with rate × minutes of the consolidated tasks, job by job
+  private verifyCosts(entries: TimesheetEntry[], payload: ConsolidatedPayload): TimesheetCostVerification {
+    const isNyJob = (jobCode: string) => jobCode.startsWith('NY');
+    const excelByJob = new Map<string, number>();
+    let excelNavy = 0;
+    let excelAll = 0;
+    for (const entry of entries) {
+      excelAll += entry.cost;
+      excelByJob.set(entry.jobCode, (excelByJob.get(entry.jobCode) || 0) + entry.cost);
+      if (isNyJob(entry.jobCode) && /navy/i.test(entry.department)) {
+        excelNavy += entry.cost;
+      }
+    }
+
+    const discrepancies: TimesheetCostVerification['discrepancies'] = [];
+    let ourNy = 0;
+    let excelNy = 0;
+    for (const [jobCode, excelTotal] of excelByJob) {
+      const ourCalculated = roundCurrency((payload[jobCode] || [])
+        .reduce((sum, task) => sum + (Number(task.rate.value) / 100) * (task.estimateMinutes / 60), 0));
+      if (isNyJob(jobCode)) {
+        ourNy += ourCalculated;
+        excelNy += excelTotal;
+      }
+      const difference = roundCurrency(ourCalculated - excelTotal);
+      if (Math.abs(difference) > VERIFICATION_TOLERANCE) {
+        discrepancies.push({ job_code: jobCode, our_calculated: ourCalculated, excel_total: roundCurrency(excelTotal), difference });
+      }
+    }
+
+    return {
+      verification_performed: entries.length > 0,
+      calculations_match: discrepancies.length === 0,
+      our_total_all_depts_ny_jobs: roundCurrency(ourNy),
+      excel_total_all_depts_ny_jobs: roundCurrency(excelNy),
+      excel_navy_only_ny_jobs: roundCurrency(excelNavy),
+      excel_non_navy_ny_jobs: roundCurrency(excelNy - excelNavy),
+      difference: roundCurrency(ourNy - excelNy),
+      excel_all_jobs_all_depts: roundCurrency(excelAll),
+      discrepancies
+    };
+  }
+}
@@ -0,0 +1,318 @@
+// TimesheetPeriodStore.ts
+// Records the periods and entries of timesheet uploads applied to Xero, to detect repeated and overlapping uploads (server only)
+
+import { createHash, randomUUID } from 'crypto';
+import { withRedis } from '../../redis/redisClient';
+import { TimesheetEntry, TimesheetPeriodCheck, TimesheetUpdateMode } from '../types';
+
+// Uploads processed but not applied are kept this long for the apply step
+const PENDING_RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Applied uploads kept per tenant, about a year of weekly uploads; older ones are no longer checked for repeats
+const MAX_APPLIED_RECORDS_KEPT = 52;
+
+// Entries of an upload that feed one Xero task, kept until the apply step reports whether the task changed
+export interface TimesheetPeriodTask {
+  projectId: string;
+  taskName: string;
+  // False when Xero already matched the entries, so they count as applied without a change
+  changed: boolean;
+  fingerprints: string[];
+  periodStart?: string;
+  periodEnd?: string;
+  entryCount: number;
+}
+
+// Xero task an entry's hours are applied to, or null if its project was not found in Xero
+export type TimesheetPeriodTarget = (entry: TimesheetEntry) => { projectId: string; changed: boolean } | null;
+
+export interface TimesheetPeriodRecord {
+  id: string;
+  tenantId: string;
+  fileName?: string;
+  // Period and entries actually applied; empty while pending
+  periodStart?: string;
+  periodEnd?: string;
+  entryCount: number;
+  // Fingerprints of the entries applied by this upload, see fingerprintEntries
+  fingerprints: string[];
+  // Entries by task while pending
+  tasks?: TimesheetPeriodTask[];
+  mode: TimesheetUpdateMode;
+  // pending until the upload's changes are applied to Xero
+  status: 'pending' | 'applied';
+  runId?: string;
+  createdAt: string;
+  appliedAt?: string;
+}
+
+// Redis-backed store: one hash per tenant keyed by record ID; stale pending records and the oldest applied records are pruned on save
+export class TimesheetPeriodStore {
+  private static key(tenantId: string): string {
+    return `timesheet-periods:${tenantId}`;
+  }
+
+  static async list(tenantId: string): Promise<TimesheetPeriodRecord[]> {
+    return withRedis(async (redis) => {
+      const values = await redis.hvals(this.key(tenantId));
+      return values
+        .map(value => JSON.parse(value) as TimesheetPeriodRecord)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    });
+  }
+
+  static async get(tenantId: string, id: string): Promise<TimesheetPeriodRecord | null> {
+    return withRedis(async (redis) => {
+      const value = await redis.hget(this.key(tenantId), id);
+      return value ? JSON.parse(value) : null;
+    });
+  }
+
+  static async save(record: TimesheetPeriodRecord): Promise<void> {
+    const cutoff = new Date(Date.now() - PENDING_RECORD_TTL_MS).toISOString();
+    const others = (await this.list(record.tenantId)).filter(existing => existing.id !== record.id);
+    const stalePending = others
+      .filter(existing => existing.status === 'pending' && existing.createdAt < cutoff)
+      .map(existing => existing.id);
+    const applied = [...others, record].filter(existing => existing.status === 'applied');
+    const appliedAt = (existing: TimesheetPeriodRecord) => existing.appliedAt || existing.createdAt;
+    const staleApplied = applied
+      .sort((a, b) => appliedAt(b).localeCompare(appliedAt(a)))
+      .slice(MAX_APPLIED_RECORDS_KEPT)
+      .map(existing => existing.id);
+    const stale = [...stalePending, ...staleApplied];
+
+    await withRedis(async (redis) => {
+      await redis.hset(this.key(record.tenantId), record.id, JSON.stringify(record));
+      if (stale.length > 0) {
+        await redis.hdel(this.key(record.tenantId), ...stale);
+      }
+    });
+  }
+
+  static async delete(tenantId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await withRedis(async (redis) => {
+      await redis.hdel(this.key(tenantId), ...ids);
+    });
+  }
+}
+
+/**
+ * Identifies timesheet entries across uploads
+ * @description Built from the employee, date, job code, department, hours and cost, not the row number,
+ * so the same entry in a re-exported or extended file has the same fingerprint. Identical entries in one
+ * file are numbered so each is matched once. Entries without a date get no fingerprint: without it a later
+ * week with the same hours on the same job would look like a repeat.
+ * @param {TimesheetEntry[]} entries - Parsed entries of one upload
+ * @returns {Array<string | null>} 32-character hex fingerprint per entry, or null for an undated entry
+ */
+export function fingerprintEntries(entries: TimesheetEntry[]): Array<string | null> {
+  const occurrences = new Map<string, number>();
+  return entries.map(entry => {
+    if (!entry.date) return null;
+    const key = [
+      (entry.employee || '').toLowerCase(),
+      entry.date,
+      entry.jobCode,
+      entry.department.toLowerCase(),
+      entry.hours.toFixed(4),
+      entry.cost.toFixed(2)
+    ].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return createHash('sha256').update(`${key}|${occurrence}`).digest('hex').slice(0, 32);
+  });
+}
+
+// Tasks are matched by name in Xero, case-insensitively
+const taskKey = (projectId: string, taskName: string): string => `${projectId}|${taskName.toLowerCase()}`;
+
+// First and last entry date, when the entries have dates
+function periodOf(entries: TimesheetEntry[]): { periodStart?: string; periodEnd?: string } {
+  const dates = entries.map(entry => entry.date).filter((date): date is string => !!date).sort();
+  return dates.length > 0 ? { periodStart: dates[0], periodEnd: dates[dates.length - 1] } : {};
+}
+
+/**
+ * Compares an upload with the uploads already applied to Xero for the tenant
+ *
+ * @description An applied upload overlaps when its date range intersects the upload's or when the two share
+ * entries. The check reports how many of the upload's entries were applied before, so they can be left out
+ * when the upload is merged. Undated entries cannot be matched and always count as new.
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @param {TimesheetEntry[]} entries - The upload's parsed entries
+ * @returns {Promise<{ check: TimesheetPeriodCheck; appliedFingerprints: Set<string> }>} The check, and the fingerprints already applied
+ *
+ * @example
+ * ```typescript
+ * const { check, appliedFingerprints } = await checkTimesheetPeriod(tenantId, parsed.entries);
+ * const fingerprints = fingerprintEntries(parsed.entries);
+ * const newEntries = parsed.entries.filter((entry, index) => !appliedFingerprints.has(fingerprints[index] || ''));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function checkTimesheetPeriod(
+  tenantId: string,
+  entries: TimesheetEntry[]
+): Promise<{ check: TimesheetPeriodCheck; appliedFingerprints: Set<string> }> {
+  const applied = (await TimesheetPeriodStore.list(tenantId)).filter(record => record.status === 'applied');
+  const appliedFingerprints = new Set(applied.flatMap(record => record.fingerprints));
+  const fingerprints = fingerprintEntries(entries).filter((fingerprint): fingerprint is string => !!fingerprint);
+  const { periodStart, periodEnd } = periodOf(entries);
+
+  const overlapping = applied.filter(record => {
+    const datesOverlap = !!(periodStart && periodEnd && record.periodStart && record.periodEnd &&
+      periodStart <= record.periodEnd && record.periodStart <= periodEnd);
+    if (datesOverlap) return true;
+    const recordFingerprints = new Set(record.fingerprints);
+    return fingerprints.some(fingerprint => recordFingerprints.has(fingerprint));
+  });
+
+  const duplicateEntries = fingerprints.filter(fingerprint => appliedFingerprints.has(fingerprint)).length;
+  const status: TimesheetPeriodCheck['status'] = entries.length > 0 && duplicateEntries === entries.length
+    ? 'duplicate'
+    : overlapping.length > 0 ? 'overlap' : 'new';
+
+  return {
+    check: {
+      status,
+      periodStart,
+      periodEnd,
+      totalEntries: entries.length,
+      duplicateEntries,
+      newEntries: entries.length - duplicateEntries,
+      undatedEntries: entries.length - fingerprints.length,
+      overlapping: overlapping.map(record => ({
+        id: record.id,
+        fileName: record.fileName,
+        periodStart: record.periodStart,
+        periodEnd: record.periodEnd,
+        entryCount: record.entryCount,
+        runId: record.runId,
+        appliedAt: record.appliedAt
+      }))
+    },
+    appliedFingerprints
+  };
+}
+
+/**
+ * Stores an upload's entries by Xero task until its changes are applied
+ * @param {string} tenantId - Xero tenant ID
+ * @param {TimesheetEntry[]} entries - Entries the upload's changes were built from
+ * @param {{ fileName?: string; mode: TimesheetUpdateMode; targetOf: TimesheetPeriodTarget }} details - File name,
+ * update mode and the task each entry feeds; entries for projects not found in Xero are not recorded
+ * @returns {Promise<TimesheetPeriodRecord>} The pending record; pass its ID to {@link markTimesheetPeriodApplied}
+ */
+export async function recordPendingTimesheetPeriod(
+  tenantId: string,
+  entries: TimesheetEntry[],
+  details: { fileName?: string; mode: TimesheetUpdateMode; targetOf: TimesheetPeriodTarget }
+): Promise<TimesheetPeriodRecord> {
+  const fingerprints = fingerprintEntries(entries);
+  const tasks = new Map<string, TimesheetPeriodTask & { dates: string[] }>();
+  entries.forEach((entry, index) => {
+    const target = details.targetOf(entry);
+    if (!target) return;
+    const key = taskKey(target.projectId, entry.department);
+    const task = tasks.get(key) || {
+      projectId: target.projectId,
+      taskName: entry.department,
+      changed: target.changed,
+      fingerprints: [],
+      entryCount: 0,
+      dates: []
+    };
+    const fingerprint = fingerprints[index];
+    if (fingerprint) task.fingerprints.push(fingerprint);
+    if (entry.date) task.dates.push(entry.date);
+    task.entryCount++;
+    tasks.set(key, task);
+  });
+
+  const record: TimesheetPeriodRecord = {
+    id: randomUUID(),
+    tenantId,
+    fileName: details.fileName,
+    entryCount: 0,
+    fingerprints: [],
+    tasks: Array.from(tasks.values()).map(({ dates, ...task }) => {
+      const sorted = dates.sort();
+      return { ...task, periodStart: sorted[0], periodEnd: sorted[sorted.length - 1] };
+    }),
+    mode: details.mode,
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+  await TimesheetPeriodStore.save(record);
+  return record;
+}
+
+/**
+ * Marks the entries of an upload whose Xero tasks were applied, so later uploads are checked against them
+ * @description Entries count as applied when their task's change succeeded, or when their task needed no
+ * change. Entries of failed changes and of skipped closed projects stay unrecorded and can be uploaded again.
+ * @param {string} tenantId - Xero tenant ID
+ * @param {string} id - Record ID from {@link recordPendingTimesheetPeriod}
+ * @param {string} runId - Run that applied the upload's changes
+ * @param {Array<{ projectId: string; taskName: string; success: boolean }>} results - Per-task results of the run
+ * @returns {Promise<boolean>} False if the record has expired or does not exist
+ */
+export async function markTimesheetPeriodApplied(
+  tenantId: string,
+  id: string,
+  runId: string,
+  results: Array<{ projectId: string; taskName: string; success: boolean }>
+): Promise<boolean> {
+  const record = await TimesheetPeriodStore.get(tenantId, id);
+  if (!record || record.status !== 'pending') return false;
+
+  const succeeded = new Set(results.filter(result => result.success).map(result => taskKey(result.projectId, result.taskName)));
+  const applied = (record.tasks || []).filter(task => !task.changed || succeeded.has(taskKey(task.projectId, task.taskName)));
+  if (applied.length === 0) {
+    await TimesheetPeriodStore.delete(tenantId, [id]);
+    return true;
+  }
+
+  const starts = applied.map(task => task.periodStart).filter((date): date is string => !!date).sort();
+  const ends = applied.map(task => task.periodEnd).filter((date): date is string => !!date).sort();
+  await TimesheetPeriodStore.save({
+    ...record,
+    tasks: undefined,
+    periodStart: starts[0],
+    periodEnd: ends[ends.length - 1],
+    entryCount: applied.reduce((sum, task) => sum + task.entryCount, 0),
+    fingerprints: applied.flatMap(task => task.fingerprints),
+    status: 'applied',
+    runId,
+    appliedAt: new Date().toISOString()
+  });
+  return true;
+}
+
+/**
+ * Forgets the uploads applied by a run once it is rolled back, so the period can be uploaded again
+ * @param {string} tenantId - Xero tenant ID
+ * @param {string} runId - Rolled back run
+ * @returns {Promise<number>} Number of records removed
+ */
+export async function releaseTimesheetPeriodsForRun(tenantId: string, runId: string): Promise<number> {
+  const ids = (await TimesheetPeriodStore.list(tenantId))
+    .filter(record => record.runId === runId)
+    .map(record => record.id);
+  await TimesheetPeriodStore.delete(tenantId, ids);
+  return ids.length;
+}
+
+// An upload repeats or overlaps periods already applied to Xero and was not merged
+export class TimesheetPeriodConflictError extends Error {
+  constructor(public readonly check: TimesheetPeriodCheck) {
+    super(check.status === 'duplicate'
+      ? `Every entry in this timesheet was already applied to Xero${check.overlapping[0]?.runId ? ` (run ${check.overlapping[0].runId})` : ''}`
+      : `This timesheet overlaps ${check.overlapping.length} upload${check.overlapping.length === 1 ? '' : 's'} already applied to Xero; ${check.duplicateEntries} of ${check.totalEntries} entries were applied before. Merge to add only the new entries.`);
+    this.name = 'TimesheetPeriodConflictError';
+  }
+}
@@ -0,0 +1,138 @@
+// TimesheetProfileStore.ts
+// Per-tenant timesheet format profiles, edited through /api/xero/timesheet-profiles (server only)
+
+import { randomUUID } from 'crypto';
+import { withRedis } from '../../redis/redisClient';
+import { STANDARD_TIMESHEET_PROFILE } from './TimesheetParserService';
+import { TimesheetColumn, TimesheetDateFormat, TimesheetProfile } from '../types';
+
+const TIMESHEET_COLUMNS: TimesheetColumn[] = ['employee', 'date', 'jobCode', 'department', 'hours', 'cost'];
+const DATE_FORMATS: TimesheetDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+// Redis-backed store: one hash per tenant keyed by profile ID, kept without expiry
+export class TimesheetProfileStore {
+  private static key(tenantId: string): string {
+    return `timesheet-profiles:${tenantId}`;
+  }
+
+  static async list(tenantId: string): Promise<TimesheetProfile[]> {
+    return withRedis(async (redis) => {
+      const values = await redis.hvals(this.key(tenantId));
+      return values
+        .map(value => JSON.parse(value) as TimesheetProfile)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
+  }
+
+  static async get(tenantId: string, profileId: string): Promise<TimesheetProfile | null> {
+    return withRedis(async (redis) => {
+      const value = await redis.hget(this.key(tenantId), profileId);
+      return value ? JSON.parse(value) : null;
+    });
+  }
+
+  static async save(tenantId: string, profile: TimesheetProfile): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.hset(this.key(tenantId), profile.id, JSON.stringify(profile));
+    });
+  }
+
+  static async delete(tenantId: string, profileId: string): Promise<boolean> {
+    return withRedis(async (redis) => {
+      return (await redis.hdel(this.key(tenantId), profileId)) > 0;
+    });
+  }
+}
+
+/**
+ * Checks a timesheet profile before it is saved
+ * @param {Partial<TimesheetProfile>} profile - Profile as submitted
+ * @returns {string | null} Error message, or null if the profile is valid
+ */
+export function validateTimesheetProfile(profile: Partial<TimesheetProfile>): string | null {
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    return 'name is required';
+  }
+  if (profile.sheetName !== undefined && typeof profile.sheetName !== 'string') {
+    return 'sheetName must be a string';
+  }
+  if (profile.headerRow !== undefined && (!Number.isInteger(profile.headerRow) || profile.headerRow < 1)) {
+    return 'headerRow must be a row number starting at 1';
+  }
+  if (profile.dateFormat !== undefined && !DATE_FORMATS.includes(profile.dateFormat)) {
+    return `dateFormat must be one of ${DATE_FORMATS.join(', ')}`;
+  }
+  if (profile.columns !== undefined) {
+    if (typeof profile.columns !== 'object' || profile.columns === null) {
+      return 'columns must map column names to header text or column letters';
+    }
+    for (const [column, value] of Object.entries(profile.columns)) {
+      if (!TIMESHEET_COLUMNS.includes(column as TimesheetColumn)) {
+        return `Unknown column "${column}"; expected ${TIMESHEET_COLUMNS.join(', ')}`;
+      }
+      if (typeof value !== 'string' || !value.trim()) {
+        return `columns.${column} must be header text or a column letter`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates or replaces a tenant's timesheet profile
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @param {Omit<TimesheetProfile, 'builtIn' | 'updatedBy' | 'updatedAt'>} profile - Validated profile; a new ID is generated when empty
+ * @param {string} [updatedBy] - Email of the user saving the profile
+ * @returns {Promise<TimesheetProfile>} The stored profile
+ *
+ * @example
+ * ```typescript
+ * await saveTimesheetProfile(tenantId, { id: '', name: 'Payroll export', headerRow: 3, columns: { jobCode: 'B' } }, email);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function saveTimesheetProfile(
+  tenantId: string,
+  profile: Omit<TimesheetProfile, 'builtIn' | 'updatedBy' | 'updatedAt'>,
+  updatedBy?: string
+): Promise<TimesheetProfile> {
+  const columns = Object.fromEntries(
+    Object.entries(profile.columns || {}).map(([column, value]) => [column, value!.trim()])
+  );
+  const stored: TimesheetProfile = {
+    id: profile.id || randomUUID(),
+    name: profile.name.trim(),
+    sheetName: profile.sheetName?.trim() || undefined,
+    headerRow: profile.headerRow,
+    columns: Object.keys(columns).length > 0 ? columns : undefined,
+    dateFormat: profile.dateFormat,
+    updatedBy,
+    updatedAt: new Date().toISOString()
+  };
+  await TimesheetProfileStore.save(tenantId, stored);
+  return stored;
+}
+
+/**
+ * Lists the profiles available to a tenant, the built-in standard profile first
+ * @param {string} tenantId - Xero tenant ID
+ * @returns {Promise<TimesheetProfile[]>} Built-in and tenant profiles
+ */
+export async function listTimesheetProfiles(tenantId: string): Promise<TimesheetProfile[]> {
+  return [STANDARD_TIMESHEET_PROFILE, ...(await TimesheetProfileStore.list(tenantId))];
+}
+
+/**
+ * Looks up the profile to parse a tenant's upload with
+ * @param {string} tenantId - Xero tenant ID
+ * @param {string} [profileId] - Selected profile; the standard profile when empty
+ * @returns {Promise<TimesheetProfile | null>} The profile, or null if the tenant has no profile with that ID
+ */
+export async function resolveTimesheetProfile(tenantId: string, profileId?: string): Promise<TimesheetProfile | null> {
+  if (!profileId || profileId === STANDARD_TIMESHEET_PROFILE.id) {
+    return STANDARD_TIMESHEET_PROFILE;
+  }
+  return TimesheetProfileStore.get(tenantId, profileId);
+}
@@ -0,0 +1,51 @@
+// TimesheetRunStore.ts
+// Records the Xero task changes of each timesheet run so a run can be rolled back (server only)
+
+import { randomBytes } from 'crypto';
+import { withRedis } from '../../redis/redisClient';
+import { TimesheetRun } from '../types';
+
+// Runs kept per tenant; older runs can no longer be rolled back
+const MAX_RUNS_KEPT = 50;
+
+// Redis-backed store: one hash per tenant keyed by run ID, pruned to the newest MAX_RUNS_KEPT runs
+export class TimesheetRunStore {
+  private static key(tenantId: string): string {
+    return `timesheet-runs:${tenantId}`;
+  }
+
+  static async list(tenantId: string): Promise<TimesheetRun[]> {
+    return withRedis(async (redis) => {
+      const values = await redis.hvals(this.key(tenantId));
+      return values
+        .map(value => JSON.parse(value) as TimesheetRun)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    });
+  }
+
+  static async get(tenantId: string, runId: string): Promise<TimesheetRun | null> {
+    return withRedis(async (redis) => {
+      const value = await redis.hget(this.key(tenantId), runId);
+      return value ? JSON.parse(value) : null;
+    });
+  }
+
+  static async save(run: TimesheetRun): Promise<void> {
+    const stale = (await this.list(run.tenantId))
+      .filter(existing => existing.runId !== run.runId)
+      .slice(MAX_RUNS_KEPT - 1)
+      .map(existing => existing.runId);
+
+    await withRedis(async (redis) => {
+      await redis.hset(this.key(run.tenantId), run.runId, JSON.stringify(run));
+      if (stale.length > 0) {
+        await redis.hdel(this.key(run.tenantId), ...stale);
+      }
+    });
+  }
+}
+
+// "TS-20250314-1a2b3c": date of the run and a random suffix, short enough to quote from a report
+export function createRunId(date: Date = new Date()): string {
+  return `TS-${date.toISOString().slice(0, 10).replace(/-/g, '')}-${randomBytes(3).toString('hex')}`;
+}
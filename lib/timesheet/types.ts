@@ -41,6 +41,115 @@ export interface ConsolidatedTask {
   idempotencyKey: string;
 }
 
+// Tasks per project code, as consolidated from a timesheet
+export interface ConsolidatedPayload {
+  [projectCode: string]: ConsolidatedTask[];
+}
+
+// One row of an uploaded timesheet
+export interface TimesheetEntry {
+  // Spreadsheet row number, 1-based as shown in Excel
+  row: number;
+  employee?: string;
+  date?: string;  // YYYY-MM-DD
+  jobCode: string;
+  department: string;
+  hours: number;
+  cost: number;
+}
+
+export type TimesheetColumn = 'employee' | 'date' | 'jobCode' | 'department' | 'hours' | 'cost';
+
+export type TimesheetDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+// Layout of one payroll system's timesheet export
+export interface TimesheetProfile {
+  id: string;
+  name: string;
+  // Sheet to read; the first sheet with the header row when empty
+  sheetName?: string;
+  // 1-based header row; detected within the first rows when empty
+  headerRow?: number;
+  // Header text or column letter per column; common header names are recognised when empty
+  columns?: Partial<Record<TimesheetColumn, string>>;
+  // Format of dates entered as text; Excel date cells are read as dates
+  dateFormat?: TimesheetDateFormat;
+  builtIn?: boolean;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// A row that cannot be processed under the selected profile
+export interface TimesheetRowError {
+  row: number;
+  column?: TimesheetColumn;
+  message: string;
+}
+
+// replace: task estimates become the file's totals; accumulate: the file's hours are added to the current estimates
+export type TimesheetUpdateMode = 'replace' | 'accumulate';
+
+// What to do with an upload that repeats or overlaps periods already applied to Xero
+export type TimesheetOverlapAction = 'reject' | 'merge';
+
+// An upload already applied to Xero whose period or entries an upload shares
+export interface TimesheetPeriodOverlap {
+  id: string;
+  fileName?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  entryCount: number;
+  runId?: string;
+  appliedAt?: string;
+}
+
+// Comparison of an upload with the periods and entries already applied for the tenant
+export interface TimesheetPeriodCheck {
+  // new: nothing applied before; overlap: some entries or dates applied before; duplicate: every entry applied before
+  status: 'new' | 'overlap' | 'duplicate';
+  periodStart?: string;
+  periodEnd?: string;
+  totalEntries: number;
+  duplicateEntries: number;
+  newEntries: number;
+  // Entries without a date, which cannot be matched against earlier uploads
+  undatedEntries: number;
+  overlapping: TimesheetPeriodOverlap[];
+}
+
+// Result of checking an uploaded timesheet against a profile before processing
+export interface TimesheetValidationResult {
+  valid: boolean;
+  profileId: string;
+  entriesProcessed: number;
+  periodRange: string;
+  projects: number;
+  // The first row errors; rowErrorCount is the total
+  rowErrors: TimesheetRowError[];
+  rowErrorCount: number;
+  // Set when the file does not fit the profile at all, e.g. a missing sheet or column
+  error?: string;
+  periodCheck?: TimesheetPeriodCheck;
+}
+
+// Totals from the file compared with the totals implied by the consolidated task rates
+export interface TimesheetCostVerification {
+  verification_performed: boolean;
+  calculations_match: boolean;
+  our_total_all_depts_ny_jobs: number;
+  excel_total_all_depts_ny_jobs: number;
+  excel_navy_only_ny_jobs: number;
+  excel_non_navy_ny_jobs: number;
+  difference: number;
+  excel_all_jobs_all_depts: number;
+  discrepancies: Array<{
+    job_code: string;
+    our_calculated: number;
+    excel_total: number;
+    difference: number;
+  }>;
+}
+
 export interface XeroTask {
   taskId: string;
   name: string;
@@ -58,6 +167,63 @@ export interface ClosedProjectWithChanges {
   tasksToCreate: number;
 }
 
+// Task fields written by a timesheet run; rate value in currency units as Xero returns it
+export interface XeroTaskState {
+  name: string;
+  estimateMinutes: number;
+  rate: {
+    currency: string;
+    value: number;
+  };
+  chargeType: string;
+}
+
+// One task written by a run, with what it looked like before
+export interface TimesheetRunChange {
+  projectId: string;
+  projectCode?: string;
+  projectName?: string;
+  // Set for updates, and for creates once Xero returns the new task
+  taskId?: string;
+  taskName: string;
+  action: 'created' | 'updated';
+  // State before the run; only for updates
+  previous?: XeroTaskState;
+  applied: XeroTaskState;
+  success: boolean;
+  error?: string;
+  rolledBack?: boolean;
+  rollbackError?: string;
+}
+
+// A closed project reopened so a run could change its tasks, then closed again
+export interface TimesheetReopenedProject {
+  projectId: string;
+  projectCode?: string;
+  projectName?: string;
+  reopened: boolean;
+  // False if the project could not be closed again and is left in progress
+  reclosed: boolean;
+  error?: string;
+}
+
+// A set of task changes written to Xero together, kept so it can be rolled back
+export interface TimesheetRun {
+  runId: string;
+  tenantId: string;
+  fileName?: string;
+  createdBy?: string;
+  createdAt: string;
+  status: 'applied' | 'rolled_back' | 'rollback_failed';
+  rolledBackBy?: string;
+  rolledBackAt?: string;
+  changes: TimesheetRunChange[];
+  // Closed projects the run reopened; rolling back reopens them again
+  reopenedProjects?: TimesheetReopenedProject[];
+  // Closed projects reopened by the last rollback
+  rollbackReopenedProjects?: TimesheetReopenedProject[];
+}
+
 export interface DirectProcessingResult {
   success: boolean;
   summary: {
@@ -75,6 +75,8 @@ export interface ValidationSummary {
   unmatchedDeals: number;
   unmatchedQuotes: number;
   unmatchedProjects: number;
+  manuallyLinked?: number; // Project and quote links made by match overrides
+  ignoredRecords?: number; // Deals, quotes and projects left out by ignore overrides
   quotesByStatus?: {
     DRAFT: number;
     SENT: number;
@@ -0,0 +1,116 @@
+/**
+ * Foreign exchange rate table used to compare amounts recorded in different currencies
+ */
+
+export interface FxRateTable {
+  // Currency every amount is converted into, e.g. "SGD"
+  baseCurrency: string;
+  // Date the rates were taken (YYYY-MM-DD)
+  asOf: string;
+  // Units of base currency per one unit of each currency, e.g. { USD: 1.35 } for an SGD base
+  rates: Record<string, number>;
+}
+
+export interface FxConversion {
+  amount: number;
+  rate: number;
+}
+
+const DEFAULT_BASE_CURRENCY = 'SGD';
+
+/**
+ * Normalises a currency code for lookups
+ * @param {string | undefined | null} code - Currency code as recorded in Pipedrive or Xero
+ * @returns {string} Uppercase three-letter code, or an empty string if none was given
+ */
+export function normalizeCurrencyCode(code: string | undefined | null): string {
+  return (code || '').trim().toUpperCase();
+}
+
+/**
+ * Builds a rate table from a plain object, normalising currency codes and dropping invalid rates
+ *
+ * @param {Partial<FxRateTable>} table - Table as configured
+ * @returns {FxRateTable} Table with a base currency, date and positive rates only
+ * @throws {Error} If the date is not a valid YYYY-MM-DD date
+ *
+ * @example
+ * ```typescript
+ * const table = createFxRateTable({ baseCurrency: 'sgd', asOf: '2025-01-31', rates: { usd: 1.35 } });
+ * // { baseCurrency: 'SGD', asOf: '2025-01-31', rates: { USD: 1.35 } }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createFxRateTable(table: Partial<FxRateTable>): FxRateTable {
+  const asOf = table.asOf || new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(new Date(asOf).getTime())) {
+    throw new Error(`Invalid FX rate date "${asOf}": expected YYYY-MM-DD`);
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(table.rates || {})) {
+    const value = Number(rate);
+    if (Number.isFinite(value) && value > 0) {
+      rates[normalizeCurrencyCode(code)] = value;
+    }
+  }
+
+  return {
+    baseCurrency: normalizeCurrencyCode(table.baseCurrency) || DEFAULT_BASE_CURRENCY,
+    asOf,
+    rates
+  };
+}
+
+/**
+ * Returns the rate table configured for the deployment
+ *
+ * @description Reads `FX_RATE_TABLE` as JSON, e.g.
+ * `{"baseCurrency":"SGD","asOf":"2025-01-31","rates":{"USD":1.35,"EUR":1.41}}`.
+ * Without it only amounts already in the base currency (`FX_BASE_CURRENCY`, default SGD) can be compared.
+ *
+ * @returns {FxRateTable} Configured table, or a table with no rates if none is configured or it is invalid
+ *
+ * @example
+ * ```typescript
+ * const { baseCurrency, asOf } = getDefaultFxRateTable();
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getDefaultFxRateTable(): FxRateTable {
+  if (process.env.FX_RATE_TABLE) {
+    try {
+      return createFxRateTable(JSON.parse(process.env.FX_RATE_TABLE));
+    } catch (error) {
+      console.error('Invalid FX_RATE_TABLE configuration, comparing base currency amounts only:', error);
+    }
+  }
+
+  return createFxRateTable({ baseCurrency: process.env.FX_BASE_CURRENCY || DEFAULT_BASE_CURRENCY });
+}
+
+/**
+ * Converts an amount into the table's base currency
+ *
+ * @param {number} amount - Amount in its original currency
+ * @param {string} currency - Original currency code
+ * @param {FxRateTable} table - Rate table to use
+ * @returns {FxConversion | null} Converted amount and the rate used, or null if the table has no rate for the currency
+ *
+ * @example
+ * ```typescript
+ * convertToBaseCurrency(1000, 'USD', table); // { amount: 1350, rate: 1.35 }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function convertToBaseCurrency(amount: number, currency: string, table: FxRateTable): FxConversion | null {
+  const code = normalizeCurrencyCode(currency);
+  const rate = code === table.baseCurrency ? 1 : table.rates[code];
+  if (!rate) {
+    return null;
+  }
+  return { amount: Math.round(amount * rate * 100) / 100, rate };
+}
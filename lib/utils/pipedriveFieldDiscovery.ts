@@ -0,0 +1,285 @@
+/**
+ * Pipedrive account discovery
+ * Lists a tenant's deal fields, pipelines and stages, suggests a custom field mapping by field name,
+ * and detects mapped field keys that no longer exist in the account
+ */
+
+import { logger } from '../logger';
+import {
+  fetchDealFields,
+  fetchPipelines,
+  fetchStages,
+  isCustomFieldKey,
+  type DealField
+} from './pipedriveHelpers';
+import type { CustomFieldMapping, PipedriveConfig } from './tenantConfig';
+import type { ValidationIssue } from '../types/validation';
+
+// Mapped fields the validation workflow cannot run without
+export const REQUIRED_CUSTOM_FIELDS = ['xeroQuoteId', 'invoiceId', 'vesselName'] as const;
+
+// Pipedrive field names each mapping is recognised by, normalised to lowercase words; most specific first
+const FIELD_NAME_ALIASES: Record<string, string[]> = {
+  xeroQuoteId: ['xero quote id', 'quote id'],
+  quoteNumber: ['xero quote number', 'quote number', 'quote no', 'quotation number'],
+  invoiceId: ['xero invoice id', 'invoice id'],
+  invoiceNumber: ['xero invoice number', 'invoice number', 'invoice no'],
+  vesselName: ['vessel name', 'vessel'],
+  vesselType: ['vessel type'],
+  status: ['xero status', 'quote status', 'status'],
+  ipc: ['ipc'],
+  location: ['location'],
+  personInCharge: ['person in charge', 'pic'],
+  woNumber: ['wo number', 'work order number', 'wo no'],
+  moNumber: ['mo number', 'mo no'],
+  wopqNumber: ['wo pq number', 'wopq number', 'wo pq'],
+  department: ['department', 'dept'],
+  salesReference: ['sales reference', 'sales ref'],
+  refNumber: ['ref number', 'reference number', 'ref no']
+};
+
+export interface DiscoveredField {
+  key: string;
+  name: string;
+  fieldType: string;
+  options?: Array<{ id: number; label: string }>;
+}
+
+export interface DiscoveredPipeline {
+  id: number;
+  name: string;
+  active: boolean;
+  stages: Array<{ id: number; name: string; orderNr: number }>;
+}
+
+export interface FieldMappingSuggestion {
+  // Mapping name, e.g. xeroQuoteId
+  name: string;
+  required: boolean;
+  currentKey?: string;
+  // False when the current key is set but the field no longer exists
+  currentKeyFound: boolean;
+  suggestedKey?: string;
+  suggestedFieldName?: string;
+  // How the suggestion was found: the current key still exists, or the field name matched
+  match: 'current' | 'exact' | 'partial' | 'none';
+}
+
+export interface MissingFieldKey {
+  name: string;
+  key: string;
+  required: boolean;
+}
+
+export interface PipedriveDiscovery {
+  fields: DiscoveredField[];
+  pipelines: DiscoveredPipeline[];
+  suggestions: FieldMappingSuggestion[];
+  suggestedInvoiceStageId?: number;
+  missingFields: MissingFieldKey[];
+}
+
+export class FieldMappingError extends Error {
+  constructor(public readonly missingFields: MissingFieldKey[]) {
+    super(`Pipedrive custom field mapping is out of date: ${missingFields.map(f => `${f.name} (${f.key})`).join(', ')} no longer exist${missingFields.length === 1 ? 's' : ''} in Pipedrive. Run field discovery in Settings and confirm the mapping.`);
+    this.name = 'FieldMappingError';
+  }
+}
+
+// Lowercase words only, so "Xero Quote ID", "xero_quote_id" and "Xero Quote-ID" compare equal
+const normalizeFieldName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function matchFieldName(fieldName: string, aliases: string[]): 'exact' | 'partial' | null {
+  const normalized = normalizeFieldName(fieldName);
+  if (aliases.includes(normalized)) return 'exact';
+  const padded = ` ${normalized} `;
+  return aliases.some(alias => padded.includes(` ${alias} `)) ? 'partial' : null;
+}
+
+/**
+ * Finds mapped custom field keys that are not among an account's deal fields
+ * @param {CustomFieldMapping} customFieldKeys - The tenant's field mapping
+ * @param {Array<{ key: string }>} fields - Deal fields in the tenant's Pipedrive account
+ * @returns {MissingFieldKey[]} Mapped fields whose key no longer exists
+ */
+export function findMissingFieldKeys(
+  customFieldKeys: CustomFieldMapping,
+  fields: Array<{ key: string }>
+): MissingFieldKey[] {
+  const existing = new Set(fields.map(field => field.key));
+  return Object.entries(customFieldKeys)
+    .filter(([, key]) => key && !existing.has(key))
+    .map(([name, key]) => ({
+      name,
+      key: key!,
+      required: (REQUIRED_CUSTOM_FIELDS as readonly string[]).includes(name)
+    }));
+}
+
+/**
+ * Suggests a custom field mapping from the names of an account's deal fields
+ *
+ * @description Mapped keys that still exist are kept. Other mappings are matched by field name: an exact
+ * name such as "Vessel Name" before a name that contains it, such as "Vessel Name (IMO)". A field is
+ * suggested for at most one mapping.
+ *
+ * @param {DealField[]} dealFields - Deal fields from {@link fetchDealFields}
+ * @param {Partial<CustomFieldMapping>} [current={}] - The tenant's current mapping
+ * @returns {FieldMappingSuggestion[]} One suggestion per known mapping name and per extra mapped name
+ *
+ * @example
+ * ```typescript
+ * const suggestions = suggestFieldMapping(await fetchDealFields(apiKey, 'api'), config.customFieldKeys);
+ * const vessel = suggestions.find(s => s.name === 'vesselName')?.suggestedKey;
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function suggestFieldMapping(
+  dealFields: DealField[],
+  current: Partial<CustomFieldMapping> = {}
+): FieldMappingSuggestion[] {
+  const customFields = dealFields.filter(field => isCustomFieldKey(field.key));
+  const byKey = new Map(customFields.map(field => [field.key, field]));
+  const names = Array.from(new Set([...Object.keys(FIELD_NAME_ALIASES), ...Object.keys(current)]));
+
+  const suggestions = new Map<string, FieldMappingSuggestion>(names.map(name => {
+    const currentKey = current[name] || undefined;
+    const currentField = currentKey ? byKey.get(currentKey) : undefined;
+    return [name, {
+      name,
+      required: (REQUIRED_CUSTOM_FIELDS as readonly string[]).includes(name),
+      currentKey,
+      currentKeyFound: !currentKey || !!currentField,
+      suggestedKey: currentField?.key,
+      suggestedFieldName: currentField?.name,
+      match: currentField ? 'current' : 'none'
+    }];
+  }));
+
+  const used = new Set(Array.from(suggestions.values()).map(s => s.suggestedKey).filter(Boolean));
+
+  // Exact names first across all mappings, so a partial match cannot take a field another mapping names exactly
+  for (const pass of ['exact', 'partial'] as const) {
+    for (const suggestion of suggestions.values()) {
+      if (suggestion.match !== 'none') continue;
+      const aliases = FIELD_NAME_ALIASES[suggestion.name];
+      if (!aliases) continue;
+      const field = customFields.find(f => !used.has(f.key) && matchFieldName(f.name, aliases) === pass);
+      if (field) {
+        suggestion.suggestedKey = field.key;
+        suggestion.suggestedFieldName = field.name;
+        suggestion.match = pass;
+        used.add(field.key);
+      }
+    }
+  }
+
+  return Array.from(suggestions.values());
+}
+
+/**
+ * Lists a Pipedrive account's deal fields, pipelines and stages with a suggested tenant configuration
+ *
+ * @description Used by the Settings page to onboard a tenant or repair its mapping. Nothing is saved;
+ * an admin confirms the suggestions by saving the tenant configuration.
+ *
+ * @param {string} apiKey - Pipedrive API token
+ * @param {string} companyDomain - Pipedrive company domain
+ * @param {Partial<CustomFieldMapping>} [currentMapping={}] - The tenant's current field mapping
+ * @returns {Promise<PipedriveDiscovery>} Fields, pipelines with their stages, suggestions and stale mapped keys
+ * @throws {Error} If Pipedrive returns no deal fields, usually because the API key or domain is wrong
+ *
+ * @example
+ * ```typescript
+ * const discovery = await discoverPipedriveAccount(config.apiKey, config.companyDomain, config.customFieldKeys);
+ * console.log(discovery.missingFields);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function discoverPipedriveAccount(
+  apiKey: string,
+  companyDomain: string,
+  currentMapping: Partial<CustomFieldMapping> = {}
+): Promise<PipedriveDiscovery> {
+  const [dealFields, pipelines, stages] = await Promise.all([
+    fetchDealFields(apiKey, companyDomain),
+    fetchPipelines(apiKey, companyDomain),
+    fetchStages(apiKey, companyDomain)
+  ]);
+
+  if (dealFields.length === 0) {
+    throw new Error(`No deal fields returned by ${companyDomain}.pipedrive.com; check the company domain and API key`);
+  }
+
+  const discoveredPipelines: DiscoveredPipeline[] = pipelines.map(pipeline => ({
+    id: pipeline.id,
+    name: pipeline.name,
+    active: pipeline.active,
+    stages: stages
+      .filter(stage => stage.pipeline_id === pipeline.id)
+      .sort((a, b) => a.order_nr - b.order_nr)
+      .map(stage => ({ id: stage.id, name: stage.name, orderNr: stage.order_nr }))
+  }));
+
+  const invoiceStage = stages.find(stage => /\binvoic/i.test(stage.name));
+
+  return {
+    fields: dealFields
+      .filter(field => isCustomFieldKey(field.key))
+      .map(field => ({ key: field.key, name: field.name, fieldType: field.field_type, options: field.options })),
+    pipelines: discoveredPipelines,
+    suggestions: suggestFieldMapping(dealFields, currentMapping),
+    suggestedInvoiceStageId: invoiceStage?.id,
+    missingFields: findMissingFieldKeys(currentMapping as CustomFieldMapping, dealFields)
+  };
+}
+
+/**
+ * Checks a tenant's field mapping against its Pipedrive account before validation
+ *
+ * @description Stale optional fields are reported as `MAPPED_FIELD_NOT_FOUND` issues so the rest of the
+ * run still completes. A stale required field would make every quote and invoice check wrong, so the run
+ * stops with a {@link FieldMappingError}. When the deal fields cannot be fetched the check is skipped.
+ *
+ * @param {Pick<PipedriveConfig, 'apiKey' | 'companyDomain' | 'customFieldKeys'>} config - Tenant configuration
+ * @returns {Promise<ValidationIssue[]>} Issues for stale optional fields
+ * @throws {FieldMappingError} If a required field's key no longer exists
+ *
+ * @example
+ * ```typescript
+ * const configIssues = await checkFieldMapping(pipedriveConfig);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function checkFieldMapping(
+  config: Pick<PipedriveConfig, 'apiKey' | 'companyDomain' | 'customFieldKeys'>
+): Promise<ValidationIssue[]> {
+  const dealFields = await fetchDealFields(config.apiKey, config.companyDomain);
+  if (dealFields.length === 0) {
+    logger.warn({ domain: config.companyDomain }, 'Deal fields unavailable; skipping field mapping check');
+    return [];
+  }
+
+  const missing = findMissingFieldKeys(config.customFieldKeys, dealFields);
+  if (missing.length > 0) {
+    logger.warn({ domain: config.companyDomain, missing }, 'Mapped custom fields not found in Pipedrive');
+  }
+
+  const missingRequired = missing.filter(field => field.required);
+  if (missingRequired.length > 0) {
+    throw new FieldMappingError(missingRequired);
+  }
+
+  return missing.map(field => ({
+    severity: 'error' as const,
+    code: 'MAPPED_FIELD_NOT_FOUND',
+    message: `Custom field "${field.name}" is mapped to ${field.key}, which no longer exists in Pipedrive`,
+    field: field.name,
+    suggestedFix: 'Run field discovery in Settings and confirm the mapping',
+    metadata: { fieldKey: field.key }
+  }));
+}
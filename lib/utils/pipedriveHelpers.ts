@@ -42,7 +42,7 @@ export interface PipedriveOrganization {
   [key: string]: any;
 }
 
-interface DealField {
+export interface DealField {
   id: number;
   key: string;
   name: string;
@@ -50,6 +50,21 @@ interface DealField {
   options?: Array<{ id: number; label: string }>;
 }
 
+export interface PipedrivePipeline {
+  id: number;
+  name: string;
+  active: boolean;
+  order_nr?: number;
+}
+
+export interface PipedriveStage {
+  id: number;
+  name: string;
+  pipeline_id: number;
+  order_nr: number;
+  active_flag?: boolean;
+}
+
 export interface PipedriveApiResponse<T> {
   success: boolean;
   data: T;
@@ -534,7 +549,7 @@ function extractCustomFields(deal: PipedriveDeal): Record<string, any> {
   // They have hash-like field IDs
   for (const [key, value] of Object.entries(deal)) {
     // Custom field IDs are typically 40-character hashes
-    if (key.length === 40 && /^[a-f0-9]+$/.test(key)) {
+    if (isCustomFieldKey(key)) {
       customFields[key] = value;
     }
   }
@@ -545,47 +560,136 @@ function extractCustomFields(deal: PipedriveDeal): Record<string, any> {
 /**
  * Fetches all available deal fields from Pipedrive to understand custom field structure
  * 
+ * @description Follows Pipedrive's start/limit pagination until every page is read; accounts with many
+ * custom fields do not fit in one page.
+ * 
  * @param {string} apiKey - The Pipedrive API token for authentication
  * @param {string} companyDomain - The Pipedrive company domain
- * @returns {Promise<DealField[]>} Array of deal field definitions
+ * @returns {Promise<DealField[]>} Array of deal field definitions, or an empty array if any page fails
  */
 export async function fetchDealFields(
   apiKey: string,
   companyDomain: string
 ): Promise<DealField[]> {
   try {
-    const url = buildPipedriveApiUrl(companyDomain, 'dealFields', {
+    const fields: DealField[] = [];
+    let start = 0;
+    let moreItems = true;
+    
+    while (moreItems) {
+      const url = buildPipedriveApiUrl(companyDomain, 'dealFields', {
+        api_token: apiKey,
+        start,
+        limit: 500
+      });
+      
+      const response = await fetch(url);
+      
+      if (!response.ok) {
+        logger.error({ 
+          status: response.status, 
+          statusText: response.statusText,
+          start
+        }, 'Failed to fetch deal fields');
+        return [];
+      }
+      
+      const data: PipedriveApiResponse<DealField[]> = await response.json();
+      
+      if (!data.success || !data.data) {
+        logger.error({ error: data.error, start }, 'Failed to get deal fields');
+        return [];
+      }
+      
+      fields.push(...data.data);
+      
+      const pagination = data.additional_data?.pagination;
+      moreItems = !!pagination?.more_items_in_collection && data.data.length > 0;
+      start = pagination?.next_start ?? start + data.data.length;
+    }
+    
+    // Log custom fields for debugging
+    const customFields = fields.filter(field => field.key.length > 20);
+    logger.info({ 
+      totalFields: fields.length,
+      customFieldsCount: customFields.length,
+      customFields: customFields.map(f => ({ key: f.key, name: f.name, type: f.field_type }))
+    }, 'Deal fields fetched');
+    
+    return fields;
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Error fetching deal fields');
+    return [];
+  }
+}
+
+/**
+ * Checks whether a deal field key is a custom field hash
+ * @param {string} key - Deal field key
+ * @returns {boolean} True for 40-character custom field hashes
+ */
+export function isCustomFieldKey(key: string): boolean {
+  return key.length === 40 && /^[a-f0-9]+$/.test(key);
+}
+
+/**
+ * Fetches the pipelines of a Pipedrive account
+ * 
+ * @param {string} apiKey - The Pipedrive API token for authentication
+ * @param {string} companyDomain - The Pipedrive company domain
+ * @returns {Promise<PipedrivePipeline[]>} Pipelines in the account, or an empty array if the request fails
+ */
+export async function fetchPipelines(
+  apiKey: string,
+  companyDomain: string
+): Promise<PipedrivePipeline[]> {
+  try {
+    const url = buildPipedriveApiUrl(companyDomain, 'pipelines', {
       api_token: apiKey
     });
     
     const response = await fetch(url);
     
     if (!response.ok) {
-      logger.error({ 
-        status: response.status, 
-        statusText: response.statusText 
-      }, 'Failed to fetch deal fields');
+      logger.error({ status: response.status }, 'Failed to fetch pipelines');
       return [];
     }
     
-    const data: PipedriveApiResponse<DealField[]> = await response.json();
+    const data: PipedriveApiResponse<PipedrivePipeline[]> = await response.json();
+    return data.success && data.data ? data.data : [];
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Error fetching pipelines');
+    return [];
+  }
+}
+
+/**
+ * Fetches the stages of every pipeline in a Pipedrive account
+ * 
+ * @param {string} apiKey - The Pipedrive API token for authentication
+ * @param {string} companyDomain - The Pipedrive company domain
+ * @returns {Promise<PipedriveStage[]>} Stages with their pipeline IDs, or an empty array if the request fails
+ */
+export async function fetchStages(
+  apiKey: string,
+  companyDomain: string
+): Promise<PipedriveStage[]> {
+  try {
+    const url = buildPipedriveApiUrl(companyDomain, 'stages', {
+      api_token: apiKey
+    });
+    
+    const response = await fetch(url);
     
-    if (!data.success || !data.data) {
-      logger.error({ error: data.error }, 'Failed to get deal fields');
+    if (!response.ok) {
+      logger.error({ status: response.status }, 'Failed to fetch stages');
       return [];
     }
     
-    // Log custom fields for debugging
-    const customFields = data.data.filter(field => field.key.length > 20);
-    logger.info({ 
-      totalFields: data.data.length,
-      customFieldsCount: customFields.length,
-      customFields: customFields.map(f => ({ key: f.key, name: f.name, type: f.field_type }))
-    }, 'Deal fields fetched');
-    
-    return data.data;
+    const data: PipedriveApiResponse<PipedriveStage[]> = await response.json();
+    return data.success && data.data ? data.data : [];
   } catch (error) {
-    logger.error({ error: error instanceof Error ? error.message : error }, 'Error fetching deal fields');
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Error fetching stages');
     return [];
   }
-}
\ No newline at end of file
+}
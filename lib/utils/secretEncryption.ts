@@ -0,0 +1,98 @@
+/**
+ * Encryption for secrets kept in Redis, such as tenant Pipedrive API keys
+ * AES-256-GCM with a key from TENANT_CONFIG_ENCRYPTION_KEY
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Prefix of encrypted values, so the format can change without breaking stored secrets
+const FORMAT_VERSION = 'v1';
+
+export class SecretEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretEncryptionError';
+  }
+}
+
+// A 32-byte key given as base64 or hex is used as is; any other value is treated as a passphrase
+function getEncryptionKey(): Buffer {
+  const configured = process.env.TENANT_CONFIG_ENCRYPTION_KEY;
+  if (!configured) {
+    throw new SecretEncryptionError('TENANT_CONFIG_ENCRYPTION_KEY is not set');
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(configured)) {
+    return Buffer.from(configured, 'hex');
+  }
+  const decoded = Buffer.from(configured, 'base64');
+  if (decoded.length === 32) {
+    return decoded;
+  }
+  return createHash('sha256').update(configured).digest();
+}
+
+/**
+ * Checks whether secrets can be encrypted in this deployment
+ * @returns {boolean} True if TENANT_CONFIG_ENCRYPTION_KEY is set
+ */
+export function isSecretEncryptionConfigured(): boolean {
+  return !!process.env.TENANT_CONFIG_ENCRYPTION_KEY;
+}
+
+/**
+ * Encrypts a secret for storage
+ *
+ * @param {string} plaintext - Secret to encrypt
+ * @returns {string} `v1:<iv>:<tag>:<ciphertext>`, base64 encoded
+ * @throws {SecretEncryptionError} If TENANT_CONFIG_ENCRYPTION_KEY is not set
+ *
+ * @example
+ * ```typescript
+ * const encryptedApiKey = encryptSecret(apiKey);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64')
+  ].join(':');
+}
+
+/**
+ * Decrypts a secret produced by {@link encryptSecret}
+ *
+ * @param {string} encrypted - Stored value
+ * @returns {string} The original secret
+ * @throws {SecretEncryptionError} If the key is not set, the value is malformed, or it was encrypted with another key
+ *
+ * @example
+ * ```typescript
+ * const apiKey = decryptSecret(stored.encryptedApiKey);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new SecretEncryptionError('Encrypted secret has an unknown format');
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    if (error instanceof SecretEncryptionError) throw error;
+    throw new SecretEncryptionError('Encrypted secret could not be decrypted; was TENANT_CONFIG_ENCRYPTION_KEY changed?');
+  }
+}
@@ -1,7 +1,14 @@
 /**
  * Runtime tenant configuration resolution for Pipedrive integrations
+ * Every route and job resolves a tenant's Pipedrive configuration through resolvePipedriveConfig
  */
 
+import type { ValidationRuleSettings } from '../validation/ruleRegistry';
+import { TenantConfigStore, type StoredTenantConfig } from './tenantConfigStore';
+import { BUILT_IN_TENANT_CONFIGS, getBuiltInApiKey } from './builtInTenantConfigs';
+import { decryptSecret } from './secretEncryption';
+import { logger } from '../logger';
+
 export interface CustomFieldMapping {
   xeroQuoteId: string;
   invoiceId: string;
@@ -30,13 +37,25 @@ export interface PipedriveConfig {
   enabled: boolean;
   tenantName?: string;
   invoiceStageId?: number; // Stage ID for Invoice stage (e.g., 6 for tenant 6dd39ea4...)
+  invoicePipelineId?: number; // Pipeline whose won deals are checked against Xero invoices (e.g., 3 for tenant 6dd39ea4...)
+  pipelineNames?: Record<number, string>; // Display names of the pipelines
+  validationRules?: ValidationRuleSettings; // Rules to enable or disable and severity overrides
+}
+
+// A tenant's configuration as listed for administration, without its API key
+export interface TenantConfigSummary extends Omit<StoredTenantConfig, 'encryptedApiKey' | 'updatedAt'> {
+  updatedAt?: string;
+  // store: saved through the admin API; built_in: code defaults not yet saved
+  source: 'store' | 'built_in';
+  apiKeySource: 'store' | 'environment' | 'none';
 }
 
 /**
- * Resolves Pipedrive configuration for a specific tenant using predefined configurations
+ * Resolves Pipedrive configuration for a specific tenant
  * 
- * @description Retrieves tenant-specific Pipedrive configuration including API credentials,
- * pipeline IDs, and custom field mappings. API keys are sourced from environment variables.
+ * @description Reads the tenant's configuration from the managed tenant configuration store, falling back
+ * to the built-in configuration of the tenants onboarded before the store existed. A stored API key is
+ * decrypted; without one, built-in tenants use their API key environment variables.
  * Returns null if tenant is not configured, or disabled config if API key is missing.
  * 
  * @param {string} tenantId - The unique identifier for the tenant
@@ -62,60 +81,35 @@ export interface PipedriveConfig {
  * @since 1.0.0
  */
 export async function resolvePipedriveConfig(tenantId: string): Promise<PipedriveConfig | null> {
-  // Configuration based on CUSTOMFIELDS.md (corrected)
-  const configs: Record<string, PipedriveConfig> = {
-    // Tenant 1 (now correctly mapped to 6dd39ea4-e6a6-4993-a37a-21482ccf8d22)
-    '6dd39ea4-e6a6-4993-a37a-21482ccf8d22': {
-      apiKey: process.env.PIPEDRIVE_KEY_TENANT1 || process.env.PIPEDRIVE_KEY || '',
-      companyDomain: 'api', // Standard API domain
-      pipelineIds: [2], // Work In Progress pipeline
-      invoiceStageId: 6, // Invoice stage in pipeline 2
-      customFieldKeys: {
-        quoteNumber: 'a0b59ccf244af998aa57a01f22e2ffd41cf504f9',
-        invoiceId: 'c599cab3902b6c84c1f9e2689f308a4369fffe7d',
-        invoiceNumber: '77e6c22c25774c19c846dcafc78ab79299f3635c',
-        status: '7e3a9d4941be08c210be9294d4503ba781f7d79e',
-        ipc: '9b493336b9f01af388a5a50b53a98a57f6df8b9a',
-        xeroQuoteId: '0e9dc89b14fb67546540fd3e11a7fe06653d708f',
-        refNumber: 'c9c9206bd3ec741541e8a4f9f7395aee69d243df',
-        location: 'ab6f8ba40052e512a64b575b592dba4f2dee7a6d',
-        personInCharge: 'e112e892add78412634256facf963d04e0488de0',
-        moNumber: '176062c9320cc5d330edb205b3378c802c3e27aa',
-        woNumber: 'e92f0f8368659e80770910970f19d72ad6e3f284',
-        vesselName: 'bef5a8a5866aec2d7f4db2a5d8964ab04a4dc93d',
-        department: 'b1ccab4cb2fd2179aaceddf107187b70b48d9cb7'
-      },
-      enabled: true,
-      tenantName: 'Tenant 1'
-    },
-    // Tenant 2 (now correctly mapped to ea67107e-c352-40a9-a8b8-24d81ae3fc85)
-    'ea67107e-c352-40a9-a8b8-24d81ae3fc85': {
-      apiKey: process.env.PIPEDRIVE_KEY_TENANT2 || process.env.PIPEDRIVE_KEY_2 || '',
-      companyDomain: 'bseni',
-      pipelineIds: [3, 4, 5, 6, 7, 8, 9, 16], // All WIP pipelines (removed pipeline 2)
-      customFieldKeys: {
-        wopqNumber: '8a3fabdbd16595e1dc83d75327312eba71bbb0a4',
-        ipc: '0be49a5ee144f20b90168670b3a3f8f9b18977ae',
-        vesselName: 'ecb34e26525067dd1a426c0c59909a8797a85e54',
-        department: 'baad1beac0e8ba5a000dc82f7f1d2d9fd45b10a7',
-        location: 'd5db80cbb7d8612c676482c73a15c43a06b60e09',
-        personInCharge: '87813f40f660dde69c31412d52136e16552afeb2',
-        xeroQuoteId: '1f21104ccb95f5a4773ef52cd0c2cc1c78203f69',
-        quoteNumber: 'a52165a056d57cabba309ec5e53d7a6cd47ea766',
-        invoiceId: '8c5c696440f023067a49103a15b60ff6ae6e3243',
-        invoiceNumber: 'b0d383d6f828cae7cb5c80b5f3144b3d0e8b9419',
-        status: '892488671894031e384be7f94012c12215f60ca8',
-        vesselType: '2541f907abda866a9e04ff51004fca9f60c83f03',
-        salesReference: '6ec23a25a64aa044f0e57d1180d2ad8b7bdb43b9'
-      },
-      enabled: true,
-      tenantName: 'Tenant 2 (BSENI)'
-    }
-  };
+  let stored: StoredTenantConfig | null = null;
+  try {
+    stored = await TenantConfigStore.get(tenantId);
+  } catch (error) {
+    logger.error({ tenantId, error: (error as Error).message }, 'Failed to read tenant configuration store');
+  }
   
-  const config = configs[tenantId];
+  const builtIn = BUILT_IN_TENANT_CONFIGS[tenantId];
+  let config: PipedriveConfig;
   
-  if (!config) {
+  if (stored) {
+    let apiKey = '';
+    if (stored.encryptedApiKey) {
+      try {
+        apiKey = decryptSecret(stored.encryptedApiKey);
+      } catch (error) {
+        logger.error({ tenantId, error: (error as Error).message }, 'Failed to decrypt tenant Pipedrive API key');
+      }
+    }
+    
+    const { encryptedApiKey, updatedBy, updatedAt, tenantId: _tenantId, ...settings } = stored;
+    config = {
+      ...settings,
+      apiKey: apiKey || (builtIn ? getBuiltInApiKey(builtIn) : '')
+    };
+  } else if (builtIn) {
+    const { apiKeyEnv, ...settings } = builtIn;
+    config = { ...settings, apiKey: getBuiltInApiKey(builtIn) };
+  } else {
     return null;
   }
   
@@ -133,47 +127,72 @@ export async function resolvePipedriveConfig(tenantId: string): Promise<Pipedriv
 /**
  * Retrieves human-readable pipeline names mapped to their IDs for a specific tenant
  * 
- * @description Returns a mapping of pipeline IDs to descriptive names for display purposes.
+ * @description Returns the pipeline names from the tenant's configuration for display purposes.
  * Each tenant may have different pipeline configurations and naming conventions.
  * 
  * @param {string} tenantId - The unique identifier for the tenant
- * @returns {Record<number, string>} Object mapping pipeline IDs to their display names
+ * @returns {Promise<Record<number, string>>} Object mapping pipeline IDs to their display names
  * 
  * @example
  * ```typescript
  * // Get pipeline names for tenant 1
- * const names = getPipelineNames('ea67107e-c352-40a9-a8b8-24d81ae3fc85');
+ * const names = await getPipelineNames('6dd39ea4-e6a6-4993-a37a-21482ccf8d22');
  * console.log(names[2]); // "Work In Progress"
  * 
  * // Get pipeline names for BSENI tenant
- * const bseniNames = getPipelineNames('6dd39ea4-e6a6-4993-a37a-21482ccf8d22');
+ * const bseniNames = await getPipelineNames('ea67107e-c352-40a9-a8b8-24d81ae3fc85');
  * console.log(bseniNames[3]); // "WIP - Engine Recon"
  * 
  * // Handle unknown tenant
- * const unknown = getPipelineNames('unknown-id');
+ * const unknown = await getPipelineNames('unknown-id');
  * console.log(Object.keys(unknown).length); // 0 (empty object)
  * ```
  * 
  * @since 1.0.0
  */
-export function getPipelineNames(tenantId: string): Record<number, string> {
-  const pipelineNames: Record<string, Record<number, string>> = {
-    // Tenant 1
-    '6dd39ea4-e6a6-4993-a37a-21482ccf8d22': {
-      2: 'Work In Progress'
-    },
-    // Tenant 2 (BSENI)
-    'ea67107e-c352-40a9-a8b8-24d81ae3fc85': {
-      3: 'WIP - Engine Recon',
-      4: 'WIP - Machine Shop',
-      5: 'WIP - Laser Cladding',
-      6: 'WIP - Afloat Repairs',
-      7: 'WIP - Engine Overhauling',
-      8: 'WIP - Electricals',
-      9: 'WIP - Mechanical',
-      16: 'WIP - Navy'
-    }
-  };
+export async function getPipelineNames(tenantId: string): Promise<Record<number, string>> {
+  const config = await resolvePipedriveConfig(tenantId);
+  return config?.pipelineNames || {};
+}
+
+/**
+ * Lists every configured tenant for administration
+ *
+ * @description Combines the tenants saved in the store with built-in tenants that have not been saved yet.
+ * API keys are never included; `apiKeySource` tells where a tenant's key comes from.
+ *
+ * @returns {Promise<TenantConfigSummary[]>} Stored tenants, then unsaved built-in tenants
+ *
+ * @example
+ * ```typescript
+ * const tenants = await listTenantConfigs();
+ * const unsaved = tenants.filter(t => t.source === 'built_in');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function listTenantConfigs(): Promise<TenantConfigSummary[]> {
+  const stored = await TenantConfigStore.list();
+  
+  const summaries: TenantConfigSummary[] = stored.map(({ encryptedApiKey, ...config }) => {
+    const builtIn = BUILT_IN_TENANT_CONFIGS[config.tenantId];
+    return {
+      ...config,
+      source: 'store',
+      apiKeySource: encryptedApiKey ? 'store' : builtIn && getBuiltInApiKey(builtIn) ? 'environment' : 'none'
+    };
+  });
+  
+  for (const [tenantId, builtIn] of Object.entries(BUILT_IN_TENANT_CONFIGS)) {
+    if (stored.some(config => config.tenantId === tenantId)) continue;
+    const { apiKeyEnv, ...config } = builtIn;
+    summaries.push({
+      ...config,
+      tenantId,
+      source: 'built_in',
+      apiKeySource: getBuiltInApiKey(builtIn) ? 'environment' : 'none'
+    });
+  }
   
-  return pipelineNames[tenantId] || {};
-}
\ No newline at end of file
+  return summaries;
+}
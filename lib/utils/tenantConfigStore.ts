@@ -0,0 +1,162 @@
+/**
+ * Managed tenant configuration store
+ * Pipedrive configuration per Xero tenant, edited through /api/admin/tenant-configs; API keys are encrypted at rest
+ */
+
+import { withRedis } from '../redis/redisClient';
+import { encryptSecret } from './secretEncryption';
+import { REQUIRED_CUSTOM_FIELDS } from './pipedriveFieldDiscovery';
+import { validateRuleSettings, type ValidationRuleSettings } from '../validation/ruleRegistry';
+import type { CustomFieldMapping } from './tenantConfig';
+
+export interface StoredTenantConfig {
+  tenantId: string;
+  tenantName?: string;
+  companyDomain: string;
+  pipelineIds: number[];
+  pipelineNames?: Record<number, string>;
+  invoiceStageId?: number;
+  invoicePipelineId?: number;
+  customFieldKeys: CustomFieldMapping;
+  enabled: boolean;
+  validationRules?: ValidationRuleSettings;
+  // Pipedrive API key, encrypted with encryptSecret
+  encryptedApiKey?: string;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+export interface TenantConfigInput extends Omit<StoredTenantConfig, 'tenantId' | 'encryptedApiKey' | 'updatedBy' | 'updatedAt'> {
+  // New API key; leave empty to keep the stored one
+  apiKey?: string;
+  // Remove the stored API key, falling back to the environment for built-in tenants
+  clearApiKey?: boolean;
+}
+
+// Redis-backed store: a single hash keyed by tenant ID, kept without expiry
+export class TenantConfigStore {
+  private static readonly KEY = 'tenant-configs';
+
+  static async list(): Promise<StoredTenantConfig[]> {
+    return withRedis(async (redis) => {
+      const values = await redis.hvals(this.KEY);
+      return values
+        .map(value => JSON.parse(value) as StoredTenantConfig)
+        .sort((a, b) => (a.tenantName || a.tenantId).localeCompare(b.tenantName || b.tenantId));
+    });
+  }
+
+  static async get(tenantId: string): Promise<StoredTenantConfig | null> {
+    return withRedis(async (redis) => {
+      const value = await redis.hget(this.KEY, tenantId);
+      return value ? JSON.parse(value) : null;
+    });
+  }
+
+  static async save(config: StoredTenantConfig): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.hset(this.KEY, config.tenantId, JSON.stringify(config));
+    });
+  }
+
+  static async delete(tenantId: string): Promise<boolean> {
+    return withRedis(async (redis) => {
+      return (await redis.hdel(this.KEY, tenantId)) > 0;
+    });
+  }
+}
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Checks a tenant configuration before it is saved
+ * @param {TenantConfigInput} input - Configuration as submitted
+ * @returns {string | null} Error message, or null if the configuration is valid
+ */
+export function validateTenantConfigInput(input: TenantConfigInput): string | null {
+  if (typeof input.companyDomain !== 'string' || !/^[a-z0-9-]+$/i.test(input.companyDomain)) {
+    return 'companyDomain must be the Pipedrive company domain, e.g. "api" or "mycompany"';
+  }
+  if (!Array.isArray(input.pipelineIds) || input.pipelineIds.length === 0 || !input.pipelineIds.every(isPositiveInteger)) {
+    return 'pipelineIds must be a non-empty list of Pipedrive pipeline IDs';
+  }
+  if (input.pipelineNames !== undefined &&
+      (typeof input.pipelineNames !== 'object' || Object.values(input.pipelineNames).some(name => typeof name !== 'string'))) {
+    return 'pipelineNames must map pipeline IDs to names';
+  }
+  if (input.invoiceStageId !== undefined && !isPositiveInteger(input.invoiceStageId)) {
+    return 'invoiceStageId must be a Pipedrive stage ID';
+  }
+  if (input.invoicePipelineId !== undefined && !isPositiveInteger(input.invoicePipelineId)) {
+    return 'invoicePipelineId must be a Pipedrive pipeline ID';
+  }
+  if (!input.customFieldKeys || typeof input.customFieldKeys !== 'object' ||
+      Object.values(input.customFieldKeys).some(key => typeof key !== 'string')) {
+    return 'customFieldKeys must map field names to Pipedrive custom field keys';
+  }
+  const missingField = REQUIRED_CUSTOM_FIELDS.find(name => !input.customFieldKeys[name]);
+  if (missingField) {
+    return `customFieldKeys.${missingField} is required`;
+  }
+  if (typeof input.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (input.apiKey !== undefined && typeof input.apiKey !== 'string') {
+    return 'apiKey must be a string';
+  }
+  if (input.validationRules) {
+    const rulesError = validateRuleSettings(input.validationRules);
+    if (rulesError) return `validationRules: ${rulesError}`;
+  }
+  return null;
+}
+
+/**
+ * Creates or replaces a tenant's configuration in the store
+ *
+ * @description Encrypts a new API key before saving. Without a new key the stored one is kept, unless
+ * `clearApiKey` is set.
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @param {TenantConfigInput} input - Validated configuration
+ * @param {string} [updatedBy] - Email of the user saving the configuration
+ * @returns {Promise<StoredTenantConfig>} The stored configuration
+ * @throws {SecretEncryptionError} If a new API key is given and TENANT_CONFIG_ENCRYPTION_KEY is not set
+ *
+ * @example
+ * ```typescript
+ * await saveTenantConfig(tenantId, { companyDomain: 'api', pipelineIds: [2], customFieldKeys, enabled: true, apiKey }, session.user.email);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function saveTenantConfig(
+  tenantId: string,
+  input: TenantConfigInput,
+  updatedBy?: string
+): Promise<StoredTenantConfig> {
+  const existing = await TenantConfigStore.get(tenantId);
+
+  const encryptedApiKey = input.apiKey?.trim()
+    ? encryptSecret(input.apiKey.trim())
+    : input.clearApiKey ? undefined : existing?.encryptedApiKey;
+
+  const config: StoredTenantConfig = {
+    tenantId,
+    tenantName: input.tenantName?.trim() || undefined,
+    companyDomain: input.companyDomain,
+    pipelineIds: input.pipelineIds,
+    pipelineNames: input.pipelineNames,
+    invoiceStageId: input.invoiceStageId,
+    invoicePipelineId: input.invoicePipelineId,
+    customFieldKeys: input.customFieldKeys,
+    enabled: input.enabled,
+    validationRules: input.validationRules,
+    encryptedApiKey,
+    updatedBy,
+    updatedAt: new Date().toISOString()
+  };
+
+  await TenantConfigStore.save(config);
+  return config;
+}
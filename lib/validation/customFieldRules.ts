@@ -0,0 +1,353 @@
+/**
+ * Declarative custom field rules
+ * Tenant-defined requirements on Pipedrive deal fields, evaluated against the deal and its linked Xero quote and project
+ */
+
+import type { ValidationIssue } from '../types/validation';
+import type { TenantConfig } from './pipedriveValidationRules';
+
+export type CustomRuleOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'empty'
+  | 'not_empty'
+  | 'matches'
+  | 'not_matches'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+/**
+ * A condition on one value, or a combination of conditions
+ *
+ * Paths start with the record they read from:
+ * - `deal.<property>` - Pipedrive deal property, e.g. `deal.stage_id`
+ * - `fields.<name>` - custom field by its name in the tenant's field mapping, e.g. `fields.invoiceNumber`
+ * - `quote.<property>` - linked Xero quote, e.g. `quote.Status` or `quote.Contact.Name`
+ * - `project.<property>` - matched Xero project, e.g. `project.status`
+ * - `config.<property>` - tenant configuration, e.g. `config.invoiceStageId`
+ */
+export type CustomRuleCondition =
+  | { all: CustomRuleCondition[] }
+  | { any: CustomRuleCondition[] }
+  | { not: CustomRuleCondition }
+  | CustomRuleComparison;
+
+export interface CustomRuleComparison {
+  field: string;
+  op: CustomRuleOperator;
+  // Literal to compare with; a regular expression for matches, e.g. "^WO\\d+$" or "/^wo\\d+$/i"
+  value?: unknown;
+  // Path to compare with instead of a literal, e.g. "config.invoiceStageId"
+  valueFrom?: string;
+}
+
+export interface CustomFieldRule {
+  // Issue code reported when the rule fails, e.g. "MISSING_INVOICE_NUMBER"
+  code: string;
+  severity: ValidationIssue['severity'];
+  // Issue message; {value} is replaced with the value of the first field in `require`, {dealTitle} with the deal title
+  message: string;
+  suggestedFix?: string;
+  // The rule only applies to deals matching this condition
+  when?: CustomRuleCondition;
+  // Deals the rule applies to must match this condition
+  require: CustomRuleCondition;
+}
+
+// Records a rule is evaluated against
+export interface CustomRuleSubject {
+  deal: any;
+  quote?: any;
+  project?: any;
+  config: Pick<TenantConfig, 'customFieldKeys' | 'invoiceStageId' | 'pipelineIds'>;
+}
+
+export interface CustomRuleEvaluation {
+  // False when the deal does not match the rule's `when` condition
+  applies: boolean;
+  passed: boolean;
+  issue?: ValidationIssue;
+}
+
+const OPERATORS: CustomRuleOperator[] = [
+  'equals', 'not_equals', 'in', 'not_in', 'empty', 'not_empty',
+  'matches', 'not_matches', 'gt', 'gte', 'lt', 'lte'
+];
+
+const PATH_ROOTS = ['deal', 'fields', 'quote', 'project', 'config'];
+
+const RULE_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+function isComparison(condition: CustomRuleCondition): condition is CustomRuleComparison {
+  return 'field' in condition;
+}
+
+// Accepts "pattern" or "/pattern/flags"
+function toRegExp(value: unknown): RegExp {
+  const source = String(value);
+  const literal = source.match(/^\/(.+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+// Pipedrive returns numbers and option IDs as strings in some API versions, so equality is compared as text
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) || isEmptyValue(b)) return isEmptyValue(a) && isEmptyValue(b);
+  return String(a).trim() === String(b).trim();
+}
+
+function validateCondition(condition: any, path: string): string | null {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    return `${path} must be a condition object`;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const list = condition.all ?? condition.any;
+    if (!Array.isArray(list) || list.length === 0) {
+      return `${path}.${'all' in condition ? 'all' : 'any'} must be a non-empty list of conditions`;
+    }
+    for (let i = 0; i < list.length; i++) {
+      const error = validateCondition(list[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if ('not' in condition) {
+    return validateCondition(condition.not, `${path}.not`);
+  }
+
+  if (typeof condition.field !== 'string' || !PATH_ROOTS.includes(condition.field.split('.')[0]) || !condition.field.includes('.')) {
+    return `${path}.field must be a path starting with ${PATH_ROOTS.map(root => `${root}.`).join(', ')}`;
+  }
+  if (!OPERATORS.includes(condition.op)) {
+    return `${path}.op must be one of ${OPERATORS.join(', ')}`;
+  }
+  if (condition.valueFrom !== undefined &&
+      (typeof condition.valueFrom !== 'string' || !PATH_ROOTS.includes(condition.valueFrom.split('.')[0]))) {
+    return `${path}.valueFrom must be a path starting with ${PATH_ROOTS.map(root => `${root}.`).join(', ')}`;
+  }
+
+  const needsValue = condition.op !== 'empty' && condition.op !== 'not_empty';
+  if (needsValue && condition.value === undefined && condition.valueFrom === undefined) {
+    return `${path} needs a value or valueFrom for "${condition.op}"`;
+  }
+  if ((condition.op === 'in' || condition.op === 'not_in') && condition.valueFrom === undefined && !Array.isArray(condition.value)) {
+    return `${path}.value must be a list for "${condition.op}"`;
+  }
+  if ((condition.op === 'matches' || condition.op === 'not_matches') && condition.value !== undefined) {
+    try {
+      toRegExp(condition.value);
+    } catch {
+      return `${path}.value is not a valid regular expression`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks a custom field rule for missing properties, unknown operators and invalid paths or patterns
+ * @param {any} rule - Rule as configured
+ * @returns {string | null} Error message, or null if the rule is valid
+ */
+export function validateCustomFieldRule(rule: any): string | null {
+  if (!rule || typeof rule !== 'object') {
+    return 'Rule must be an object';
+  }
+  if (typeof rule.code !== 'string' || !RULE_CODE_PATTERN.test(rule.code)) {
+    return 'code must be UPPER_SNAKE_CASE, e.g. MISSING_INVOICE_NUMBER';
+  }
+  if (!['error', 'warning', 'info'].includes(rule.severity)) {
+    return `${rule.code}: severity must be error, warning or info`;
+  }
+  if (typeof rule.message !== 'string' || !rule.message.trim()) {
+    return `${rule.code}: message is required`;
+  }
+  if (rule.require === undefined) {
+    return `${rule.code}: require is required`;
+  }
+
+  const error = (rule.when !== undefined ? validateCondition(rule.when, 'when') : null) ||
+    validateCondition(rule.require, 'require');
+  return error ? `${rule.code}: ${error}` : null;
+}
+
+/**
+ * Reads a value from the records a rule is evaluated against
+ *
+ * @param {string} path - Path such as `deal.stage_id`, `fields.woNumber` or `quote.Contact.Name`
+ * @param {CustomRuleSubject} subject - Deal, linked quote and project, and tenant configuration
+ * @returns {unknown} The value, or undefined if the path or record does not exist
+ *
+ * @example
+ * ```typescript
+ * resolveRulePath('fields.woNumber', { deal, config: tenantConfig }); // "WO1234"
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function resolveRulePath(path: string, subject: CustomRuleSubject): unknown {
+  const [root, ...rest] = path.split('.');
+
+  let value: any;
+  if (root === 'fields') {
+    // Custom fields are read by mapped name, in the v2 location first and then v1
+    const fieldKey = subject.config.customFieldKeys[rest[0]];
+    if (!fieldKey) return undefined;
+    value = subject.deal?.custom_fields?.[fieldKey] ?? subject.deal?.[fieldKey];
+    rest.shift();
+  } else {
+    value = ({ deal: subject.deal, quote: subject.quote, project: subject.project, config: subject.config } as Record<string, any>)[root];
+  }
+
+  for (const key of rest) {
+    if (value === undefined || value === null) return undefined;
+    value = value[key];
+  }
+
+  // v2 option and monetary fields are objects such as { value: 123 } or { id: 5 }
+  if (value && typeof value === 'object' && !Array.isArray(value) && ('value' in value || 'id' in value)) {
+    return value.value ?? value.id;
+  }
+  return value;
+}
+
+function evaluateCondition(condition: CustomRuleCondition, subject: CustomRuleSubject): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, subject));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, subject));
+  if ('not' in condition) return !evaluateCondition(condition.not, subject);
+
+  const actual = resolveRulePath(condition.field, subject);
+  const expected = condition.valueFrom !== undefined ? resolveRulePath(condition.valueFrom, subject) : condition.value;
+
+  switch (condition.op) {
+    case 'empty':
+      return isEmptyValue(actual);
+    case 'not_empty':
+      return !isEmptyValue(actual);
+    case 'equals':
+      return sameValue(actual, expected);
+    case 'not_equals':
+      return !sameValue(actual, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(v => sameValue(actual, v));
+    case 'not_in':
+      return !Array.isArray(expected) || !expected.some(v => sameValue(actual, v));
+    case 'matches':
+      return !isEmptyValue(actual) && toRegExp(expected).test(String(actual).trim());
+    case 'not_matches':
+      return isEmptyValue(actual) || !toRegExp(expected).test(String(actual).trim());
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const a = Number(actual);
+      const b = Number(expected);
+      if (isEmptyValue(actual) || isEmptyValue(expected) || isNaN(a) || isNaN(b)) return false;
+      return condition.op === 'gt' ? a > b : condition.op === 'gte' ? a >= b : condition.op === 'lt' ? a < b : a <= b;
+    }
+  }
+}
+
+// First field a condition checks, used for {value} and the issue's field
+function primaryField(condition: CustomRuleCondition): string | undefined {
+  if (isComparison(condition)) return condition.field;
+  if ('not' in condition) return primaryField(condition.not);
+  const list = 'all' in condition ? condition.all : condition.any;
+  return list.length > 0 ? primaryField(list[0]) : undefined;
+}
+
+/**
+ * Lists every path a rule reads
+ * @param {CustomFieldRule} rule - Rule to inspect
+ * @returns {string[]} Unique paths from `field` and `valueFrom`, in the order they appear
+ */
+export function collectRulePaths(rule: CustomFieldRule): string[] {
+  const paths: string[] = [];
+  const visit = (condition: CustomRuleCondition) => {
+    if ('all' in condition) condition.all.forEach(visit);
+    else if ('any' in condition) condition.any.forEach(visit);
+    else if ('not' in condition) visit(condition.not);
+    else {
+      paths.push(condition.field);
+      if (condition.valueFrom) paths.push(condition.valueFrom);
+    }
+  };
+  if (rule.when) visit(rule.when);
+  visit(rule.require);
+  return Array.from(new Set(paths));
+}
+
+/**
+ * Evaluates one custom field rule against a deal
+ *
+ * @description The rule applies when the deal matches `when` (or has no `when`), and fails when an
+ * applicable deal does not match `require`. A failure is reported as a standard validation issue.
+ *
+ * @param {CustomFieldRule} rule - Rule to evaluate
+ * @param {CustomRuleSubject} subject - Deal, linked quote and project, and tenant configuration
+ * @returns {CustomRuleEvaluation} Whether the rule applied and passed, with the issue when it failed
+ *
+ * @example
+ * ```typescript
+ * const result = evaluateCustomFieldRule({
+ *   code: 'MISSING_INVOICE_NUMBER',
+ *   severity: 'error',
+ *   message: 'Invoice number is empty for a deal in the Invoice stage',
+ *   when: { field: 'deal.stage_id', op: 'equals', valueFrom: 'config.invoiceStageId' },
+ *   require: { field: 'fields.invoiceNumber', op: 'not_empty' }
+ * }, { deal, config: tenantConfig });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function evaluateCustomFieldRule(rule: CustomFieldRule, subject: CustomRuleSubject): CustomRuleEvaluation {
+  if (rule.when && !evaluateCondition(rule.when, subject)) {
+    return { applies: false, passed: true };
+  }
+
+  if (evaluateCondition(rule.require, subject)) {
+    return { applies: true, passed: true };
+  }
+
+  const field = primaryField(rule.require);
+  const value = field ? resolveRulePath(field, subject) : undefined;
+  const dealTitle = subject.deal?.title || subject.deal?.name;
+
+  return {
+    applies: true,
+    passed: false,
+    issue: {
+      severity: rule.severity,
+      code: rule.code,
+      message: rule.message
+        .replace(/\{value\}/g, isEmptyValue(value) ? '(empty)' : String(value))
+        .replace(/\{dealTitle\}/g, dealTitle || ''),
+      dealId: subject.deal?.id,
+      dealTitle,
+      field: field?.replace(/^fields\./, ''),
+      suggestedFix: rule.suggestedFix
+    }
+  };
+}
+
+/**
+ * Evaluates custom field rules against a deal
+ * @param {CustomFieldRule[]} rules - Rules to evaluate
+ * @param {CustomRuleSubject} subject - Deal, linked quote and project, and tenant configuration
+ * @returns {ValidationIssue[]} One issue per failed rule
+ */
+export function evaluateCustomFieldRules(rules: CustomFieldRule[], subject: CustomRuleSubject): ValidationIssue[] {
+  return rules
+    .map(rule => evaluateCustomFieldRule(rule, subject).issue)
+    .filter((issue): issue is ValidationIssue => !!issue);
+}
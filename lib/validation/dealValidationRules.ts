@@ -1,37 +1,267 @@
 /**
- * Stub implementation for deal validation rules
+ * Deal-level validation rules comparing a Pipedrive deal with its products and linked Xero quote
  */
 
+import type { ValidationIssue } from '../types/validation';
+import { isAutoFixable, type ValidationRuleSet } from './ruleRegistry';
+
 export interface ValidationContext {
   dealId?: string;
+  // Tenant rule settings; disabled rules are dropped and severity overrides applied
+  rules?: ValidationRuleSet;
   [key: string]: any;
 }
 
-export function validateDeal(contextOrDeal: any, context?: ValidationContext) {
+export interface CategorizedIssues {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  suggestions: ValidationIssue[];
+  fixable: ValidationIssue[];
+}
+
+export interface DealValidationStats {
+  totalDeals: number;
+  dealsWithIssues: number;
+  totalIssues: number;
+  errorCount: number;
+  warningCount: number;
+  suggestionCount: number;
+  withErrors: number;
+  acceptedQuotesTotal: number;
+  dealsTotal: number;
+  totalsMismatch: boolean;
+}
+
+/** Tolerance used when comparing monetary amounts across systems */
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Validates a single Pipedrive deal against its products and linked Xero quote
+ *
+ * @description Checks that the deal has an organisation and products, that the product lines add up to
+ * the deal value, and that the linked Xero quote (when present) uses the same currency and customer.
+ * Accepts either a context object (`{ deal, xeroQuote, dealProducts, tenantId, rules }`) or the deal followed
+ * by a context object. With `rules`, the tenant's rule settings are applied to the issues.
+ *
+ * @param {any} contextOrDeal - Validation context containing the deal, or the deal itself
+ * @param {ValidationContext} [context] - Validation context when the deal is passed as the first argument
+ * @returns {ValidationIssue[]} Array of validation issues found for the deal
+ *
+ * @example
+ * ```typescript
+ * const issues = validateDeal({ deal: dealData, xeroQuote, dealProducts, tenantId });
+ * const { errors, fixable } = categorizeIssues(issues);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function validateDeal(contextOrDeal: any, context?: ValidationContext): ValidationIssue[] {
   // Support both calling patterns
-  return [];
+  const ctx: ValidationContext = context
+    ? { ...context, deal: contextOrDeal }
+    : contextOrDeal || {};
+  const deal = ctx.deal;
+  if (!deal) return [];
+
+  const xeroQuote = ctx.xeroQuote || deal.xeroQuote || null;
+  const dealProducts: any[] = ctx.dealProducts || deal.dealProducts || [];
+  const issues: ValidationIssue[] = [];
+
+  const issue = (
+    severity: ValidationIssue['severity'],
+    code: string,
+    message: string,
+    extra: Partial<ValidationIssue> = {}
+  ): ValidationIssue => ({
+    severity,
+    code,
+    message,
+    dealId: deal.id,
+    dealTitle: deal.title,
+    ...extra
+  });
+
+  // Organisation is required for quoting and invoicing
+  if (!deal.org_id) {
+    issues.push(issue('error', 'DEAL_ORG_MISSING', 'Deal has no organization linked', {
+      field: 'org_id',
+      suggestedFix: 'Link the customer organization to the deal in Pipedrive'
+    }));
+  }
+
+  // Products
+  if (dealProducts.length === 0) {
+    const xeroLineItemCount = xeroQuote?.LineItems?.length || 0;
+    issues.push(issue('warning', 'NO_PRODUCTS', 'Deal has no products', {
+      field: 'products',
+      suggestedFix: xeroLineItemCount > 0
+        ? `Copy the ${xeroLineItemCount} line item(s) from Xero quote ${xeroQuote.QuoteNumber || ''}`.trim()
+        : 'Add the quoted products to the deal in Pipedrive',
+      metadata: { xeroLineItemCount }
+    }));
+  }
+
+  const dealValue = Number(deal.value) || 0;
+  const productsTotal = calculateProductsTotal(dealProducts);
+  if ((dealProducts.length > 0 || xeroQuote?.LineItems?.length) &&
+      Math.abs(dealValue - productsTotal) > AMOUNT_TOLERANCE) {
+    issues.push(issue('error', 'DEAL_PRODUCTS_VALUE_MISMATCH',
+      `Deal value ${formatAmount(dealValue, deal.currency)} does not match products total ${formatAmount(productsTotal, deal.currency)}`, {
+      field: 'value',
+      suggestedFix: dealProducts.length === 0
+        ? 'Sync line items from the Xero quote to the deal'
+        : 'Sync deal products to the Xero quote',
+      metadata: {
+        dealValue,
+        productsTotal,
+        difference: dealValue - productsTotal,
+        quoteNumber: xeroQuote?.QuoteNumber
+      }
+    }));
+  }
+
+  if (xeroQuote) {
+    // Currency must match between deal and quote
+    if (xeroQuote.CurrencyCode && deal.currency &&
+        String(xeroQuote.CurrencyCode).toUpperCase() !== String(deal.currency).toUpperCase()) {
+      issues.push(issue('error', 'CURRENCY_MISMATCH',
+        `Deal currency ${deal.currency} does not match Xero quote currency ${xeroQuote.CurrencyCode}`, {
+        field: 'currency',
+        suggestedFix: `Change the deal currency to ${xeroQuote.CurrencyCode} or re-issue the quote in ${deal.currency}`,
+        metadata: {
+          quoteNumber: xeroQuote.QuoteNumber,
+          dealCurrency: deal.currency,
+          quoteCurrency: xeroQuote.CurrencyCode
+        }
+      }));
+    }
+
+    // Customer on the quote should be the deal organisation
+    const contactName = xeroQuote.Contact?.Name;
+    if (contactName && deal.org_name && deal.org_name !== 'Unknown' &&
+        normalizeCustomerName(contactName) !== normalizeCustomerName(deal.org_name)) {
+      issues.push(issue('warning', 'CUSTOMER_NAME_MISMATCH',
+        `Deal organization "${deal.org_name}" does not match Xero quote contact "${contactName}"`, {
+        field: 'org_name',
+        suggestedFix: 'Check that the quote was raised against the right contact',
+        metadata: {
+          quoteNumber: xeroQuote.QuoteNumber,
+          contactName,
+          orgName: deal.org_name
+        }
+      }));
+    }
+  }
+
+  return ctx.rules ? ctx.rules.apply(issues) : issues;
 }
 
-export function categorizeIssues(issues: any[]) {
+/**
+ * Splits validation issues by severity and picks out the ones that can be fixed automatically
+ *
+ * @description Errors and warnings map directly to their severity, `info` issues are reported as
+ * suggestions, and any issue whose code is handled by the fix-issue endpoint is also listed as fixable.
+ *
+ * @param {ValidationIssue[]} issues - Issues returned by {@link validateDeal}
+ * @returns {CategorizedIssues} Issues grouped into errors, warnings, suggestions and fixable
+ *
+ * @example
+ * ```typescript
+ * const categorized = categorizeIssues(issues);
+ * const isFullySynced = categorized.errors.length === 0 && categorized.warnings.length === 0;
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function categorizeIssues(issues: ValidationIssue[]): CategorizedIssues {
   return {
-    errors: [],
-    warnings: [],
-    suggestions: [],
-    fixable: []
+    errors: issues.filter(i => i.severity === 'error'),
+    warnings: issues.filter(i => i.severity === 'warning'),
+    suggestions: issues.filter(i => i.severity === 'info'),
+    fixable: issues.filter(i => isAutoFixable(i.code))
   };
 }
 
-export function generateValidationStats(deals: any[]) {
+/**
+ * Generates aggregate statistics for a set of validated deals
+ *
+ * @description Counts deals with issues and issues by severity, and compares the total of accepted
+ * Xero quotes with the total deal value.
+ *
+ * @param {any[]} deals - Deals carrying `validationIssues`, `value`, `xeroQuoteStatus` and `xeroQuoteTotal`
+ * @returns {DealValidationStats} Aggregated validation statistics
+ *
+ * @example
+ * ```typescript
+ * const stats = generateValidationStats(validatedDeals);
+ * if (stats.totalsMismatch) console.warn('Accepted quotes do not add up to deal values');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function generateValidationStats(deals: any[]): DealValidationStats {
+  let dealsWithIssues = 0;
+  let withErrors = 0;
+  let errorCount = 0;
+  let warningCount = 0;
+  let suggestionCount = 0;
+  let totalIssues = 0;
+  let acceptedQuotesTotal = 0;
+  let dealsTotal = 0;
+
+  for (const deal of deals) {
+    const issues: ValidationIssue[] = deal.validationIssues || [];
+    const categorized = categorizeIssues(issues);
+
+    totalIssues += issues.length;
+    errorCount += categorized.errors.length;
+    warningCount += categorized.warnings.length;
+    suggestionCount += categorized.suggestions.length;
+    if (issues.length > 0) dealsWithIssues++;
+    if (categorized.errors.length > 0) withErrors++;
+
+    dealsTotal += Number(deal.value) || 0;
+    if (deal.xeroQuoteStatus === 'ACCEPTED') {
+      acceptedQuotesTotal += Number(deal.xeroQuoteTotal) || 0;
+    }
+  }
+
   return {
     totalDeals: deals.length,
-    dealsWithIssues: 0,
-    totalIssues: 0,
-    errorCount: 0,
-    warningCount: 0,
-    suggestionCount: 0,
-    withErrors: 0,
-    acceptedQuotesTotal: 0,
-    dealsTotal: 0,
-    totalsMismatch: false
+    dealsWithIssues,
+    totalIssues,
+    errorCount,
+    warningCount,
+    suggestionCount,
+    withErrors,
+    acceptedQuotesTotal,
+    dealsTotal,
+    totalsMismatch: Math.abs(dealsTotal - acceptedQuotesTotal) > AMOUNT_TOLERANCE
   };
-}
\ No newline at end of file
+}
+
+/** Sums product lines the same way Pipedrive does: quantity x item price, less any percentage discount */
+function calculateProductsTotal(products: any[]): number {
+  return products.reduce((sum: number, product: any) => {
+    const lineTotal = (Number(product.quantity) || 0) * (Number(product.item_price) || 0);
+    const discount = product.discount_type === 'amount'
+      ? Number(product.discount) || 0
+      : lineTotal * ((Number(product.discount) || 0) / 100);
+    return sum + lineTotal - discount;
+  }, 0);
+}
+
+/** Normalizes a customer name for comparison, ignoring case, punctuation and company suffixes */
+function normalizeCustomerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\b(pte|ltd|limited|inc|llc|co|corp|corporation|sdn|bhd|private)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Formats an amount with its currency for issue messages */
+function formatAmount(amount: number, currency?: string): string {
+  return `${currency || ''} ${amount.toFixed(2)}`.trim();
+}
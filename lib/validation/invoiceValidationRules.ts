@@ -1,17 +1,429 @@
 /**
- * Stub implementation for invoice validation rules
+ * Invoice validation rules checking invoiced Pipedrive deals against Xero invoices and quotes
  */
 
-export function validatePipeline3Invoices(
-  invoices: any[],
+import { waitForXeroRateLimit, trackXeroApiCall, updateXeroRateLimitFromHeaders } from '../xeroApiTracker';
+import { createLogger } from '../logger';
+import type { ValidationIssue } from '../types/validation';
+
+const logger = createLogger('InvoiceValidation');
+
+export type InvoicePaymentStatus = 'paid' | 'partially_paid' | 'overdue' | 'unpaid' | 'not_invoiced';
+
+export interface InvoiceValidationOptions {
+  invoiceNumberFieldKey?: string;
+  xeroQuoteFieldKey?: string;
+  xeroQuotes?: any[];
+}
+
+export interface InvoiceFieldKeys {
+  invoiceId: string;
+  invoiceNumber?: string;
+  xeroQuoteId?: string;
+}
+
+export interface InvoiceDealResult {
+  dealId: number;
+  dealTitle: string;
+  orgName?: string;
+  invoiceId: string | null;
+  pipedriveInvoiceNumber: string | null;
+  xeroInvoiceNumber?: string;
+  invoiceStatus?: string;
+  invoiceTotal?: number;
+  amountPaid?: number;
+  amountDue?: number;
+  dueDate?: string;
+  currency?: string;
+  quoteId?: string;
+  quoteNumber?: string;
+  quoteTotal?: number;
+  paymentStatus: InvoicePaymentStatus;
+  issues: ValidationIssue[];
+}
+
+export interface InvoiceValidationResult {
+  invoices: any[];
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  deals: InvoiceDealResult[];
+}
+
+/** Invoice statuses that mean the invoice has been issued to the customer */
+const VALID_INVOICE_STATUSES = ['AUTHORISED', 'PAID'];
+
+/** Xero accepts up to this many IDs in a single Invoices?IDs= request */
+const INVOICE_BATCH_SIZE = 40;
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates invoiced Pipedrive deals against their Xero invoices and accepted quotes
+ *
+ * @description Fetches the Xero invoices linked through the deal's invoice custom field (an InvoiceID
+ * or an invoice number) and checks that each exists and is AUTHORISED or PAID, that its total equals the
+ * linked quote total, and that the invoice number stored in Pipedrive matches Xero. Every deal is given a
+ * payment status of paid, partially_paid, overdue, unpaid or not_invoiced.
+ *
+ * @param {any[]} deals - Pipedrive deals with custom fields (v2 `custom_fields` or v1 top-level keys)
+ * @param {string} [invoiceFieldKey] - Custom field key holding the Xero invoice ID
+ * @param {string} [accessToken] - Xero access token
+ * @param {string} [tenantId] - Xero tenant ID
+ * @param {InvoiceValidationOptions} [options={}] - Invoice number and quote field keys, and pre-fetched quotes
+ * @returns {Promise<InvoiceValidationResult>} Invoices fetched, issues split by severity, and per-deal results
+ *
+ * @example
+ * ```typescript
+ * const result = await validatePipeline3Invoices(deals, config.customFieldKeys.invoiceId, access_token, tenantId, {
+ *   invoiceNumberFieldKey: config.customFieldKeys.invoiceNumber,
+ *   xeroQuoteFieldKey: config.customFieldKeys.xeroQuoteId
+ * });
+ * const overdue = result.deals.filter(d => d.paymentStatus === 'overdue');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function validatePipeline3Invoices(
+  deals: any[],
   invoiceFieldKey?: string,
   accessToken?: string,
-  tenantId?: string
-) {
+  tenantId?: string,
+  options: InvoiceValidationOptions = {}
+): Promise<InvoiceValidationResult> {
+  if (!invoiceFieldKey) {
+    return { invoices: [], errors: [], warnings: [], deals: [] };
+  }
+
+  const fieldKeys: InvoiceFieldKeys = {
+    invoiceId: invoiceFieldKey,
+    invoiceNumber: options.invoiceNumberFieldKey,
+    xeroQuoteId: options.xeroQuoteFieldKey
+  };
+
+  const invoiceRefs = deals
+    .map(deal => getCustomField(deal, fieldKeys.invoiceId))
+    .filter((ref): ref is string => Boolean(ref));
+
+  let invoices: any[] = [];
+  const quotes: any[] = [...(options.xeroQuotes || [])];
+
+  if (accessToken && tenantId) {
+    invoices = await fetchXeroInvoices(invoiceRefs, accessToken, tenantId);
+
+    if (fieldKeys.xeroQuoteId) {
+      const knownQuoteIds = new Set(quotes.map(q => q.QuoteID));
+      const missingQuoteIds = deals
+        .map(deal => getCustomField(deal, fieldKeys.xeroQuoteId!))
+        .filter((id): id is string => Boolean(id) && GUID_PATTERN.test(id!) && !knownQuoteIds.has(id!));
+      quotes.push(...await fetchXeroQuotesById([...new Set(missingQuoteIds)], accessToken, tenantId));
+    }
+  }
+
+  const results = deals.map(deal => {
+    const invoiceRef = getCustomField(deal, fieldKeys.invoiceId);
+    const invoice = invoiceRef ? findInvoice(invoices, invoiceRef) : null;
+    const quoteRef = fieldKeys.xeroQuoteId ? getCustomField(deal, fieldKeys.xeroQuoteId) : null;
+    const quote = quoteRef ? quotes.find(q => q.QuoteID === quoteRef || q.QuoteNumber === quoteRef) : null;
+    return validateDealInvoice(deal, invoice, quote, fieldKeys);
+  });
+
+  const allIssues = results.flatMap(r => r.issues);
+
+  logger.info({
+    dealCount: deals.length,
+    invoiceCount: invoices.length,
+    errorCount: allIssues.filter(i => i.severity === 'error').length
+  }, 'Invoice validation completed');
+
   return {
-    invoices: [],
-    errors: [],
-    warnings: [],
-    deals: []
+    invoices: invoices.map(invoice => ({
+      invoiceId: invoice.InvoiceID,
+      invoiceNumber: invoice.InvoiceNumber,
+      status: invoice.Status,
+      total: invoice.Total,
+      amountPaid: invoice.AmountPaid,
+      amountDue: invoice.AmountDue,
+      dueDate: invoice.DueDateString || invoice.DueDate,
+      currency: invoice.CurrencyCode,
+      contactName: invoice.Contact?.Name
+    })),
+    errors: allIssues.filter(i => i.severity === 'error'),
+    warnings: allIssues.filter(i => i.severity === 'warning'),
+    deals: results
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Validates one invoiced deal against its Xero invoice and quote
+ *
+ * @description Pure check used by {@link validatePipeline3Invoices} and by the invoice-stage rules once
+ * invoices have been fetched. Pass `null` for an invoice that could not be found in Xero.
+ *
+ * @param {any} deal - Pipedrive deal with custom fields
+ * @param {any | null} invoice - Xero invoice linked to the deal
+ * @param {any | null} quote - Xero quote linked to the deal
+ * @param {InvoiceFieldKeys} fieldKeys - Custom field keys for invoice ID, invoice number and quote ID
+ * @returns {InvoiceDealResult} Per-deal result with payment status and issues
+ *
+ * @example
+ * ```typescript
+ * const result = validateDealInvoice(deal, invoice, quote, { invoiceId: keys.invoiceId });
+ * console.log(result.paymentStatus);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function validateDealInvoice(
+  deal: any,
+  invoice: any | null,
+  quote: any | null,
+  fieldKeys: InvoiceFieldKeys
+): InvoiceDealResult {
+  const dealTitle = deal.title || deal.name || '';
+  const invoiceId = getCustomField(deal, fieldKeys.invoiceId);
+  const pipedriveInvoiceNumber = fieldKeys.invoiceNumber ? getCustomField(deal, fieldKeys.invoiceNumber) : null;
+  const issues: ValidationIssue[] = [];
+
+  const result: InvoiceDealResult = {
+    dealId: deal.id,
+    dealTitle,
+    orgName: deal.org_name,
+    invoiceId,
+    pipedriveInvoiceNumber,
+    quoteId: quote?.QuoteID,
+    quoteNumber: quote?.QuoteNumber,
+    quoteTotal: quote ? Number(quote.Total) || 0 : undefined,
+    paymentStatus: 'not_invoiced',
+    issues
+  };
+
+  if (!invoiceId) {
+    issues.push({
+      severity: 'error',
+      code: 'INVOICE_ID_MISSING',
+      message: 'Invoiced deal has no Xero invoice linked',
+      dealId: deal.id,
+      dealTitle,
+      field: 'invoiceId',
+      suggestedFix: 'Add the Xero invoice ID to the deal in Pipedrive'
+    });
+    return result;
+  }
+
+  if (!invoice) {
+    issues.push({
+      severity: 'error',
+      code: 'INVOICE_NOT_FOUND',
+      message: `Linked invoice ${invoiceId} was not found in Xero`,
+      dealId: deal.id,
+      dealTitle,
+      field: 'invoiceId',
+      suggestedFix: 'Check the invoice ID on the deal, or whether the invoice was deleted in Xero',
+      metadata: { invoiceId }
+    });
+    return result;
+  }
+
+  const invoiceTotal = Number(invoice.Total) || 0;
+  const amountPaid = Number(invoice.AmountPaid) || 0;
+  const amountDue = Number(invoice.AmountDue) || 0;
+  const dueDate = invoice.DueDateString || parseXeroDate(invoice.DueDate);
+  Object.assign(result, {
+    xeroInvoiceNumber: invoice.InvoiceNumber,
+    invoiceStatus: invoice.Status,
+    invoiceTotal,
+    amountPaid,
+    amountDue,
+    dueDate,
+    currency: invoice.CurrencyCode,
+    paymentStatus: getPaymentStatus(invoice.Status, amountPaid, amountDue, dueDate)
+  });
+
+  const invoiceMetadata = {
+    invoiceId: invoice.InvoiceID,
+    invoiceNumber: invoice.InvoiceNumber,
+    invoiceStatus: invoice.Status,
+    invoiceTotal
+  };
+
+  if (!VALID_INVOICE_STATUSES.includes(invoice.Status)) {
+    issues.push({
+      severity: 'error',
+      code: 'INVOICE_WRONG_STATUS',
+      message: `Invoice ${invoice.InvoiceNumber} is ${invoice.Status} (should be AUTHORISED or PAID)`,
+      dealId: deal.id,
+      dealTitle,
+      field: 'invoiceStatus',
+      suggestedFix: `Approve invoice ${invoice.InvoiceNumber} in Xero`,
+      metadata: invoiceMetadata
+    });
+  }
+
+  if (quote && Math.abs(invoiceTotal - (Number(quote.Total) || 0)) > 0.01) {
+    issues.push({
+      severity: 'error',
+      code: 'INVOICE_QUOTE_TOTAL_MISMATCH',
+      message: `Invoice ${invoice.InvoiceNumber} total (${invoiceTotal.toLocaleString()}) does not match quote ${quote.QuoteNumber} total (${Number(quote.Total).toLocaleString()})`,
+      dealId: deal.id,
+      dealTitle,
+      field: 'invoiceTotal',
+      suggestedFix: 'Check whether the invoice is missing line items or includes variations not on the quote',
+      metadata: {
+        ...invoiceMetadata,
+        quoteNumber: quote.QuoteNumber,
+        quoteTotal: Number(quote.Total) || 0,
+        difference: invoiceTotal - (Number(quote.Total) || 0)
+      }
+    });
+  }
+
+  if (fieldKeys.invoiceNumber && pipedriveInvoiceNumber !== invoice.InvoiceNumber) {
+    issues.push({
+      severity: 'warning',
+      code: 'INVOICE_NUMBER_MISMATCH',
+      message: pipedriveInvoiceNumber
+        ? `Deal invoice number ${pipedriveInvoiceNumber} does not match Xero invoice ${invoice.InvoiceNumber}`
+        : `Deal has no invoice number (Xero invoice is ${invoice.InvoiceNumber})`,
+      dealId: deal.id,
+      dealTitle,
+      field: 'invoiceNumber',
+      suggestedFix: `Set the deal invoice number to ${invoice.InvoiceNumber}`,
+      metadata: {
+        ...invoiceMetadata,
+        pipedriveInvoiceNumber
+      }
+    });
+  }
+
+  if (result.paymentStatus === 'overdue') {
+    issues.push({
+      severity: 'warning',
+      code: 'INVOICE_OVERDUE',
+      message: `Invoice ${invoice.InvoiceNumber} is overdue with ${amountDue.toLocaleString()} outstanding`,
+      dealId: deal.id,
+      dealTitle,
+      field: 'payment',
+      suggestedFix: 'Follow up payment with the customer',
+      metadata: {
+        ...invoiceMetadata,
+        amountDue,
+        dueDate
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Fetches Xero invoices by InvoiceID or invoice number
+ *
+ * @description GUIDs are requested through the `IDs` filter and anything else through
+ * `InvoiceNumbers`, in batches, respecting the Xero rate limit.
+ *
+ * @param {string[]} refs - Invoice IDs or invoice numbers
+ * @param {string} accessToken - Xero access token
+ * @param {string} tenantId - Xero tenant ID
+ * @returns {Promise<any[]>} Invoices found in Xero
+ *
+ * @example
+ * ```typescript
+ * const invoices = await fetchXeroInvoices(['INV-0042'], access_token, tenantId);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function fetchXeroInvoices(refs: string[], accessToken: string, tenantId: string): Promise<any[]> {
+  const unique = [...new Set(refs.map(ref => ref.trim()).filter(Boolean))];
+  const ids = unique.filter(ref => GUID_PATTERN.test(ref));
+  const numbers = unique.filter(ref => !GUID_PATTERN.test(ref));
+  const invoices: any[] = [];
+
+  const fetchBatch = async (param: 'IDs' | 'InvoiceNumbers', batch: string[]) => {
+    await waitForXeroRateLimit(tenantId);
+    const url = new URL('https://api.xero.com/api.xro/2.0/Invoices');
+    url.searchParams.append(param, batch.join(','));
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+        'Xero-tenant-id': tenantId
+      }
+    });
+    await trackXeroApiCall(tenantId);
+    await updateXeroRateLimitFromHeaders(response.headers, tenantId);
+
+    if (!response.ok) {
+      logger.error({ status: response.status, param, count: batch.length }, 'Failed to fetch Xero invoices');
+      return;
+    }
+
+    const data = await response.json();
+    invoices.push(...(data.Invoices || []));
+  };
+
+  for (let i = 0; i < ids.length; i += INVOICE_BATCH_SIZE) {
+    await fetchBatch('IDs', ids.slice(i, i + INVOICE_BATCH_SIZE));
+  }
+  for (let i = 0; i < numbers.length; i += INVOICE_BATCH_SIZE) {
+    await fetchBatch('InvoiceNumbers', numbers.slice(i, i + INVOICE_BATCH_SIZE));
+  }
+
+  return invoices;
+}
+
+/** Fetches individual Xero quotes by ID */
+async function fetchXeroQuotesById(quoteIds: string[], accessToken: string, tenantId: string): Promise<any[]> {
+  const quotes: any[] = [];
+
+  for (const quoteId of quoteIds) {
+    try {
+      await waitForXeroRateLimit(tenantId);
+      const response = await fetch(`https://api.xero.com/api.xro/2.0/Quotes/${quoteId}`, {
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+          'Xero-tenant-id': tenantId
+        }
+      });
+      await trackXeroApiCall(tenantId);
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.Quotes?.length) quotes.push(data.Quotes[0]);
+      }
+    } catch (error) {
+      logger.error({ quoteId, error: (error as Error).message }, 'Failed to fetch Xero quote');
+    }
+  }
+
+  return quotes;
+}
+
+/** Finds an invoice by InvoiceID or invoice number */
+function findInvoice(invoices: any[], ref: string): any | null {
+  const trimmed = ref.trim();
+  return invoices.find(inv => inv.InvoiceID === trimmed || inv.InvoiceNumber === trimmed) || null;
+}
+
+/** Reads a custom field from a v2 (`custom_fields`) or v1 (top-level) deal */
+function getCustomField(deal: any, key: string): string | null {
+  const value = deal.custom_fields?.[key] ?? deal[key];
+  if (value === null || value === undefined || value === '') return null;
+  return String(value);
+}
+
+function getPaymentStatus(status: string, amountPaid: number, amountDue: number, dueDate?: string): InvoicePaymentStatus {
+  if (status === 'PAID' || (amountDue <= 0 && amountPaid > 0)) return 'paid';
+  if (dueDate && amountDue > 0 && new Date(dueDate).getTime() < Date.now()) return 'overdue';
+  if (amountPaid > 0) return 'partially_paid';
+  return 'unpaid';
+}
+
+/** Converts Xero's "/Date(1700000000000+0000)/" format to an ISO string */
+function parseXeroDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/\/Date\((\d+)/);
+  return match ? new Date(parseInt(match[1], 10)).toISOString() : value;
+}
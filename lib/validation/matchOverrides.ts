@@ -0,0 +1,288 @@
+/**
+ * Manual match overrides
+ * Per-tenant corrections to automatic deal/project/quote matching that persist across validation runs
+ */
+
+import { withRedis } from '../redis/redisClient';
+
+/**
+ * - force_link: always pair the deal with the given Xero project or quote
+ * - never_link: never pair the deal with the given Xero project or quote automatically
+ * - ignore: leave the deal, project or quote out of matching and unmatched lists
+ */
+export type MatchOverrideType = 'force_link' | 'never_link' | 'ignore';
+
+export interface MatchOverride {
+  id: string;
+  tenantId: string;
+  type: MatchOverrideType;
+  dealId?: number;
+  xeroProjectId?: string;
+  xeroQuoteId?: string;
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export type MatchOverrideInput = Pick<MatchOverride, 'type' | 'dealId' | 'xeroProjectId' | 'xeroQuoteId' | 'note'>;
+
+// Redis-backed store: one hash per tenant keyed by override id, kept without expiry
+export class MatchOverrideStore {
+  private static key(tenantId: string): string {
+    return `match-overrides:${tenantId}`;
+  }
+
+  static async list(tenantId: string): Promise<MatchOverride[]> {
+    return withRedis(async (redis) => {
+      const values = await redis.hvals(this.key(tenantId));
+      return values
+        .map(value => JSON.parse(value) as MatchOverride)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    });
+  }
+
+  static async save(override: MatchOverride): Promise<void> {
+    await withRedis(async (redis) => {
+      await redis.hset(this.key(override.tenantId), override.id, JSON.stringify(override));
+    });
+  }
+
+  static async delete(tenantId: string, overrideId: string): Promise<boolean> {
+    return withRedis(async (redis) => {
+      return (await redis.hdel(this.key(tenantId), overrideId)) > 0;
+    });
+  }
+}
+
+/**
+ * Lookup view over a tenant's overrides, used while matching
+ */
+export class MatchOverrideIndex {
+  private readonly forcedProjectByDeal = new Map<string, MatchOverride>();
+  private readonly forcedDealByProject = new Map<string, MatchOverride>();
+  private readonly forcedQuoteByDeal = new Map<string, MatchOverride>();
+  private readonly forcedDealByQuote = new Map<string, MatchOverride>();
+  private readonly neverLinked = new Set<string>();
+  private readonly neverLinkedQuotes = new Set<string>();
+  private readonly ignoredDeals = new Set<string>();
+  private readonly ignoredProjects = new Set<string>();
+  private readonly ignoredQuotes = new Set<string>();
+
+  constructor(readonly overrides: MatchOverride[] = []) {
+    for (const override of overrides) {
+      const dealId = override.dealId !== undefined ? String(override.dealId) : undefined;
+
+      if (override.type === 'force_link' && dealId && override.xeroProjectId) {
+        this.forcedProjectByDeal.set(dealId, override);
+        this.forcedDealByProject.set(override.xeroProjectId, override);
+      } else if (override.type === 'force_link' && dealId && override.xeroQuoteId) {
+        this.forcedQuoteByDeal.set(dealId, override);
+        this.forcedDealByQuote.set(override.xeroQuoteId, override);
+      } else if (override.type === 'never_link' && dealId && override.xeroProjectId) {
+        this.neverLinked.add(`${dealId}:${override.xeroProjectId}`);
+      } else if (override.type === 'never_link' && dealId && override.xeroQuoteId) {
+        this.neverLinkedQuotes.add(`${dealId}:${override.xeroQuoteId}`);
+      } else if (override.type === 'ignore') {
+        if (dealId) this.ignoredDeals.add(dealId);
+        if (override.xeroProjectId) this.ignoredProjects.add(override.xeroProjectId);
+        if (override.xeroQuoteId) this.ignoredQuotes.add(override.xeroQuoteId);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.overrides.length;
+  }
+
+  forcedProjectForDeal(dealId: number | string): MatchOverride | undefined {
+    return this.forcedProjectByDeal.get(String(dealId));
+  }
+
+  forcedDealForProject(projectId: string): MatchOverride | undefined {
+    return this.forcedDealByProject.get(projectId);
+  }
+
+  forcedQuoteForDeal(dealId: number | string): MatchOverride | undefined {
+    return this.forcedQuoteByDeal.get(String(dealId));
+  }
+
+  forcedDealForQuote(quoteId: string): MatchOverride | undefined {
+    return this.forcedDealByQuote.get(quoteId);
+  }
+
+  isNeverLinked(dealId: number | string, projectId: string): boolean {
+    return this.neverLinked.has(`${dealId}:${projectId}`);
+  }
+
+  isQuoteNeverLinked(dealId: number | string, quoteId: string): boolean {
+    return this.neverLinkedQuotes.has(`${dealId}:${quoteId}`);
+  }
+
+  /**
+   * Picks the quote linked to a deal: a force-linked quote first, then the deal's quote field unless never-linked
+   * @param {number | string} dealId - Pipedrive deal ID
+   * @param {string} [fieldValue] - Quote ID or number from the deal's Xero quote custom field
+   * @param {Array<{ QuoteID: string; QuoteNumber?: string }>} [quotes=[]] - Xero quotes, to resolve a quote number to its ID
+   * @returns {string | undefined} Linked quote ID or number, or undefined if the deal has no linked quote
+   */
+  linkedQuoteId(
+    dealId: number | string,
+    fieldValue: string | undefined,
+    quotes: Array<{ QuoteID: string; QuoteNumber?: string }> = []
+  ): string | undefined {
+    const forced = this.forcedQuoteForDeal(dealId);
+    if (forced) return forced.xeroQuoteId;
+    if (!fieldValue) return undefined;
+    const quoteId = quotes.find(q => q.QuoteID === fieldValue || q.QuoteNumber === fieldValue)?.QuoteID || fieldValue;
+    return this.isQuoteNeverLinked(dealId, quoteId) ? undefined : fieldValue;
+  }
+
+  isDealIgnored(dealId: number | string): boolean {
+    return this.ignoredDeals.has(String(dealId));
+  }
+
+  isProjectIgnored(projectId: string): boolean {
+    return this.ignoredProjects.has(projectId);
+  }
+
+  isQuoteIgnored(quoteId: string): boolean {
+    return this.ignoredQuotes.has(quoteId);
+  }
+}
+
+/**
+ * Loads a tenant's overrides for matching
+ *
+ * @description Matching carries on without overrides if they cannot be read, so a storage outage
+ * degrades to automatic matching instead of failing the run.
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @returns {Promise<MatchOverrideIndex>} Index over the tenant's overrides, empty on failure
+ *
+ * @example
+ * ```typescript
+ * const overrides = await loadMatchOverrides(tenantId);
+ * if (overrides.isDealIgnored(deal.id)) return;
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function loadMatchOverrides(tenantId: string): Promise<MatchOverrideIndex> {
+  try {
+    return new MatchOverrideIndex(await MatchOverrideStore.list(tenantId));
+  } catch (error) {
+    console.error('Failed to load match overrides for tenant ' + tenantId + ':', error);
+    return new MatchOverrideIndex();
+  }
+}
+
+/**
+ * Checks that an override names the records its type needs
+ * @param {MatchOverrideInput} input - Override to check
+ * @returns {string | null} Error message, or null if the override is valid
+ */
+export function validateMatchOverride(input: MatchOverrideInput): string | null {
+  const targets = [input.xeroProjectId, input.xeroQuoteId].filter(Boolean).length;
+
+  switch (input.type) {
+    case 'force_link':
+      if (!input.dealId || targets !== 1) {
+        return 'force_link needs a dealId and exactly one of xeroProjectId or xeroQuoteId';
+      }
+      return null;
+    case 'never_link':
+      if (!input.dealId || targets !== 1) {
+        return 'never_link needs a dealId and exactly one of xeroProjectId or xeroQuoteId';
+      }
+      return null;
+    case 'ignore':
+      if ((input.dealId ? 1 : 0) + targets !== 1) {
+        return 'ignore needs exactly one of dealId, xeroProjectId or xeroQuoteId';
+      }
+      return null;
+    default:
+      return `Unknown override type: ${(input as MatchOverrideInput).type}`;
+  }
+}
+
+/**
+ * Saves an override, replacing any it contradicts
+ *
+ * @description A deal or project can only be force-linked once, so earlier force links for either side
+ * are removed, as are never_link entries for the same pair (and the reverse). Saving the same ignore
+ * twice keeps the existing entry.
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @param {MatchOverrideInput} input - Override to save; must pass {@link validateMatchOverride}
+ * @param {string} [createdBy] - User who created the override
+ * @returns {Promise<{ override: MatchOverride; replaced: MatchOverride[] }>} Saved override and the entries it replaced
+ *
+ * @example
+ * ```typescript
+ * await saveMatchOverride(tenantId, { type: 'force_link', dealId: 1234, xeroProjectId: 'abc-123' }, session.user.email);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function saveMatchOverride(
+  tenantId: string,
+  input: MatchOverrideInput,
+  createdBy?: string
+): Promise<{ override: MatchOverride; replaced: MatchOverride[] }> {
+  const existing = await MatchOverrideStore.list(tenantId);
+
+  const duplicate = existing.find(o =>
+    o.type === input.type &&
+    o.dealId === input.dealId &&
+    o.xeroProjectId === input.xeroProjectId &&
+    o.xeroQuoteId === input.xeroQuoteId
+  );
+  if (duplicate) {
+    return { override: duplicate, replaced: [] };
+  }
+
+  const samePair = (o: MatchOverride) =>
+    o.dealId === input.dealId && (
+      (!!input.xeroProjectId && o.xeroProjectId === input.xeroProjectId) ||
+      (!!input.xeroQuoteId && o.xeroQuoteId === input.xeroQuoteId)
+    );
+
+  const replaced = existing.filter(o => {
+    if (input.type === 'force_link') {
+      if (o.type === 'never_link' && samePair(o)) return true;
+      if (o.type !== 'force_link') return false;
+      const sameKind = input.xeroProjectId ? !!o.xeroProjectId : !!o.xeroQuoteId;
+      return sameKind && (
+        o.dealId === input.dealId ||
+        (!!input.xeroProjectId && o.xeroProjectId === input.xeroProjectId) ||
+        (!!input.xeroQuoteId && o.xeroQuoteId === input.xeroQuoteId)
+      );
+    }
+    if (input.type === 'never_link') {
+      return o.type === 'force_link' && samePair(o);
+    }
+    return false;
+  });
+
+  for (const old of replaced) {
+    await MatchOverrideStore.delete(tenantId, old.id);
+  }
+
+  const override: MatchOverride = {
+    id: `mo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    tenantId,
+    type: input.type,
+    dealId: input.dealId,
+    xeroProjectId: input.xeroProjectId,
+    xeroQuoteId: input.xeroQuoteId,
+    note: input.note,
+    createdBy,
+    createdAt: new Date().toISOString()
+  };
+  await MatchOverrideStore.save(override);
+
+  console.log('Saved ' + override.type + ' match override ' + override.id + ' for tenant ' + tenantId +
+    (replaced.length > 0 ? ' (replaced ' + replaced.length + ')' : ''));
+
+  return { override, replaced };
+}
@@ -3,12 +3,19 @@
  */
 
 import type { ValidationContext } from './dealValidationRules';
+import { validateDealInvoice } from './invoiceValidationRules';
+import type { MatchOverrideIndex } from './matchOverrides';
+import { ValidationRuleSet } from './ruleRegistry';
+import { evaluateCustomFieldRules, type CustomRuleSubject } from './customFieldRules';
 
 export interface PipedriveValidationContext extends ValidationContext {
   pipedriveDeals: any[];
   xeroQuotes: any[];
   xeroProjects: any[];
+  xeroInvoices?: any[]; // Invoices linked to Invoice stage deals, when fetched
   tenantConfig: TenantConfig;
+  matchOverrides?: MatchOverrideIndex; // Manual link/ignore overrides for the tenant
+  rules?: ValidationRuleSet; // Tenant's enabled rules and severity overrides; registry defaults when absent
 }
 
 export interface TenantConfig {
@@ -78,6 +85,7 @@ export interface QuoteValidationResult {
   quoteNumber?: string;
   hasQuote: boolean;
   quoteStatus?: string;
+  manuallyLinked?: boolean;
   issues: ValidationIssue[];
 }
 
@@ -92,7 +100,9 @@ export interface FieldValidation {
  * Validates all Pipedrive deals within the provided validation context, checking title formats and required fields
  * 
  * @description Performs comprehensive validation on all deals in the context, including title format validation
- * and required field checks. Collects all validation issues found across all deals.
+ * and required field checks. Collects all validation issues found across all deals, adds the issues of
+ * registered rules with their own check and of the tenant's custom field rules, and applies the context's
+ * rule settings (disabled rules and severity overrides).
  * 
  * @param {PipedriveValidationContext} context - The validation context containing deals, quotes, projects and tenant config
  * @returns {ValidationIssue[]} Array of validation issues found across all deals
@@ -113,6 +123,8 @@ export interface FieldValidation {
  */
 export function validatePipedriveDeals(context: PipedriveValidationContext): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
+  const rules = context.rules || new ValidationRuleSet();
+  const customRules = rules.customRules;
   
   for (const deal of context.pipedriveDeals) {
     // Validate title format
@@ -124,6 +136,11 @@ export function validatePipedriveDeals(context: PipedriveValidationContext): Val
     fieldValidations.forEach(fv => {
       if (fv.issue) issues.push(fv.issue);
     });
+    
+    // Tenant-defined field requirements; ignored deals are skipped as in the cross-reference
+    if (customRules.length > 0 && !context.matchOverrides?.isDealIgnored(deal.id)) {
+      issues.push(...evaluateCustomFieldRules(customRules, buildCustomRuleSubject(deal, context)));
+    }
   }
   
   // Validate deals in Invoice stage (if configured)
@@ -138,7 +155,42 @@ export function validatePipedriveDeals(context: PipedriveValidationContext): Val
   const quoteFormatIssues = validateAcceptedQuoteNumberFormat(context);
   issues.push(...quoteFormatIssues);
   
-  return issues;
+  // Registered rules with a standalone check, then the tenant's rule settings
+  issues.push(...rules.runChecks(context));
+  
+  return rules.apply(issues);
+}
+
+/**
+ * Finds the quote and project linked to a deal for custom field rules
+ * @param {any} deal - Pipedrive deal
+ * @param {PipedriveValidationContext} context - Validation context with quotes, projects and match overrides
+ * @returns {CustomRuleSubject} The deal with its linked quote and project, when found
+ */
+export function buildCustomRuleSubject(deal: any, context: PipedriveValidationContext): CustomRuleSubject {
+  const { customFieldKeys } = context.tenantConfig;
+  const overrides = context.matchOverrides;
+  
+  // A manual link takes precedence over the custom field (checked in both v1 and v2 locations)
+  const fieldQuoteId = deal.custom_fields?.[customFieldKeys.xeroQuoteId] || deal[customFieldKeys.xeroQuoteId];
+  const xeroQuoteId = overrides ? overrides.linkedQuoteId(deal.id, fieldQuoteId, context.xeroQuotes) : fieldQuoteId;
+  const quote = xeroQuoteId
+    ? context.xeroQuotes.find(q => q.QuoteID === xeroQuoteId || q.QuoteNumber === xeroQuoteId)
+    : undefined;
+  
+  // Same pairing as the validation report: a manual link, then an equal project key
+  const forcedProjectId = overrides?.forcedProjectForDeal(deal.id)?.xeroProjectId;
+  const dealKey = generateProjectKey(deal.title || deal.name || '');
+  const project = (forcedProjectId && context.xeroProjects.find(p => p.projectId === forcedProjectId)) ||
+    context.xeroProjects.find(p =>
+      dealKey &&
+      generateProjectKey(p.name) === dealKey &&
+      !overrides?.isNeverLinked(deal.id, p.projectId) &&
+      !overrides?.isProjectIgnored(p.projectId) &&
+      !overrides?.forcedDealForProject(p.projectId)
+    );
+  
+  return { deal, quote, project, config: context.tenantConfig };
 }
 
 /**
@@ -212,21 +264,7 @@ function validateDealTitle(deal: any): TitleValidationResult {
     });
   }
   
-  // 3. Check for "(copy)" suffix - DISABLED for now, allowed per business requirements
-  // Keeping the code commented for future reference if needed
-  /*
-  if (title.includes('(copy)')) {
-    issues.push({
-      severity: 'warning',
-      code: 'DUPLICATE_DEAL_TITLE',
-      message: `Title "${title}" appears to be a duplicate (contains "copy")`,
-      dealId: deal.id,
-      dealTitle: title,
-      field: 'title',
-      suggestedFix: 'Remove "(copy)" and ensure unique project-vessel combination'
-    });
-  }
-  */
+  // 3. "(copy)" suffixes are allowed per business requirements; DUPLICATE_DEAL_TITLE is an opt-in rule in ruleRegistry
   
   // Check for valid project code pattern (but exclude QU prefix)
   if (!parsed.projectCode || parsed.projectCode.startsWith('QU')) {
@@ -284,6 +322,8 @@ function validateDealTitle(deal: any): TitleValidationResult {
  * - If linked quotes exist in Xero
  * - Quote status matches deal status (won deals should have ACCEPTED quotes)
  * - Deal values match quote totals within tolerance
+ * Deals ignored by a match override are skipped, and a force-linked quote replaces the deal's
+ * Xero quote custom field.
  * 
  * @param {PipedriveValidationContext} context - Validation context with deals, quotes and tenant config
  * @returns {QuoteValidationResult[]} Array of quote validation results for each deal
@@ -352,10 +392,19 @@ export function crossReferenceQuotes(context: PipedriveValidationContext): Quote
   }
   
   for (const deal of context.pipedriveDeals) {
+    if (context.matchOverrides?.isDealIgnored(deal.id)) {
+      continue;
+    }
+    
     const issues: ValidationIssue[] = [];
-    // Try to get the custom field value from both v1 and v2 locations
-    const xeroQuoteId = deal.custom_fields?.[customFieldKeys.xeroQuoteId] || 
-                       deal[customFieldKeys.xeroQuoteId];
+    // A manual link takes precedence over the custom field (checked in both v1 and v2 locations),
+    // and a never_link override detaches the quote in the custom field
+    const forcedQuote = context.matchOverrides?.forcedQuoteForDeal(deal.id);
+    const fieldQuoteId = deal.custom_fields?.[customFieldKeys.xeroQuoteId] || 
+                         deal[customFieldKeys.xeroQuoteId];
+    const xeroQuoteId = context.matchOverrides
+      ? context.matchOverrides.linkedQuoteId(deal.id, fieldQuoteId, context.xeroQuotes)
+      : fieldQuoteId;
     
     // Check if deal has Xero Quote ID
     if (!xeroQuoteId) {
@@ -551,6 +600,7 @@ export function crossReferenceQuotes(context: PipedriveValidationContext): Quote
       quoteNumber: matchingQuote?.QuoteNumber,
       hasQuote: !!matchingQuote,
       quoteStatus: matchingQuote?.Status,
+      manuallyLinked: !!forcedQuote,
       issues
     });
   }
@@ -562,7 +612,8 @@ export function crossReferenceQuotes(context: PipedriveValidationContext): Quote
  * Validates that required custom fields are present and populated in a Pipedrive deal
  * 
  * @description Checks specific custom fields mapped in tenant configuration to ensure
- * critical business data is present. Currently validates vessel name field as required.
+ * critical business data is present. Validates the vessel name field, plus the WO/PQ number,
+ * vessel type and sales reference fields for tenants that map them.
  * 
  * @param {any} deal - The Pipedrive deal object to validate
  * @param {TenantConfig} tenantConfig - Tenant configuration containing custom field mappings
@@ -600,6 +651,34 @@ export function validateRequiredFields(deal: any, tenantConfig: TenantConfig): F
     } : undefined
   });
   
+  // Tenant-specific fields, only checked when mapped in the tenant configuration
+  const optionalRequiredFields: Array<{ field: string; code: string; label: string }> = [
+    { field: 'wopqNumber', code: 'MISSING_WOPQ_NUMBER', label: 'WO/PQ number' },
+    { field: 'vesselType', code: 'MISSING_VESSEL_TYPE', label: 'Vessel type' },
+    { field: 'salesReference', code: 'MISSING_SALES_REFERENCE', label: 'Sales reference' }
+  ];
+  
+  for (const { field, code, label } of optionalRequiredFields) {
+    const fieldKey = customFieldKeys[field];
+    if (!fieldKey) continue;
+    
+    const value = deal.custom_fields?.[fieldKey] || deal[fieldKey];
+    validations.push({
+      field,
+      value,
+      isValid: !!value,
+      issue: !value ? {
+        severity: 'warning' as const,
+        code,
+        message: `${label} custom field is empty`,
+        dealId: deal.id,
+        dealTitle: deal.title || deal.name,
+        field,
+        suggestedFix: `Fill in the ${label} on the deal in Pipedrive`
+      } : undefined
+    });
+  }
+  
   return validations;
 }
 
@@ -608,7 +687,8 @@ export function validateRequiredFields(deal: any, tenantConfig: TenantConfig): F
  * 
  * @description Checks deals in the configured Invoice stage to ensure their linked Xero quotes
  * are in the correct status (INVOICED). Quotes in DRAFT, SENT, or ACCEPTED status indicate
- * the deal hasn't been properly invoiced yet.
+ * the deal hasn't been properly invoiced yet. When `context.xeroInvoices` is provided, the linked
+ * invoice is also checked for status, total and invoice number (see validateDealInvoice).
  * 
  * @param {PipedriveValidationContext} context - Validation context with deals, quotes and tenant config
  * @returns {ValidationIssue[]} Array of validation issues for deals with incorrect quote status
@@ -690,6 +770,22 @@ export function validateInvoiceStageDeals(context: PipedriveValidationContext):
           expectedStatus: 'INVOICED'
         }
       });
+      continue;
+    }
+    
+    // Check the invoice itself when invoices have been fetched
+    if (context.xeroInvoices) {
+      const invoiceRef = deal.custom_fields?.[customFieldKeys.invoiceId] || 
+                         deal[customFieldKeys.invoiceId];
+      const invoice = invoiceRef
+        ? context.xeroInvoices.find(inv => inv.InvoiceID === invoiceRef || inv.InvoiceNumber === invoiceRef)
+        : null;
+      
+      const invoiceResult = validateDealInvoice(deal, invoice || null, matchingQuote, {
+        invoiceId: customFieldKeys.invoiceId,
+        invoiceNumber: customFieldKeys.invoiceNumber
+      });
+      issues.push(...invoiceResult.issues);
     }
   }
   
@@ -829,6 +925,11 @@ export function validateOrphanedAcceptedQuotes(context: PipedriveValidationConte
     const quoteId = quote.QuoteID;
     const quoteNumber = quote.QuoteNumber;
     
+    if (context.matchOverrides?.isQuoteIgnored(quoteId)) {
+      continue;
+    }
+    const forcedDeal = context.matchOverrides?.forcedDealForQuote(quoteId);
+    
     // Check if quote's Reference field mentions a Pipedrive Deal ID
     let referencedDealId: number | null = null;
     if (quote.Reference) {
@@ -841,10 +942,16 @@ export function validateOrphanedAcceptedQuotes(context: PipedriveValidationConte
     
     // Find deals that reference this quote OR that are referenced by the quote
     const linkedDeals = context.pipedriveDeals.filter(deal => {
-      // Check if deal has quote ID in custom field
+      // Manually linked deals count as linked
+      if (forcedDeal && String(deal.id) === String(forcedDeal.dealId)) {
+        return true;
+      }
+      
+      // Check if deal has quote ID in custom field, unless the pair is never linked
       const xeroQuoteId = deal.custom_fields?.[customFieldKeys.xeroQuoteId] || 
                          deal[customFieldKeys.xeroQuoteId];
-      if (xeroQuoteId === quoteId || xeroQuoteId === quoteNumber) {
+      if ((xeroQuoteId === quoteId || xeroQuoteId === quoteNumber) &&
+          !context.matchOverrides?.isQuoteNeverLinked(deal.id, quoteId)) {
         return true;
       }
       
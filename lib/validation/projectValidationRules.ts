@@ -1,16 +1,333 @@
 /**
- * Stub implementation for project validation rules
+ * Project validation rules checking INPROGRESS Xero projects against accepted quotes and won deals
  */
 
+import { DEFAULT_ORCHESTRATION_CONFIG } from '../orchestration/types';
+import { generateProjectKey } from './pipedriveValidationRules';
+import type { ValidationIssue } from '../types/validation';
+
+export interface XeroProjectTask {
+  taskId?: string;
+  name?: string;
+  rate?: { currency?: string; value: number | string };
+  chargeType?: 'TIME' | 'FIXED' | 'NON_CHARGEABLE';
+  estimateMinutes?: number;
+  [key: string]: any;
+}
+
 export interface XeroProject {
-  ProjectID: string;
-  Name: string;
+  projectId?: string;
+  name?: string;
+  ProjectID?: string;
+  Name?: string;
+  contactId?: string;
+  contactName?: string;
+  status?: string;
+  currencyCode?: string;
+  estimate?: { currency?: string; value: number | string };
+  tasks?: XeroProjectTask[];
   [key: string]: any;
 }
 
-export function validateProjectsAgainstQuotes(projects: XeroProject[], quotes: any[], deals?: any[]) {
+export interface ProjectValidationOptions {
+  valueTolerancePercentage?: number;
+}
+
+export interface ValidatedProjectRecord {
+  projectId: string;
+  name: string;
+  projectKey: string;
+  status?: string;
+  currency?: string;
+  estimate: number | null;
+  tasksTotal: number | null;
+  dealId: number | null;
+  dealTitle?: string;
+  quoteId?: string;
+  quoteNumber?: string;
+  quoteTotal?: number;
+  issues: ValidationIssue[];
+}
+
+export interface ProjectValidationStats {
+  totalProjects: number;
+  projectsWithIssues: number;
+  projectsWithoutQuote: number;
+  acceptedQuotesWithoutProject: number;
+  estimateMismatches: number;
+  taskTotalMismatches: number;
+  contactMismatches: number;
+}
+
+export interface ProjectValidationResult {
+  projects: ValidatedProjectRecord[];
+  issues: ValidationIssue[];
+  stats: ProjectValidationStats;
+}
+
+/** Quote fields used by the project checks, normalized from raw Xero quotes or reconciled quotes */
+interface QuoteRef {
+  quoteId: string;
+  quoteNumber: string;
+  status: string;
+  total: number;
+  contactId?: string;
+  contactName?: string;
+  dealId: number | null;
+}
+
+/**
+ * Validates INPROGRESS Xero projects against their accepted quotes and won deals
+ *
+ * @description Links each project to a won deal by project key, and to the deal's accepted quote
+ * (falling back to an accepted quote whose number starts with the project code). Then checks the project
+ * estimate and the sum of its task amounts against the quote total, the project contact against the quote
+ * contact, and reports projects without an accepted quote and accepted quotes without a project.
+ * Task amounts are only checked when `project.tasks` has been loaded.
+ *
+ * @param {XeroProject[]} projects - Xero projects (Projects API shape), optionally with `tasks`
+ * @param {any[]} quotes - Raw Xero quotes or quotes returned by `validateQuotesAgainstDeals`
+ * @param {any[]} [deals=[]] - Won Pipedrive deals carrying `xeroQuoteId`
+ * @param {ProjectValidationOptions} [options={}] - Value tolerance override
+ * @returns {ProjectValidationResult} Validated projects, all issues, and summary stats
+ *
+ * @example
+ * ```typescript
+ * const result = validateProjectsAgainstQuotes(projects, quoteResult.quotes, validatedDeals);
+ * console.log(`${result.stats.projectsWithoutQuote} projects have no accepted quote`);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function validateProjectsAgainstQuotes(
+  projects: XeroProject[],
+  quotes: any[],
+  deals: any[] = [],
+  options: ProjectValidationOptions = {}
+): ProjectValidationResult {
+  const tolerancePercentage = options.valueTolerancePercentage ??
+    DEFAULT_ORCHESTRATION_CONFIG.valueTolerancePercentage;
+  const acceptedQuotes = quotes
+    .map(q => toQuoteRef(q, deals))
+    .filter(q => q.status === 'ACCEPTED');
+
+  const dealsByKey = new Map<string, any>();
+  for (const deal of deals) {
+    const key = generateProjectKey(deal.title || deal.name || '');
+    if (key && !dealsByKey.has(key)) dealsByKey.set(key, deal);
+  }
+
+  const quotesWithProject = new Set<string>();
+  const validatedProjects = projects
+    .filter(project => (project.status || 'INPROGRESS') === 'INPROGRESS')
+    .map(project => {
+      const name = project.name || project.Name || '';
+      const projectKey = generateProjectKey(name);
+      const deal = dealsByKey.get(projectKey) || null;
+      const quote = findAcceptedQuote(name, deal, acceptedQuotes);
+      if (quote) quotesWithProject.add(quote.quoteId);
+
+      const record: ValidatedProjectRecord = {
+        projectId: project.projectId || project.ProjectID || '',
+        name,
+        projectKey,
+        status: project.status,
+        currency: project.currencyCode || project.estimate?.currency,
+        estimate: project.estimate ? Number(project.estimate.value) || 0 : null,
+        tasksTotal: project.tasks ? calculateTasksTotal(project.tasks) : null,
+        dealId: deal ? deal.id : quote?.dealId ?? null,
+        dealTitle: deal?.title,
+        quoteId: quote?.quoteId,
+        quoteNumber: quote?.quoteNumber,
+        quoteTotal: quote?.total,
+        issues: []
+      };
+      record.issues = validateProject(record, project, quote, tolerancePercentage);
+      return record;
+    });
+
+  const orphanedQuoteIssues: ValidationIssue[] = acceptedQuotes
+    .filter(quote => !quotesWithProject.has(quote.quoteId))
+    .map(quote => {
+      const deal = deals.find(d => d.id === quote.dealId);
+      return {
+        severity: 'warning',
+        code: 'ACCEPTED_QUOTE_NO_PROJECT',
+        message: `Accepted quote ${quote.quoteNumber} has no in-progress project in Xero`,
+        dealId: quote.dealId ?? undefined,
+        dealTitle: deal?.title,
+        field: 'project',
+        suggestedFix: 'Create the project in Xero from the accepted quote',
+        metadata: {
+          quoteId: quote.quoteId,
+          quoteNumber: quote.quoteNumber,
+          quoteTotal: quote.total,
+          contactName: quote.contactName
+        }
+      } as ValidationIssue;
+    });
+
+  const issues = [...validatedProjects.flatMap(p => p.issues), ...orphanedQuoteIssues];
+
   return {
-    projects: [],
-    issues: []
+    projects: validatedProjects,
+    issues,
+    stats: {
+      totalProjects: validatedProjects.length,
+      projectsWithIssues: validatedProjects.filter(p => p.issues.length > 0).length,
+      projectsWithoutQuote: issues.filter(i => i.code === 'PROJECT_NO_ACCEPTED_QUOTE').length,
+      acceptedQuotesWithoutProject: orphanedQuoteIssues.length,
+      estimateMismatches: issues.filter(i => i.code === 'PROJECT_ESTIMATE_MISMATCH').length,
+      taskTotalMismatches: issues.filter(i => i.code === 'PROJECT_TASKS_TOTAL_MISMATCH').length,
+      contactMismatches: issues.filter(i => i.code === 'PROJECT_CONTACT_MISMATCH').length
+    }
   };
-}
\ No newline at end of file
+}
+
+/** Runs the per-project checks against the project's accepted quote */
+function validateProject(
+  record: ValidatedProjectRecord,
+  project: XeroProject,
+  quote: QuoteRef | null,
+  tolerancePercentage: number
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const base = {
+    dealId: record.dealId ?? undefined,
+    dealTitle: record.dealTitle
+  };
+  const projectMetadata = {
+    projectId: record.projectId,
+    projectName: record.name,
+    quoteId: quote?.quoteId,
+    quoteNumber: quote?.quoteNumber,
+    quoteTotal: quote?.total
+  };
+
+  if (!quote) {
+    issues.push({
+      ...base,
+      severity: 'warning',
+      code: 'PROJECT_NO_ACCEPTED_QUOTE',
+      message: `Project "${record.name}" has no accepted quote in Xero`,
+      field: 'quote',
+      suggestedFix: 'Accept the quote for this project in Xero or close the project if the work was cancelled',
+      metadata: projectMetadata
+    });
+    return issues;
+  }
+
+  if (record.estimate !== null && exceedsTolerance(record.estimate, quote.total, tolerancePercentage)) {
+    issues.push({
+      ...base,
+      severity: 'warning',
+      code: 'PROJECT_ESTIMATE_MISMATCH',
+      message: `Project "${record.name}" estimate (${record.estimate.toLocaleString()}) does not match quote ${quote.quoteNumber} total (${quote.total.toLocaleString()})`,
+      field: 'estimate',
+      suggestedFix: 'Update the project estimate to the accepted quote total',
+      metadata: {
+        ...projectMetadata,
+        estimate: record.estimate,
+        difference: record.estimate - quote.total,
+        tolerancePercentage
+      }
+    });
+  }
+
+  if (record.tasksTotal !== null && exceedsTolerance(record.tasksTotal, quote.total, tolerancePercentage)) {
+    issues.push({
+      ...base,
+      severity: 'warning',
+      code: 'PROJECT_TASKS_TOTAL_MISMATCH',
+      message: `Project "${record.name}" task total (${record.tasksTotal.toLocaleString()}) does not match quote ${quote.quoteNumber} total (${quote.total.toLocaleString()})`,
+      field: 'tasks',
+      suggestedFix: 'Align task rates and estimated hours with the accepted quote line items',
+      metadata: {
+        ...projectMetadata,
+        tasksTotal: record.tasksTotal,
+        taskCount: project.tasks?.length || 0,
+        difference: record.tasksTotal - quote.total,
+        tolerancePercentage
+      }
+    });
+  }
+
+  const contactMismatch = project.contactId && quote.contactId
+    ? project.contactId !== quote.contactId
+    : Boolean(project.contactName && quote.contactName &&
+        project.contactName.trim().toLowerCase() !== quote.contactName.trim().toLowerCase());
+  if (contactMismatch) {
+    issues.push({
+      ...base,
+      severity: 'warning',
+      code: 'PROJECT_CONTACT_MISMATCH',
+      message: `Project "${record.name}" contact does not match quote ${quote.quoteNumber} contact "${quote.contactName || quote.contactId}"`,
+      field: 'contact',
+      suggestedFix: 'Change the project contact to the customer on the accepted quote',
+      metadata: {
+        ...projectMetadata,
+        projectContactId: project.contactId,
+        projectContactName: project.contactName,
+        quoteContactId: quote.contactId,
+        contactName: quote.contactName
+      }
+    });
+  }
+
+  return issues;
+}
+
+/** Finds the accepted quote for a project via its deal, then by quote numbers starting with the project code */
+function findAcceptedQuote(projectName: string, deal: any | null, acceptedQuotes: QuoteRef[]): QuoteRef | null {
+  if (deal) {
+    const byDeal = acceptedQuotes.find(q => q.dealId === deal.id) ||
+      acceptedQuotes.find(q => q.quoteId === deal.xeroQuoteId || q.quoteNumber === deal.xeroQuoteId);
+    if (byDeal) return byDeal;
+  }
+
+  const projectCode = projectName.match(/^([A-Z]+\d+)/i)?.[1]?.toUpperCase();
+  if (!projectCode) return null;
+  return acceptedQuotes.find(q => q.quoteNumber.toUpperCase().startsWith(`${projectCode}-`)) || null;
+}
+
+/** Normalizes a raw Xero quote or a reconciled quote into a QuoteRef */
+function toQuoteRef(quote: any, deals: any[]): QuoteRef {
+  if (quote.QuoteID) {
+    const deal = deals.find(d => d.xeroQuoteId === quote.QuoteID || d.xeroQuoteId === quote.QuoteNumber);
+    return {
+      quoteId: quote.QuoteID,
+      quoteNumber: quote.QuoteNumber || '',
+      status: quote.Status,
+      total: Number(quote.Total) || 0,
+      contactId: quote.Contact?.ContactID,
+      contactName: quote.Contact?.Name,
+      dealId: deal ? deal.id : null
+    };
+  }
+  return {
+    quoteId: quote.quoteId,
+    quoteNumber: quote.quoteNumber || '',
+    status: quote.status,
+    total: Number(quote.total) || 0,
+    contactId: quote.contactId,
+    contactName: quote.contactName,
+    dealId: quote.dealId ?? null
+  };
+}
+
+/** Sums task amounts: hourly rate x estimated hours for TIME tasks, the rate itself for FIXED tasks */
+function calculateTasksTotal(tasks: XeroProjectTask[]): number {
+  return tasks.reduce((sum, task) => {
+    const rate = Number(task.rate?.value) || 0;
+    if (task.chargeType === 'NON_CHARGEABLE') return sum;
+    if (task.chargeType === 'FIXED') return sum + rate;
+    return sum + rate * ((task.estimateMinutes || 0) / 60);
+  }, 0);
+}
+
+function exceedsTolerance(actual: number, expected: number, tolerancePercentage: number): boolean {
+  const difference = Math.abs(actual - expected);
+  if (difference <= 0.01) return false;
+  if (expected === 0) return true;
+  return (difference / Math.abs(expected)) * 100 > tolerancePercentage;
+}
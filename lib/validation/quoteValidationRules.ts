@@ -1,20 +1,364 @@
 /**
- * Stub implementation for quote validation rules
+ * Quote validation rules reconciling Xero quotes with Pipedrive deals
  */
 
+import { DEFAULT_ORCHESTRATION_CONFIG } from '../orchestration/types';
+import type { OrchestrationConfig } from '../orchestration/types';
+import type { ValidationIssue } from '../types/validation';
+import type { ValidationRuleSet } from './ruleRegistry';
+
 export interface QuoteValidationContext {
+  xeroQuotes?: any[];
+  pipedriveDeals?: any[];
+  tenantId?: string;
+  config?: Partial<OrchestrationConfig>;
+  // Tenant rule settings; disabled rules are dropped and severity overrides applied
+  rules?: ValidationRuleSet;
   [key: string]: any;
 }
 
-export function validateQuotesAgainstDeals(quotesOrContext: any, deals?: any[], context?: QuoteValidationContext) {
+export interface ReconciledQuote {
+  quoteId: string;
+  quoteNumber: string;
+  status: string;
+  total: number;
+  currency: string;
+  contactId?: string;
+  contactName?: string;
+  reference?: string;
+  dealId: number | null;
+  dealTitle?: string;
+  dealValue?: number;
+  valueDifference?: number;
+  valueDifferencePercentage?: number;
+  issues: ValidationIssue[];
+}
+
+export interface QuoteValidationStats {
+  totalQuotes: number;
+  linkedQuotes: number;
+  unlinkedQuotes: number;
+  quotesWithIssues: number;
+  dealsWithMultipleQuotes: number;
+  valueMismatches: number;
+  notAcceptedForWonDeals: number;
+  duplicateQuoteNumbers: number;
+  duplicateLineItemSets: number;
+  acceptedQuotesTotal: number;
+}
+
+export interface QuoteValidationResult {
+  quotes: ReconciledQuote[];
+  issues: ValidationIssue[];
+  stats: QuoteValidationStats;
+}
+
+/** Quote statuses that no longer count towards a deal */
+const INACTIVE_QUOTE_STATUSES = ['DELETED', 'DECLINED'];
+
+/** Quote statuses that should have been accepted once the deal is won */
+const PENDING_QUOTE_STATUSES = ['DRAFT', 'SENT'];
+
+/**
+ * Reconciles Xero quotes against Pipedrive deals
+ *
+ * @description Links each quote to a deal (via the deal's Xero quote field or a "Deal ID: N" reference
+ * on the quote), then reports deals with several active quotes, accepted quotes whose total drifts from
+ * the deal value by more than `valueTolerancePercentage`, DRAFT/SENT quotes on won deals, duplicate quote
+ * numbers and quotes sharing an identical set of line items. Quotes already attached to the deals
+ * (`deal.xeroQuote`) are included alongside `xeroQuotes` so non-accepted linked quotes are checked too.
+ *
+ * @param {any} quotesOrContext - Validation context, or the Xero quotes to validate
+ * @param {any[]} [deals] - Pipedrive deals when quotes are passed as the first argument
+ * @param {QuoteValidationContext} [context] - Additional context (tenant, config) for the array form
+ * @returns {QuoteValidationResult} Reconciled quotes with their issues, all issues, and summary stats
+ *
+ * @example
+ * ```typescript
+ * const result = validateQuotesAgainstDeals({
+ *   xeroQuotes: acceptedQuotes,
+ *   pipedriveDeals: validatedDeals,
+ *   tenantId,
+ *   config: { valueTolerancePercentage: 2 }
+ * });
+ * console.log(`${result.stats.valueMismatches} quotes differ from their deal value`);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function validateQuotesAgainstDeals(
+  quotesOrContext: any,
+  deals?: any[],
+  context?: QuoteValidationContext
+): QuoteValidationResult {
   // Support both calling patterns
+  const ctx: QuoteValidationContext = Array.isArray(quotesOrContext)
+    ? { ...context, xeroQuotes: quotesOrContext, pipedriveDeals: deals || [] }
+    : quotesOrContext || {};
+  const pipedriveDeals = ctx.pipedriveDeals || [];
+  const tolerancePercentage = ctx.config?.valueTolerancePercentage ??
+    DEFAULT_ORCHESTRATION_CONFIG.valueTolerancePercentage;
+
+  const xeroQuotes = mergeQuotes(ctx.xeroQuotes || [], pipedriveDeals);
+  const quotes = xeroQuotes.map(quote => reconcileQuote(quote, pipedriveDeals, tolerancePercentage));
+
+  // Several active quotes linked to the same deal
+  const duplicatesByDeal = findDuplicateQuotes(quotes);
+  duplicatesByDeal.forEach((dealQuotes, dealId) => {
+    const quoteNumbers = dealQuotes.map(q => q.quoteNumber).join(', ');
+    for (const quote of dealQuotes) {
+      quote.issues.push({
+        severity: 'warning',
+        code: 'MULTIPLE_QUOTES_FOR_DEAL',
+        message: `Deal "${quote.dealTitle}" has ${dealQuotes.length} active quotes (${quoteNumbers})`,
+        dealId,
+        dealTitle: quote.dealTitle,
+        field: 'quoteLink',
+        suggestedFix: 'Keep one quote for the deal and decline or delete the others in Xero',
+        metadata: {
+          ...quoteMetadata(quote),
+          relatedQuoteNumbers: dealQuotes.filter(q => q !== quote).map(q => q.quoteNumber)
+        }
+      });
+    }
+  });
+
+  // Same quote number used by different quotes
+  const byNumber = groupBy(quotes.filter(q => q.quoteNumber), q => q.quoteNumber.trim().toUpperCase());
+  let duplicateQuoteNumbers = 0;
+  byNumber.forEach(group => {
+    if (group.length < 2) return;
+    duplicateQuoteNumbers++;
+    for (const quote of group) {
+      quote.issues.push({
+        severity: 'error',
+        code: 'DUPLICATE_QUOTE_NUMBER',
+        message: `Quote number ${quote.quoteNumber} is used by ${group.length} quotes in Xero`,
+        dealId: quote.dealId ?? undefined,
+        dealTitle: quote.dealTitle,
+        field: 'quoteNumber',
+        suggestedFix: 'Renumber the duplicate quotes so each quote number is unique',
+        metadata: {
+          ...quoteMetadata(quote),
+          duplicateQuoteIds: group.filter(q => q !== quote).map(q => q.quoteId)
+        }
+      });
+    }
+  });
+
+  // Quotes carrying an identical set of line items
+  const lineItemSignatures = new Map<string, string>();
+  for (const quote of xeroQuotes) {
+    const signature = lineItemSignature(quote.LineItems);
+    if (signature) lineItemSignatures.set(quote.QuoteID, signature);
+  }
+  const bySignature = groupBy(
+    quotes.filter(q => lineItemSignatures.has(q.quoteId)),
+    q => lineItemSignatures.get(q.quoteId)!
+  );
+  let duplicateLineItemSets = 0;
+  bySignature.forEach(group => {
+    if (group.length < 2) return;
+    duplicateLineItemSets++;
+    for (const quote of group) {
+      quote.issues.push({
+        severity: 'warning',
+        code: 'DUPLICATE_QUOTE_LINE_ITEMS',
+        message: `Quote ${quote.quoteNumber} has the same line items as ${group.filter(q => q !== quote).map(q => q.quoteNumber).join(', ')}`,
+        dealId: quote.dealId ?? undefined,
+        dealTitle: quote.dealTitle,
+        field: 'lineItems',
+        suggestedFix: 'Check whether the quote was duplicated by mistake',
+        metadata: {
+          ...quoteMetadata(quote),
+          relatedQuoteNumbers: group.filter(q => q !== quote).map(q => q.quoteNumber)
+        }
+      });
+    }
+  });
+
+  if (ctx.rules) {
+    for (const quote of quotes) {
+      quote.issues = ctx.rules.apply(quote.issues);
+    }
+  }
+
+  const issues = quotes.flatMap(q => q.issues);
+
   return {
-    quotes: [],
-    issues: [],
-    stats: {}
+    quotes,
+    issues,
+    stats: {
+      totalQuotes: quotes.length,
+      linkedQuotes: quotes.filter(q => q.dealId !== null).length,
+      unlinkedQuotes: quotes.filter(q => q.dealId === null).length,
+      quotesWithIssues: quotes.filter(q => q.issues.length > 0).length,
+      dealsWithMultipleQuotes: duplicatesByDeal.size,
+      valueMismatches: issues.filter(i => i.code === 'XERO_QUOTE_VALUE_MISMATCH').length,
+      notAcceptedForWonDeals: issues.filter(i => i.code === 'XERO_QUOTE_NOT_ACCEPTED').length,
+      duplicateQuoteNumbers,
+      duplicateLineItemSets,
+      acceptedQuotesTotal: quotes
+        .filter(q => q.status === 'ACCEPTED')
+        .reduce((sum, q) => sum + q.total, 0)
+    }
   };
 }
 
-export function findDuplicateQuotes(quotes: any[]) {
-  return new Map();
-}
\ No newline at end of file
+/**
+ * Groups reconciled quotes by the deal they are linked to, keeping only deals with several active quotes
+ *
+ * @description Deleted and declined quotes are ignored, since a deal is expected to accumulate those
+ * while the customer negotiates.
+ *
+ * @param {ReconciledQuote[]} quotes - Quotes returned by {@link validateQuotesAgainstDeals}
+ * @returns {Map<number, ReconciledQuote[]>} Map of deal ID to the active quotes linked to it
+ *
+ * @example
+ * ```typescript
+ * const duplicates = findDuplicateQuotes(result.quotes);
+ * duplicates.forEach((quotes, dealId) => console.log(dealId, quotes.map(q => q.quoteNumber)));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findDuplicateQuotes(quotes: ReconciledQuote[]): Map<number, ReconciledQuote[]> {
+  const active = quotes.filter(q => q.dealId !== null && !INACTIVE_QUOTE_STATUSES.includes(q.status));
+  const byDeal = groupBy(active, q => q.dealId as number);
+  const duplicates = new Map<number, ReconciledQuote[]>();
+  byDeal.forEach((group, dealId) => {
+    if (group.length > 1) duplicates.set(dealId, group);
+  });
+  return duplicates;
+}
+
+/** Links a quote to its deal and checks value drift and acceptance status */
+function reconcileQuote(quote: any, deals: any[], tolerancePercentage: number): ReconciledQuote {
+  const deal = findLinkedDeal(quote, deals);
+  const reconciled: ReconciledQuote = {
+    quoteId: quote.QuoteID,
+    quoteNumber: quote.QuoteNumber || '',
+    status: quote.Status,
+    total: Number(quote.Total) || 0,
+    currency: quote.CurrencyCode,
+    contactId: quote.Contact?.ContactID,
+    contactName: quote.Contact?.Name,
+    reference: quote.Reference,
+    dealId: deal ? deal.id : null,
+    dealTitle: deal?.title,
+    issues: []
+  };
+
+  if (!deal) return reconciled;
+
+  const dealValue = Number(deal.value) || 0;
+  const difference = reconciled.total - dealValue;
+  const differencePercentage = dealValue !== 0
+    ? (Math.abs(difference) / Math.abs(dealValue)) * 100
+    : (reconciled.total !== 0 ? 100 : 0);
+  reconciled.dealValue = dealValue;
+  reconciled.valueDifference = difference;
+  reconciled.valueDifferencePercentage = Math.round(differencePercentage * 100) / 100;
+
+  if (reconciled.status === 'ACCEPTED' && differencePercentage > tolerancePercentage) {
+    reconciled.issues.push({
+      severity: 'error',
+      code: 'XERO_QUOTE_VALUE_MISMATCH',
+      message: `Accepted quote ${reconciled.quoteNumber} total (${reconciled.total.toLocaleString()}) differs from deal value (${dealValue.toLocaleString()}) by ${reconciled.valueDifferencePercentage}%`,
+      dealId: deal.id,
+      dealTitle: deal.title,
+      field: 'value',
+      suggestedFix: 'Sync the deal products to the Xero quote',
+      metadata: {
+        ...quoteMetadata(reconciled),
+        dealValue,
+        difference,
+        differencePercentage: reconciled.valueDifferencePercentage,
+        tolerancePercentage
+      }
+    });
+  }
+
+  const isWon = deal.status === 'won' || Boolean(deal.won_time);
+  if (isWon && PENDING_QUOTE_STATUSES.includes(reconciled.status)) {
+    reconciled.issues.push({
+      severity: 'warning',
+      code: 'XERO_QUOTE_NOT_ACCEPTED',
+      message: `Quote ${reconciled.quoteNumber} is ${reconciled.status} but deal "${deal.title}" is won`,
+      dealId: deal.id,
+      dealTitle: deal.title,
+      field: 'quoteStatus',
+      suggestedFix: 'Mark the quote as accepted in Xero',
+      metadata: quoteMetadata(reconciled)
+    });
+  }
+
+  return reconciled;
+}
+
+/** Finds the deal a quote belongs to via the deal's quote field or a "Deal ID: N" quote reference */
+function findLinkedDeal(quote: any, deals: any[]): any | null {
+  const byField = deals.find(deal =>
+    (deal.xeroQuoteId && (deal.xeroQuoteId === quote.QuoteID || deal.xeroQuoteId === quote.QuoteNumber)) ||
+    (deal.xeroQuoteNumber && deal.xeroQuoteNumber === quote.QuoteNumber)
+  );
+  if (byField) return byField;
+
+  const dealIdMatch = quote.Reference?.match(/(?:Pipedrive\s+)?Deal\s+I[dD]:\s*(\d+)/i);
+  if (dealIdMatch) {
+    const referencedDealId = parseInt(dealIdMatch[1], 10);
+    return deals.find(deal => deal.id === referencedDealId) || null;
+  }
+
+  return null;
+}
+
+/** Combines fetched quotes with the quotes already attached to deals, de-duplicated by QuoteID */
+function mergeQuotes(xeroQuotes: any[], deals: any[]): any[] {
+  const merged = new Map<string, any>();
+  for (const quote of xeroQuotes) {
+    if (quote?.QuoteID) merged.set(quote.QuoteID, quote);
+  }
+  for (const deal of deals) {
+    const quote = deal.xeroQuote;
+    if (quote?.QuoteID && !merged.has(quote.QuoteID)) merged.set(quote.QuoteID, quote);
+  }
+  return Array.from(merged.values());
+}
+
+/** Builds an order-independent signature of a quote's line items, or null when it has none */
+function lineItemSignature(lineItems: any[] | undefined): string | null {
+  if (!lineItems || lineItems.length === 0) return null;
+  return lineItems
+    .map(item => [
+      (item.Description || '').trim().toLowerCase(),
+      Number(item.Quantity) || 0,
+      Number(item.UnitAmount) || 0,
+      Number(item.DiscountRate) || 0
+    ].join('|'))
+    .sort()
+    .join('||');
+}
+
+/** Common per-quote metadata so the UI can render a quote table from any issue */
+function quoteMetadata(quote: ReconciledQuote): Record<string, any> {
+  return {
+    quoteId: quote.quoteId,
+    quoteNumber: quote.quoteNumber,
+    quoteStatus: quote.status,
+    quoteTotal: quote.total,
+    currency: quote.currency,
+    contactName: quote.contactName
+  };
+}
+
+function groupBy<T, K>(items: T[], key: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
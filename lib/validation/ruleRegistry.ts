@@ -0,0 +1,521 @@
+/**
+ * Validation rule registry
+ * Declares every validation issue code with its severity, description and auto-fix support,
+ * and applies per-tenant rule settings to the issues a validation run produces
+ */
+
+import type { ValidationIssue } from '../types/validation';
+import type { PipedriveValidationContext } from './pipedriveValidationRules';
+import { validateCustomFieldRule, type CustomFieldRule } from './customFieldRules';
+
+export type RuleSeverity = ValidationIssue['severity'];
+
+/**
+ * Rule groups, in the order they are documented
+ * All but deal_sync and quote_sync run in the Pipedrive validation workflow; those two run in the per-deal validation stream
+ */
+export type ValidationRuleGroup =
+  | 'configuration'
+  | 'deal_titles'
+  | 'quote_links'
+  | 'required_fields'
+  | 'invoice_stage'
+  | 'accepted_quotes'
+  | 'projects'
+  | 'deal_sync'
+  | 'quote_sync'
+  | 'custom_fields';
+
+export interface ValidationRuleGroupInfo {
+  id: ValidationRuleGroup;
+  title: string;
+  // Function that runs the group's checks
+  source: string;
+  purpose: string;
+}
+
+export interface ValidationRule {
+  code: string;
+  group: ValidationRuleGroup;
+  // Severity the rule reports unless a tenant overrides it
+  severity: RuleSeverity;
+  description: string;
+  // Handled by /api/sync/fix-issue
+  autoFix: boolean;
+  // Rules off by default only run for tenants that enable them
+  enabledByDefault: boolean;
+  // Standalone check for rules not covered by a group's built-in checks
+  check?: (context: PipedriveValidationContext) => ValidationIssue[];
+}
+
+// Per-tenant rule configuration
+export interface ValidationRuleSettings {
+  // Rules that are off by default to turn on
+  enabled?: string[];
+  disabled?: string[];
+  severity?: Record<string, RuleSeverity>;
+  // Tenant-defined field requirements, see customFieldRules.ts
+  custom?: CustomFieldRule[];
+}
+
+// A rule as it applied to one validation run
+export interface ValidationRuleRun {
+  code: string;
+  group: ValidationRuleGroup;
+  severity: RuleSeverity;
+  enabled: boolean;
+  severityOverridden: boolean;
+  issueCount: number;
+}
+
+export const VALIDATION_RULE_GROUPS: ValidationRuleGroupInfo[] = [
+  {
+    id: 'configuration',
+    title: 'Configuration Checks',
+    source: 'checkFieldMapping',
+    purpose: 'Checks the tenant\'s custom field mapping against its Pipedrive account before deals are validated; a missing required field stops the run'
+  },
+  {
+    id: 'deal_titles',
+    title: 'Deal Title Validation',
+    source: 'validateDealTitle',
+    purpose: 'Ensures Pipedrive deal titles follow the format `PROJECTCODE-VESSELNAME`'
+  },
+  {
+    id: 'quote_links',
+    title: 'Quote-Deal Cross-Reference Validation',
+    source: 'crossReferenceQuotes',
+    purpose: 'Validates the link between each Pipedrive deal and its Xero quote'
+  },
+  {
+    id: 'required_fields',
+    title: 'Required Fields Validation',
+    source: 'validateRequiredFields',
+    purpose: 'Ensures critical custom fields are populated; tenant-specific fields are only checked when mapped'
+  },
+  {
+    id: 'invoice_stage',
+    title: 'Invoice Stage Validation',
+    source: 'validateInvoiceStageDeals',
+    purpose: 'Ensures deals in the Invoice stage have an INVOICED quote and a matching Xero invoice'
+  },
+  {
+    id: 'accepted_quotes',
+    title: 'Accepted Quote Validation',
+    source: 'validateOrphanedAcceptedQuotes, validateAcceptedQuoteNumberFormat',
+    purpose: 'Finds accepted quotes that are unlinked, linked to the wrong deal, or numbered incorrectly'
+  },
+  {
+    id: 'projects',
+    title: 'Project Validation',
+    source: 'validateProjectsAgainstQuotes',
+    purpose: 'Validates in-progress Xero projects against accepted quotes and deals'
+  },
+  {
+    id: 'deal_sync',
+    title: 'Deal Sync Validation',
+    source: 'validateDeal',
+    purpose: 'Compares a deal with its products and linked Xero quote (per-deal validation stream)'
+  },
+  {
+    id: 'quote_sync',
+    title: 'Quote Sync Validation',
+    source: 'validateQuotesAgainstDeals, findDuplicateQuotes',
+    purpose: 'Compares accepted Xero quotes with Pipedrive deals (per-deal validation stream)'
+  },
+  {
+    id: 'custom_fields',
+    title: 'Custom Field Rules',
+    source: 'evaluateCustomFieldRules',
+    purpose: 'Tenant-defined requirements on deal fields, configured as rule settings rather than registered'
+  }
+];
+
+// Groups run by the Pipedrive validation workflow
+export const WORKFLOW_RULE_GROUPS: ValidationRuleGroup[] = [
+  'configuration',
+  'deal_titles',
+  'quote_links',
+  'required_fields',
+  'invoice_stage',
+  'accepted_quotes',
+  'projects',
+  'custom_fields'
+];
+
+function rule(
+  code: string,
+  group: ValidationRuleGroup,
+  severity: RuleSeverity,
+  description: string,
+  options: Partial<Pick<ValidationRule, 'autoFix' | 'enabledByDefault' | 'check'>> = {}
+): ValidationRule {
+  return {
+    code,
+    group,
+    severity,
+    description,
+    autoFix: options.autoFix ?? false,
+    enabledByDefault: options.enabledByDefault ?? true,
+    check: options.check
+  };
+}
+
+// "(copy)" is allowed per business requirements, so this only runs for tenants that enable it
+function checkDuplicateDealTitles(context: PipedriveValidationContext): ValidationIssue[] {
+  return context.pipedriveDeals
+    .filter(deal => (deal.title || deal.name || '').includes('(copy)'))
+    .map(deal => {
+      const title = deal.title || deal.name;
+      return {
+        severity: 'warning' as const,
+        code: 'DUPLICATE_DEAL_TITLE',
+        message: `Title "${title}" appears to be a duplicate (contains "copy")`,
+        dealId: deal.id,
+        dealTitle: title,
+        field: 'title',
+        suggestedFix: 'Remove "(copy)" and ensure unique project-vessel combination'
+      };
+    });
+}
+
+const BUILT_IN_RULES: ValidationRule[] = [
+  // Configuration
+  rule('MAPPED_FIELD_NOT_FOUND', 'configuration', 'error', 'An optional mapped custom field no longer exists in Pipedrive'),
+
+  // Deal titles
+  rule('EMPTY_TITLE', 'deal_titles', 'error', 'Deal has no title'),
+  rule('INVALID_TITLE_QUOTE_PREFIX', 'deal_titles', 'error', 'Title starts with a quote number (`QU…`) instead of a project code'),
+  rule('INVALID_TITLE_NUMBER_SEQUENCE', 'deal_titles', 'error', 'Title contains several long number sequences, e.g. `QU0362- 8203249816 - 6200035482`'),
+  rule('DUPLICATE_DEAL_TITLE', 'deal_titles', 'warning', 'Title contains "(copy)"', {
+    enabledByDefault: false,
+    check: checkDuplicateDealTitles
+  }),
+  rule('INVALID_FORMAT', 'deal_titles', 'error', 'No valid project code such as `ED12345`, `NY2594` or `MES2024001`'),
+  rule('MISSING_VESSEL', 'deal_titles', 'warning', 'Title has no vessel name', { autoFix: true }),
+  rule('INVALID_VESSEL_NAME', 'deal_titles', 'error', 'Vessel name is only numbers', { autoFix: true }),
+
+  // Quote links
+  rule('NO_QUOTE_LINKED', 'quote_links', 'info', 'Deal has no Xero quote ID'),
+  rule('QUOTE_NOT_FOUND', 'quote_links', 'error', 'Linked quote does not exist in Xero'),
+  rule('QUOTE_ID_MISMATCH', 'quote_links', 'warning', 'Quote ID field holds a quote number instead of the QuoteID'),
+  rule('QUOTE_STATUS_MISMATCH', 'quote_links', 'warning', 'Won deal has a quote that is not ACCEPTED'),
+  rule('REFERENCE_FORMAT', 'quote_links', 'info', 'Quote reference does not contain the deal ID'),
+  rule('MISSING_REFERENCE', 'quote_links', 'info', 'Quote reference does not mention the Pipedrive deal ID'),
+  rule('VALUE_MISMATCH', 'quote_links', 'warning', 'Deal value and quote total differ by more than 10% (also checked for accepted quotes that reference a deal)'),
+  rule('ORGANIZATION_MISMATCH', 'quote_links', 'warning', 'Deal organization does not match the quote contact'),
+  rule('LINE_ITEM_COUNT_MISMATCH', 'quote_links', 'info', 'Deal product count differs from the quote line item count'),
+  rule('DEBUG_FIELD_INFO', 'quote_links', 'info', 'Diagnostic: which quote ID field was read and how many quotes Xero returned'),
+
+  // Required fields
+  rule('MISSING_VESSEL_FIELD', 'required_fields', 'info', 'Vessel name custom field is empty'),
+  rule('MISSING_WOPQ_NUMBER', 'required_fields', 'warning', 'WO/PQ number custom field is empty'),
+  rule('MISSING_VESSEL_TYPE', 'required_fields', 'warning', 'Vessel type custom field is empty'),
+  rule('MISSING_SALES_REFERENCE', 'required_fields', 'warning', 'Sales reference custom field is empty'),
+
+  // Invoice stage
+  rule('INVOICE_STAGE_NO_QUOTE', 'invoice_stage', 'error', 'Deal in the Invoice stage has no quote'),
+  rule('INVOICE_STAGE_QUOTE_NOT_FOUND', 'invoice_stage', 'error', 'Quote of an Invoice stage deal does not exist in Xero'),
+  rule('INVOICE_STAGE_WRONG_STATUS', 'invoice_stage', 'error', 'Quote of an Invoice stage deal is not INVOICED'),
+  rule('INVOICE_ID_MISSING', 'invoice_stage', 'error', 'Invoice stage deal has no Xero invoice ID'),
+  rule('INVOICE_NOT_FOUND', 'invoice_stage', 'error', 'Linked invoice does not exist in Xero'),
+  rule('INVOICE_WRONG_STATUS', 'invoice_stage', 'error', 'Linked invoice is not AUTHORISED or PAID'),
+  rule('INVOICE_QUOTE_TOTAL_MISMATCH', 'invoice_stage', 'error', 'Invoice total differs from the quote total'),
+  rule('INVOICE_NUMBER_MISMATCH', 'invoice_stage', 'warning', 'Invoice number field does not match the linked invoice'),
+  rule('INVOICE_OVERDUE', 'invoice_stage', 'warning', 'Linked invoice is overdue with an amount outstanding'),
+
+  // Accepted quotes
+  rule('ORPHANED_ACCEPTED_QUOTE', 'accepted_quotes', 'warning', 'Accepted quote is not linked to any deal'),
+  rule('QUOTE_REFERENCES_MISSING_DEAL', 'accepted_quotes', 'error', 'Accepted quote references a deal that does not exist'),
+  rule('ACCEPTED_QUOTE_WRONG_PIPELINE', 'accepted_quotes', 'warning', 'Accepted quote is linked to a deal outside the work-in-progress pipelines'),
+  rule('ACCEPTED_QUOTE_LOST_DEAL', 'accepted_quotes', 'warning', 'Accepted quote is linked to a lost deal'),
+  rule('ACCEPTED_QUOTE_NO_NUMBER', 'accepted_quotes', 'error', 'Accepted quote has no quote number'),
+  rule('ACCEPTED_QUOTE_INVALID_FORMAT', 'accepted_quotes', 'error', 'Quote number is not `PROJECTNUMBER-QUNUMBER-VERSION`, e.g. `NY2594-QU22554-1`'),
+
+  // Projects
+  rule('ACCEPTED_QUOTE_NO_PROJECT', 'projects', 'warning', 'Accepted quote has no in-progress Xero project'),
+  rule('PROJECT_NO_ACCEPTED_QUOTE', 'projects', 'warning', 'In-progress project has no accepted quote'),
+  rule('PROJECT_ESTIMATE_MISMATCH', 'projects', 'warning', 'Project estimate differs from the accepted quote total'),
+  rule('PROJECT_TASKS_TOTAL_MISMATCH', 'projects', 'warning', 'Task rates × estimates differ from the accepted quote total'),
+  rule('PROJECT_CONTACT_MISMATCH', 'projects', 'warning', 'Project contact differs from the quote contact'),
+  rule('UNMATCHED_PROJECT', 'projects', 'info', 'In-progress project has no matching deal'),
+
+  // Deal sync
+  rule('DEAL_ORG_MISSING', 'deal_sync', 'error', 'Deal has no organization', { autoFix: true }),
+  rule('NO_PRODUCTS', 'deal_sync', 'warning', 'Deal has no products', { autoFix: true }),
+  rule('DEAL_PRODUCTS_VALUE_MISMATCH', 'deal_sync', 'error', 'Deal value does not match its products total', { autoFix: true }),
+  rule('CURRENCY_MISMATCH', 'deal_sync', 'error', 'Deal currency differs from the quote currency', { autoFix: true }),
+  rule('CUSTOMER_NAME_MISMATCH', 'deal_sync', 'warning', 'Deal organization differs from the quote contact', { autoFix: true }),
+
+  // Quote sync
+  rule('MULTIPLE_QUOTES_FOR_DEAL', 'quote_sync', 'warning', 'Deal has more than one active quote'),
+  rule('DUPLICATE_QUOTE_NUMBER', 'quote_sync', 'error', 'Quote number is used by more than one quote'),
+  rule('DUPLICATE_QUOTE_LINE_ITEMS', 'quote_sync', 'warning', 'Quote has the same line items as another quote'),
+  rule('XERO_QUOTE_VALUE_MISMATCH', 'quote_sync', 'error', 'Accepted quote total differs from the deal value beyond tolerance', { autoFix: true }),
+  rule('XERO_QUOTE_NOT_ACCEPTED', 'quote_sync', 'warning', 'Quote of a won deal is still DRAFT or SENT', { autoFix: true }),
+  rule('PRODUCT_COUNT_MISMATCH', 'quote_sync', 'warning', 'Quote line items do not match the deal products', { autoFix: true }),
+  rule('XERO_QUOTE_NUMBER_NO_PROJECT', 'quote_sync', 'warning', 'Quote number does not start with the project code', { autoFix: true })
+];
+
+const registry = new Map<string, ValidationRule>(BUILT_IN_RULES.map(r => [r.code, r]));
+
+/**
+ * Registers a validation rule, replacing any rule with the same code
+ *
+ * @description Rules with a `check` run in {@link validatePipedriveDeals} for every tenant that has them
+ * enabled; rules without one document a code produced by a built-in check.
+ *
+ * @param {ValidationRule} validationRule - Rule to register
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * registerValidationRule({
+ *   code: 'ZERO_VALUE_DEAL',
+ *   group: 'deal_titles',
+ *   severity: 'warning',
+ *   description: 'Won deal has no value',
+ *   autoFix: false,
+ *   enabledByDefault: true,
+ *   check: (context) => context.pipedriveDeals.filter(d => !d.value).map(d => ({ ... }))
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function registerValidationRule(validationRule: ValidationRule): void {
+  registry.set(validationRule.code, validationRule);
+}
+
+export function getValidationRule(code: string): ValidationRule | undefined {
+  return registry.get(code);
+}
+
+export function getValidationRules(): ValidationRule[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Checks whether the fix-issue endpoint can resolve an issue code
+ * @param {string} code - Issue code
+ * @returns {boolean} True if the code's rule declares auto-fix support
+ */
+export function isAutoFixable(code: string): boolean {
+  return !!registry.get(code)?.autoFix;
+}
+
+/**
+ * Checks rule settings for unknown codes, invalid severities and invalid custom rules
+ * @param {ValidationRuleSettings} settings - Settings to check
+ * @returns {string | null} Error message, or null if the settings are valid
+ */
+export function validateRuleSettings(settings: ValidationRuleSettings): string | null {
+  const customCodes = new Set<string>();
+  for (const customRule of settings.custom || []) {
+    const error = validateCustomFieldRule(customRule);
+    if (error) {
+      return `Invalid custom rule: ${error}`;
+    }
+    if (registry.has(customRule.code)) {
+      return `Custom rule ${customRule.code} uses a built-in rule code`;
+    }
+    if (customCodes.has(customRule.code)) {
+      return `Custom rule ${customRule.code} is defined more than once`;
+    }
+    customCodes.add(customRule.code);
+  }
+
+  const codes = [
+    ...(settings.enabled || []),
+    ...(settings.disabled || []),
+    ...Object.keys(settings.severity || {})
+  ];
+  const unknown = codes.filter(code => !registry.has(code) && !customCodes.has(code));
+  if (unknown.length > 0) {
+    return `Unknown validation rule codes: ${Array.from(new Set(unknown)).join(', ')}`;
+  }
+
+  const invalidSeverity = Object.entries(settings.severity || {})
+    .find(([, severity]) => !['error', 'warning', 'info'].includes(severity));
+  if (invalidSeverity) {
+    return `Invalid severity "${invalidSeverity[1]}" for ${invalidSeverity[0]}`;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the rule settings for a tenant
+ *
+ * @description Starts from the settings in the tenant's Pipedrive configuration and applies any
+ * `VALIDATION_RULE_SETTINGS` entry for the tenant on top, e.g.
+ * `{"6dd39ea4-...":{"disabled":["DEBUG_FIELD_INFO"],"severity":{"NO_QUOTE_LINKED":"warning"}}}`.
+ * A custom rule from the environment replaces a configured one with the same code. Invalid custom
+ * rules, and custom rules reusing a built-in code, are left out so one mistake does not stop validation.
+ *
+ * @param {string} tenantId - Xero tenant ID
+ * @param {ValidationRuleSettings} [configured] - Settings from the tenant configuration
+ * @returns {ValidationRuleSettings} Combined settings
+ *
+ * @example
+ * ```typescript
+ * const rules = new ValidationRuleSet(resolveValidationRuleSettings(tenantId, pipedriveConfig.validationRules));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function resolveValidationRuleSettings(
+  tenantId: string,
+  configured: ValidationRuleSettings = {}
+): ValidationRuleSettings {
+  let fromEnv: ValidationRuleSettings = {};
+  if (process.env.VALIDATION_RULE_SETTINGS) {
+    try {
+      fromEnv = JSON.parse(process.env.VALIDATION_RULE_SETTINGS)[tenantId] || {};
+    } catch (error) {
+      console.error('Invalid VALIDATION_RULE_SETTINGS configuration, ignoring it:', error);
+    }
+  }
+
+  const custom = new Map<string, CustomFieldRule>();
+  for (const customRule of [...(configured.custom || []), ...(fromEnv.custom || [])]) {
+    const error = validateCustomFieldRule(customRule) ||
+      (registry.has(customRule.code) ? `${customRule.code} is a built-in rule code` : null);
+    if (error) {
+      console.error(`Skipping invalid custom rule for tenant ${tenantId}: ${error}`);
+      continue;
+    }
+    custom.set(customRule.code, customRule);
+  }
+
+  return {
+    enabled: [...(configured.enabled || []), ...(fromEnv.enabled || [])],
+    disabled: [...(configured.disabled || []), ...(fromEnv.disabled || [])],
+    severity: { ...configured.severity, ...fromEnv.severity },
+    custom: Array.from(custom.values())
+  };
+}
+
+/**
+ * A tenant's view of the registry, used while validating
+ */
+export class ValidationRuleSet {
+  private readonly enabled: Set<string>;
+  private readonly disabled: Set<string>;
+  private readonly custom: Map<string, CustomFieldRule>;
+
+  constructor(readonly settings: ValidationRuleSettings = {}) {
+    this.enabled = new Set(settings.enabled || []);
+    this.disabled = new Set(settings.disabled || []);
+    this.custom = new Map((settings.custom || []).map(r => [r.code, r]));
+  }
+
+  /** The tenant's custom field rules that are not disabled */
+  get customRules(): CustomFieldRule[] {
+    return Array.from(this.custom.values()).filter(r => !this.disabled.has(r.code));
+  }
+
+  /** Unregistered codes are always enabled, so new checks are never silently dropped */
+  isEnabled(code: string): boolean {
+    if (this.disabled.has(code)) return false;
+    const registered = registry.get(code);
+    return !registered || registered.enabledByDefault || this.enabled.has(code);
+  }
+
+  severityFor(code: string): RuleSeverity | undefined {
+    return this.settings.severity?.[code] || registry.get(code)?.severity || this.custom.get(code)?.severity;
+  }
+
+  /** Drops issues from disabled rules and applies severity overrides */
+  apply<T extends { code: string; severity: RuleSeverity }>(issues: T[]): T[] {
+    return issues
+      .filter(issue => this.isEnabled(issue.code))
+      .map(issue => {
+        const severity = this.settings.severity?.[issue.code];
+        return severity && severity !== issue.severity ? { ...issue, severity } : issue;
+      });
+  }
+
+  /** Issues from the enabled rules that have a standalone check */
+  runChecks(context: PipedriveValidationContext): ValidationIssue[] {
+    return getValidationRules()
+      .filter(r => r.check && this.isEnabled(r.code))
+      .flatMap(r => r.check!(context));
+  }
+
+  /**
+   * Lists the rules of the given groups, including the tenant's custom rules, with their effective settings and issue counts
+   * @param {{ code: string }[]} issues - Issues the run reported, after {@link apply}
+   * @param {ValidationRuleGroup[]} [groups=WORKFLOW_RULE_GROUPS] - Groups that ran
+   * @returns {ValidationRuleRun[]} One entry per rule, in registry order
+   */
+  describeRun(issues: { code: string }[], groups: ValidationRuleGroup[] = WORKFLOW_RULE_GROUPS): ValidationRuleRun[] {
+    const counts = new Map<string, number>();
+    for (const issue of issues) {
+      counts.set(issue.code, (counts.get(issue.code) || 0) + 1);
+    }
+
+    const rules: Array<{ code: string; group: ValidationRuleGroup; severity: RuleSeverity }> = [
+      ...getValidationRules(),
+      ...Array.from(this.custom.values()).map(r => ({ code: r.code, group: 'custom_fields' as const, severity: r.severity }))
+    ];
+
+    return rules
+      .filter(r => groups.includes(r.group))
+      .map(r => ({
+        code: r.code,
+        group: r.group,
+        severity: this.severityFor(r.code) || r.severity,
+        enabled: this.isEnabled(r.code),
+        severityOverridden: !!this.settings.severity?.[r.code] && this.settings.severity[r.code] !== r.severity,
+        issueCount: counts.get(r.code) || 0
+      }));
+  }
+}
+
+/**
+ * Renders the registry as the VALIDATION_RULES.md document
+ *
+ * @returns {string} Markdown listing every rule group and rule
+ *
+ * @example
+ * ```typescript
+ * const markdown = renderValidationRulesMarkdown();
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function renderValidationRulesMarkdown(): string {
+  const lines: string[] = [
+    '# Validation Rules',
+    '',
+    '<!-- Generated from lib/validation/ruleRegistry.ts. Do not edit by hand; download a fresh copy from GET /api/sync/validation-rules?format=markdown -->',
+    '',
+    'Every issue code the Pipedrive-Xero validation can report. Tenants can enable rules that are off by default, disable rules,',
+    'or change a rule\'s severity through `validationRules` in their tenant configuration or the `VALIDATION_RULE_SETTINGS` environment variable.',
+    'Tenants can also define their own field requirements under `custom` (see `lib/validation/customFieldRules.ts`); those are not listed here.',
+    ''
+  ];
+
+  VALIDATION_RULE_GROUPS.forEach((group, index) => {
+    const rules = getValidationRules().filter(r => r.group === group.id);
+    if (rules.length === 0) return;
+
+    lines.push(
+      '---',
+      '',
+      `## ${index + 1}. ${group.title} (\`${group.source}\`)`,
+      '',
+      group.purpose,
+      '',
+      '| Code | Severity | Description | Auto-fix | Default |',
+      '| --- | --- | --- | --- | --- |',
+      ...rules.map(r =>
+        `| \`${r.code}\` | ${r.severity} | ${r.description.replace(/\|/g, '\\|')} | ${r.autoFix ? 'Yes' : '-'} | ${r.enabledByDefault ? 'On' : 'Off'} |`
+      ),
+      ''
+    );
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,257 @@
+/**
+ * Validation run history: stores each validation run per tenant and compares runs
+ */
+
+import { withRedis } from '../redis/redisClient';
+import type { ValidationIssue, ValidationSummary } from '../types/validation';
+
+export interface ValidationRunIssue {
+  key: string;
+  code: string;
+  severity: ValidationIssue['severity'];
+  message: string;
+  field?: string;
+  dealId?: number;
+  dealTitle?: string;
+  quoteNumber?: string;
+}
+
+export interface ValidationRunRecord {
+  id: string;
+  tenantId: string;
+  tenantName?: string;
+  timestamp: string;
+  summary: ValidationSummary;
+  issueCount: number;
+  issues: ValidationRunIssue[];
+}
+
+export type ValidationRunListItem = Omit<ValidationRunRecord, 'issues'>;
+
+export interface ValidationRunDiff {
+  fromRun: ValidationRunListItem;
+  toRun: ValidationRunListItem;
+  introduced: ValidationRunIssue[];
+  resolved: ValidationRunIssue[];
+  stillOpen: ValidationRunIssue[];
+  counts: {
+    introduced: number;
+    resolved: number;
+    stillOpen: number;
+    netChange: number;
+  };
+}
+
+const RUN_TTL_SECONDS = 180 * 24 * 60 * 60; // 180 days
+const MAX_RUNS_PER_TENANT = 200;
+
+/** Redis-backed run store: one key per run plus a sorted index of run summaries per tenant */
+export class ValidationRunStore {
+  private static runKey(tenantId: string, runId: string): string {
+    return `validation-runs:${tenantId}:run:${runId}`;
+  }
+
+  private static indexKey(tenantId: string): string {
+    return `validation-runs:${tenantId}:index`;
+  }
+
+  static async save(run: ValidationRunRecord): Promise<void> {
+    await withRedis(async (redis) => {
+      const indexKey = this.indexKey(run.tenantId);
+
+      await redis.set(this.runKey(run.tenantId, run.id), JSON.stringify(run), 'EX', RUN_TTL_SECONDS);
+      await redis.zadd(indexKey, new Date(run.timestamp).getTime(), JSON.stringify(toListItem(run)));
+
+      // Drop the oldest runs beyond the retention limit
+      const expired = await redis.zrange(indexKey, 0, -(MAX_RUNS_PER_TENANT + 1));
+      if (expired.length > 0) {
+        await redis.zremrangebyrank(indexKey, 0, expired.length - 1);
+        await redis.del(...expired.map(item => this.runKey(run.tenantId, JSON.parse(item).id)));
+      }
+      await redis.expire(indexKey, RUN_TTL_SECONDS);
+    });
+  }
+
+  static async get(tenantId: string, runId: string): Promise<ValidationRunRecord | null> {
+    return withRedis(async (redis) => {
+      const data = await redis.get(this.runKey(tenantId, runId));
+      return data ? JSON.parse(data) : null;
+    });
+  }
+
+  static async list(tenantId: string, limit: number = 50): Promise<ValidationRunListItem[]> {
+    return withRedis(async (redis) => {
+      const items = await redis.zrevrange(this.indexKey(tenantId), 0, limit - 1);
+      return items.map(item => JSON.parse(item));
+    });
+  }
+}
+
+/**
+ * Builds the key that identifies the same issue across validation runs
+ *
+ * @description Issues are matched on their code and deal, so an issue whose message changes between runs
+ * (for example a different value difference) is still treated as the same open issue. Issues that are not
+ * tied to a deal, such as orphaned accepted quotes, fall back to the quote or project they concern so
+ * they are not collapsed into one.
+ *
+ * @param {Pick<ValidationIssue, 'code' | 'dealId' | 'metadata'>} issue - Issue to key
+ * @returns {string} Key in the form `CODE:dealId`
+ *
+ * @example
+ * ```typescript
+ * getIssueKey({ code: 'CURRENCY_MISMATCH', dealId: 1234 }); // "CURRENCY_MISMATCH:1234"
+ * getIssueKey({ code: 'ORPHANED_ACCEPTED_QUOTE', metadata: { quoteId: 'abc' } }); // "ORPHANED_ACCEPTED_QUOTE:quote-abc"
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getIssueKey(issue: Pick<ValidationIssue, 'code' | 'dealId' | 'metadata'>): string {
+  if (issue.dealId !== undefined && issue.dealId !== null) {
+    return `${issue.code}:${issue.dealId}`;
+  }
+  if (issue.metadata?.projectId) {
+    return `${issue.code}:project-${issue.metadata.projectId}`;
+  }
+  if (issue.metadata?.quoteId) {
+    return `${issue.code}:quote-${issue.metadata.quoteId}`;
+  }
+  return `${issue.code}:-`;
+}
+
+export interface ValidationRunInput {
+  id: string;
+  tenantId: string;
+  tenantName?: string;
+  timestamp: Date | string;
+  summary: ValidationSummary;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Builds the stored form of a validation run without saving it
+ *
+ * @description Keeps the run's summary and a compact copy of every issue (without metadata), collapsing
+ * issues that share a key so each code/deal pair is counted once.
+ *
+ * @param {ValidationRunInput} run - Run identity and results
+ * @returns {ValidationRunRecord} Record ready to store or diff
+ *
+ * @example
+ * ```typescript
+ * const current = buildValidationRunRecord({ id: session.id, tenantId, ...session.validationResults });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function buildValidationRunRecord(run: ValidationRunInput): ValidationRunRecord {
+  const issuesByKey = new Map<string, ValidationRunIssue>();
+  run.issues.forEach(issue => {
+    const key = getIssueKey(issue);
+    if (!issuesByKey.has(key)) {
+      issuesByKey.set(key, {
+        key,
+        code: issue.code,
+        severity: issue.severity,
+        message: issue.message,
+        field: issue.field,
+        dealId: issue.dealId,
+        dealTitle: issue.dealTitle,
+        quoteNumber: issue.metadata?.quoteNumber
+      });
+    }
+  });
+
+  return {
+    id: run.id,
+    tenantId: run.tenantId,
+    tenantName: run.tenantName,
+    timestamp: new Date(run.timestamp).toISOString(),
+    summary: run.summary,
+    issueCount: issuesByKey.size,
+    issues: Array.from(issuesByKey.values())
+  };
+}
+
+/**
+ * Stores a completed validation run in the tenant's history
+ *
+ * @param {ValidationRunInput} run - Run identity and results
+ * @returns {Promise<ValidationRunRecord>} The stored run record
+ *
+ * @example
+ * ```typescript
+ * await saveValidationRun({
+ *   id: session.id,
+ *   tenantId,
+ *   timestamp: result.timestamp,
+ *   summary: result.summary,
+ *   issues: result.issues
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function saveValidationRun(run: ValidationRunInput): Promise<ValidationRunRecord> {
+  const record = buildValidationRunRecord(run);
+  await ValidationRunStore.save(record);
+  return record;
+}
+
+/**
+ * Compares two validation runs issue by issue
+ *
+ * @description Classifies every issue key as introduced (only in the later run), resolved (only in the
+ * earlier run) or still open (in both). The runs are ordered by timestamp, so the arguments can be
+ * passed either way round.
+ *
+ * @param {ValidationRunRecord} runA - One stored run
+ * @param {ValidationRunRecord} runB - The other stored run
+ * @returns {ValidationRunDiff} Issues grouped by how they changed between the runs
+ *
+ * @example
+ * ```typescript
+ * const diff = diffValidationRuns(lastWeek, today);
+ * console.log(`${diff.counts.resolved} resolved, ${diff.counts.introduced} new`);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function diffValidationRuns(runA: ValidationRunRecord, runB: ValidationRunRecord): ValidationRunDiff {
+  const [fromRun, toRun] = new Date(runA.timestamp).getTime() <= new Date(runB.timestamp).getTime()
+    ? [runA, runB]
+    : [runB, runA];
+
+  const fromKeys = new Set(fromRun.issues.map(issue => issue.key));
+  const toKeys = new Set(toRun.issues.map(issue => issue.key));
+
+  const introduced = toRun.issues.filter(issue => !fromKeys.has(issue.key));
+  const resolved = fromRun.issues.filter(issue => !toKeys.has(issue.key));
+  const stillOpen = toRun.issues.filter(issue => fromKeys.has(issue.key));
+
+  return {
+    fromRun: toListItem(fromRun),
+    toRun: toListItem(toRun),
+    introduced,
+    resolved,
+    stillOpen,
+    counts: {
+      introduced: introduced.length,
+      resolved: resolved.length,
+      stillOpen: stillOpen.length,
+      netChange: introduced.length - resolved.length
+    }
+  };
+}
+
+/** Run details without the issue list, as shown in the history index */
+function toListItem(run: ValidationRunRecord): ValidationRunListItem {
+  return {
+    id: run.id,
+    tenantId: run.tenantId,
+    tenantName: run.tenantName,
+    timestamp: run.timestamp,
+    summary: run.summary,
+    issueCount: run.issueCount
+  };
+}